@@ -0,0 +1,13 @@
+// A lightweight stand-in for `@server/helpers/utils`, which pulls in the whole server (Electron, the databases, etc.)
+
+export const isNotEmpty = (value: any, trim = true): boolean => {
+    if (!value) return false;
+    if (typeof value === "string") return (trim ? value.trim() : value).length > 0;
+    if (Array.isArray(value)) return (trim ? value.filter(i => isNotEmpty(i)) : value).length > 0;
+    if (typeof value === "object") return Object.keys(value).length > 0;
+    return true;
+};
+
+export const isEmpty = (value: any, trim = true): boolean => !isNotEmpty(value, trim);
+
+export const safeTrim = (value: string) => (value ?? "").trim();
@@ -4,6 +4,7 @@ import { isNotEmpty } from "@server/helpers/utils";
 
 // Middleware
 import { AuthMiddleware } from "./middleware/authMiddleware";
+import { EncryptionMiddleware } from "./middleware/encryptionMiddleware";
 
 // Routers
 import { ThemeRouter } from "./routers/themeRouter";
@@ -35,9 +36,23 @@ import { AlertsValidator } from "./validators/alertsValidator";
 import { ScheduledMessageValidator } from "./validators/scheduledMessageValidator";
 import { ScheduledMessageRouter } from "./routers/scheduledMessageRouter";
 import { ThemeValidator } from "./validators/themeValidator";
+import { FaceTimeValidator } from "./validators/facetimeValidator";
 import type { Context, Next } from "koa";
 import { FindMyRouter } from "./routers/findmyRouter";
+import { FindMyValidator } from "./validators/findmyValidator";
 import { getLogger } from "@server/lib/logging/Loggable";
+import { ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import { ScopeMiddleware } from "./middleware/scopeMiddleware";
+import { ApiTokenRouter } from "./routers/apiTokenRouter";
+import { ApiTokenValidator } from "./validators/apiTokenValidator";
+import { WebhookRouter } from "./routers/webhookRouter";
+import { WebhookValidator } from "./validators/webhookValidator";
+import { EventRouter } from "./routers/eventRouter";
+import { EventValidator } from "./validators/eventValidator";
+import { EncryptionRouter } from "./routers/encryptionRouter";
+import { EncryptionValidator } from "./validators/encryptionValidator";
+import { AnalyticsRouter } from "./routers/analyticsRouter";
+import { AnalyticsValidator } from "./validators/analyticsValidator";
 
 export class HttpRoutes {
     static version = 1;
@@ -47,7 +62,7 @@ export class HttpRoutes {
     static defaultResponseTimeout = 5 * 60 * 1000; // 5 minutes
 
     private static get protected() {
-        return [...HttpRoutes.unprotected, AuthMiddleware];
+        return [...HttpRoutes.unprotected, AuthMiddleware, EncryptionMiddleware];
     }
 
     private static get unprotected() {
@@ -72,6 +87,7 @@ export class HttpRoutes {
                 name: "macOS",
                 middleware: HttpRoutes.protected,
                 prefix: "mac",
+                scopes: [ApiTokenScope.SERVER_ADMIN],
                 responseTimeoutMs: 30 * 1000,
                 routes: [
                     {
@@ -90,6 +106,7 @@ export class HttpRoutes {
                 name: "iCloud",
                 middleware: HttpRoutes.protected,
                 prefix: "icloud",
+                scopes: [ApiTokenScope.SERVER_ADMIN],
                 routes: [
                     {
                         method: HttpMethod.GET,
@@ -112,23 +129,60 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: "findmy/devices",
+                        scopes: [ApiTokenScope.FINDMY],
                         controller: FindMyRouter.devices
                     },
                     {
                         method: HttpMethod.POST,
                         path: "findmy/devices/refresh",
+                        scopes: [ApiTokenScope.FINDMY],
                         controller: FindMyRouter.refreshDevices
                     },
                     {
                         method: HttpMethod.GET,
                         path: "findmy/friends",
+                        scopes: [ApiTokenScope.FINDMY],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: FindMyRouter.friends
                     },
                     {
                         method: HttpMethod.POST,
                         path: "findmy/friends/refresh",
+                        scopes: [ApiTokenScope.FINDMY],
                         controller: FindMyRouter.refreshFriends
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "findmy/history",
+                        scopes: [ApiTokenScope.FINDMY],
+                        validators: [FindMyValidator.validateGetHistory],
+                        controller: FindMyRouter.getHistory
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "findmy/geofences",
+                        scopes: [ApiTokenScope.FINDMY],
+                        controller: FindMyRouter.getGeofences
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: "findmy/geofences",
+                        scopes: [ApiTokenScope.FINDMY],
+                        validators: [FindMyValidator.validateCreateGeofence],
+                        controller: FindMyRouter.createGeofence
+                    },
+                    {
+                        method: HttpMethod.PUT,
+                        path: "findmy/geofences/:id",
+                        scopes: [ApiTokenScope.FINDMY],
+                        validators: [FindMyValidator.validateUpdateGeofence],
+                        controller: FindMyRouter.updateGeofence
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: "findmy/geofences/:id",
+                        scopes: [ApiTokenScope.FINDMY],
+                        controller: FindMyRouter.deleteGeofence
                     }
                 ]
             },
@@ -136,6 +190,7 @@ export class HttpRoutes {
                 name: "Server",
                 middleware: HttpRoutes.protected,
                 prefix: "server",
+                scopes: [ApiTokenScope.SERVER_ADMIN],
                 routes: [
                     {
                         method: HttpMethod.GET,
@@ -147,6 +202,11 @@ export class HttpRoutes {
                         path: "logs",
                         controller: ServerRouter.getLogs
                     },
+                    {
+                        method: HttpMethod.GET,
+                        path: "metrics",
+                        controller: ServerRouter.getMetrics
+                    },
                     {
                         method: HttpMethod.GET,
                         path: "restart/soft",
@@ -194,6 +254,46 @@ export class HttpRoutes {
                         method: HttpMethod.GET,
                         path: "statistics/media/chat",
                         controller: ServerRouter.getStatMediaByChat
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "events",
+                        scopes: [ApiTokenScope.READ_MESSAGES],
+                        validators: [EventValidator.validateGetEvents],
+                        controller: EventRouter.getEventsSince
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "token",
+                        controller: ApiTokenRouter.get
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: "token",
+                        validators: [ApiTokenValidator.validateCreate],
+                        controller: ApiTokenRouter.create
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: "token/:id",
+                        controller: ApiTokenRouter.delete
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "encryption/key",
+                        controller: EncryptionRouter.getKeys
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: "encryption/key",
+                        scopes: [ApiTokenScope.READ_MESSAGES],
+                        validators: [EncryptionValidator.validateExchange],
+                        controller: EncryptionRouter.exchangeKey
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: "encryption/key/:id",
+                        controller: EncryptionRouter.revokeKey
                     }
                 ]
             },
@@ -201,6 +301,7 @@ export class HttpRoutes {
                 name: "FCM",
                 middleware: HttpRoutes.protected,
                 prefix: "fcm",
+                scopes: [ApiTokenScope.READ_MESSAGES],
                 routes: [
                     {
                         method: HttpMethod.POST,
@@ -208,10 +309,46 @@ export class HttpRoutes {
                         validators: [FcmValidator.validateRegistration],
                         controller: FcmRouter.registerDevice
                     },
+                    {
+                        method: HttpMethod.GET,
+                        path: "device/:id",
+                        scopes: [ApiTokenScope.SERVER_ADMIN],
+                        controller: FcmRouter.getDevice
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: "device/:id",
+                        scopes: [ApiTokenScope.SERVER_ADMIN],
+                        controller: FcmRouter.revokeDevice
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "device/:id/preferences",
+                        scopes: [ApiTokenScope.SERVER_ADMIN],
+                        controller: FcmRouter.getDevicePreferences
+                    },
+                    {
+                        method: HttpMethod.PUT,
+                        path: "device/:id/preferences",
+                        scopes: [ApiTokenScope.SERVER_ADMIN],
+                        validators: [FcmValidator.validatePreferences],
+                        controller: FcmRouter.updateDevicePreferences
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: "device/:id/preferences",
+                        scopes: [ApiTokenScope.SERVER_ADMIN],
+                        controller: FcmRouter.resetDevicePreferences
+                    },
                     {
                         method: HttpMethod.GET,
                         path: "client",
                         controller: FcmRouter.getClientConfig
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "webpush/key",
+                        controller: FcmRouter.getWebPushKey
                     }
                 ]
             },
@@ -219,6 +356,7 @@ export class HttpRoutes {
                 name: "Attachment",
                 middleware: HttpRoutes.protected,
                 prefix: "attachment",
+                scopes: [ApiTokenScope.READ_MESSAGES],
                 routes: [
                     {
                         method: HttpMethod.GET,
@@ -228,12 +366,53 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: "upload",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [AttachmentValidator.validateUpload],
                         controller: AttachmentRouter.uploadAttachment,
                         // 30 minute timeout for uploads
                         requestTimeoutMs: 30 * 60 * 1000
                     },
+                    {
+                        method: HttpMethod.POST,
+                        path: "upload/session",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
+                        validators: [AttachmentValidator.validateCreateUploadSession],
+                        controller: AttachmentRouter.createUploadSession
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "upload/session/:id",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
+                        controller: AttachmentRouter.getUploadSession
+                    },
+                    {
+                        method: HttpMethod.PUT,
+                        path: "upload/session/:id",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
+                        validators: [AttachmentValidator.validateUploadChunk],
+                        controller: AttachmentRouter.uploadChunk,
+                        // Chunks are small, so they shouldn't need the full upload timeout
+                        requestTimeoutMs: 10 * 60 * 1000
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: "upload/session/:id/finalize",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
+                        controller: AttachmentRouter.finalizeUploadSession,
+                        requestTimeoutMs: 10 * 60 * 1000
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: "upload/session/:id",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
+                        controller: AttachmentRouter.cancelUploadSession
+                    },
                     {
                         method: HttpMethod.GET,
                         path: ":guid/download",
@@ -278,10 +457,12 @@ export class HttpRoutes {
                 name: "Chat",
                 middleware: HttpRoutes.protected,
                 prefix: "chat",
+                scopes: [ApiTokenScope.READ_MESSAGES],
                 routes: [
                     {
                         method: HttpMethod.POST,
                         path: "new",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected],
                         validators: [ChatValidator.validateCreate],
                         controller: ChatRouter.create
@@ -297,12 +478,47 @@ export class HttpRoutes {
                         validators: [ChatValidator.validateQuery],
                         controller: ChatRouter.query
                     },
+                    {
+                        method: HttpMethod.GET,
+                        path: "metadata",
+                        controller: ChatRouter.getAllMetadata
+                    },
+                    {
+                        method: HttpMethod.PUT,
+                        path: "metadata/pinned",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
+                        validators: [ChatValidator.validatePinOrder],
+                        controller: ChatRouter.setPinOrder
+                    },
                     {
                         method: HttpMethod.GET,
                         path: ":guid/message",
                         validators: [ChatValidator.validateGetMessages],
                         controller: ChatRouter.getMessages
                     },
+                    {
+                        method: HttpMethod.POST,
+                        path: ":guid/export",
+                        validators: [ChatValidator.validateExport],
+                        controller: ChatRouter.createExport
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":guid/export",
+                        controller: ChatRouter.getExports
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":guid/export/:id",
+                        controller: ChatRouter.getExport
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":guid/export/:id/download",
+                        controller: ChatRouter.downloadExport,
+                        // 30 minute timeout for this to account for people on slow connections
+                        responseTimeoutMs: 30 * 60 * 1000
+                    },
                     {
                         method: HttpMethod.GET,
                         path: ":guid/share/contact/status",
@@ -312,30 +528,71 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: ":guid/share/contact",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.shareContact
                     },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":guid/metadata",
+                        controller: ChatRouter.getMetadata
+                    },
+                    {
+                        method: HttpMethod.PUT,
+                        path: ":guid/metadata",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
+                        validators: [ChatValidator.validateMetadata],
+                        controller: ChatRouter.updateMetadata
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: ":guid/metadata",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
+                        controller: ChatRouter.deleteMetadata
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":guid/draft",
+                        controller: ChatRouter.getDraft
+                    },
+                    {
+                        method: HttpMethod.PUT,
+                        path: ":guid/draft",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        validators: [ChatValidator.validateDraft],
+                        controller: ChatRouter.saveDraft
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: ":guid/draft",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
+                        controller: ChatRouter.deleteDraft
+                    },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/read",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.markRead
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/unread",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.markUnread
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/leave",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.leaveChat
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/participant",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [ChatValidator.validateToggleParticipant],
                         controller: ChatRouter.addParticipant
@@ -343,6 +600,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.DELETE,
                         path: ":guid/participant",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [ChatValidator.validateToggleParticipant],
                         controller: ChatRouter.removeParticipant
@@ -350,6 +608,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: ":guid/participant/add",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [ChatValidator.validateToggleParticipant],
                         controller: ChatRouter.addParticipant
@@ -357,6 +616,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: ":guid/participant/remove",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [ChatValidator.validateToggleParticipant],
                         controller: ChatRouter.removeParticipant
@@ -364,18 +624,21 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: ":guid/typing",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.startTyping
                     },
                     {
                         method: HttpMethod.DELETE,
                         path: ":guid/typing",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.stopTyping
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/icon",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [ChatValidator.validateGroupChatIcon],
                         controller: ChatRouter.setGroupChatIcon
@@ -383,6 +646,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.DELETE,
                         path: ":guid/icon",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.removeGroupChatIcon
                     },
@@ -395,12 +659,14 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.DELETE,
                         path: ":guid/:messageGuid",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.deleteChatMessage
                     },
                     {
                         method: HttpMethod.PUT,
                         path: ":guid",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [ChatValidator.validateUpdate],
                         controller: ChatRouter.update
@@ -413,6 +679,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.DELETE,
                         path: ":guid",
+                        scopes: [ApiTokenScope.MANAGE_CHATS],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.deleteChat
                     }
@@ -422,28 +689,33 @@ export class HttpRoutes {
                 name: "Message",
                 middleware: HttpRoutes.protected,
                 prefix: "message",
+                scopes: [ApiTokenScope.READ_MESSAGES],
                 routes: [
                     {
                         method: HttpMethod.POST,
                         path: "text",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [MessageValidator.validateText],
                         controller: MessageRouter.sendText
                     },
                     {
                         method: HttpMethod.POST,
                         path: "attachment",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [MessageValidator.validateAttachment],
                         controller: MessageRouter.sendAttachment
                     },
                     {
                         method: HttpMethod.POST,
                         path: "multipart",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [MessageValidator.validateMultipart],
                         controller: MessageRouter.sendMultipartMessage
                     },
                     {
                         method: HttpMethod.POST,
                         path: "react",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [MessageValidator.validateReaction],
                         controller: MessageRouter.react
@@ -471,6 +743,23 @@ export class HttpRoutes {
                         validators: [MessageValidator.validateQuery],
                         controller: MessageRouter.query
                     },
+                    {
+                        method: HttpMethod.POST,
+                        path: "search",
+                        validators: [MessageValidator.validateSearch],
+                        controller: MessageRouter.search
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "outgoing",
+                        controller: MessageRouter.getOutgoing
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "link-preview",
+                        validators: [MessageValidator.validateLinkPreview],
+                        controller: MessageRouter.getLinkPreview
+                    },
                     {
                         method: HttpMethod.GET,
                         path: "schedule",
@@ -479,6 +768,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: "schedule",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [ScheduledMessageValidator.validateScheduledMessage],
                         controller: ScheduledMessageRouter.createScheduledMessage
                     },
@@ -490,12 +780,14 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.PUT,
                         path: "schedule/:id",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [ScheduledMessageValidator.validateScheduledMessage],
                         controller: ScheduledMessageRouter.updateScheduledMessage
                     },
                     {
                         method: HttpMethod.DELETE,
                         path: "schedule/:id",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         controller: ScheduledMessageRouter.deleteById
                     },
                     {
@@ -504,21 +796,30 @@ export class HttpRoutes {
                         validators: [MessageValidator.validateFind],
                         controller: MessageRouter.find
                     },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":guid/thread",
+                        validators: [MessageValidator.validateThread],
+                        controller: MessageRouter.getThread
+                    },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/edit",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [MessageValidator.validateEdit],
                         controller: MessageRouter.editMessage
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/unsend",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         validators: [MessageValidator.validateUnsend],
                         controller: MessageRouter.unsendMessage
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/notify",
+                        scopes: [ApiTokenScope.SEND_MESSAGES],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: MessageRouter.notify
                     },
@@ -535,6 +836,7 @@ export class HttpRoutes {
                 name: "Handle",
                 middleware: HttpRoutes.protected,
                 prefix: "handle",
+                scopes: [ApiTokenScope.READ_MESSAGES],
                 routes: [
                     {
                         method: HttpMethod.GET,
@@ -574,10 +876,61 @@ export class HttpRoutes {
                     }
                 ]
             },
+            {
+                name: "Analytics",
+                middleware: HttpRoutes.protected,
+                prefix: "analytics",
+                scopes: [ApiTokenScope.READ_MESSAGES],
+                routes: [
+                    {
+                        method: HttpMethod.GET,
+                        path: "messages",
+                        validators: [AnalyticsValidator.validateTimeSeries],
+                        controller: AnalyticsRouter.getMessageTimeSeries
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "messages/heatmap",
+                        validators: [AnalyticsValidator.validateRange],
+                        controller: AnalyticsRouter.getMessageHeatmap
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "messages/response-times",
+                        validators: [AnalyticsValidator.validateRange],
+                        controller: AnalyticsRouter.getResponseTimes
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "chats",
+                        validators: [AnalyticsValidator.validateTotals],
+                        controller: AnalyticsRouter.getChatTotals
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "handles",
+                        validators: [AnalyticsValidator.validateTotals],
+                        controller: AnalyticsRouter.getHandleTotals
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "reactions",
+                        validators: [AnalyticsValidator.validateRange],
+                        controller: AnalyticsRouter.getReactionBreakdown
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "attachments",
+                        validators: [AnalyticsValidator.validateTimeSeries],
+                        controller: AnalyticsRouter.getAttachmentTimeSeries
+                    }
+                ]
+            },
             {
                 name: "FaceTime",
                 middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                 prefix: "facetime",
+                scopes: [ApiTokenScope.PRIVATE_API],
                 routes: [
                     {
                         method: HttpMethod.POST,
@@ -593,6 +946,15 @@ export class HttpRoutes {
                         method: HttpMethod.POST,
                         path: "leave/:call_uuid",
                         controller: FaceTimeRouter.leave
+                    },
+                    {
+                        // The call log doesn't need the Private API to be running
+                        method: HttpMethod.GET,
+                        path: "calls",
+                        scopes: [ApiTokenScope.READ_MESSAGES],
+                        middleware: HttpRoutes.protected,
+                        validators: [FaceTimeValidator.validateGetCalls],
+                        controller: FaceTimeRouter.getCalls
                     }
                 ]
             },
@@ -600,6 +962,7 @@ export class HttpRoutes {
                 name: "Contact",
                 middleware: HttpRoutes.protected,
                 prefix: "contact",
+                scopes: [ApiTokenScope.READ_MESSAGES],
                 routes: [
                     {
                         method: HttpMethod.GET,
@@ -609,6 +972,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: "",
+                        scopes: [ApiTokenScope.SERVER_ADMIN],
                         controller: ContactRouter.create,
                         // Increase the timeout to 5 minutes for requests in case there are avatars
                         requestTimeoutMs: 5 * 60 * 1000
@@ -620,10 +984,40 @@ export class HttpRoutes {
                     }
                 ]
             },
+            {
+                name: "Webhook",
+                middleware: HttpRoutes.protected,
+                prefix: "webhook",
+                scopes: [ApiTokenScope.SERVER_ADMIN],
+                routes: [
+                    {
+                        method: HttpMethod.GET,
+                        path: "",
+                        controller: WebhookRouter.get
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "delivery",
+                        validators: [WebhookValidator.validateGetDeliveries],
+                        controller: WebhookRouter.getDeliveries
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: "delivery/:id",
+                        controller: WebhookRouter.getDelivery
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: "delivery/:id/redeliver",
+                        controller: WebhookRouter.redeliver
+                    }
+                ]
+            },
             {
                 name: "Backup",
                 middleware: HttpRoutes.protected,
                 prefix: "backup",
+                scopes: [ApiTokenScope.SERVER_ADMIN],
                 routes: [
                     {
                         method: HttpMethod.GET,
@@ -761,8 +1155,12 @@ export class HttpRoutes {
             resTimeout = group.responseTimeoutMs;
         }
 
+        // Prioritize the route scopes over the group scopes
+        const scopes = route.scopes ?? group.scopes ?? [];
+
         return [
             ...(route?.middleware ?? group.middleware ?? []),
+            ...(isNotEmpty(scopes) ? [ScopeMiddleware(scopes)] : []),
             this.TimeoutMiddleware(reqTimeout, resTimeout),
             ...(route.validators ?? []),
             route.controller
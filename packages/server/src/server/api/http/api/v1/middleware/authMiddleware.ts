@@ -1,30 +1,39 @@
 import { Context, Next } from "koa";
 import { Server } from "@server";
 import { safeTrim } from "@server/helpers/utils";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
 import { ServerError, Unauthorized } from "../responses/errors";
 
 export const AuthMiddleware = async (ctx: Context, next: Next) => {
     const params = ctx.request.query;
 
+    // Allow the token to be passed as a bearer token, or as a query param
+    const header = safeTrim(ctx.request.headers?.authorization ?? "");
+    const bearer = header.toLowerCase().startsWith("bearer ") ? header.substring(7) : null;
+
     // Make sure we have a token
-    const token = (params?.guid ?? params?.password ?? params?.token) as string;
+    const token = (bearer ?? params?.guid ?? params?.password ?? params?.token) as string;
     if (!token) {
         Server().log(`Client (IP: ${ctx.request.ip}) attempted to access the API without a token.`, "debug");
         throw new Unauthorized({ error: "Missing server password!" });
     }
 
-    // Make sure we have a password from the database
-    const password = String(Server().repo.getConfig("password") as string);
-    if (!password) {
-        throw new ServerError({ error: "Failed to retrieve password from the database" });
+    // Validate the token against the server password & the API tokens
+    let auth;
+    try {
+        auth = await ApiTokenInterface.authenticate(token);
+    } catch (ex: any) {
+        throw new ServerError({ error: ex?.message ?? String(ex) });
     }
 
-    // Validate the passwords match
-    if (safeTrim(password) !== safeTrim(token)) {
+    if (!auth) {
         Server().log(`Client (IP: ${ctx.request.ip}) tried to authenticate with an incorrect password.`, "debug");
         throw new Unauthorized();
     }
 
+    // Save the auth info so that other middleware can check the scopes
+    ctx.state.auth = auth;
+
     // Go to the next middleware
     await next();
 };
@@ -0,0 +1,47 @@
+import { Context, Next } from "koa";
+import { Server } from "@server";
+import { EncryptionInterface } from "@server/api/interfaces/encryptionInterface";
+import { BadRequest } from "../responses/errors";
+import { ValidationError } from "@server/lib/ValidationError";
+
+/**
+ * Encrypts the data of successful JSON responses, if the client negotiated
+ * an encryption version via the X-BlueBubbles-Encryption header (and optionally,
+ * an exchanged key via the X-BlueBubbles-Key-Id header).
+ */
+export const EncryptionMiddleware = async (ctx: Context, next: Next) => {
+    if (!EncryptionInterface.isEnabled) return await next();
+
+    let context;
+    try {
+        context = await EncryptionInterface.negotiate(
+            ctx.request.headers["x-bluebubbles-encryption"],
+            ctx.request.headers["x-bluebubbles-key-id"] as string
+        );
+    } catch (ex: any) {
+        if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+        throw ex;
+    }
+
+    // Save the negotiated context, so routes can check which key the request was made with
+    ctx.state.encryption = context;
+    await next();
+
+    // Only JSON responses are encrypted (files & HTML are left alone)
+    const body = ctx.body as any;
+    if (!context || !body || typeof body !== "object" || typeof body.pipe === "function" || Buffer.isBuffer(body)) {
+        return;
+    }
+
+    if (body.data !== undefined) {
+        try {
+            body.data = await EncryptionInterface.encrypt(body.data, context);
+            body.encrypted = true;
+            ctx.set("X-BlueBubbles-Encryption", String(context.version));
+        } catch (ex: any) {
+            Server().log(`Failed to encrypt response! ${ex?.message ?? String(ex)}`, "debug");
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+    }
+};
@@ -1,7 +1,7 @@
 import { Context, Next } from "koa";
 import { Server } from "@server";
 import { ErrorTypes } from "@server/api/http/api/v1/responses/types";
-import { HTTPError } from "../responses/errors";
+import { HTTPError, RangeNotSatisfiable, TooManyRequests } from "../responses/errors";
 import { createServerErrorResponse } from "../responses";
 
 export const ErrorMiddleware = async (ctx: Context, next: Next) => {
@@ -29,6 +29,12 @@ export const ErrorMiddleware = async (ctx: Context, next: Next) => {
             const err = ex as HTTPError;
             ctx.status = err.status;
             ctx.body = err.response;
+
+            if (err instanceof TooManyRequests) {
+                ctx.set("Retry-After", String(err.retryAfter));
+            } else if (err instanceof RangeNotSatisfiable) {
+                ctx.set("Content-Range", `bytes */${err.size}`);
+            }
         } else {
             ctx.status = 500;
             ctx.body = createServerErrorResponse(
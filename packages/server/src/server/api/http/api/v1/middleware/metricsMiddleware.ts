@@ -1,9 +1,16 @@
 import { Server } from "@server";
+import { Metrics } from "@server/lib/metrics/Metrics";
 import { Context, Next } from "koa";
 
 export const MetricsMiddleware = async (ctx: Context, next: Next) => {
-    const now = new Date().getTime();
-    await next();
-    const later = new Date().getTime();
-    Server().log(`Request to ${ctx?.request?.path?.toString() ?? "N/A"} took ${later - now} ms`);
+    const endTimer = Metrics.httpRequestDuration.startTimer({ method: ctx.method });
+
+    try {
+        await next();
+    } finally {
+        // Use the matched route (i.e. /api/v1/chat/:guid) so that IDs don't create a new series per request
+        const route = (ctx as any)._matchedRoute ?? "unmatched";
+        const seconds = endTimer({ route: String(route), status: ctx.status });
+        Server().log(`Request to ${ctx?.request?.path?.toString() ?? "N/A"} took ${Math.round(seconds * 1000)} ms`);
+    }
 };
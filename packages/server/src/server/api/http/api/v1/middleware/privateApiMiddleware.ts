@@ -1,8 +1,15 @@
 import { Context, Next } from "koa";
 import { checkPrivateApiStatus } from "@server/helpers/utils";
-import { IMessageError } from "../responses/errors";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import { Forbidden, IMessageError } from "../responses/errors";
 
 export const PrivateApiMiddleware = async (ctx: Context, next: Next) => {
+    // API tokens need to be explicitly granted access to the Private API
+    if (ctx.state.auth && !ApiTokenInterface.hasScopes(ctx.state.auth, [ApiTokenScope.PRIVATE_API])) {
+        throw new Forbidden({ error: `Missing required scope(s): ${ApiTokenScope.PRIVATE_API}` });
+    }
+
     try {
         checkPrivateApiStatus();
     } catch (ex: any) {
@@ -0,0 +1,19 @@
+import { Context, Next } from "koa";
+import { Server } from "@server";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import { Forbidden } from "../responses/errors";
+
+export const ScopeMiddleware = (scopes: ApiTokenScope[]) => {
+    return async (ctx: Context, next: Next) => {
+        if (!ApiTokenInterface.hasScopes(ctx.state.auth, scopes)) {
+            Server().log(
+                `API token "${ctx.state.auth?.name}" attempted to access ${ctx.path} without the required scope(s).`,
+                "debug"
+            );
+            throw new Forbidden({ error: `Missing required scope(s): ${scopes.join(", ")}` });
+        }
+
+        await next();
+    };
+};
@@ -72,6 +72,44 @@ export class NotFound extends HTTPError {
     }
 }
 
+export class TooManyRequests extends HTTPError {
+    // The number of seconds the client should wait before retrying
+    retryAfter: number;
+
+    constructor(response?: ResponseParams, retryAfter = 1) {
+        super({
+            status: 429,
+            message: response?.message ?? "You've made too many requests! Please try again later",
+            error: {
+                type: ErrorTypes.RATE_LIMIT_ERROR,
+                message: response?.error ?? ResponseMessages.TOO_MANY_REQUESTS
+            },
+            data: response?.data
+        });
+
+        this.retryAfter = retryAfter;
+    }
+}
+
+export class RangeNotSatisfiable extends HTTPError {
+    // The size of the file, so the client knows which ranges are valid
+    size: number;
+
+    constructor(response?: ResponseParams, size = 0) {
+        super({
+            status: 416,
+            message: response?.message ?? "The requested range is not satisfiable",
+            error: {
+                type: ErrorTypes.VALIDATION_ERROR,
+                message: response?.error ?? ResponseMessages.RANGE_NOT_SATISFIABLE
+            },
+            data: response?.data
+        });
+
+        this.size = size;
+    }
+}
+
 export class ServerError extends HTTPError {
     constructor(response?: ResponseParams) {
         super({
@@ -100,6 +138,20 @@ export class GatewayTimeout extends HTTPError {
     }
 }
 
+export class BadGateway extends HTTPError {
+    constructor(response?: ResponseParams) {
+        super({
+            status: 502,
+            message: response?.message ?? "The server received an invalid response from an upstream server",
+            error: {
+                type: ErrorTypes.BAD_GATEWAY,
+                message: response?.error ?? ResponseMessages.BAD_GATEWAY
+            },
+            data: response?.data
+        });
+    }
+}
+
 export class IMessageError extends HTTPError {
     constructor(response?: ResponseParams) {
         super({
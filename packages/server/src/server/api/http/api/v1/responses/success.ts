@@ -1,11 +1,13 @@
 /* eslint-disable max-classes-per-file */
 import * as fs from "fs";
 import { RouterContext } from "koa-router";
+import { generateMd5Hash } from "@server/utils/CryptoUtils";
 import { ResponseFormat, ResponseMessages, ResponseParams, ValidStatuses } from "./types";
+import { RangeNotSatisfiable } from "./errors";
 
 type ResponseClasses = ResponseParams | string | fs.ReadStream;
 
-type ResponseTypes = "json" | "html" | "file";
+type ResponseTypes = "json" | "html" | "text" | "file";
 
 export class HTTPResponse {
     ctx: RouterContext;
@@ -33,7 +35,7 @@ export class HTTPResponse {
             this.response = { status, message: res?.message ?? "No Message Response" };
             if (res?.data !== undefined) this.response.data = res.data;
             if (res?.metadata !== undefined) this.response.metadata = res.metadata;
-        } else if (responseType === "html") {
+        } else if (responseType === "html" || responseType === "text") {
             this.response = response as string;
         } else if (responseType === "file") {
             this.response = response as fs.ReadStream;
@@ -51,12 +53,12 @@ export class HTTPResponse {
             return `[${this.status}] ${res?.message ?? res?.error ?? "No Response"}`;
         }
 
-        if (this.type === "html") {
+        if (this.type === "html" || this.type === "text") {
             return this.response;
         }
 
         if (this.type === "file") {
-            return `File: ${(this.response as fs.ReadStream).readableLength} bytes`;
+            return `File: ${(this.response as fs.ReadStream)?.readableLength ?? 0} bytes`;
         }
 
         return "";
@@ -80,12 +82,94 @@ export class FileStream extends HTTPResponse {
     }
 }
 
+/**
+ * Parses a single byte range from a Range header (i.e. bytes=0-499, bytes=500-, or bytes=-500)
+ *
+ * @returns The (inclusive) range, null if the header should be ignored, or false if it can't be satisfied
+ */
+const parseRange = (header: string, size: number): { start: number; end: number } | null | false => {
+    const match = /^bytes=(\d*)-(\d*)$/.exec((header ?? "").trim());
+
+    // Multiple ranges aren't supported, so the full file is sent instead
+    if (!match || (!match[1] && !match[2])) return null;
+
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+        // Suffix range, the last N bytes
+        start = Math.max(size - Number.parseInt(match[2], 10), 0);
+        end = size - 1;
+    } else {
+        start = Number.parseInt(match[1], 10);
+        end = match[2] ? Math.min(Number.parseInt(match[2], 10), size - 1) : size - 1;
+    }
+
+    if (start >= size || start > end) return false;
+    return { start, end };
+};
+
+/**
+ * Streams a file, with support for HTTP Range, If-Range, and If-None-Match requests,
+ * so that clients can resume interrupted downloads.
+ */
+export class RangedFileStream extends HTTPResponse {
+    constructor(ctx: RouterContext, path: string, mimeType = "application/octet-stream") {
+        const stat = fs.statSync(path);
+
+        // Converted & cached variants have their own paths, so they get their own ETags
+        const etag = `"${generateMd5Hash(Buffer.from(`${path}:${stat.size}:${stat.mtimeMs}`))}"`;
+        ctx.response.set("Content-Type", mimeType);
+        ctx.response.set("Accept-Ranges", "bytes");
+        ctx.response.set("ETag", etag);
+        ctx.response.set("Last-Modified", stat.mtime.toUTCString());
+
+        let status: ValidStatuses = 200;
+        let src: fs.ReadStream = null;
+        const ifNoneMatch = ctx.request.headers["if-none-match"];
+        const matchesEtag = (ifNoneMatch ?? "").split(",").some(e => ["*", etag].includes(e.trim()));
+        if (ifNoneMatch && matchesEtag) {
+            // The client already has the latest version of the file
+            status = 304;
+        } else {
+            // If-Range means "only send the range if the file hasn't changed"
+            const ifRange = ctx.request.headers["if-range"] as string;
+            const rangeValid =
+                !ifRange ||
+                (ifRange.startsWith('"') || ifRange.startsWith("W/")
+                    ? ifRange === etag
+                    : Date.parse(ifRange) >= Math.floor(stat.mtimeMs / 1000) * 1000);
+
+            const range = rangeValid ? parseRange(ctx.request.headers.range, stat.size) : null;
+            if (range === false) {
+                throw new RangeNotSatisfiable({ error: `The file is only ${stat.size} bytes` }, stat.size);
+            } else if (range) {
+                status = 206;
+                src = fs.createReadStream(path, { start: range.start, end: range.end });
+                ctx.response.set("Content-Range", `bytes ${range.start}-${range.end}/${stat.size}`);
+                ctx.response.set("Content-Length", String(range.end - range.start + 1));
+            } else {
+                src = fs.createReadStream(path);
+                ctx.response.set("Content-Length", String(stat.size));
+            }
+        }
+
+        super(ctx, status, src, "file");
+    }
+}
+
 export class HTML extends HTTPResponse {
     constructor(ctx: RouterContext, response: string) {
         super(ctx, 200, response, "html");
     }
 }
 
+export class PlainText extends HTTPResponse {
+    constructor(ctx: RouterContext, response: string, mimeType = "text/plain; charset=utf-8") {
+        ctx.response.set("Content-Type", mimeType);
+        super(ctx, 200, response, "text");
+    }
+}
+
 export class NoData extends HTTPResponse {
     constructor(ctx: RouterContext, response: ResponseParams) {
         const data: ResponseParams = { message: response?.message ?? ResponseMessages.NO_DATA };
@@ -0,0 +1,60 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { AnalyticsInterface, AnalyticsQuery } from "@server/api/interfaces/analyticsInterface";
+import { AnalyticsInterval } from "@server/databases/imessage/types";
+import { isNotEmpty } from "@server/helpers/utils";
+import { Success } from "../responses/success";
+
+export class AnalyticsRouter {
+    /**
+     * Parses the filters shared by all of the analytics endpoints
+     */
+    private static parseQuery(ctx: RouterContext): AnalyticsQuery {
+        const { after, before, chatGuid, interval, limit } = ctx.request.query;
+        return {
+            after: isNotEmpty(after) ? new Date(Number.parseInt(after as string, 10)) : null,
+            before: isNotEmpty(before) ? new Date(Number.parseInt(before as string, 10)) : null,
+            chatGuid: isNotEmpty(chatGuid) ? (chatGuid as string) : null,
+            interval: isNotEmpty(interval) ? (interval as AnalyticsInterval) : "day",
+            limit: isNotEmpty(limit) ? Number.parseInt(limit as string, 10) : 25
+        };
+    }
+
+    static async getMessageTimeSeries(ctx: RouterContext, _: Next) {
+        const data = await AnalyticsInterface.getMessageTimeSeries(AnalyticsRouter.parseQuery(ctx));
+        return new Success(ctx, { data }).send();
+    }
+
+    static async getMessageHeatmap(ctx: RouterContext, _: Next) {
+        const { after, before, chatGuid } = AnalyticsRouter.parseQuery(ctx);
+        const data = await AnalyticsInterface.getMessageHeatmap({ after, before, chatGuid });
+        return new Success(ctx, { data }).send();
+    }
+
+    static async getChatTotals(ctx: RouterContext, _: Next) {
+        const data = await AnalyticsInterface.getChatTotals(AnalyticsRouter.parseQuery(ctx));
+        return new Success(ctx, { data }).send();
+    }
+
+    static async getHandleTotals(ctx: RouterContext, _: Next) {
+        const data = await AnalyticsInterface.getHandleTotals(AnalyticsRouter.parseQuery(ctx));
+        return new Success(ctx, { data }).send();
+    }
+
+    static async getResponseTimes(ctx: RouterContext, _: Next) {
+        const { after, before, chatGuid } = AnalyticsRouter.parseQuery(ctx);
+        const data = await AnalyticsInterface.getResponseTimes({ after, before, chatGuid });
+        return new Success(ctx, { data }).send();
+    }
+
+    static async getReactionBreakdown(ctx: RouterContext, _: Next) {
+        const { after, before, chatGuid } = AnalyticsRouter.parseQuery(ctx);
+        const data = await AnalyticsInterface.getReactionBreakdown({ after, before, chatGuid });
+        return new Success(ctx, { data }).send();
+    }
+
+    static async getAttachmentTimeSeries(ctx: RouterContext, _: Next) {
+        const data = await AnalyticsInterface.getAttachmentTimeSeries(AnalyticsRouter.parseQuery(ctx));
+        return new Success(ctx, { data }).send();
+    }
+}
@@ -0,0 +1,32 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { Success } from "../responses/success";
+import { NotFound } from "../responses/errors";
+
+export class ApiTokenRouter {
+    static async get(ctx: RouterContext, _: Next) {
+        const tokens = await ApiTokenInterface.find();
+        return new Success(ctx, { data: tokens.map(ApiTokenInterface.serialize) }).send();
+    }
+
+    static async create(ctx: RouterContext, _: Next) {
+        const { name, scopes } = ctx.request.body;
+        const { token, apiToken } = await ApiTokenInterface.create(name, scopes);
+
+        // This is the only time the raw token will ever be returned
+        return new Success(ctx, {
+            message: "Successfully created API token! Make sure to save it, it will not be shown again.",
+            data: { ...ApiTokenInterface.serialize(apiToken), token }
+        }).send();
+    }
+
+    static async delete(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id, 10);
+        const item = Number.isNaN(id) ? null : await ApiTokenInterface.get(id);
+        if (!item) throw new NotFound({ error: "API token does not exist!" });
+
+        await ApiTokenInterface.revoke(id);
+        return new Success(ctx, { message: "Successfully revoked API token!" }).send();
+    }
+}
@@ -8,9 +8,11 @@ import { generateMd5Hash } from "@server/utils/CryptoUtils";
 import { FileSystem } from "@server/fileSystem";
 import { convertAudio, convertImage } from "@server/databases/imessage/helpers/utils";
 import { isEmpty, isTruthyBool, resultAwaiter } from "@server/helpers/utils";
-import { AttachmentInterface } from "@server/api/interfaces/attachmentInterface";
-import { FileStream, Success } from "../responses/success";
+import { AttachmentInterface, AttachmentVariant } from "@server/api/interfaces/attachmentInterface";
+import { AttachmentUploadInterface } from "@server/api/interfaces/attachmentUploadInterface";
+import { RangedFileStream, Success } from "../responses/success";
 import { BadRequest, NotFound, ServerError } from "../responses/errors";
+import { ValidationError } from "@server/lib/ValidationError";
 import { AttachmentSerializer } from "@server/api/serializers/AttachmentSerializer";
 import { Attachment } from "@server/databases/imessage/entity/Attachment";
 
@@ -31,7 +33,7 @@ export class AttachmentRouter {
 
     static async download(ctx: RouterContext, _: Next) {
         const { guid } = ctx.params;
-        const { height, width, quality, original, force } = ctx.request.query;
+        const { height, width, quality, original, force, variant } = ctx.request.query;
         const useOriginal = isTruthyBool(original as string);
         const forceDownload = isTruthyBool((force as string) ?? "true");
 
@@ -59,6 +61,27 @@ export class AttachmentRouter {
         const og = attachment.originalGuid ?? "N/A";
         Server().log(`Attachment download request (MIME: ${mimeType}; GUID: ${g}; Original GUID: ${og})`, "debug");
 
+        // Serve a derivative (i.e. a video thumbnail) if one was requested
+        if (variant) {
+            const parsedWidth = width ? Number.parseInt(width as string, 10) : null;
+            const parsedHeight = height ? Number.parseInt(height as string, 10) : null;
+            const size = parsedWidth || parsedHeight ? Math.max(parsedWidth ?? 0, parsedHeight ?? 0) : null;
+            const type = variant as AttachmentVariant;
+            if (!AttachmentInterface.supportsVariant(type, mimeType)) {
+                throw new BadRequest({ error: `The "${type}" variant is not supported for ${mimeType} attachments` });
+            }
+
+            let derivative;
+            try {
+                derivative = await AttachmentInterface.getDerivative(attachment, type, size);
+            } catch (ex: any) {
+                throw new ServerError({ message: `Failed to generate ${type}!`, error: ex?.message ?? String(ex) });
+            }
+
+            Server().log(`Sending attachment ${type} (${derivative.mimeType}) with path: ${derivative.path}`, "debug");
+            return new RangedFileStream(ctx, derivative.path, derivative.mimeType).send();
+        }
+
         // If we want to resize the image, do so here
         if (!useOriginal) {
             const converters = [convertImage, convertAudio];
@@ -110,7 +133,7 @@ export class AttachmentRouter {
         }
 
         Server().log(`Sending attachment (${mimeType}) with path: ${aPath}`, "debug");
-        return new FileStream(ctx, aPath, mimeType).send();
+        return new RangedFileStream(ctx, aPath, mimeType).send();
     }
 
     static async downloadLive(ctx: RouterContext, _: Next) {
@@ -127,7 +150,7 @@ export class AttachmentRouter {
         const livePhotoPath = AttachmentInterface.getLivePhotoPath(attachment);
         if (!livePhotoPath) throw new NotFound({ error: "Live photo does not exist for this attachment!" });
 
-        return new FileStream(ctx, livePhotoPath, "video/quicktime").send();
+        return new RangedFileStream(ctx, livePhotoPath, "video/quicktime").send();
     }
 
     static async blurhash(ctx: RouterContext, _: Next) {
@@ -183,6 +206,72 @@ export class AttachmentRouter {
         return new Success(ctx, { data: { hash } }).send();
     }
 
+    static async createUploadSession(ctx: RouterContext, _: Next) {
+        const { name, size, md5 } = ctx.request.body;
+        const session = await AttachmentUploadInterface.create(name, size != null ? Number(size) : null, md5);
+        return new Success(ctx, { message: "Successfully created upload session!", data: session }).send();
+    }
+
+    static async getUploadSession(ctx: RouterContext, _: Next) {
+        const session = AttachmentUploadInterface.get(ctx.params.id);
+        if (!session) throw new NotFound({ error: "Upload session does not exist!" });
+
+        ctx.set("Upload-Offset", String(session.offset));
+        return new Success(ctx, { data: session }).send();
+    }
+
+    static async uploadChunk(ctx: RouterContext, _: Next) {
+        const session = AttachmentUploadInterface.get(ctx.params.id);
+        if (!session) throw new NotFound({ error: "Upload session does not exist!" });
+
+        // The offset can be provided as a header, or as a query param
+        const offset = Number(ctx.request.headers["upload-offset"] ?? ctx.request.query.offset);
+        if (offset !== session.offset) {
+            ctx.set("Upload-Offset", String(session.offset));
+            throw new BadRequest({
+                error: `Chunk offset does not match! Resume the upload from offset ${session.offset}`,
+                data: { offset: session.offset }
+            });
+        }
+
+        let updated;
+        try {
+            const chunk = await AttachmentUploadInterface.readChunk(ctx.req);
+            updated = AttachmentUploadInterface.writeChunk(session.id, offset, chunk);
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+
+        ctx.set("Upload-Offset", String(updated.offset));
+        return new Success(ctx, { data: updated }).send();
+    }
+
+    static async finalizeUploadSession(ctx: RouterContext, _: Next) {
+        if (!AttachmentUploadInterface.get(ctx.params.id)) {
+            throw new NotFound({ error: "Upload session does not exist!" });
+        }
+
+        let hash;
+        try {
+            hash = await AttachmentUploadInterface.finalize(ctx.params.id);
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+
+        return new Success(ctx, { data: { hash } }).send();
+    }
+
+    static async cancelUploadSession(ctx: RouterContext, _: Next) {
+        if (!AttachmentUploadInterface.get(ctx.params.id)) {
+            throw new NotFound({ error: "Upload session does not exist!" });
+        }
+
+        AttachmentUploadInterface.cancel(ctx.params.id);
+        return new Success(ctx, { message: "Successfully cancelled upload session!" }).send();
+    }
+
     static async forceDownload(ctx: RouterContext, _: Next) {
         const { guid } = ctx.params;
         const attachment = await Server().iMessageRepo.getAttachment(guid);
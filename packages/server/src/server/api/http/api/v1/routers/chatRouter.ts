@@ -6,6 +6,9 @@ import { FileSystem } from "@server/fileSystem";
 import { DBMessageParams } from "@server/databases/imessage/types";
 import { isEmpty, isNotEmpty, isTruthyBool } from "@server/helpers/utils";
 import { ChatInterface } from "@server/api/interfaces/chatInterface";
+import { ChatExportInterface } from "@server/api/interfaces/chatExportInterface";
+import { ChatDraftInterface } from "@server/api/interfaces/chatDraftInterface";
+import { ChatMetadataFilters, ChatMetadataInterface } from "@server/api/interfaces/chatMetadataInterface";
 import { MessageSerializer } from "@server/api/serializers/MessageSerializer";
 import { arrayHasOne } from "@server/utils/CollectionUtils";
 
@@ -79,6 +82,14 @@ export class ChatRouter {
             "messages.message-summary-info"
         ]);
         const withPayloadData = arrayHasOne(withQuery, ["message.payloadData", "message.payload-data"]);
+        const withReactions = arrayHasOne(withQuery, ["reactions", "message.reactions", "messages.reactions"]);
+        const withReplies = arrayHasOne(withQuery, ["replies", "message.replies", "messages.replies"]);
+        const withEditHistory = arrayHasOne(withQuery, [
+            "editHistory",
+            "edit-history",
+            "message.editHistory",
+            "messages.editHistory"
+        ]);
         const { sort, before, after, offset, limit } = ctx?.request.query ?? {};
 
         const [chats, __] = await Server().iMessageRepo.getChats({
@@ -107,7 +118,10 @@ export class ChatRouter {
                 loadChatParticipants: false,
                 parseAttributedBody: withAttributedBody,
                 parseMessageSummary: withMessageSummaryInfo,
-                parsePayloadData: withPayloadData
+                parsePayloadData: withPayloadData,
+                includeReactions: withReactions,
+                includeReplies: withReplies,
+                includeEditHistory: withEditHistory
             }
         });
 
@@ -122,6 +136,7 @@ export class ChatRouter {
         const withQuery = parseWithQuery(body?.with);
 
         const withLastMessage = arrayHasOne(withQuery, ["lastmessage", "last-message"]);
+        const withMetadata = withQuery.includes("metadata");
         const guid = body?.guid;
         let sort = body?.sort;
         const { offset, limit } = body;
@@ -135,6 +150,8 @@ export class ChatRouter {
         const [results, total] = await ChatInterface.get({
             guid,
             withLastMessage,
+            withMetadata,
+            metadataFilters: ChatRouter.parseMetadataFilters(body?.metadata),
             offset: offset ? Number.parseInt(offset, 10) : 0,
             limit: limit ? Number.parseInt(limit, 10) : 1000,
             sort
@@ -151,6 +168,16 @@ export class ChatRouter {
         return new Success(ctx, { data: results, metadata }).send();
     }
 
+    private static parseMetadataFilters(filters: NodeJS.Dict<any>): ChatMetadataFilters {
+        const parseBool = (value: any) => (value == null ? null : isTruthyBool(String(value)));
+        return {
+            pinned: parseBool(filters?.pinned),
+            archived: parseBool(filters?.archived),
+            muted: parseBool(filters?.muted),
+            label: filters?.label ?? null
+        };
+    }
+
     static async update(ctx: RouterContext, _: Next): Promise<void> {
         const { body } = ctx.request;
         const { guid } = ctx.params;
@@ -238,6 +265,100 @@ export class ChatRouter {
         await ChatRouter.toggleParticipant(ctx, next, "add");
     }
 
+    static async getDraft(ctx: RouterContext, _: Next): Promise<void> {
+        const { guid } = ctx.params;
+        await ChatRouter.assertChatExists(guid);
+
+        const draft = await ChatDraftInterface.get(guid);
+        return new Success(ctx, { data: draft ? ChatDraftInterface.serialize(draft) : null }).send();
+    }
+
+    static async saveDraft(ctx: RouterContext, _: Next): Promise<void> {
+        const { guid } = ctx.params;
+        const { text, attachments, replyToGuid, replyToPart, effectId } = ctx.request.body;
+        await ChatRouter.assertChatExists(guid);
+
+        const draft = await ChatDraftInterface.save(guid, {
+            text,
+            attachments,
+            replyToGuid,
+            replyToPart: replyToPart != null ? Number(replyToPart) : null,
+            effectId
+        });
+
+        return new Success(ctx, {
+            message: draft ? "Successfully saved draft!" : "Draft was empty, so it was deleted!",
+            data: draft ? ChatDraftInterface.serialize(draft) : null
+        }).send();
+    }
+
+    static async deleteDraft(ctx: RouterContext, _: Next): Promise<void> {
+        const deleted = await ChatDraftInterface.delete(ctx.params.guid);
+        if (!deleted) throw new NotFound({ error: "Draft does not exist!" });
+        return new Success(ctx, { message: "Successfully deleted draft!" }).send();
+    }
+
+    static async getAllMetadata(ctx: RouterContext, _: Next): Promise<void> {
+        const items = await ChatMetadataInterface.find();
+        return new Success(ctx, { data: items.map(i => ChatMetadataInterface.serialize(i)) }).send();
+    }
+
+    static async getMetadata(ctx: RouterContext, _: Next): Promise<void> {
+        const { guid } = ctx.params;
+        await ChatRouter.assertChatExists(guid);
+
+        const item = await ChatMetadataInterface.get(guid);
+        return new Success(ctx, { data: ChatMetadataInterface.serialize(item, guid) }).send();
+    }
+
+    static async updateMetadata(ctx: RouterContext, _: Next): Promise<void> {
+        const { guid } = ctx.params;
+        const { pinned, pinnedIndex, isArchived, isMuted, mutedUntil, labels, notes } = ctx.request.body;
+        await ChatRouter.assertChatExists(guid);
+
+        const parseBool = (value: any) => (value == null ? undefined : isTruthyBool(String(value)));
+        let mutedUntilDate: Date | null | undefined;
+        if (mutedUntil !== undefined) {
+            // A muted until of 0 (or null) mutes the chat indefinitely
+            mutedUntilDate = Number(mutedUntil) ? new Date(Number(mutedUntil)) : null;
+        }
+
+        const item = await ChatMetadataInterface.update(guid, {
+            pinned: parseBool(pinned),
+            pinnedIndex: pinnedIndex != null ? Number(pinnedIndex) : null,
+            isArchived: parseBool(isArchived),
+            isMuted: parseBool(isMuted),
+            mutedUntil: mutedUntilDate,
+            labels,
+            notes
+        });
+
+        return new Success(ctx, {
+            message: "Successfully updated chat metadata!",
+            data: ChatMetadataInterface.serialize(item, guid)
+        }).send();
+    }
+
+    static async deleteMetadata(ctx: RouterContext, _: Next): Promise<void> {
+        const deleted = await ChatMetadataInterface.delete(ctx.params.guid);
+        if (!deleted) throw new NotFound({ error: "Chat metadata does not exist!" });
+        return new Success(ctx, { message: "Successfully reset chat metadata!" }).send();
+    }
+
+    static async setPinOrder(ctx: RouterContext, _: Next): Promise<void> {
+        const { guids } = ctx.request.body;
+        const items = await ChatMetadataInterface.setPinOrder(guids);
+        return new Success(ctx, {
+            message: "Successfully updated pinned chats!",
+            data: items.map(i => ChatMetadataInterface.serialize(i))
+        }).send();
+    }
+
+    private static async assertChatExists(guid: string): Promise<void> {
+        const [chats, __] = await Server().iMessageRepo.getChats({ chatGuid: guid, withParticipants: false });
+        if (isEmpty(chats)) throw new NotFound({ error: "Chat does not exist!" });
+    }
+
     static async markRead(ctx: RouterContext, _: Next): Promise<void> {
         const { guid } = ctx.params;
         await ChatInterface.markRead(guid);
@@ -365,4 +486,46 @@ export class ChatRouter {
         await ChatInterface.shareContactInfo(chats[0].guid);
         return new Success(ctx, { message: 'Successfully shared contact info!' }).send();
     }
+
+    static async createExport(ctx: RouterContext, _: Next) {
+        const { guid: chatGuid } = ctx?.params ?? {};
+        const { after, before } = ctx?.request?.body ?? {};
+
+        const [chats, __] = await Server().iMessageRepo.getChats({ chatGuid, withParticipants: false });
+        if (isEmpty(chats)) throw new NotFound({ error: "Chat does not exist!" });
+
+        const job = ChatExportInterface.createExport(
+            chats[0].guid,
+            after != null ? new Date(Number(after)) : null,
+            before != null ? new Date(Number(before)) : null
+        );
+
+        return new Success(ctx, { message: "Successfully started chat export!", data: job }).send();
+    }
+
+    static async getExports(ctx: RouterContext, _: Next) {
+        const { guid: chatGuid } = ctx?.params ?? {};
+        const jobs = ChatExportInterface.getExports(chatGuid);
+        return new Success(ctx, { data: jobs }).send();
+    }
+
+    static async getExport(ctx: RouterContext, _: Next) {
+        const { guid: chatGuid, id } = ctx?.params ?? {};
+        const job = ChatExportInterface.getExport(chatGuid, id);
+        if (!job) throw new NotFound({ error: "Export does not exist!" });
+
+        return new Success(ctx, { data: job }).send();
+    }
+
+    static async downloadExport(ctx: RouterContext, _: Next) {
+        const { guid: chatGuid, id } = ctx?.params ?? {};
+        const job = ChatExportInterface.getExport(chatGuid, id);
+        if (!job) throw new NotFound({ error: "Export does not exist!" });
+
+        const exportPath = ChatExportInterface.getExportPath(job);
+        if (!exportPath) throw new NotFound({ error: `Export is not available! Status: ${job.status}` });
+
+        ctx.response.set("Content-Disposition", `attachment; filename="chat-export-${job.id}.zip"`);
+        return new FileStream(ctx, exportPath, "application/zip").send();
+    }
 }
@@ -0,0 +1,45 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { EncryptionInterface } from "@server/api/interfaces/encryptionInterface";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import { isNotEmpty } from "@server/helpers/utils";
+import { Success } from "../responses/success";
+import { BadRequest, Forbidden, NotFound } from "../responses/errors";
+import { ValidationError } from "@server/lib/ValidationError";
+
+export class EncryptionRouter {
+    static async getKeys(ctx: RouterContext, _: Next) {
+        const keys = await EncryptionInterface.find();
+        return new Success(ctx, { data: keys.map(EncryptionInterface.serialize) }).send();
+    }
+
+    static async exchangeKey(ctx: RouterContext, _: Next) {
+        const { publicKey, name, replaces } = ctx.request.body;
+
+        // Only the client using a key can replace it (unless it's an admin), so a client can't expire another's key
+        const isUsingKey = ctx.state.encryption?.keyId === replaces;
+        const isAdmin = ApiTokenInterface.hasScopes(ctx.state.auth, [ApiTokenScope.SERVER_ADMIN]);
+        if (isNotEmpty(replaces) && !isUsingKey && !isAdmin) {
+            throw new Forbidden({ error: "A key can only be replaced by a request encrypted with that key!" });
+        }
+
+        let data;
+        try {
+            data = await EncryptionInterface.exchangeKey(publicKey, name, replaces ?? null);
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+
+        return new Success(ctx, { message: "Successfully exchanged encryption key!", data }).send();
+    }
+
+    static async revokeKey(ctx: RouterContext, _: Next) {
+        const item = await EncryptionInterface.get(ctx.params.id);
+        if (!item) throw new NotFound({ error: "Encryption key does not exist!" });
+
+        await EncryptionInterface.revokeKey(ctx.params.id);
+        return new Success(ctx, { message: "Successfully revoked encryption key!" }).send();
+    }
+}
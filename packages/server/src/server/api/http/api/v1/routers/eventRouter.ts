@@ -0,0 +1,19 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { EventJournalInterface } from "@server/api/interfaces/eventJournalInterface";
+import { isNotEmpty } from "@server/helpers/utils";
+import { Success } from "../responses/success";
+
+export class EventRouter {
+    static async getEventsSince(ctx: RouterContext, _: Next) {
+        const { after, limit, types } = ctx.request.query;
+        const { events, metadata } = await EventJournalInterface.getEventsSince({
+            after: Number.parseInt(after as string, 10),
+            limit: limit ? Number.parseInt(limit as string, 10) : 1000,
+            types: isNotEmpty(types) ? (types as string).split(",").map(e => e.trim()) : null,
+            auth: ctx.state.auth
+        });
+
+        return new Success(ctx, { data: events, metadata }).send();
+    }
+}
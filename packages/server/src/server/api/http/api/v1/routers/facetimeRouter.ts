@@ -2,6 +2,7 @@ import { Next } from "koa";
 import { RouterContext } from "koa-router";
 import { NoData, Success } from "../responses/success";
 import { FaceTimeInterface } from "@server/api/interfaces/facetimeInterface";
+import { FaceTimeCallFilters, FaceTimeCallInterface } from "@server/api/interfaces/facetimeCallInterface";
 
 export class FaceTimeRouter {
     static async answer(ctx: RouterContext, _: Next) {
@@ -18,4 +19,24 @@ export class FaceTimeRouter {
         const link = await FaceTimeInterface.create();
         return new Success(ctx, { data: { link }}).send();
     }
+
+    static async getCalls(ctx: RouterContext, _: Next) {
+        const { address, direction, status, sort, after, before, limit, offset } = ctx.request.query;
+        const filters: FaceTimeCallFilters = {
+            address: (address as string) ?? null,
+            direction: (direction as FaceTimeCallFilters["direction"]) ?? null,
+            status: (status as FaceTimeCallFilters["status"]) ?? null,
+            sort: (sort as FaceTimeCallFilters["sort"]) ?? "DESC",
+            after: after ? new Date(Number(after)) : null,
+            before: before ? new Date(Number(before)) : null,
+            limit: limit ? Number.parseInt(limit as string, 10) : 100,
+            offset: offset ? Number.parseInt(offset as string, 10) : 0
+        };
+
+        const [calls, total] = await FaceTimeCallInterface.find(filters);
+        return new Success(ctx, {
+            data: calls.map(e => FaceTimeCallInterface.serialize(e)),
+            metadata: { offset: filters.offset, limit: filters.limit, total, count: calls.length }
+        }).send();
+    }
 }
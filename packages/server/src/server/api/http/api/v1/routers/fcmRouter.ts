@@ -3,9 +3,12 @@ import { RouterContext } from "koa-router";
 
 import { FileSystem } from "@server/fileSystem";
 import { GeneralInterface } from "@server/api/interfaces/generalInterface";
+import { WebPushProvider } from "@server/services/pushProviders/webPushProvider";
 import { Success } from "../responses/success";
-import { isEmpty, isNotEmpty } from "@server/helpers/utils";
-import { NotFound } from "../responses/errors";
+import { isEmpty, isNotEmpty, isTruthyBool } from "@server/helpers/utils";
+import { DeviceInterface } from "@server/api/interfaces/deviceInterface";
+import { BadRequest, NotFound } from "../responses/errors";
+import { ValidationError } from "@server/lib/ValidationError";
 
 export class FcmRouter {
     static async getClientConfig(ctx: RouterContext, _: Next) {
@@ -33,8 +36,71 @@ export class FcmRouter {
     }
 
     static async registerDevice(ctx: RouterContext, _: Next) {
-        const { name, identifier } = (ctx.request?.body ?? {});
-        await GeneralInterface.addFcmDevice(name, identifier);
+        const { name, identifier, provider, keys, clientVersion, platform } = (ctx.request?.body ?? {});
+        const pushKeys = provider === "webpush" ? { p256dh: keys.p256dh, auth: keys.auth } : null;
+        await GeneralInterface.addFcmDevice(name, identifier, provider ?? "fcm", pushKeys, {
+            clientVersion,
+            platform,
+            lastIp: ctx.request.ip
+        });
+
         return new Success(ctx, { message: "Successfully added device!" }).send();
     }
+
+    static async getDevice(ctx: RouterContext, _: Next) {
+        const device = await DeviceInterface.get(ctx.params.id);
+        if (!device) throw new NotFound({ error: "Device does not exist!" });
+        return new Success(ctx, { data: DeviceInterface.serialize(device) }).send();
+    }
+
+    static async revokeDevice(ctx: RouterContext, _: Next) {
+        if (!(await DeviceInterface.get(ctx.params.id))) throw new NotFound({ error: "Device does not exist!" });
+
+        await DeviceInterface.revoke(ctx.params.id);
+        return new Success(ctx, { message: "Successfully revoked device!" }).send();
+    }
+
+    static async getDevicePreferences(ctx: RouterContext, _: Next) {
+        const device = await DeviceInterface.get(ctx.params.id);
+        if (!device) throw new NotFound({ error: "Device does not exist!" });
+        return new Success(ctx, { data: DeviceInterface.getPreferences(device) }).send();
+    }
+
+    static async updateDevicePreferences(ctx: RouterContext, _: Next) {
+        const { events, includeChats, excludeChats, quietHours, mentionsOnly } = ctx.request?.body ?? {};
+        if (!(await DeviceInterface.get(ctx.params.id))) throw new NotFound({ error: "Device does not exist!" });
+
+        try {
+            const device = await DeviceInterface.updatePreferences(ctx.params.id, {
+                events,
+                includeChats,
+                excludeChats,
+                quietHours,
+                mentionsOnly: mentionsOnly != null ? isTruthyBool(String(mentionsOnly)) : undefined
+            });
+
+            return new Success(ctx, {
+                message: "Successfully updated device preferences!",
+                data: DeviceInterface.getPreferences(device)
+            }).send();
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+    }
+
+    static async resetDevicePreferences(ctx: RouterContext, _: Next) {
+        if (!(await DeviceInterface.get(ctx.params.id))) throw new NotFound({ error: "Device does not exist!" });
+
+        const device = await DeviceInterface.resetPreferences(ctx.params.id);
+        return new Success(ctx, {
+            message: "Successfully reset device preferences!",
+            data: DeviceInterface.getPreferences(device)
+        }).send();
+    }
+
+    static async getWebPushKey(ctx: RouterContext, _: Next) {
+        const { publicKey } = await WebPushProvider.getVapidKeys();
+        return new Success(ctx, { data: { publicKey } }).send();
+    }
 }
@@ -1,8 +1,11 @@
 import { Next } from "koa";
 import { RouterContext } from "koa-router";
 import { Success } from "../responses/success";
-import { ServerError } from "../responses/errors";
+import { BadRequest, NotFound, ServerError } from "../responses/errors";
+import { ValidationError } from "@server/lib/ValidationError";
 import { FindMyInterface } from "@server/api/interfaces/findMyInterface";
+import { FindMyHistoryFilters, FindMyHistoryInterface } from "@server/api/interfaces/findMyHistoryInterface";
+import { FindMyGeofenceInterface, FindMyGeofenceParams } from "@server/api/interfaces/findMyGeofenceInterface";
 
 export class FindMyRouter {
     static async refreshDevices(ctx: RouterContext, _: Next) {
@@ -55,4 +58,71 @@ export class FindMyRouter {
             });
         }
     }
+
+    static async getHistory(ctx: RouterContext, _: Next) {
+        const { sourceType, sourceId, sort, after, before, limit, offset } = ctx.request.query;
+        const filters: FindMyHistoryFilters = {
+            sourceType: (sourceType as FindMyHistoryFilters["sourceType"]) ?? null,
+            sourceId: (sourceId as string) ?? null,
+            sort: (sort as FindMyHistoryFilters["sort"]) ?? "DESC",
+            after: after ? new Date(Number(after)) : null,
+            before: before ? new Date(Number(before)) : null,
+            limit: limit ? Number.parseInt(limit as string, 10) : 100,
+            offset: offset ? Number.parseInt(offset as string, 10) : 0
+        };
+
+        const [locations, total] = await FindMyHistoryInterface.find(filters);
+        return new Success(ctx, {
+            data: locations.map(e => FindMyHistoryInterface.serialize(e)),
+            metadata: { offset: filters.offset, limit: filters.limit, total, count: locations.length }
+        }).send();
+    }
+
+    static async getGeofences(ctx: RouterContext, _: Next) {
+        const geofences = await FindMyGeofenceInterface.getAll();
+        return new Success(ctx, { data: geofences.map(e => FindMyGeofenceInterface.serialize(e)) }).send();
+    }
+
+    static async createGeofence(ctx: RouterContext, _: Next) {
+        try {
+            const geofence = await FindMyGeofenceInterface.create(FindMyRouter.getGeofenceParams(ctx.request.body));
+            return new Success(ctx, {
+                message: "Successfully created geofence!",
+                data: FindMyGeofenceInterface.serialize(geofence)
+            }).send();
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+    }
+
+    static async updateGeofence(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id, 10);
+        const existing = Number.isNaN(id) ? null : await FindMyGeofenceInterface.get(id);
+        if (!existing) throw new NotFound({ error: "Geofence does not exist!" });
+
+        try {
+            const geofence = await FindMyGeofenceInterface.update(id, FindMyRouter.getGeofenceParams(ctx.request.body));
+            return new Success(ctx, {
+                message: "Successfully updated geofence!",
+                data: FindMyGeofenceInterface.serialize(geofence)
+            }).send();
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+    }
+
+    static async deleteGeofence(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id, 10);
+        const deleted = Number.isNaN(id) ? false : await FindMyGeofenceInterface.delete(id);
+        if (!deleted) throw new NotFound({ error: "Geofence does not exist!" });
+
+        return new Success(ctx, { message: "Successfully deleted geofence!" }).send();
+    }
+
+    private static getGeofenceParams(body: any): FindMyGeofenceParams {
+        const { name, shape, latitude, longitude, radius, points, sources, enabled } = body ?? {};
+        return { name, shape, latitude, longitude, radius, points, sources, enabled };
+    }
 }
@@ -5,14 +5,19 @@ import type { File } from "formidable";
 
 import { Server } from "@server";
 import { FileSystem } from "@server/fileSystem";
-import { isEmpty, isNotEmpty } from "@server/helpers/utils";
+import { isEmpty, isNotEmpty, isTruthyBool } from "@server/helpers/utils";
 import { Message } from "@server/databases/imessage/entity/Message";
 import { MessageInterface } from "@server/api/interfaces/messageInterface";
 import { MessagePromiseRejection } from "@server/managers/outgoingMessageManager/messagePromise";
+import { RateLimitExceeded } from "@server/managers/outgoingMessageManager/rateLimiter";
 import { MessageSerializer } from "@server/api/serializers/MessageSerializer";
+import { MessageSearchInterface } from "@server/api/interfaces/messageSearchInterface";
+import { InvalidLinkError, LinkPreviewInterface } from "@server/api/interfaces/linkPreviewInterface";
 import { arrayHasOne } from "@server/utils/CollectionUtils";
+import type { MessageThreadResponse } from "@server/types";
 import { FileStream, Success } from "../responses/success";
-import { BadRequest, IMessageError, NotFound } from "../responses/errors";
+import { BadGateway, BadRequest, IMessageError, NotFound, TooManyRequests } from "../responses/errors";
+import { ValidationError } from "@server/lib/ValidationError";
 import { parseWithQuery } from "../utils";
 
 export class MessageRouter {
@@ -78,6 +83,9 @@ export class MessageRouter {
         const withAttributedBody = arrayHasOne(withQuery, ["attributedBody", "attributed-body"]);
         const withMessageSummaryInfo = arrayHasOne(withQuery, ["messageSummaryInfo", "message-summary-info"]);
         const withPayloadData = arrayHasOne(withQuery, ["payloadData", "payload-data"]);
+        const withReactions = arrayHasOne(withQuery, ["reactions", "reaction"]);
+        const withReplies = arrayHasOne(withQuery, ["replies", "reply"]);
+        const withEditHistory = arrayHasOne(withQuery, ["editHistory", "edit-history"]);
 
         // Fetch the info for the message by GUID
         const message = await Server().iMessageRepo.getMessage(guid, withChats, withAttachments);
@@ -104,12 +112,48 @@ export class MessageRouter {
                 config: {
                     parseAttributedBody: withAttributedBody,
                     parseMessageSummary: withMessageSummaryInfo,
-                    parsePayloadData: withPayloadData
+                    parsePayloadData: withPayloadData,
+                    includeReactions: withReactions,
+                    includeReplies: withReplies,
+                    includeEditHistory: withEditHistory
                 }
             })
         }).send();
     }
 
+    static async getThread(ctx: RouterContext, _: Next) {
+        const { guid } = ctx.params;
+        const { offset, limit, sort } = ctx.request.query;
+        const offsetValue = isNotEmpty(offset) ? Number.parseInt(offset as string, 10) : 0;
+        const limitValue = isNotEmpty(limit) ? Number.parseInt(limit as string, 10) : 100;
+
+        const thread = await MessageInterface.getThread(guid, {
+            offset: offsetValue,
+            limit: limitValue,
+            sort: ((sort as string) ?? "ASC").toUpperCase() as "ASC" | "DESC"
+        });
+
+        if (!thread) throw new NotFound({ error: "Message does not exist!" });
+
+        const config = { loadChatParticipants: false, includeChats: false, parseAttributedBody: true };
+        const originator = thread.originator
+            ? await MessageSerializer.serialize({ message: thread.originator, config })
+            : null;
+        const replies = await MessageSerializer.serializeList({ messages: thread.replies, config });
+
+        const data: MessageThreadResponse = {
+            originatorGuid: thread.originatorGuid,
+            originator,
+            replies: replies.map(reply => ({
+                ...reply,
+                partIndex: MessageSerializer.getThreadPartIndex(reply.threadOriginatorPart)
+            }))
+        };
+
+        const metadata = { offset: offsetValue, limit: limitValue, total: thread.total, count: replies.length };
+        return new Success(ctx, { data, metadata }).send();
+    }
+
     static async query(ctx: RouterContext, _: Next) {
         let {
             chatGuid,
@@ -132,6 +176,9 @@ export class MessageRouter {
         const withAttributedBody = arrayHasOne(withQuery, ["attributedbody", "attributed-body"]);
         const withMessageSummaryInfo = arrayHasOne(withQuery, ["messageSummaryInfo", "message-summary-info"]);
         const withPayloadData = arrayHasOne(withQuery, ["payloadData", "payload-data"]);
+        const withReactions = arrayHasOne(withQuery, ["reactions", "reaction"]);
+        const withReplies = arrayHasOne(withQuery, ["replies", "reply"]);
+        const withEditHistory = arrayHasOne(withQuery, ["editHistory", "edit-history"]);
 
         // We don't need to worry about it not being a number because
         // the validator checks for that. It also checks for min values.
@@ -170,7 +217,10 @@ export class MessageRouter {
                 parseAttributedBody: withAttributedBody,
                 parseMessageSummary: withMessageSummaryInfo,
                 parsePayloadData: withPayloadData,
-                loadChatParticipants: withChatParticipants
+                loadChatParticipants: withChatParticipants,
+                includeReactions: withReactions,
+                includeReplies: withReplies,
+                includeEditHistory: withEditHistory
             }
         });
 
@@ -179,10 +229,82 @@ export class MessageRouter {
         return new Success(ctx, { data, message: "Successfully fetched messages!", metadata }).send();
     }
 
+    static async search(ctx: RouterContext, _: Next) {
+        let { query, with: withQuery, offset, limit, convertAttachments } = ctx?.request?.body ?? {};
+
+        // Pull out the filters
+        withQuery = parseWithQuery(withQuery);
+        const withChats = arrayHasOne(withQuery, ["chat", "chats"]);
+        const withAttachments = arrayHasOne(withQuery, ["attachment", "attachments"]);
+        const withAttachmentMetadata = arrayHasOne(withQuery, ["attachment.metadata", "attachments.metadata"]);
+        const withChatParticipants = arrayHasOne(withQuery, ["chat.participants", "chats.participants"]);
+        const withAttributedBody = arrayHasOne(withQuery, ["attributedbody", "attributed-body"]);
+        const withMessageSummaryInfo = arrayHasOne(withQuery, ["messageSummaryInfo", "message-summary-info"]);
+        const withPayloadData = arrayHasOne(withQuery, ["payloadData", "payload-data"]);
+        const withReactions = arrayHasOne(withQuery, ["reactions", "reaction"]);
+        const withReplies = arrayHasOne(withQuery, ["replies", "reply"]);
+        const withEditHistory = arrayHasOne(withQuery, ["editHistory", "edit-history"]);
+
+        offset = offset ? Number.parseInt(offset, 10) : 0;
+        limit = limit ? Number.parseInt(limit, 10) : 25;
+
+        let result;
+        try {
+            result = await MessageSearchInterface.search({
+                query,
+                limit,
+                offset,
+                withChats: withChats || withChatParticipants,
+                withAttachments
+            });
+        } catch (ex: any) {
+            if (ex instanceof ValidationError) throw new BadRequest({ error: ex.message });
+            throw ex;
+        }
+
+        const data = await MessageSerializer.serializeList({
+            messages: result.messages,
+            attachmentConfig: {
+                loadMetadata: withAttachmentMetadata,
+                convert: convertAttachments
+            },
+            config: {
+                parseAttributedBody: withAttributedBody,
+                parseMessageSummary: withMessageSummaryInfo,
+                parsePayloadData: withPayloadData,
+                loadChatParticipants: withChatParticipants,
+                includeReactions: withReactions,
+                includeReplies: withReplies,
+                includeEditHistory: withEditHistory
+            }
+        });
+
+        // The highlighted snippets & ranks are keyed by message GUID, so the data keeps the usual shape
+        const highlights: Record<string, { rank: number | null; snippet: string | null }> = {};
+        for (const hit of result.hits) {
+            highlights[hit.guid] = { rank: hit.rank, snippet: hit.snippet };
+        }
+
+        const metadata = { offset, limit, total: result.total, count: data.length, query: result.query, highlights };
+        return new Success(ctx, { data, message: "Successfully searched messages!", metadata }).send();
+    }
+
+    static async getOutgoing(ctx: RouterContext, _: Next) {
+        const data = await MessageInterface.getOutgoingSends();
+        const metadata = {
+            count: data.length,
+            pending: data.filter(i => i.status === "pending").length,
+            inFlight: data.filter(i => i.status === "in-flight").length,
+            failed: data.filter(i => i.status === "failed").length
+        };
+
+        return new Success(ctx, { data, message: "Successfully fetched outgoing messages!", metadata }).send();
+    }
+
     static async sendText(ctx: RouterContext, _: Next) {
         let {
             tempGuid, message, attributedBody, method, chatGuid,
-            effectId, subject, selectedMessageGuid, partIndex, ddScan
+            effectId, subject, selectedMessageGuid, partIndex, ddScan, richLink
         } = ctx?.request?.body ?? {};
 
         // Add to send cache
@@ -200,7 +322,9 @@ export class MessageRouter {
                 selectedMessageGuid,
                 tempGuid,
                 partIndex,
-                ddScan
+                ddScan,
+                richLink,
+                tokenId: ctx.state.auth?.tokenId
             });
 
             // Remove from cache
@@ -236,7 +360,9 @@ export class MessageRouter {
             // Remove from cache
             Server().httpService.sendCache.remove(tempGuid);
 
-            if (ex instanceof Message) {
+            if (ex instanceof RateLimitExceeded) {
+                throw new TooManyRequests({ error: ex.message }, Math.ceil(ex.retryAfterMs / 1000));
+            } else if (ex instanceof Message) {
                 throw new IMessageError({
                     message: "Message Send Error",
                     // No need to load the participants since we sent the message
@@ -289,7 +415,8 @@ export class MessageRouter {
                 subject,
                 effectId,
                 selectedMessageGuid,
-                partIndex
+                partIndex,
+                tokenId: ctx.state.auth?.tokenId
             });
 
             // Remove from cache
@@ -311,7 +438,9 @@ export class MessageRouter {
             // Remove from cache
             Server().httpService.sendCache.remove(tempGuid);
 
-            if (ex instanceof Message) {
+            if (ex instanceof RateLimitExceeded) {
+                throw new TooManyRequests({ error: ex.message }, Math.ceil(ex.retryAfterMs / 1000));
+            } else if (ex instanceof Message) {
                 throw new IMessageError({
                     message: "Attachment Send Error",
                     // No need to load the participants since we sent the message
@@ -362,7 +491,8 @@ export class MessageRouter {
                 effectId,
                 selectedMessageGuid,
                 partIndex,
-                ddScan
+                ddScan,
+                tokenId: ctx.state.auth?.tokenId
             });
 
             // Remove from cache
@@ -398,7 +528,9 @@ export class MessageRouter {
             // Remove from cache
             Server().httpService.sendCache.remove(tempGuid);
 
-            if (ex instanceof Message) {
+            if (ex instanceof RateLimitExceeded) {
+                throw new TooManyRequests({ error: ex.message }, Math.ceil(ex.retryAfterMs / 1000));
+            } else if (ex instanceof Message) {
                 throw new IMessageError({
                     message: "Message Send Error",
                     // No need to load the participants since we sent the message
@@ -636,6 +768,27 @@ export class MessageRouter {
         return new FileStream(ctx, fullPath, mimeType).send();
     }
 
+    static async getLinkPreview(ctx: RouterContext, _: Next) {
+        const { url, withImage } = ctx.request.query;
+
+        let preview;
+        try {
+            preview = await LinkPreviewInterface.getPreview(url as string);
+        } catch (ex: any) {
+            // The URL itself is the problem, vs. the site failing to load
+            if (ex instanceof InvalidLinkError) throw new BadRequest({ error: ex.message });
+            throw new BadGateway({ message: "Failed to load link preview!", error: ex?.message ?? String(ex) });
+        }
+
+        if (!preview.title && !preview.imageUrl) {
+            throw new NotFound({ error: "No preview is available for the URL!" });
+        }
+
+        return new Success(ctx, {
+            data: LinkPreviewInterface.serialize(preview, isTruthyBool(withImage as string))
+        }).send();
+    }
+
     static async notify(ctx: RouterContext, _: Next) {
         const { guid: messageGuid } = ctx?.params ?? {};
 
@@ -4,12 +4,13 @@ import { FileSystem } from "@server/fileSystem";
 import { Server } from "@server";
 import { ServerInterface } from "@server/api/interfaces/serverInterface";
 import { GeneralInterface } from "@server/api/interfaces/generalInterface";
-import { Success } from "../responses/success";
+import { PlainText, Success } from "../responses/success";
 import { AlertsInterface } from "@server/api/interfaces/alertsInterface";
 import { isEmpty, isTruthyBool } from "@server/helpers/utils";
 import { BadRequest } from "../responses/errors";
 import { autoUpdater } from "electron-updater";
 import { SERVER_UPDATE_DOWNLOADING } from "@server/events";
+import { MetricsRegistryInstance } from "@server/lib/metrics/Metrics";
 
 export class ServerRouter {
     static async getInfo(ctx: RouterContext, _: Next) {
@@ -73,6 +74,12 @@ export class ServerRouter {
         return new Success(ctx, { data: logs }).send();
     }
 
+    static async getMetrics(ctx: RouterContext, _: Next) {
+        // Rendered in the Prometheus text exposition format
+        const metrics = MetricsRegistryInstance.render();
+        return new PlainText(ctx, metrics, "text/plain; version=0.0.4; charset=utf-8").send();
+    }
+
     static async getStatTotals(ctx: RouterContext, _: Next) {
         const { only } = ctx.request.query;
 
@@ -0,0 +1,43 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { WebhookInterface } from "@server/api/interfaces/webhookInterface";
+import { Success } from "../responses/success";
+import { NotFound } from "../responses/errors";
+
+export class WebhookRouter {
+    static async get(ctx: RouterContext, _: Next) {
+        const webhooks = await WebhookInterface.getWebhooks();
+        return new Success(ctx, { data: webhooks.map(WebhookInterface.serializeWebhook) }).send();
+    }
+
+    static async getDeliveries(ctx: RouterContext, _: Next) {
+        const { webhookId, status, limit, offset } = ctx.request.query;
+        const deliveries = await WebhookInterface.getDeliveries({
+            webhookId: webhookId ? Number.parseInt(webhookId as string, 10) : null,
+            status: (status as string) ?? null,
+            limit: limit ? Number.parseInt(limit as string, 10) : 100,
+            offset: offset ? Number.parseInt(offset as string, 10) : 0
+        });
+
+        return new Success(ctx, { data: deliveries.map(e => WebhookInterface.serializeDelivery(e)) }).send();
+    }
+
+    static async getDelivery(ctx: RouterContext, _: Next) {
+        const delivery = await WebhookInterface.getDelivery(Number.parseInt(ctx.params.id, 10));
+        if (!delivery) throw new NotFound({ error: "Webhook delivery does not exist!" });
+
+        return new Success(ctx, { data: WebhookInterface.serializeDelivery(delivery, true) }).send();
+    }
+
+    static async redeliver(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id, 10);
+        const delivery = Number.isNaN(id) ? null : await WebhookInterface.getDelivery(id);
+        if (!delivery) throw new NotFound({ error: "Webhook delivery does not exist!" });
+
+        const data = await WebhookInterface.redeliver(id);
+        return new Success(ctx, {
+            message: "Successfully queued webhook for redelivery!",
+            data: WebhookInterface.serializeDelivery(data)
+        }).send();
+    }
+}
@@ -4,7 +4,6 @@ import * as path from "path";
 import * as fs from "fs";
 import * as zlib from "zlib";
 import * as base64 from "byte-base64";
-import * as CryptoJS from "crypto-js";
 import { Socket } from "socket.io";
 
 // HTTP libraries
@@ -32,7 +31,8 @@ import {
     createSuccessResponse,
     createServerErrorResponse,
     createBadRequestResponse,
-    createNoDataResponse
+    createNoDataResponse,
+    createForbiddenResponse
 } from "./responses";
 import { MessageSerializer } from "@server/api/serializers/MessageSerializer";
 import { CHAT_READ_STATUS_CHANGED } from "@server/events";
@@ -41,32 +41,68 @@ import { HandleSerializer } from "@server/api/serializers/HandleSerializer";
 import { AttachmentSerializer } from "@server/api/serializers/AttachmentSerializer";
 import { MacOsInterface } from "@server/api/interfaces/macosInterface";
 import { getLogger } from "@server/lib/logging/Loggable";
+import { ApiAuth, ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { EventJournalInterface } from "@server/api/interfaces/eventJournalInterface";
+import { EncryptionInterface } from "@server/api/interfaces/encryptionInterface";
+import { EncryptionContext } from "@server/api/types/encryptionTypes";
 
 const unknownError = "Unknown Error. Check server logs!";
 const log = getLogger("SocketRoutes");
 
 export class SocketRoutes {
-    static createRoutes(socket: Socket) {
-        const response = (
+    /**
+     * The scopes an API token needs to be able to call each socket event.
+     * Any event not listed here requires the server-admin scope.
+     */
+    static eventScopes: Record<string, ApiTokenScope[]> = {
+        "get-server-metadata": [ApiTokenScope.READ_MESSAGES],
+        "get-vcf": [ApiTokenScope.READ_MESSAGES],
+        "add-fcm-device": [ApiTokenScope.READ_MESSAGES],
+        "get-fcm-client": [ApiTokenScope.READ_MESSAGES],
+        "get-chats": [ApiTokenScope.READ_MESSAGES],
+        "get-chat": [ApiTokenScope.READ_MESSAGES],
+        "get-chat-messages": [ApiTokenScope.READ_MESSAGES],
+        "get-messages": [ApiTokenScope.READ_MESSAGES],
+        "get-attachment": [ApiTokenScope.READ_MESSAGES],
+        "get-attachment-chunk": [ApiTokenScope.READ_MESSAGES],
+        "get-last-chat-message": [ApiTokenScope.READ_MESSAGES],
+        "get-participants": [ApiTokenScope.READ_MESSAGES],
+        "get-contacts-from-vcf": [ApiTokenScope.READ_MESSAGES],
+        "get-events-since": [ApiTokenScope.READ_MESSAGES],
+        "send-message": [ApiTokenScope.SEND_MESSAGES],
+        "send-message-chunk": [ApiTokenScope.SEND_MESSAGES],
+        "send-reaction": [ApiTokenScope.SEND_MESSAGES, ApiTokenScope.PRIVATE_API],
+        "started-typing": [ApiTokenScope.SEND_MESSAGES, ApiTokenScope.PRIVATE_API],
+        "stopped-typing": [ApiTokenScope.SEND_MESSAGES, ApiTokenScope.PRIVATE_API],
+        "update-typing-status": [ApiTokenScope.SEND_MESSAGES, ApiTokenScope.PRIVATE_API],
+        "start-chat": [ApiTokenScope.MANAGE_CHATS],
+        "rename-group": [ApiTokenScope.MANAGE_CHATS],
+        "add-participant": [ApiTokenScope.MANAGE_CHATS],
+        "remove-participant": [ApiTokenScope.MANAGE_CHATS],
+        "toggle-chat-read-status": [ApiTokenScope.MANAGE_CHATS],
+        "open-chat": [ApiTokenScope.MANAGE_CHATS],
+        "mark-chat-read": [ApiTokenScope.MANAGE_CHATS]
+    };
+
+    static createRoutes(socket: Socket, auth: ApiAuth, encryption: EncryptionContext) {
+        const response = async (
             callback: (res: ResponseJson) => void | null,
             channel: string | null,
             data: ResponseFormat
-        ): void => {
+        ): Promise<void> => {
             const resData = data as ResponseJson;
             resData.encrypted = false;
 
-            // Only encrypt coms enabled
-            const encrypt = Server().repo.getConfig("encrypt_coms") as boolean;
-            const passphrase = Server().repo.getConfig("password") as string;
-
-            // Don't encrypt the attachment, it's already encrypted
-            if (encrypt) {
-                if (typeof resData.data === "string" && channel !== "attachment-chunk") {
-                    resData.data = CryptoJS.AES.encrypt(resData.data, passphrase).toString();
-                    resData.encrypted = true;
-                } else if (channel !== "attachment-chunk") {
-                    resData.data = CryptoJS.AES.encrypt(JSON.stringify(resData.data), passphrase).toString();
+            // Only encrypt coms enabled. Don't encrypt the attachment, it's already encrypted
+            if (EncryptionInterface.isEnabled && channel !== "attachment-chunk" && resData.data !== undefined) {
+                try {
+                    resData.data = await EncryptionInterface.encrypt(resData.data, encryption);
                     resData.encrypted = true;
+                } catch (ex: any) {
+                    log.debug(`Failed to encrypt response! ${ex?.message ?? String(ex)}`);
+                    resData.data = null;
+                    resData.error = { type: ErrorTypes.SERVER_ERROR, message: ex?.message ?? String(ex) };
                 }
             }
 
@@ -76,6 +112,20 @@ export class SocketRoutes {
             if (resData.error) log.debug(resData.error.message);
         };
 
+        /**
+         * Make sure the client has the scopes required for the event.
+         * If it doesn't, respond with a forbidden response and drop the event.
+         */
+        socket.use((packet: any[], next: (error?: Error) => void) => {
+            const [event, ...args] = packet;
+            const scopes = SocketRoutes.eventScopes[event] ?? [ApiTokenScope.SERVER_ADMIN];
+            if (ApiTokenInterface.hasScopes(auth, scopes)) return next();
+
+            log.debug(`API token "${auth?.name}" attempted to call socket event "${event}" without the required scope(s)`);
+            const cb = args.length > 0 && typeof args[args.length - 1] === "function" ? args[args.length - 1] : null;
+            return response(cb, event, createForbiddenResponse());
+        });
+
         /**
          * Return information about the server
          */
@@ -152,7 +202,7 @@ export class SocketRoutes {
         /**
          * Return information about the server's config
          */
-        socket.on("get-server-config", (_, cb): void => {
+        socket.on("get-server-config", async (_, cb): Promise<void> => {
             const { config } = Server().repo;
 
             // Strip out some stuff the user doesn't need
@@ -525,7 +575,7 @@ export class SocketRoutes {
             }
 
             // Make sure the message isn't already in the queue
-            if (Server().httpService.sendCache.find(tempGuid)) {
+            if (Server().httpService.sendCache.find(tempGuid) || (await Server().repo.hasQueuedMessage(tempGuid))) {
                 return response(
                     cb,
                     "error",
@@ -548,7 +598,8 @@ export class SocketRoutes {
                         chatGuid,
                         attachmentPath: newPath,
                         attachmentName: params?.attachmentName,
-                        attachmentGuid: params?.attachmentGuid
+                        attachmentGuid: params?.attachmentGuid,
+                        tokenId: auth.tokenId
                     });
                 }
 
@@ -558,7 +609,8 @@ export class SocketRoutes {
                         chatGuid,
                         message,
                         method: "apple-script",
-                        tempGuid
+                        tempGuid,
+                        tokenId: auth.tokenId
                     });
                 }
 
@@ -626,7 +678,7 @@ export class SocketRoutes {
             if (!tempGuid) return response(cb, "error", createBadRequestResponse("No temporary GUID provided"));
 
             // Make sure the message isn't already in the queue
-            if (Server().httpService.sendCache.find(tempGuid)) {
+            if (Server().httpService.sendCache.find(tempGuid) || (await Server().repo.hasQueuedMessage(tempGuid))) {
                 return response(cb, "error", createBadRequestResponse("Attachment is already queued to be sent!"));
             }
 
@@ -681,7 +733,8 @@ export class SocketRoutes {
                         message,
                         attachmentGuid,
                         attachmentName: params?.attachmentName,
-                        attachmentPath
+                        attachmentPath,
+                        tokenId: auth.tokenId
                     }
                 });
 
@@ -950,7 +1003,7 @@ export class SocketRoutes {
         /**
          * Tells all clients that a chat is read
          */
-        socket.on("toggle-chat-read-status", (params, cb): void => {
+        socket.on("toggle-chat-read-status", async (params, cb): Promise<void> => {
             // Make sure we have all the required data
             if (!params?.chatGuid) return response(cb, "error", createBadRequestResponse("No chat GUID provided!"));
             if (params?.status === null)
@@ -969,7 +1022,7 @@ export class SocketRoutes {
         /**
          * Tells the server to "read a chat"
          */
-        socket.on("open-chat", (params, cb): void => {
+        socket.on("open-chat", async (params, cb): Promise<void> => {
             // Make sure we have all the required data
             if (!params?.chatGuid) return response(cb, "error", createBadRequestResponse("No chat GUID provided!"));
 
@@ -1071,6 +1124,26 @@ export class SocketRoutes {
             return response(cb, "save-vcf", createSuccessResponse(await GeneralInterface.checkForUpdate()));
         });
 
+        /**
+         * Replays all the events emitted after a given sequence number
+         */
+        socket.on("get-events-since", async (params, cb): Promise<void> => {
+            const after = Number.parseInt(String(params?.after ?? ""), 10);
+            if (Number.isNaN(after) || after < 0) {
+                return response(cb, "error", createBadRequestResponse("No valid `after` sequence number provided"));
+            }
+
+            const limit = Math.min(Math.max(Number.parseInt(String(params?.limit ?? 1000), 10) || 1000, 1), 1000);
+            const { events, metadata } = await EventJournalInterface.getEventsSince({
+                after,
+                limit,
+                types: Array.isArray(params?.types) ? params.types : null,
+                auth
+            });
+
+            return response(cb, "events", createSuccessResponse(events, null, metadata));
+        });
+
         socket.on("disconnect", reason => {
             log.info(`Client ${socket.id} disconnected! Reason: ${reason}`);
         });
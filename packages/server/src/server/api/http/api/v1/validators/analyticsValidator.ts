@@ -0,0 +1,37 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { AnalyticsInterface } from "@server/api/interfaces/analyticsInterface";
+import { ValidateInput } from "./index";
+
+export class AnalyticsValidator {
+    static rangeRules = {
+        after: "numeric|min:0",
+        before: "numeric|min:1",
+        chatGuid: "string"
+    };
+
+    static async validateRange(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.query, AnalyticsValidator.rangeRules);
+        await next();
+    }
+
+    static timeSeriesRules = {
+        ...AnalyticsValidator.rangeRules,
+        interval: `string|in:${AnalyticsInterface.intervals.join(",")}`
+    };
+
+    static async validateTimeSeries(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.query, AnalyticsValidator.timeSeriesRules);
+        await next();
+    }
+
+    static totalsRules = {
+        ...AnalyticsValidator.rangeRules,
+        limit: "numeric|min:1|max:500"
+    };
+
+    static async validateTotals(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.query, AnalyticsValidator.totalsRules);
+        await next();
+    }
+}
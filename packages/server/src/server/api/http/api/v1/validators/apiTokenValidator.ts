@@ -0,0 +1,27 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import { ValidateInput } from "./index";
+import { BadRequest } from "../responses/errors";
+
+export class ApiTokenValidator {
+    static createRules = {
+        name: "required|string",
+        scopes: "required|array"
+    };
+
+    static async validateCreate(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, ApiTokenValidator.createRules);
+
+        const scopes = ctx.request.body.scopes as string[];
+        const valid = Object.values(ApiTokenScope) as string[];
+        const invalid = scopes.filter(scope => !valid.includes(scope));
+        if (invalid.length > 0) {
+            throw new BadRequest({
+                error: `Invalid scope(s): ${invalid.join(", ")}. Valid scopes: ${valid.join(", ")}`
+            });
+        }
+
+        await next();
+    }
+}
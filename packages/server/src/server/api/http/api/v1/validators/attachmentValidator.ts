@@ -1,6 +1,7 @@
 import { RouterContext } from "koa-router";
 import { Next } from "koa";
 
+import { AttachmentVariant } from "@server/api/interfaces/attachmentInterface";
 import { ValidateInput } from "./index";
 import { BadRequest } from "../responses/errors";
 
@@ -19,7 +20,8 @@ export class AttachmentValidator {
         width: "numeric|min:1",
         quality: "string|in:good,better,best",
         force: "boolean",
-        original: "boolean"
+        original: "boolean",
+        variant: `string|in:${Object.values(AttachmentVariant).join(",")}`
     };
 
     static async validateDownload(ctx: RouterContext, next: Next) {
@@ -38,4 +40,29 @@ export class AttachmentValidator {
 
         await next();
     }
+
+    static uploadSessionRules = {
+        name: "required|string",
+        size: "numeric|min:1",
+        md5: "string|size:32"
+    };
+
+    static async validateCreateUploadSession(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, AttachmentValidator.uploadSessionRules);
+        await next();
+    }
+
+    static async validateUploadChunk(ctx: RouterContext, next: Next) {
+        // The chunk is read as raw bytes, so it can't be parsed by the body parser
+        if (!ctx.is("application/octet-stream")) {
+            throw new BadRequest({ error: "Chunks must be uploaded with the application/octet-stream content type!" });
+        }
+
+        const offset = ctx.request.headers["upload-offset"] ?? ctx.request.query.offset;
+        if (offset == null || !/^\d+$/.test(String(offset))) {
+            throw new BadRequest({ error: "A valid chunk offset must be provided (Upload-Offset header)!" });
+        }
+
+        await next();
+    }
 }
@@ -19,9 +19,28 @@ export class ChatValidator {
         await next();
     }
 
+    static exportRules = {
+        after: "numeric|min:0",
+        before: "numeric|min:1"
+    };
+
+    static async validateExport(ctx: RouterContext, next: Next) {
+        const { after, before } = ValidateInput(ctx?.request?.body ?? {}, ChatValidator.exportRules);
+        if (after != null && before != null && Number(after) >= Number(before)) {
+            throw new BadRequest({ error: "The 'after' date must be before the 'before' date!" });
+        }
+
+        await next();
+    }
+
     static queryRules = {
         with: "array",
-        sort: "string|in:lastmessage",
+        sort: "string|in:lastmessage,pinned,label,muted",
+        metadata: "json-object",
+        "metadata.pinned": "boolean",
+        "metadata.archived": "boolean",
+        "metadata.muted": "boolean",
+        "metadata.label": "string",
         offset: "numeric|min:0",
         limit: "numeric|min:1|max:1000"
     };
@@ -64,6 +83,51 @@ export class ChatValidator {
         await next();
     }
 
+    static draftRules = {
+        text: "string",
+        attachments: "array",
+        "attachments.*": "string",
+        replyToGuid: "string",
+        replyToPart: "numeric|min:0",
+        effectId: "string"
+    };
+
+    static async validateDraft(ctx: RouterContext, next: Next) {
+        const { text, attachments } = ValidateInput(ctx?.request?.body ?? {}, ChatValidator.draftRules);
+        if (text == null && attachments == null) {
+            throw new BadRequest({ error: "A draft must have text or attachments!" });
+        }
+
+        await next();
+    }
+
+    static metadataRules = {
+        pinned: "boolean",
+        pinnedIndex: "numeric|min:0",
+        isArchived: "boolean",
+        isMuted: "boolean",
+        mutedUntil: "numeric|min:0",
+        labels: "array",
+        "labels.*.name": "required|string",
+        "labels.*.color": "string|regex:/^#[0-9a-f]{6}([0-9a-f]{2})?$/i",
+        notes: "string"
+    };
+
+    static async validateMetadata(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body ?? {}, ChatValidator.metadataRules);
+        await next();
+    }
+
+    static pinOrderRules = {
+        guids: "present|array",
+        "guids.*": "string"
+    };
+
+    static async validatePinOrder(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body ?? {}, ChatValidator.pinOrderRules);
+        await next();
+    }
+
     static async validateGroupChatIcon(ctx: RouterContext, next: Next) {
         const { files } = ctx.request;
 
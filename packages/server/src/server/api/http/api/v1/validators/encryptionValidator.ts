@@ -0,0 +1,16 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ValidateInput } from "./index";
+
+export class EncryptionValidator {
+    static exchangeRules = {
+        publicKey: "required|string",
+        name: "string",
+        replaces: "string"
+    };
+
+    static async validateExchange(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, EncryptionValidator.exchangeRules);
+        await next();
+    }
+}
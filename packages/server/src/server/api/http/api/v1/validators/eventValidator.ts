@@ -0,0 +1,16 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ValidateInput } from "./index";
+
+export class EventValidator {
+    static getEventsRules = {
+        after: "required|numeric|min:0",
+        limit: "numeric|min:1|max:1000",
+        types: "string"
+    };
+
+    static async validateGetEvents(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.query, EventValidator.getEventsRules);
+        await next();
+    }
+}
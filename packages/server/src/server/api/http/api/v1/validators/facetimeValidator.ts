@@ -0,0 +1,26 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ValidateInput } from "./index";
+import { BadRequest } from "../responses/errors";
+
+export class FaceTimeValidator {
+    static getCallsRules = {
+        address: "string",
+        direction: "string|in:incoming,outgoing",
+        status: "string|in:ringing,answered,missed,declined",
+        sort: "string|in:DESC,ASC",
+        after: "numeric|min:0",
+        before: "numeric|min:1",
+        offset: "numeric|min:0",
+        limit: "numeric|min:1|max:1000"
+    };
+
+    static async validateGetCalls(ctx: RouterContext, next: Next) {
+        const { after, before } = ValidateInput(ctx?.request?.query, FaceTimeValidator.getCallsRules);
+        if (after != null && before != null && Number(after) >= Number(before)) {
+            throw new BadRequest({ error: "The 'after' date must be before the 'before' date!" });
+        }
+
+        await next();
+    }
+}
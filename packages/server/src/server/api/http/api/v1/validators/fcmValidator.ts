@@ -1,15 +1,52 @@
 import { Next } from "koa";
 import { RouterContext } from "koa-router";
 import { ValidateInput } from "./index";
+import { BadRequest } from "../responses/errors";
 
 export class FcmValidator {
     static registerRules = {
         name: "required|string",
-        identifier: "required|string"
+        identifier: "required|string",
+        provider: "string|in:fcm,unifiedpush,webpush",
+        keys: "json-object",
+        "keys.p256dh": "string",
+        "keys.auth": "string",
+        clientVersion: "string",
+        platform: "string"
     };
 
     static async validateRegistration(ctx: RouterContext, next: Next) {
-        ValidateInput(ctx?.request?.body, FcmValidator.registerRules);
+        const { identifier, provider, keys } = ValidateInput(ctx?.request?.body, FcmValidator.registerRules);
+
+        // UnifiedPush & Web Push devices register the endpoint notifications are POSTed to
+        if (["unifiedpush", "webpush"].includes(provider)) {
+            if (!/^https?:\/\//i.test(identifier)) {
+                throw new BadRequest({ error: "The identifier must be an HTTP(S) push endpoint!" });
+            }
+        }
+
+        if (provider === "webpush" && (!keys?.p256dh || !keys?.auth)) {
+            throw new BadRequest({ error: "Web Push devices must provide the subscription's p256dh & auth keys!" });
+        }
+
+        await next();
+    }
+
+    static preferencesRules = {
+        events: "array",
+        "events.*": "string",
+        includeChats: "array",
+        "includeChats.*": "string",
+        excludeChats: "array",
+        "excludeChats.*": "string",
+        quietHours: "json-object",
+        "quietHours.start": "required_with:quietHours|string",
+        "quietHours.end": "required_with:quietHours|string",
+        mentionsOnly: "boolean"
+    };
+
+    static async validatePreferences(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body ?? {}, FcmValidator.preferencesRules);
         await next();
     }
 }
@@ -0,0 +1,51 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ValidateInput } from "./index";
+import { BadRequest } from "../responses/errors";
+
+export class FindMyValidator {
+    static getHistoryRules = {
+        sourceType: "string|in:friend,device",
+        sourceId: "string",
+        sort: "string|in:DESC,ASC",
+        after: "numeric|min:0",
+        before: "numeric|min:1",
+        offset: "numeric|min:0",
+        limit: "numeric|min:1|max:1000"
+    };
+
+    static async validateGetHistory(ctx: RouterContext, next: Next) {
+        const { after, before } = ValidateInput(ctx?.request?.query, FindMyValidator.getHistoryRules);
+        if (after != null && before != null && Number(after) >= Number(before)) {
+            throw new BadRequest({ error: "The 'after' date must be before the 'before' date!" });
+        }
+
+        await next();
+    }
+
+    static updateGeofenceRules = {
+        name: "string",
+        shape: "string|in:circle,polygon",
+        latitude: "numeric|min:-90|max:90",
+        longitude: "numeric|min:-180|max:180",
+        radius: "numeric|min:1",
+        points: "array",
+        sources: "array",
+        enabled: "boolean"
+    };
+
+    static createGeofenceRules = {
+        ...FindMyValidator.updateGeofenceRules,
+        name: "required|string"
+    };
+
+    static async validateCreateGeofence(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, FindMyValidator.createGeofenceRules);
+        await next();
+    }
+
+    static async validateUpdateGeofence(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, FindMyValidator.updateGeofenceRules);
+        await next();
+    }
+}
@@ -47,6 +47,18 @@ export class MessageValidator {
         await next();
     }
 
+    static threadParamRules = {
+        offset: "numeric|min:0",
+        limit: "numeric|min:1|max:1000",
+        sort: "string|in:ASC,DESC,asc,desc"
+    };
+
+    static async validateThread(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx.params, MessageValidator.findParamRules);
+        ValidateInput(ctx?.request?.query ?? {}, MessageValidator.threadParamRules);
+        await next();
+    }
+
     static queryBodyRules = {
         with: "array",
         convertAttachments: "boolean",
@@ -66,6 +78,19 @@ export class MessageValidator {
         await next();
     }
 
+    static searchBodyRules = {
+        query: "required|string|min:1",
+        with: "array",
+        convertAttachments: "boolean",
+        offset: "numeric|min:0",
+        limit: "numeric|min:1|max:1000"
+    };
+
+    static async validateSearch(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, MessageValidator.searchBodyRules);
+        await next();
+    }
+
     static sendTextRules = {
         chatGuid: "required|string",
         tempGuid: "string",
@@ -75,11 +100,12 @@ export class MessageValidator {
         subject: "string",
         selectedMessageGuid: "string",
         partIndex: "numeric|min:0",
-        ddScan: "boolean"
+        ddScan: "boolean",
+        richLink: "boolean"
     };
 
     static async validateText(ctx: RouterContext, next: Next) {
-        const { tempGuid, method, effectId, subject, selectedMessageGuid, message, ddScan } = ValidateInput(
+        const { tempGuid, method, effectId, subject, selectedMessageGuid, message, ddScan, richLink } = ValidateInput(
             ctx.request.body,
             MessageValidator.sendTextRules
         );
@@ -88,9 +114,9 @@ export class MessageValidator {
         // Default the method to AppleScript
         saniMethod = saniMethod ?? "apple-script";
 
-        // If we have an effectId, subject, reply, or attributedBody
+        // If we have an effectId, subject, reply, rich link, or attributedBody
         // let's imply we want to use the Private API
-        if (effectId || subject || selectedMessageGuid || ddScan || ctx.request.body.attributedBody) {
+        if (effectId || subject || selectedMessageGuid || ddScan || richLink || ctx.request.body.attributedBody) {
             saniMethod = "private-api";
         }
 
@@ -205,6 +231,16 @@ export class MessageValidator {
         await next();
     }
 
+    static linkPreviewRules = {
+        url: "required|url",
+        withImage: "string|in:true,false,1,0"
+    };
+
+    static async validateLinkPreview(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.query ?? {}, MessageValidator.linkPreviewRules);
+        await next();
+    }
+
     static multipartRules = {
         chatGuid: "required|string",
         tempGuid: "string",
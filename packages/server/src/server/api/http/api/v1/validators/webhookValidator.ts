@@ -0,0 +1,17 @@
+import { Next } from "koa";
+import { RouterContext } from "koa-router";
+import { ValidateInput } from "./index";
+
+export class WebhookValidator {
+    static getDeliveriesRules = {
+        webhookId: "numeric|min:1",
+        status: "string|in:pending,delivered,failed",
+        offset: "numeric|min:0",
+        limit: "numeric|min:1|max:1000"
+    };
+
+    static async validateGetDeliveries(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.query, WebhookValidator.getDeliveriesRules);
+        await next();
+    }
+}
@@ -21,10 +21,16 @@ import { CertificateService } from "@server/services/certificateService";
 import { HttpRoutes as HttpRoutesV1 } from "./api/v1/httpRoutes";
 import { SocketRoutes as SocketRoutesV1 } from "./api/v1/socketRoutes";
 import { ErrorMiddleware } from "./api/v1/middleware/errorMiddleware";
-import { createServerErrorResponse } from "./api/v1/responses";
+import { createBadRequestResponse, createServerErrorResponse } from "./api/v1/responses";
 import { HELLO_WORLD } from "@server/events";
 import { ScheduledService } from "../../lib/ScheduledService";
 import { Loggable } from "../../lib/logging/Loggable";
+import { Metrics } from "../../lib/metrics/Metrics";
+import { ApiTokenInterface } from "../interfaces/apiTokenInterface";
+import { ApiAuth } from "../types/apiTokenTypes";
+import { EncryptionInterface } from "../interfaces/encryptionInterface";
+import { DeviceInterface } from "../interfaces/deviceInterface";
+import { EncryptionContext, EncryptionVersion } from "../types/encryptionTypes";
 
 /**
  * This service class handles all routing for incoming socket
@@ -54,6 +60,15 @@ export class HttpService extends Loggable {
 
     sendCache: EventCache;
 
+    // Maps a socket ID to the auth information it connected with
+    socketAuth: Map<string, ApiAuth> = new Map();
+
+    // Maps a socket ID to the encryption protocol it negotiated
+    socketEncryption: Map<string, EncryptionContext> = new Map();
+
+    // Maps a socket ID to the name of the registered device it identified as (if any)
+    socketDevices: Map<string, string> = new Map();
+
     clearCacheService: ScheduledService;
 
     portCheckerService: ScheduledService;
@@ -179,23 +194,70 @@ export class HttpService extends Loggable {
          */
         this.socketServer.on("connection", async socket => {
             socket.on("disconnect", (_: any) => {
+                this.socketAuth.delete(socket.id);
+                this.socketEncryption.delete(socket.id);
+                this.socketDevices.delete(socket.id);
                 this.log.info(`Client disconnected (Total Clients: ${this.socketServer.sockets.sockets.size})`);
             });
 
-            let pass = socket.handshake.query?.password ?? socket.handshake.query?.guid;
-            const cfgPass = String((await Server().repo.getConfig("password")) as string);
+            // The token can be passed as a query param, in the handshake auth, or as a bearer token
+            const { query, auth: handshakeAuth, headers } = socket.handshake;
+            const header = safeTrim(headers?.authorization ?? "");
+            const bearer = header.toLowerCase().startsWith("bearer ") ? header.substring(7) : null;
+            let pass = query?.password ?? query?.guid ?? query?.token ?? (handshakeAuth as any)?.token ?? bearer;
 
             // Decode the param incase it contains URL encoded characters
-            pass = decodeURI(pass as string);
+            pass = decodeURI((pass as string) ?? "");
+
+            // Validate the token against the server password & the API tokens
+            let auth: ApiAuth = null;
+            try {
+                auth = await ApiTokenInterface.authenticate(pass);
+            } catch (ex: any) {
+                this.log.error(`Failed to authenticate client! ${ex?.message ?? String(ex)}`);
+            }
 
-            // Basic authentication
-            if (safeTrim(pass) === safeTrim(cfgPass)) {
+            Metrics.socketConnectionAttempts.inc({ result: auth ? "authenticated" : "rejected" });
+            if (auth) {
+                this.socketAuth.set(socket.id, auth);
                 this.log.info(
-                    `Client Authenticated Successfully (Total Clients: ${this.socketServer.sockets.sockets.size})`
+                    `Client Authenticated Successfully${auth.type === "token" ? ` (Token: ${auth.name})` : ""} (Total Clients: ${this.socketServer.sockets.sockets.size})`
                 );
             } else {
                 socket.disconnect();
                 this.log.info(`Closing client connection. Authentication failed.`);
+                return;
+            }
+
+            // Clients that don't request an encryption version are treated as legacy clients
+            let encryption: EncryptionContext = { version: EncryptionVersion.LEGACY };
+            try {
+                encryption =
+                    (await EncryptionInterface.negotiate(
+                        query?.encryption ?? (handshakeAuth as any)?.encryption,
+                        (query?.keyId ?? (handshakeAuth as any)?.keyId) as string
+                    )) ?? encryption;
+            } catch (ex: any) {
+                // The negotiated version doesn't matter if encryption is disabled
+                if (!EncryptionInterface.isEnabled) {
+                    this.log.debug(`Ignoring invalid encryption request: ${ex?.message ?? String(ex)}`);
+                } else {
+                    socket.emit("exception", createBadRequestResponse(ex?.message ?? String(ex)));
+                    socket.disconnect();
+                    this.log.info(`Closing client connection. ${ex?.message ?? String(ex)}`);
+                    return;
+                }
+            }
+
+            this.socketEncryption.set(socket.id, encryption);
+
+            // Clients can identify the registered device they are, so it can be revoked later
+            const deviceName = (query?.deviceName ?? (handshakeAuth as any)?.deviceName) as string;
+            if (isNotEmpty(deviceName)) {
+                this.socketDevices.set(socket.id, deviceName);
+                DeviceInterface.touch(deviceName, socket.handshake.address).catch((ex: any) => {
+                    this.log.debug(`Failed to update device activity! ${ex?.message ?? String(ex)}`);
+                });
             }
 
             /**
@@ -215,7 +277,7 @@ export class HttpService extends Loggable {
             });
 
             // Pass to method to handle the socket events
-            SocketRoutesV1.createRoutes(socket);
+            SocketRoutesV1.createRoutes(socket, auth, encryption);
         });
 
         // Start the server
@@ -261,13 +323,75 @@ export class HttpService extends Loggable {
         });
     }
 
-    kickClients() {
+    /**
+     * Disconnects all connected clients
+     *
+     * @param tokenId If provided, only disconnect the clients authenticated with this API token
+     */
+    kickClients(tokenId?: number) {
+        if (!this.socketServer) return;
+        this.socketServer.sockets.sockets.forEach(socket => {
+            if (tokenId != null && this.socketAuth.get(socket.id)?.tokenId !== tokenId) return;
+            socket.disconnect();
+        });
+    }
+
+    /**
+     * Disconnects the clients that negotiated an exchanged encryption key
+     *
+     * @param keyId The ID of the key
+     */
+    kickClientsUsingKey(keyId: string) {
+        if (!this.socketServer) return;
+        this.socketServer.sockets.sockets.forEach(socket => {
+            if (this.socketEncryption.get(socket.id)?.keyId !== keyId) return;
+            socket.disconnect();
+        });
+    }
+
+    /**
+     * Disconnects the clients that identified as a registered device
+     *
+     * @param name The name of the device
+     */
+    kickClientsForDevice(name: string) {
         if (!this.socketServer) return;
         this.socketServer.sockets.sockets.forEach(socket => {
+            if (this.socketDevices.get(socket.id) !== name) return;
             socket.disconnect();
         });
     }
 
+    /**
+     * Emits an event to all connected clients that have the scope(s) to receive it.
+     * If encryption is enabled, the data is encrypted for each client that negotiated v2 (or later).
+     * Legacy clients have never had events encrypted, so they still receive the plain data.
+     *
+     * @param type The event type
+     * @param data The event data
+     * @param args Any additional arguments to emit with the event
+     */
+    async emitToClients(type: string, data: any, ...args: any[]) {
+        if (!this.socketServer) return;
+
+        for (const socket of this.socketServer.sockets.sockets.values()) {
+            if (!ApiTokenInterface.canReceiveEvent(this.socketAuth.get(socket.id), type)) continue;
+
+            const encryption = this.socketEncryption.get(socket.id);
+            if (!EncryptionInterface.isEnabled || !encryption || encryption.version === EncryptionVersion.LEGACY) {
+                socket.emit(type, data, ...args);
+                continue;
+            }
+
+            try {
+                const encrypted = await EncryptionInterface.encrypt(data, encryption);
+                socket.emit(type, { encrypted: true, data: encrypted }, ...args);
+            } catch (ex: any) {
+                this.log.debug(`Failed to encrypt event (${type}) for client! ${ex?.message ?? String(ex)}`);
+            }
+        }
+    }
+
     async stop(): Promise<void> {
         this.log.info("Stopping HTTP Service...");
 
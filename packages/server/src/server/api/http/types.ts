@@ -1,5 +1,6 @@
 import type { Next } from "koa";
 import type { RouterContext } from "koa-router";
+import type { ApiTokenScope } from "@server/api/types/apiTokenTypes";
 
 export type KoaMiddleware = (ctx: RouterContext<any, any>, _: Next) => Promise<any>;
 
@@ -22,6 +23,7 @@ export type HttpRoute = {
     middleware?: KoaMiddleware[];
     validators?: KoaMiddleware[];
     controller: KoaMiddleware;
+    scopes?: ApiTokenScope[];
     requestTimeoutMs?: number;
     responseTimeoutMs?: number;
 };
@@ -31,6 +33,7 @@ export type HttpRouteGroup = {
     prefix?: string | null;
     middleware?: KoaMiddleware[];
     routes: HttpRoute[];
+    scopes?: ApiTokenScope[];
     requestTimeoutMs?: number;
     responseTimeoutMs?: number;
 };
@@ -0,0 +1,190 @@
+import { Server } from "@server";
+import { getDateUsing2001 } from "@server/databases/imessage/helpers/dateUtil";
+import { AnalyticsInterval, AnalyticsParams } from "@server/databases/imessage/types";
+import { ReactionIdToString } from "@server/databases/transformers/MessageTypeTransformer";
+
+export type AnalyticsQuery = AnalyticsParams & {
+    interval?: AnalyticsInterval;
+    limit?: number;
+};
+
+export type ResponseTimeSummary = {
+    // The number of responses the summary is based on
+    count: number;
+    // All times are in milliseconds
+    median: number | null;
+    average: number | null;
+    p90: number | null;
+};
+
+/**
+ * An interface to calculate statistics/analytics from the iMessage database.
+ * All date buckets (days, hours, etc.) are in the server's local time.
+ */
+export class AnalyticsInterface {
+    static intervals: AnalyticsInterval[] = ["hour", "day", "week", "month"];
+
+    // Replies that take longer than 12 hours are considered a new conversation, not a response
+    static maxResponseGapMs = 12 * 60 * 60 * 1000;
+
+    // If no date range is given, response times are calculated for the last 90 days
+    static defaultResponseWindowMs = 90 * 24 * 60 * 60 * 1000;
+
+    /**
+     * Gets the number of messages sent & received per interval
+     */
+    static async getMessageTimeSeries({ interval = "day", ...params }: AnalyticsQuery = {}) {
+        const rows = await Server().iMessageRepo.getMessageCountsByInterval(interval, params);
+        return rows.map((i: any) => ({
+            date: i.bucket,
+            sent: Number(i.sent ?? 0),
+            received: Number(i.received ?? 0),
+            total: Number(i.sent ?? 0) + Number(i.received ?? 0)
+        }));
+    }
+
+    /**
+     * Gets the number of messages per hour of each day of the week.
+     * The data is a 7 x 24 matrix, indexed by weekday (0 = Sunday), then hour.
+     */
+    static async getMessageHeatmap(params: AnalyticsParams = {}) {
+        const data: number[][] = Array.from({ length: 7 }, () => new Array(24).fill(0));
+        let max = 0;
+        for (const i of await Server().iMessageRepo.getMessageHeatmap(params)) {
+            if (data[i.weekday] == null || i.hour == null) continue;
+            data[i.weekday][i.hour] = Number(i.message_count ?? 0);
+            max = Math.max(max, data[i.weekday][i.hour]);
+        }
+
+        return { max, data };
+    }
+
+    /**
+     * Gets the number of messages sent & received in the most active chats
+     */
+    static async getChatTotals({ limit = 25, ...params }: AnalyticsQuery = {}) {
+        const rows = await Server().iMessageRepo.getMessageCountsByChat(params, limit);
+        return rows.map((i: any) => ({
+            chatGuid: i.chat_guid,
+            displayName: i.group_name ?? null,
+            isGroup: i.style === 43,
+            sent: Number(i.sent ?? 0),
+            received: Number(i.received ?? 0),
+            total: Number(i.sent ?? 0) + Number(i.received ?? 0)
+        }));
+    }
+
+    /**
+     * Gets the number of messages sent to & received from the most active handles
+     */
+    static async getHandleTotals({ limit = 25, ...params }: AnalyticsQuery = {}) {
+        const rows = await Server().iMessageRepo.getMessageCountsByHandle(params, limit);
+        return rows.map((i: any) => ({
+            address: i.address,
+            service: i.service,
+            sent: Number(i.sent ?? 0),
+            received: Number(i.received ?? 0),
+            total: Number(i.sent ?? 0) + Number(i.received ?? 0)
+        }));
+    }
+
+    /**
+     * Calculates how long it takes you to respond to messages, and how long it takes others to respond to you.
+     * A response is the first message after the other side has sent one, within the same chat.
+     */
+    static async getResponseTimes(params: AnalyticsParams = {}) {
+        const range = { ...params };
+        if (!range.after) {
+            range.after = new Date((range.before ?? new Date()).getTime() - AnalyticsInterface.defaultResponseWindowMs);
+        }
+
+        const mine: number[] = [];
+        const theirs: number[] = [];
+        let previous: { chatId: number; date: number; isFromMe: boolean } = null;
+        for (const i of await Server().iMessageRepo.getMessageTimeline(range)) {
+            const current = {
+                chatId: i.chat_id,
+                date: getDateUsing2001(i.date)?.getTime() ?? 0,
+                isFromMe: i.is_from_me === 1
+            };
+
+            if (previous && previous.chatId === current.chatId && previous.isFromMe !== current.isFromMe) {
+                const gap = current.date - previous.date;
+                if (gap >= 0 && gap <= AnalyticsInterface.maxResponseGapMs) {
+                    (current.isFromMe ? mine : theirs).push(gap);
+                }
+            }
+
+            previous = current;
+        }
+
+        return {
+            after: range.after.getTime(),
+            before: range.before?.getTime() ?? null,
+            me: AnalyticsInterface.summarize(mine),
+            others: AnalyticsInterface.summarize(theirs)
+        };
+    }
+
+    /**
+     * Gets the number of reactions sent, received, and removed, by reaction type
+     */
+    static async getReactionBreakdown(params: AnalyticsParams = {}) {
+        const results: Record<string, { reaction: string; sent: number; received: number; removed: number }> = {};
+        for (const i of await Server().iMessageRepo.getReactionCounts(params)) {
+            const type = Number(i.reaction_type);
+            const isRemoval = type >= 3000;
+            const name = ReactionIdToString[String(isRemoval ? type - 1000 : type)] ?? String(type);
+            if (!results[name]) results[name] = { reaction: name, sent: 0, received: 0, removed: 0 };
+
+            const count = Number(i.reaction_count ?? 0);
+            if (isRemoval) {
+                results[name].removed += count;
+            } else if (i.is_from_me === 1) {
+                results[name].sent += count;
+            } else {
+                results[name].received += count;
+            }
+        }
+
+        return Object.values(results).sort((a, b) => b.sent + b.received - (a.sent + a.received));
+    }
+
+    /**
+     * Gets the number (and total size) of attachments per interval, by media category
+     */
+    static async getAttachmentTimeSeries({ interval = "day", ...params }: AnalyticsQuery = {}) {
+        const results: Record<string, Record<string, any>> = {};
+        for (const i of await Server().iMessageRepo.getAttachmentCountsByInterval(interval, params)) {
+            if (!results[i.bucket]) {
+                results[i.bucket] = { date: i.bucket, total: 0, totalBytes: 0, image: 0, video: 0, audio: 0, other: 0 };
+            }
+
+            const count = Number(i.attachment_count ?? 0);
+            results[i.bucket][i.category] += count;
+            results[i.bucket].total += count;
+            results[i.bucket].totalBytes += Number(i.total_bytes ?? 0);
+        }
+
+        return Object.values(results);
+    }
+
+    private static summarize(values: number[]): ResponseTimeSummary {
+        if (values.length === 0) return { count: 0, median: null, average: null, p90: null };
+
+        const sorted = [...values].sort((a, b) => a - b);
+        const percentile = (p: number) => {
+            const idx = (sorted.length - 1) * p;
+            const lower = Math.floor(idx);
+            const upper = Math.ceil(idx);
+            return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (idx - lower));
+        };
+
+        return {
+            count: sorted.length,
+            median: percentile(0.5),
+            average: Math.round(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+            p90: percentile(0.9)
+        };
+    }
+}
@@ -0,0 +1,200 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { Server } from "@server";
+import { ApiToken } from "@server/databases/server/entity";
+import { isEmpty, safeTrim } from "@server/helpers/utils";
+import { generateRandomString } from "@server/utils/CryptoUtils";
+import * as events from "@server/events";
+import { ApiAuth, ApiTokenScope } from "../types/apiTokenTypes";
+
+/**
+ * An interface to interact with the API tokens stored in the server DB.
+ */
+export class ApiTokenInterface {
+    static tokenPrefix = "bb_";
+
+    // Don't write the last-used time to the DB on every single request
+    static lastUsedResolutionMs = 60 * 1000;
+
+    /**
+     * The scopes a client needs to receive each event the server emits.
+     * Any event not listed here requires the server-admin scope.
+     */
+    static emittedEventScopes: Record<string, ApiTokenScope[]> = {
+        [events.HELLO_WORLD]: [],
+        [events.NEW_MESSAGE]: [ApiTokenScope.READ_MESSAGES],
+        [events.MESSAGE_UPDATED]: [ApiTokenScope.READ_MESSAGES],
+        [events.MESSAGE_SEND_ERROR]: [ApiTokenScope.READ_MESSAGES],
+        [events.QUEUED_MESSAGE_ERROR]: [ApiTokenScope.READ_MESSAGES],
+        [events.THREAD_UPDATED]: [ApiTokenScope.READ_MESSAGES],
+        [events.TYPING_INDICATOR]: [ApiTokenScope.READ_MESSAGES],
+        [events.PARTICIPANT_REMOVED]: [ApiTokenScope.READ_MESSAGES],
+        [events.PARTICIPANT_ADDED]: [ApiTokenScope.READ_MESSAGES],
+        [events.PARTICIPANT_LEFT]: [ApiTokenScope.READ_MESSAGES],
+        [events.GROUP_ICON_CHANGED]: [ApiTokenScope.READ_MESSAGES],
+        [events.GROUP_ICON_REMOVED]: [ApiTokenScope.READ_MESSAGES],
+        [events.GROUP_NAME_CHANGE]: [ApiTokenScope.READ_MESSAGES],
+        [events.CHAT_READ_STATUS_CHANGED]: [ApiTokenScope.READ_MESSAGES],
+        [events.CHAT_METADATA_UPDATED]: [ApiTokenScope.READ_MESSAGES],
+        [events.CHAT_EXPORT_PROGRESS]: [ApiTokenScope.READ_MESSAGES],
+        [events.DRAFT_UPDATED]: [ApiTokenScope.READ_MESSAGES],
+        [events.SCHEDULED_MESSAGE_CREATED]: [ApiTokenScope.READ_MESSAGES],
+        [events.SCHEDULED_MESSAGE_UPDATED]: [ApiTokenScope.READ_MESSAGES],
+        [events.SCHEDULED_MESSAGE_DELETED]: [ApiTokenScope.READ_MESSAGES],
+        [events.SCHEDULED_MESSAGE_SENT]: [ApiTokenScope.READ_MESSAGES],
+        [events.SCHEDULED_MESSAGE_ERROR]: [ApiTokenScope.READ_MESSAGES],
+        [events.INCOMING_FACETIME]: [ApiTokenScope.READ_MESSAGES],
+        [events.FT_CALL_STATUS_CHANGED]: [ApiTokenScope.READ_MESSAGES],
+        [events.FACETIME_CALL_MISSED]: [ApiTokenScope.READ_MESSAGES],
+        [events.NEW_FINDMY_LOCATION]: [ApiTokenScope.FINDMY],
+        [events.FINDMY_GEOFENCE_ENTER]: [ApiTokenScope.FINDMY],
+        [events.FINDMY_GEOFENCE_EXIT]: [ApiTokenScope.FINDMY]
+    };
+
+    static get allScopes(): ApiTokenScope[] {
+        return Object.values(ApiTokenScope);
+    }
+
+    static hashToken(token: string): string {
+        return createHash("sha256").update(token).digest("hex");
+    }
+
+    static async find(): Promise<ApiToken[]> {
+        return await Server().repo.apiTokens().find({ order: { created: "DESC" } });
+    }
+
+    static async get(id: number): Promise<ApiToken | null> {
+        return await Server().repo.apiTokens().findOneBy({ id });
+    }
+
+    /**
+     * Converts an API token to a JSON object, omitting the token hash
+     */
+    static serialize(item: ApiToken): Record<string, any> {
+        return {
+            id: item.id,
+            name: item.name,
+            tokenPrefix: item.tokenPrefix,
+            scopes: item.scopes,
+            lastUsed: item.lastUsed ? item.lastUsed.getTime() : null,
+            created: item.created ? item.created.getTime() : null
+        };
+    }
+
+    /**
+     * Creates a new API token. The raw token is only returned here,
+     * only the hash of it is stored in the DB.
+     *
+     * @param name A name to identify the token by
+     * @param scopes The scopes to grant the token
+     * @returns The saved token, as well as the raw token value
+     */
+    static async create(name: string, scopes: string[]): Promise<{ token: string; apiToken: ApiToken }> {
+        if (isEmpty(name)) throw new Error("An API token must have a name!");
+        if (isEmpty(scopes)) throw new Error("An API token must have at least 1 scope!");
+
+        const invalid = scopes.filter(s => !ApiTokenInterface.allScopes.includes(s as ApiTokenScope));
+        if (invalid.length > 0) throw new Error(`Invalid API token scope(s): ${invalid.join(", ")}`);
+
+        const token = `${ApiTokenInterface.tokenPrefix}${generateRandomString(48)}`;
+        const repo = Server().repo.apiTokens();
+        const apiToken = repo.create({
+            name: safeTrim(name),
+            tokenHash: ApiTokenInterface.hashToken(token),
+            tokenPrefix: token.substring(0, ApiTokenInterface.tokenPrefix.length + 6),
+            scopes: [...new Set(scopes)]
+        });
+
+        await repo.save(apiToken);
+        Server().log(`Created new API token: ${apiToken.name} (Scopes: ${apiToken.scopes.join(", ")})`);
+        return { token, apiToken };
+    }
+
+    /**
+     * Revokes (deletes) an API token, and disconnects any sockets using it.
+     *
+     * @param id The ID of the token to revoke
+     */
+    static async revoke(id: number): Promise<void> {
+        const item = await ApiTokenInterface.get(id);
+        if (!item) throw new Error("API token does not exist!");
+
+        await Server().repo.apiTokens().delete(item.id);
+        Server().log(`Revoked API token: ${item.name}`);
+        Server().httpService?.kickClients(item.id);
+    }
+
+    /**
+     * Authenticates a token against the server password, as well as
+     * the API tokens stored in the DB.
+     *
+     * @param token The token provided by the client
+     * @returns The auth information, or null if the token is invalid
+     */
+    static async authenticate(token: string): Promise<ApiAuth | null> {
+        const value = safeTrim(token ?? "");
+        if (isEmpty(value)) return null;
+
+        // The server password grants full access
+        const password = safeTrim(String((Server().repo.getConfig("password") as string) ?? ""));
+        if (isEmpty(password)) {
+            throw new Error("Failed to retrieve password from the database");
+        }
+
+        if (ApiTokenInterface.safeEquals(password, value)) {
+            return { type: "password", scopes: ApiTokenInterface.allScopes };
+        }
+
+        if (!value.startsWith(ApiTokenInterface.tokenPrefix)) return null;
+        const apiToken = await Server()
+            .repo.apiTokens()
+            .findOneBy({ tokenHash: ApiTokenInterface.hashToken(value) });
+        if (!apiToken) return null;
+
+        const now = new Date();
+        const lastUsed = apiToken.lastUsed?.getTime() ?? 0;
+        if (now.getTime() - lastUsed > ApiTokenInterface.lastUsedResolutionMs) {
+            await Server().repo.apiTokens().update(apiToken.id, { lastUsed: now });
+        }
+
+        return {
+            type: "token",
+            tokenId: apiToken.id,
+            name: apiToken.name,
+            scopes: apiToken.scopes as ApiTokenScope[]
+        };
+    }
+
+    static hasScopes(auth: ApiAuth | null, scopes: ApiTokenScope[]): boolean {
+        if (!auth) return false;
+        return scopes.every(scope => auth.scopes.includes(scope));
+    }
+
+    /**
+     * Gets a filter for the event types a client is allowed to receive (i.e. when replaying stored events).
+     * Without the server-admin scope, only the listed events the client has the scope(s) for are allowed.
+     * With it, every event is allowed, except the listed events the client is missing a scope for.
+     *
+     * @returns The allowed types (or null if any type is allowed), and the denied types
+     */
+    static getEventTypeFilter(auth: ApiAuth | null): { allowed: string[] | null; denied: string[] } {
+        const types = Object.keys(ApiTokenInterface.emittedEventScopes);
+        const denied = types.filter(type => !ApiTokenInterface.canReceiveEvent(auth, type));
+        if (ApiTokenInterface.hasScopes(auth, [ApiTokenScope.SERVER_ADMIN])) return { allowed: null, denied };
+        return { allowed: types.filter(type => !denied.includes(type)), denied: [] };
+    }
+
+    /**
+     * Checks if a client is allowed to receive an event
+     */
+    static canReceiveEvent(auth: ApiAuth | null, type: string): boolean {
+        const scopes = ApiTokenInterface.emittedEventScopes[type] ?? [ApiTokenScope.SERVER_ADMIN];
+        return ApiTokenInterface.hasScopes(auth, scopes);
+    }
+
+    private static safeEquals(a: string, b: string): boolean {
+        const aBuf = Buffer.from(a);
+        const bBuf = Buffer.from(b);
+        if (aBuf.length !== bBuf.length) return false;
+        return timingSafeEqual(aBuf, bBuf);
+    }
+}
@@ -1,13 +1,133 @@
 import { nativeImage } from "electron";
 import fs from "fs";
+import path from "path";
 import { getBlurHash, isEmpty, resultAwaiter } from "@server/helpers/utils";
 import { FileSystem } from "@server/fileSystem";
 import { Attachment } from "@server/databases/imessage/entity/Attachment";
 import { Server } from "@server";
 
+/**
+ * The derivatives that can be generated for an attachment
+ */
+export enum AttachmentVariant {
+    // A PNG poster frame (videos), first page (PDFs), or thumbnail (images)
+    THUMBNAIL = "thumbnail",
+    // A low-bitrate H.264 MP4 of a video
+    PREVIEW = "preview",
+    // A short, small H.264 MP4 clip from the start of a video (meant to be looped & muted)
+    ANIMATED = "animated"
+}
+
 export class AttachmentInterface {
     static livePhotoExts = ["png", "jpeg", "jpg", "heic", "tiff"];
 
+    // The default max width/height of thumbnails
+    static defaultThumbnailSize = 512;
+
+    // The sizes thumbnails are generated at. Requested sizes are snapped to these,
+    // so clients can't request huge renders, or fill the cache with one file per size.
+    static thumbnailSizes = [128, 256, 512, 1024];
+
+    // The length (in seconds) of animated previews
+    static animatedPreviewDuration = 3;
+
+    // Derivatives being generated, so concurrent requests don't generate the same one twice
+    private static pendingDerivatives: Map<string, Promise<string>> = new Map();
+
+    /**
+     * Checks if a variant can be generated for an attachment's MIME type
+     */
+    static supportsVariant(variant: AttachmentVariant, mimeType: string): boolean {
+        const mType = mimeType ?? "";
+        if (variant === AttachmentVariant.THUMBNAIL) {
+            return mType.startsWith("video/") || mType.startsWith("image/") || mType === "application/pdf";
+        }
+
+        return mType.startsWith("video/");
+    }
+
+    /**
+     * Gets (or generates) a derivative of an attachment.
+     * Derivatives are cached alongside the resized images, in the attachment cache directory.
+     *
+     * @param attachment The attachment to get the derivative for
+     * @param variant The type of derivative
+     * @param size The max width/height (thumbnails only). This is snapped to one of the `thumbnailSizes`
+     * @returns The path & MIME type of the derivative
+     */
+    static async getDerivative(
+        attachment: Attachment,
+        variant: AttachmentVariant,
+        size: number = null
+    ): Promise<{ path: string; mimeType: string }> {
+        const mimeType = attachment.getMimeType();
+        if (!AttachmentInterface.supportsVariant(variant, mimeType)) {
+            throw new Error(`The "${variant}" variant is not supported for ${mimeType ?? "unknown"} attachments`);
+        }
+
+        const thumbnailSize = AttachmentInterface.getThumbnailSize(size);
+        const name =
+            variant === AttachmentVariant.THUMBNAIL ? `${variant}.${thumbnailSize}.png` : `${variant}.mp4`;
+        const outputPath = FileSystem.cachedAttachmentPath(attachment, name);
+        const output = { path: outputPath, mimeType: name.endsWith(".png") ? "image/png" : "video/mp4" };
+        if (fs.existsSync(outputPath)) return output;
+
+        const key = `${attachment.guid}:${name}`;
+        if (!AttachmentInterface.pendingDerivatives.has(key)) {
+            const task = AttachmentInterface.generateDerivative(attachment, variant, outputPath, thumbnailSize);
+            AttachmentInterface.pendingDerivatives.set(key, task);
+            task.finally(() => AttachmentInterface.pendingDerivatives.delete(key)).catch(() => null);
+        }
+
+        await AttachmentInterface.pendingDerivatives.get(key);
+        return output;
+    }
+
+    /**
+     * Snaps a requested thumbnail size to the smallest supported size that is at least as big
+     * (or the largest supported size, if it's bigger than all of them)
+     */
+    static getThumbnailSize(size: number = null): number {
+        if (!size || !Number.isFinite(size) || size <= 0) return AttachmentInterface.defaultThumbnailSize;
+
+        const sizes = AttachmentInterface.thumbnailSizes;
+        return sizes.find(i => i >= size) ?? sizes[sizes.length - 1];
+    }
+
+    private static async generateDerivative(
+        attachment: Attachment,
+        variant: AttachmentVariant,
+        outputPath: string,
+        size: number
+    ): Promise<string> {
+        const dir = path.dirname(outputPath);
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+        // Generate to a temporary path first, so a partial file is never served
+        const ext = path.extname(outputPath);
+        const tmpPath = `${outputPath.substring(0, outputPath.length - ext.length)}.tmp${ext}`;
+        Server().log(`Generating ${variant} for attachment, ${attachment.transferName}...`);
+
+        try {
+            if (variant === AttachmentVariant.THUMBNAIL) {
+                await FileSystem.generateThumbnail(attachment.filePath, tmpPath, size);
+            } else if (variant === AttachmentVariant.PREVIEW) {
+                await FileSystem.convertVideoToMp4(attachment.filePath, tmpPath, "Preset960x540");
+            } else if (variant === AttachmentVariant.ANIMATED) {
+                const duration = AttachmentInterface.animatedPreviewDuration;
+                await FileSystem.convertVideoToMp4(attachment.filePath, tmpPath, "Preset640x480", 0, duration);
+            }
+
+            fs.renameSync(tmpPath, outputPath);
+        } catch (ex: any) {
+            if (fs.existsSync(tmpPath)) fs.unlinkSync(tmpPath);
+            Server().log(`Failed to generate ${variant} for attachment, ${attachment.transferName}`, "debug");
+            throw ex;
+        }
+
+        return outputPath;
+    }
+
     static async getBlurhash({
         filePath,
         width = null,
@@ -0,0 +1,207 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { Server } from "@server";
+import { FileSystem } from "@server/fileSystem";
+import { generateUuid, isEmpty, safeTrim } from "@server/helpers/utils";
+import { ValidationError } from "@server/lib/ValidationError";
+import { AttachmentInterface } from "./attachmentInterface";
+
+export type UploadSession = {
+    id: string;
+    // The name of the file being uploaded
+    name: string;
+    // The total size of the file (in bytes), if the client provided it
+    size: number | null;
+    // The MD5 hash of the file, if the client provided it (used to verify the upload)
+    md5: string | null;
+    // The number of bytes received so far. The next chunk must start here.
+    offset: number;
+    created: number;
+    expiresAt: number;
+};
+
+/**
+ * An interface to manage resumable (chunked) attachment uploads.
+ *
+ * The chunks are saved the same way as the socket "send-message-chunk" flow,
+ * named by their byte offset, so they can be reassembled with `FileSystem.buildAttachmentChunks`.
+ */
+export class AttachmentUploadInterface {
+    // Sessions that haven't been finalized within 24 hours are removed
+    static sessionLifetimeMs = 24 * 60 * 60 * 1000;
+
+    // The max size of a single chunk (50 MB)
+    static maxChunkSize = 50 * 1024 * 1024;
+
+    private static getSessionPath(id: string): string {
+        return path.join(FileSystem.attachmentsDir, `${id}.upload.json`);
+    }
+
+    /**
+     * Creates a new upload session
+     *
+     * @param name The name of the file being uploaded
+     * @param size The total size of the file, in bytes
+     * @param md5 The MD5 hash of the file, to verify the upload once it's finalized
+     */
+    static async create(name: string, size: number = null, md5: string = null): Promise<UploadSession> {
+        AttachmentUploadInterface.purgeExpired();
+
+        // Only keep the file name, so the path can't escape the session directory
+        const fileName = path.basename(safeTrim(name ?? ""));
+        if (isEmpty(fileName)) throw new ValidationError("An upload must have a file name!");
+
+        const now = new Date().getTime();
+        const session: UploadSession = {
+            id: generateUuid(),
+            name: fileName,
+            size: size ?? null,
+            md5: md5 ? md5.toLowerCase() : null,
+            offset: 0,
+            created: now,
+            expiresAt: now + AttachmentUploadInterface.sessionLifetimeMs
+        };
+
+        if (!fs.existsSync(FileSystem.attachmentsDir)) fs.mkdirSync(FileSystem.attachmentsDir, { recursive: true });
+        fs.writeFileSync(AttachmentUploadInterface.getSessionPath(session.id), JSON.stringify(session));
+        Server().log(`Created upload session for ${session.name} (ID: ${session.id})`, "debug");
+        return session;
+    }
+
+    /**
+     * Gets an upload session, including how many bytes have been received
+     *
+     * @param id The session ID
+     * @returns The session, or null if it doesn't exist (or has expired)
+     */
+    static get(id: string): UploadSession | null {
+        // Session IDs are UUIDs, don't let them be used as paths
+        if (!/^[a-f0-9-]+$/i.test(id ?? "")) return null;
+
+        const sessionPath = AttachmentUploadInterface.getSessionPath(id);
+        if (!fs.existsSync(sessionPath)) return null;
+
+        const session = JSON.parse(fs.readFileSync(sessionPath, "utf-8")) as UploadSession;
+        if (session.expiresAt < new Date().getTime()) {
+            AttachmentUploadInterface.cancel(id);
+            return null;
+        }
+
+        // The offset is the end of the last contiguous chunk
+        let offset = 0;
+        for (const file of FileSystem.getAttachmentChunks(id)) {
+            const start = Number(file.split(".")[0]);
+            if (start !== offset) break;
+            offset += fs.statSync(path.join(FileSystem.attachmentsDir, id, file)).size;
+        }
+
+        return { ...session, offset };
+    }
+
+    /**
+     * Saves a chunk for an upload session
+     *
+     * @param id The session ID
+     * @param offset The byte offset the chunk starts at
+     * @param buffer The chunk bytes
+     * @returns The updated session
+     */
+    static writeChunk(id: string, offset: number, buffer: Uint8Array): UploadSession {
+        const session = AttachmentUploadInterface.get(id);
+        if (!session) throw new ValidationError("Upload session does not exist!");
+        if (offset !== session.offset) {
+            throw new ValidationError(`Chunk offset (${offset}) does not match the upload offset (${session.offset})!`);
+        }
+
+        if (session.size != null && offset + buffer.length > session.size) {
+            throw new ValidationError(`Chunk exceeds the size of the upload (${session.size} bytes)!`);
+        }
+
+        FileSystem.saveAttachmentChunk(id, offset, buffer);
+        return { ...session, offset: offset + buffer.length };
+    }
+
+    /**
+     * Builds the uploaded file from its chunks, and saves it like a regular upload
+     *
+     * @param id The session ID
+     * @returns The hash of the upload, which can be used to send it
+     */
+    static async finalize(id: string): Promise<string> {
+        const session = AttachmentUploadInterface.get(id);
+        if (!session) throw new ValidationError("Upload session does not exist!");
+        if (session.offset === 0) throw new ValidationError("No data has been uploaded!");
+        if (session.size != null && session.offset !== session.size) {
+            throw new ValidationError(`Upload is incomplete! Received ${session.offset} of ${session.size} bytes`);
+        }
+
+        const outFile = FileSystem.buildAttachmentChunks(id, session.name);
+        const hash = await AttachmentUploadInterface.getMd5(outFile);
+        if (session.md5 && session.md5 !== hash) {
+            fs.unlinkSync(outFile);
+            throw new ValidationError("Upload failed verification! The MD5 hash does not match");
+        }
+
+        await AttachmentInterface.upload(outFile, hash);
+        AttachmentUploadInterface.cancel(id);
+        return hash;
+    }
+
+    /**
+     * Removes an upload session and any chunks it has received
+     *
+     * @param id The session ID
+     */
+    static cancel(id: string): void {
+        FileSystem.deleteChunks(id);
+        const sessionPath = AttachmentUploadInterface.getSessionPath(id);
+        if (fs.existsSync(sessionPath)) fs.unlinkSync(sessionPath);
+    }
+
+    static purgeExpired(): void {
+        if (!fs.existsSync(FileSystem.attachmentsDir)) return;
+
+        for (const file of fs.readdirSync(FileSystem.attachmentsDir)) {
+            if (!file.endsWith(".upload.json")) continue;
+
+            // Getting the session removes it if it's expired
+            try {
+                AttachmentUploadInterface.get(file.replace(".upload.json", ""));
+            } catch (ex: any) {
+                Server().log(`Failed to check upload session (${file}): ${ex?.message ?? String(ex)}`, "debug");
+            }
+        }
+    }
+
+    /**
+     * Reads a raw request body into memory, up to the max chunk size
+     *
+     * @param stream The request stream
+     */
+    static async readChunk(stream: Readable): Promise<Buffer> {
+        const parts: Buffer[] = [];
+        let size = 0;
+        for await (const part of stream) {
+            size += part.length;
+            if (size > AttachmentUploadInterface.maxChunkSize) {
+                throw new ValidationError(`Chunks can be at most ${AttachmentUploadInterface.maxChunkSize} bytes!`);
+            }
+
+            parts.push(Buffer.from(part));
+        }
+
+        return Buffer.concat(parts);
+    }
+
+    private static getMd5(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = createHash("md5");
+            fs.createReadStream(filePath)
+                .on("data", data => hash.update(data))
+                .on("error", reject)
+                .on("end", () => resolve(hash.digest("hex")));
+        });
+    }
+}
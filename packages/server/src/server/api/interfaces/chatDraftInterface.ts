@@ -0,0 +1,95 @@
+import { Server } from "@server";
+import { ChatDraft } from "@server/databases/server/entity";
+import { isEmpty, safeTrim } from "@server/helpers/utils";
+import { DRAFT_UPDATED } from "@server/events";
+
+export type ChatDraftParams = {
+    text?: string | null;
+    // Upload session IDs, or hashes of uploaded attachments
+    attachments?: string[];
+    replyToGuid?: string | null;
+    replyToPart?: number | null;
+    effectId?: string | null;
+};
+
+/**
+ * An interface to manage the drafts (compose state) of chats, so they can be shared across clients.
+ * Every change is emitted to the clients as a `draft-updated` event.
+ */
+export class ChatDraftInterface {
+    static async get(chatGuid: string): Promise<ChatDraft | null> {
+        return await Server().repo.chatDrafts().findOneBy({ chatGuid });
+    }
+
+    static serialize(item: ChatDraft): Record<string, any> {
+        return {
+            chatGuid: item.chatGuid,
+            text: item.text ?? null,
+            attachments: item.attachments ?? [],
+            replyToGuid: item.replyToGuid ?? null,
+            replyToPart: item.replyToPart ?? null,
+            effectId: item.effectId ?? null,
+            created: item.created ? item.created.getTime() : null,
+            updated: item.updated ? item.updated.getTime() : null
+        };
+    }
+
+    /**
+     * Saves (replaces) the draft for a chat.
+     * If the draft has no content (no text & no attachments), it's deleted instead.
+     *
+     * @param chatGuid The GUID of the chat the draft belongs to
+     * @param params The draft's compose state
+     * @returns The saved draft, or null if it was deleted
+     */
+    static async save(chatGuid: string, params: ChatDraftParams): Promise<ChatDraft | null> {
+        const text = params.text ?? null;
+        const attachments = [...new Set((params.attachments ?? []).map(i => safeTrim(String(i))))].filter(
+            i => !isEmpty(i)
+        );
+
+        if (isEmpty(text) && isEmpty(attachments)) {
+            await ChatDraftInterface.delete(chatGuid);
+            return null;
+        }
+
+        const repo = Server().repo.chatDrafts();
+        const item = (await repo.findOneBy({ chatGuid })) ?? repo.create({ chatGuid });
+        item.text = text;
+        item.attachments = attachments;
+        item.replyToGuid = isEmpty(params.replyToGuid) ? null : params.replyToGuid;
+        item.replyToPart = item.replyToGuid ? params.replyToPart ?? 0 : null;
+        item.effectId = isEmpty(params.effectId) ? null : params.effectId;
+
+        await repo.save(item);
+        await ChatDraftInterface.emitUpdate(chatGuid, item);
+        return item;
+    }
+
+    /**
+     * Deletes the draft for a chat (i.e. when the message is sent, or the text is cleared)
+     *
+     * @param chatGuid The GUID of the chat the draft belongs to
+     * @returns Whether a draft was deleted
+     */
+    static async delete(chatGuid: string): Promise<boolean> {
+        const result = await Server().repo.chatDrafts().delete({ chatGuid });
+        if (!result.affected) return false;
+
+        await ChatDraftInterface.emitUpdate(chatGuid, null);
+        return true;
+    }
+
+    private static async emitUpdate(chatGuid: string, item: ChatDraft | null): Promise<void> {
+        await Server().emitMessage(
+            DRAFT_UPDATED,
+            {
+                chatGuid,
+                draft: item ? ChatDraftInterface.serialize(item) : null
+            },
+            "normal",
+            false,
+            true
+        );
+    }
+}
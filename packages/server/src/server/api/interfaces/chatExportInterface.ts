@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import { Server } from "@server";
+import { ChatExportStatus } from "@server/services/chatExportService";
+import type { ChatExportJob } from "@server/services/chatExportService";
+
+/**
+ * An interface to export chats to a zip bundle (JSON transcript, HTML rendering & attachments)
+ */
+export class ChatExportInterface {
+    /**
+     * Starts an export for a chat. The export runs in the background,
+     * and its' progress is emitted with the chat-export-progress event.
+     *
+     * @param chatGuid The chat to export
+     * @param after Only export messages after this date
+     * @param before Only export messages before this date
+     * @returns The export job
+     */
+    static createExport(chatGuid: string, after: Date | null = null, before: Date | null = null): ChatExportJob {
+        if (!Server().chatExports) throw new Error("Chat Export service is not running!");
+        return Server().chatExports.createExport(chatGuid, after, before);
+    }
+
+    static getExports(chatGuid: string): ChatExportJob[] {
+        return Server().chatExports?.getJobs(chatGuid) ?? [];
+    }
+
+    static getExport(chatGuid: string, id: string): ChatExportJob | null {
+        const job = Server().chatExports?.getJob(id);
+        return job?.chatGuid === chatGuid ? job : null;
+    }
+
+    /**
+     * Gets the path to a finished export's zip file
+     *
+     * @param job The export job
+     * @returns The path, or null if the export isn't available
+     */
+    static getExportPath(job: ChatExportJob): string | null {
+        if (job?.status !== ChatExportStatus.COMPLETE) return null;
+
+        const exportPath = Server().chatExports.getExportPath(job.id);
+        return fs.existsSync(exportPath) ? exportPath : null;
+    }
+}
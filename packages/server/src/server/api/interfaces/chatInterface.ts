@@ -16,6 +16,7 @@ import { FileSystem } from "@server/fileSystem";
 import { ChatResponse } from "@server/types";
 import { startChat } from "../apple/scripts";
 import { MessageInterface } from "./messageInterface";
+import { ChatMetadataInterface } from "./chatMetadataInterface";
 import { CHAT_READ_STATUS_CHANGED } from "@server/events";
 import { ChatSerializer } from "../serializers/ChatSerializer";
 import { Attachment } from "@server/databases/imessage/entity/Attachment";
@@ -27,10 +28,16 @@ export class ChatInterface {
         guid = null,
         withArchived = true,
         withLastMessage = false,
+        withMetadata = false,
+        metadataFilters = {},
         offset = 0,
         limit = null,
         sort = "lastmessage"
     }: any = {}): Promise<[ChatResponse[], number]> {
+        // Filter by the server-side chat metadata. If nothing can match, don't bother querying
+        const where = await ChatMetadataInterface.getChatFilters(metadataFilters ?? {});
+        if (where == null) return [[], 0];
+
         // First fetch chats without the last message.
         // This is because fetching the last message will make the participants list 1 for each chat.
         // It will also only return chats that have a last message.
@@ -38,6 +45,7 @@ export class ChatInterface {
             chatGuid: guid as string,
             withLastMessage: false,
             withArchived,
+            where,
             offset,
             limit
         });
@@ -49,6 +57,7 @@ export class ChatInterface {
                 withLastMessage: true,
                 withParticipants: false,
                 withArchived,
+                where,
                 offset: null,
                 limit: null
             });
@@ -84,6 +93,14 @@ export class ChatInterface {
             results.push(chatRes);
         }
 
+        const metadataSorts = ["pinned", "label", "muted"];
+        if (withMetadata || metadataSorts.includes(sort)) {
+            const metadata = await ChatMetadataInterface.getForChats(results.map(i => i.guid));
+            for (const chat of results) {
+                chat.metadata = ChatMetadataInterface.serialize(metadata[chat.guid] ?? null, chat.guid);
+            }
+        }
+
         // If we have a sort parameter, handle the cases
         if (sort && sort === "lastmessage" && withLastMessage) {
             results.sort((a: ChatResponse, b: ChatResponse) => {
@@ -95,6 +112,22 @@ export class ChatInterface {
             });
         }
 
+        // The metadata sorts are stable, so chats with the same value stay sorted by their last message
+        if (sort === "pinned") {
+            const pinIndex = (chat: ChatResponse) => chat.metadata.pinnedIndex ?? Number.MAX_SAFE_INTEGER;
+            results.sort((a: ChatResponse, b: ChatResponse) => pinIndex(a) - pinIndex(b));
+        } else if (sort === "muted") {
+            results.sort((a: ChatResponse, b: ChatResponse) => Number(a.metadata.isMuted) - Number(b.metadata.isMuted));
+        } else if (sort === "label") {
+            // Chats without a label go last
+            const firstLabel = (chat: ChatResponse) => chat.metadata.labels[0]?.name?.toLowerCase() ?? "\uffff";
+            results.sort((a: ChatResponse, b: ChatResponse) => firstLabel(a).localeCompare(firstLabel(b)));
+        }
+
+        if (!withMetadata) {
+            for (const chat of results) delete chat.metadata;
+        }
+
         return [results, totalChats];
     }
 
@@ -0,0 +1,310 @@
+import { Server } from "@server";
+import { ChatMetadata } from "@server/databases/server/entity";
+import { ChatLabel } from "@server/databases/server/entity/ChatMetadata";
+import { isEmpty, isNotEmpty, safeTrim } from "@server/helpers/utils";
+import { CHAT_METADATA_UPDATED, NEW_MESSAGE } from "@server/events";
+
+export type ChatMetadataParams = {
+    pinned?: boolean;
+    // The position to pin the chat at. Defaults to the end of the pinned list.
+    pinnedIndex?: number | null;
+    isArchived?: boolean;
+    isMuted?: boolean;
+    mutedUntil?: Date | null;
+    labels?: ChatLabel[];
+    notes?: string | null;
+};
+
+export type ChatMetadataFilters = {
+    pinned?: boolean;
+    archived?: boolean;
+    muted?: boolean;
+    label?: string;
+};
+
+/**
+ * An interface to manage server-side chat metadata (pins, archives, mutes, labels, and notes).
+ * This is separate from what Messages.app stores, so every client shares the same state.
+ */
+export class ChatMetadataInterface {
+    // The chats that are muted, mapped to when they should be unmuted (null = indefinitely).
+    // This is cached because it's checked for every notification.
+    private static mutedCache: Map<string, number | null> = null;
+
+    static async get(chatGuid: string): Promise<ChatMetadata | null> {
+        return await Server().repo.chatMetadata().findOneBy({ chatGuid });
+    }
+
+    static async find(): Promise<ChatMetadata[]> {
+        return await Server().repo.chatMetadata().find({ order: { pinnedIndex: "ASC", chatGuid: "ASC" } });
+    }
+
+    /**
+     * Gets the metadata for multiple chats, keyed by chat GUID
+     */
+    static async getForChats(chatGuids: string[]): Promise<Record<string, ChatMetadata>> {
+        const output: Record<string, ChatMetadata> = {};
+        if (isEmpty(chatGuids)) return output;
+
+        const items = await Server()
+            .repo.chatMetadata()
+            .createQueryBuilder("metadata")
+            .where("metadata.chat_guid IN (:...chatGuids)", { chatGuids })
+            .getMany();
+        for (const item of items) output[item.chatGuid] = item;
+        return output;
+    }
+
+    /**
+     * Converts chat metadata to a JSON object.
+     * Chats without metadata are serialized with the defaults.
+     */
+    static serialize(item: ChatMetadata | null, chatGuid: string = null): Record<string, any> {
+        return {
+            chatGuid: item?.chatGuid ?? chatGuid,
+            isPinned: item?.pinnedIndex != null,
+            pinnedIndex: item?.pinnedIndex ?? null,
+            isArchived: item?.isArchived ?? false,
+            isMuted: item ? ChatMetadataInterface.isMutedItem(item) : false,
+            mutedUntil: item?.isMuted && item.mutedUntil ? item.mutedUntil.getTime() : null,
+            labels: item?.labels ?? [],
+            notes: item?.notes ?? null,
+            updated: item?.updated ? item.updated.getTime() : null
+        };
+    }
+
+    /**
+     * Updates the metadata for a chat. Only the provided fields are changed.
+     *
+     * @param chatGuid The GUID of the chat
+     * @param params The fields to update
+     * @returns The updated metadata
+     */
+    static async update(chatGuid: string, params: ChatMetadataParams): Promise<ChatMetadata> {
+        const repo = Server().repo.chatMetadata();
+        const item = (await repo.findOneBy({ chatGuid })) ?? repo.create({ chatGuid, labels: [] });
+
+        const previousIndex = item.pinnedIndex ?? null;
+        if (params.pinned === false) {
+            item.pinnedIndex = null;
+        } else if (params.pinned === true || params.pinnedIndex != null) {
+            item.pinnedIndex = params.pinnedIndex ?? item.pinnedIndex ?? Number.MAX_SAFE_INTEGER;
+        }
+
+        if (params.isArchived != null) item.isArchived = params.isArchived;
+        if (params.isMuted != null) {
+            item.isMuted = params.isMuted;
+            item.mutedUntil = params.isMuted ? params.mutedUntil ?? null : null;
+        } else if (params.mutedUntil !== undefined) {
+            item.isMuted = true;
+            item.mutedUntil = params.mutedUntil;
+        }
+
+        if (params.labels != null) item.labels = ChatMetadataInterface.normalizeLabels(params.labels);
+        if (params.notes !== undefined) item.notes = isEmpty(params.notes) ? null : params.notes;
+
+        await repo.save(item);
+        ChatMetadataInterface.mutedCache = null;
+
+        // Changing a pin can shift the other pinned chats, so they need to be re-indexed
+        if ((item.pinnedIndex ?? null) !== previousIndex) {
+            const pinned = (await ChatMetadataInterface.find()).filter(i => i.pinnedIndex != null);
+            const ordered = pinned.filter(i => i.chatGuid !== chatGuid);
+            if (item.pinnedIndex != null) {
+                ordered.splice(Math.min(item.pinnedIndex, ordered.length), 0, item);
+            }
+
+            await ChatMetadataInterface.savePinOrder(ordered.map(i => i.chatGuid), chatGuid);
+            return await ChatMetadataInterface.get(chatGuid);
+        }
+
+        await ChatMetadataInterface.emitUpdate([item]);
+        return item;
+    }
+
+    /**
+     * Sets the order of the pinned chats. Any chats not in the list are unpinned.
+     *
+     * @param chatGuids The GUIDs of the pinned chats, in order
+     * @returns The metadata for all the pinned chats
+     */
+    static async setPinOrder(chatGuids: string[]): Promise<ChatMetadata[]> {
+        const guids = [...new Set(chatGuids)];
+        return await ChatMetadataInterface.savePinOrder(guids);
+    }
+
+    /**
+     * Deletes the metadata for a chat, resetting it to the defaults
+     *
+     * @param chatGuid The GUID of the chat
+     * @returns Whether any metadata was deleted
+     */
+    static async delete(chatGuid: string): Promise<boolean> {
+        const item = await ChatMetadataInterface.get(chatGuid);
+        if (!item) return false;
+
+        await Server().repo.chatMetadata().delete({ chatGuid });
+        ChatMetadataInterface.mutedCache = null;
+        if (item.pinnedIndex != null) {
+            const pinned = (await ChatMetadataInterface.find()).filter(i => i.pinnedIndex != null);
+            await ChatMetadataInterface.savePinOrder(pinned.map(i => i.chatGuid));
+        }
+
+        await Server().emitMessage(
+            CHAT_METADATA_UPDATED,
+            [ChatMetadataInterface.serialize(null, chatGuid)],
+            "normal",
+            false,
+            true
+        );
+
+        return true;
+    }
+
+    /**
+     * Checks if notifications for a chat should be suppressed
+     *
+     * @param chatGuid The GUID of the chat
+     */
+    static async isMuted(chatGuid: string): Promise<boolean> {
+        if (isEmpty(chatGuid)) return false;
+
+        if (!ChatMetadataInterface.mutedCache) {
+            const items = await Server().repo.chatMetadata().findBy({ isMuted: true });
+            ChatMetadataInterface.mutedCache = new Map(
+                items.map(i => [i.chatGuid, i.mutedUntil ? i.mutedUntil.getTime() : null])
+            );
+        }
+
+        if (!ChatMetadataInterface.mutedCache.has(chatGuid)) return false;
+        const mutedUntil = ChatMetadataInterface.mutedCache.get(chatGuid);
+        return mutedUntil == null || mutedUntil > new Date().getTime();
+    }
+
+    /**
+     * Checks if a notification is for a new message in a chat that has been muted
+     *
+     * @param notification The notification type & (JSON encoded) data
+     */
+    static async isMutedNotification(notification: { type: string; data: any }): Promise<boolean> {
+        if (notification?.type !== NEW_MESSAGE) return false;
+
+        try {
+            const data = typeof notification.data === "string" ? JSON.parse(notification.data) : notification.data;
+            return await ChatMetadataInterface.isMuted(data?.chats?.[0]?.guid);
+        } catch (ex: any) {
+            const error = ex?.message ?? String(ex);
+            Server().log(`Failed to check if the notification is for a muted chat: ${error}`, "debug");
+        }
+
+        return false;
+    }
+
+    /**
+     * Builds the WHERE clauses to filter an iMessage chat query by the chat metadata
+     *
+     * @param filters The metadata filters
+     * @returns The WHERE clauses, or null if no chats can match the filters
+     */
+    static async getChatFilters(
+        filters: ChatMetadataFilters
+    ): Promise<{ statement: string; args: Record<string, any> }[] | null> {
+        const where: { statement: string; args: Record<string, any> }[] = [];
+        if (filters.pinned == null && filters.archived == null && filters.muted == null && isEmpty(filters.label)) {
+            return where;
+        }
+
+        const items = await Server().repo.chatMetadata().find();
+        const label = safeTrim(filters.label ?? "").toLowerCase();
+        const matches = (value: boolean | null, expected: boolean | null) => expected == null || value === expected;
+
+        // Chats without metadata use the defaults, so they can only match "negative" filters.
+        // That means the positive filters are an IN clause, and the negative filters are a NOT IN clause.
+        const include: string[] = [];
+        const exclude: string[] = [];
+        for (const item of items) {
+            const serialized = ChatMetadataInterface.serialize(item);
+            const isMatch =
+                matches(serialized.isPinned, filters.pinned ?? null) &&
+                matches(serialized.isArchived, filters.archived ?? null) &&
+                matches(serialized.isMuted, filters.muted ?? null) &&
+                (isEmpty(label) || serialized.labels.some((i: ChatLabel) => i.name.toLowerCase() === label));
+            (isMatch ? include : exclude).push(item.chatGuid);
+        }
+
+        const defaultsMatch = !filters.pinned && !filters.archived && !filters.muted && isEmpty(label);
+        if (defaultsMatch) {
+            if (isNotEmpty(exclude)) {
+                where.push({ statement: "chat.guid NOT IN (:...excludeGuids)", args: { excludeGuids: exclude } });
+            }
+
+            return where;
+        }
+
+        if (isEmpty(include)) return null;
+        where.push({ statement: "chat.guid IN (:...includeGuids)", args: { includeGuids: include } });
+        return where;
+    }
+
+    /**
+     * Saves the order of the pinned chats, and emits an update for any chats that changed
+     *
+     * @param chatGuids The GUIDs of the pinned chats, in order
+     * @param updatedGuid A chat that was updated, which should be emitted even if its pin didn't change
+     */
+    private static async savePinOrder(chatGuids: string[], updatedGuid: string = null): Promise<ChatMetadata[]> {
+        const repo = Server().repo.chatMetadata();
+        const existing = await ChatMetadataInterface.getForChats(chatGuids);
+        const changed: ChatMetadata[] = [];
+
+        // Unpin any chats that aren't in the list
+        for (const item of await repo.find()) {
+            if (item.pinnedIndex == null || chatGuids.includes(item.chatGuid)) continue;
+            item.pinnedIndex = null;
+            changed.push(item);
+        }
+
+        for (const [index, chatGuid] of chatGuids.entries()) {
+            const item = existing[chatGuid] ?? repo.create({ chatGuid, labels: [] });
+            if (item.pinnedIndex === index && existing[chatGuid]) continue;
+            item.pinnedIndex = index;
+            changed.push(item);
+        }
+
+        await repo.save(changed);
+        if (updatedGuid && !changed.some(i => i.chatGuid === updatedGuid)) {
+            const updated = await ChatMetadataInterface.get(updatedGuid);
+            if (updated) changed.push(updated);
+        }
+
+        await ChatMetadataInterface.emitUpdate(changed);
+        return (await ChatMetadataInterface.find()).filter(i => i.pinnedIndex != null);
+    }
+
+    private static normalizeLabels(labels: ChatLabel[]): ChatLabel[] {
+        const output: ChatLabel[] = [];
+        for (const label of labels ?? []) {
+            const name = safeTrim(String(label?.name ?? ""));
+            if (isEmpty(name) || output.some(i => i.name.toLowerCase() === name.toLowerCase())) continue;
+            output.push({ name, color: isEmpty(label?.color) ? null : safeTrim(String(label.color)) });
+        }
+
+        return output;
+    }
+
+    private static isMutedItem(item: ChatMetadata): boolean {
+        if (!item.isMuted) return false;
+        return !item.mutedUntil || item.mutedUntil.getTime() > new Date().getTime();
+    }
+
+    private static async emitUpdate(items: ChatMetadata[]): Promise<void> {
+        if (isEmpty(items)) return;
+        await Server().emitMessage(
+            CHAT_METADATA_UPDATED,
+            items.map(i => ChatMetadataInterface.serialize(i)),
+            "normal",
+            false,
+            true
+        );
+    }
+}
@@ -0,0 +1,236 @@
+import { Server } from "@server";
+import { Device } from "@server/databases/server/entity";
+import { DevicePreferences } from "@server/databases/server/entity/Device";
+import { isEmpty, isNotEmpty } from "@server/helpers/utils";
+import { ValidationError } from "@server/lib/ValidationError";
+import { MESSAGE_UPDATED, NEW_MESSAGE } from "@server/events";
+
+/**
+ * An interface to manage the devices registered for push notifications,
+ * and to decide which devices an event should be sent to.
+ */
+export class DeviceInterface {
+    // The events that "mentions only" applies to (in group chats)
+    static mentionEvents = [NEW_MESSAGE, MESSAGE_UPDATED];
+
+    // The attribute iMessage adds to the parts of a message that mention someone
+    static mentionAttribute = "__kIMMentionConfirmedMention";
+
+    static get defaultPreferences(): DevicePreferences {
+        return {
+            events: null,
+            includeChats: [],
+            excludeChats: [],
+            quietHours: null,
+            mentionsOnly: false
+        };
+    }
+
+    static async find(): Promise<Device[]> {
+        return await Server().repo.devices().find();
+    }
+
+    static async get(name: string): Promise<Device | null> {
+        return await Server().repo.devices().findOneBy({ name });
+    }
+
+    /**
+     * Converts a device to a JSON object
+     */
+    static serialize(item: Device): Record<string, any> {
+        return {
+            name: item.name,
+            identifier: item.identifier,
+            provider: item.provider ?? "fcm",
+            lastActive: item.last_active ?? null,
+            clientVersion: item.clientVersion ?? null,
+            platform: item.platform ?? null,
+            lastIp: item.lastIp ?? null,
+            preferences: DeviceInterface.getPreferences(item)
+        };
+    }
+
+    /**
+     * Marks a device as active, and records the IP address it connected from
+     *
+     * @param name The name of the device
+     * @param ip The IP address of the client
+     */
+    static async touch(name: string, ip: string = null): Promise<void> {
+        const item = await DeviceInterface.get(name);
+        if (!item) return;
+
+        item.last_active = new Date().getTime();
+        if (isNotEmpty(ip)) item.lastIp = ip;
+        await Server().repo.devices().save(item);
+    }
+
+    /**
+     * Removes a device, so it no longer receives notifications,
+     * and disconnects any socket clients that identified as the device.
+     *
+     * @param name The name of the device
+     */
+    static async revoke(name: string): Promise<void> {
+        const item = await DeviceInterface.get(name);
+        if (!item) throw new Error("Device does not exist!");
+
+        await Server().repo.devices().delete({ name: item.name, identifier: item.identifier });
+        Server().httpService?.kickClientsForDevice(item.name);
+        Server().log(`Revoked device: ${item.name}`);
+    }
+
+    /**
+     * Gets a device's notification preferences, filled in with the defaults
+     */
+    static getPreferences(item: Device): DevicePreferences {
+        return { ...DeviceInterface.defaultPreferences, ...(item.preferences ?? {}) };
+    }
+
+    /**
+     * Updates a device's notification preferences. Only the provided fields are changed.
+     *
+     * @param name The name of the device
+     * @param params The preferences to update
+     * @returns The updated device
+     */
+    static async updatePreferences(name: string, params: Partial<DevicePreferences>): Promise<Device> {
+        const item = await DeviceInterface.get(name);
+        if (!item) throw new Error("Device does not exist!");
+
+        const preferences = DeviceInterface.getPreferences(item);
+        if (params.events !== undefined) {
+            // An empty list (or a wildcard) means all events
+            const events = [...new Set(params.events ?? [])];
+            preferences.events = isEmpty(events) || events.includes("*") ? null : events;
+        }
+
+        if (params.includeChats != null) preferences.includeChats = [...new Set(params.includeChats)];
+        if (params.excludeChats != null) preferences.excludeChats = [...new Set(params.excludeChats)];
+        if (params.mentionsOnly != null) preferences.mentionsOnly = params.mentionsOnly;
+        if (params.quietHours !== undefined) {
+            const { start, end } = params.quietHours ?? {};
+            if (params.quietHours && (!DeviceInterface.isValidTime(start) || !DeviceInterface.isValidTime(end))) {
+                throw new ValidationError("Quiet hours must have a start & end time, in the format HH:mm!");
+            }
+
+            preferences.quietHours = params.quietHours ? { start, end } : null;
+        }
+
+        item.preferences = preferences;
+        await Server().repo.devices().save(item);
+        return item;
+    }
+
+    /**
+     * Resets a device's notification preferences to the defaults
+     *
+     * @param name The name of the device
+     * @returns The updated device
+     */
+    static async resetPreferences(name: string): Promise<Device> {
+        const item = await DeviceInterface.get(name);
+        if (!item) throw new Error("Device does not exist!");
+
+        item.preferences = null;
+        await Server().repo.devices().save(item);
+        return item;
+    }
+
+    /**
+     * Filters devices down to the ones whose preferences allow them to receive an event
+     *
+     * @param devices The devices to filter
+     * @param type The event type
+     * @param data The (un-encoded) event data. Messages need their attributed body, to check for mentions
+     * @param now The time to check the quiet hours against
+     */
+    static async filterDevices(devices: Device[], type: string, data: any, now = new Date()): Promise<Device[]> {
+        const chatGuid: string = data?.chats?.[0]?.guid ?? data?.chatGuid ?? null;
+        const chatStyle = data?.chats?.[0]?.style;
+        const isGroup = chatStyle != null ? chatStyle === 43 : (chatGuid ?? "").includes(";+;");
+
+        // Only check for mentions if a device needs it
+        let mentionsMe: boolean = null;
+
+        const output: Device[] = [];
+        for (const device of devices) {
+            const preferences = DeviceInterface.getPreferences(device);
+            if (preferences.events != null && !preferences.events.includes(type)) continue;
+            if (DeviceInterface.isQuietHours(preferences.quietHours, now)) continue;
+
+            if (chatGuid) {
+                if (isNotEmpty(preferences.includeChats) && !preferences.includeChats.includes(chatGuid)) continue;
+                if (preferences.excludeChats.includes(chatGuid)) continue;
+            }
+
+            if (preferences.mentionsOnly && isGroup && DeviceInterface.mentionEvents.includes(type)) {
+                if (mentionsMe == null) mentionsMe = await DeviceInterface.mentionsMe(data);
+                if (!mentionsMe) continue;
+            }
+
+            output.push(device);
+        }
+
+        return output;
+    }
+
+    /**
+     * Checks if the current (server local) time is within the quiet hours.
+     * The window can wrap past midnight (i.e. 22:00 - 07:00).
+     */
+    static isQuietHours(quietHours: DevicePreferences["quietHours"], now = new Date()): boolean {
+        if (!quietHours) return false;
+
+        const start = DeviceInterface.toMinutes(quietHours.start);
+        const end = DeviceInterface.toMinutes(quietHours.end);
+        if (start == null || end == null || start === end) return false;
+
+        const current = now.getHours() * 60 + now.getMinutes();
+        return start < end ? current >= start && current < end : current >= start || current < end;
+    }
+
+    /**
+     * Checks if an incoming message mentions one of your addresses
+     */
+    private static async mentionsMe(message: any): Promise<boolean> {
+        if (!message || message.isFromMe) return false;
+
+        const mentioned: string[] = [];
+        for (const body of message.attributedBody ?? []) {
+            for (const run of body?.runs ?? []) {
+                const address = run?.attributes?.[DeviceInterface.mentionAttribute];
+                if (typeof address === "string") mentioned.push(DeviceInterface.normalizeAddress(address));
+            }
+        }
+
+        if (isEmpty(mentioned)) return false;
+
+        // The handle you were addressed with in the chat, or the iMessage account
+        const myAddresses = [message.chats?.[0]?.lastAddressedHandle, await Server().iMessageRepo.getiMessageAccount()]
+            .filter(i => isNotEmpty(i))
+            .map(i => DeviceInterface.normalizeAddress(i));
+        return mentioned.some(i => myAddresses.includes(i));
+    }
+
+    private static normalizeAddress(address: string): string {
+        return address
+            .toLowerCase()
+            .replace(/^(mailto|tel):/, "")
+            .replace(/[^a-z0-9@.+]/g, "");
+    }
+
+    private static isValidTime(value: string): boolean {
+        return DeviceInterface.toMinutes(value) != null;
+    }
+
+    private static toMinutes(value: string): number | null {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(value ?? "");
+        if (!match) return null;
+
+        const hours = Number(match[1]);
+        const minutes = Number(match[2]);
+        if (hours > 23 || minutes > 59) return null;
+        return hours * 60 + minutes;
+    }
+}
@@ -0,0 +1,250 @@
+import { createCipheriv, createECDH, randomBytes, scryptSync } from "crypto";
+import * as CryptoJS from "crypto-js";
+import { Server } from "@server";
+import { EncryptionKey } from "@server/databases/server/entity";
+import { generateUuid, isEmpty, safeTrim } from "@server/helpers/utils";
+import { ValidationError } from "@server/lib/ValidationError";
+import { hkdfSha256 } from "@server/utils/CryptoUtils";
+import { EncryptedEnvelope, EncryptionContext, EncryptionVersion } from "../types/encryptionTypes";
+
+/**
+ * An interface to encrypt data sent to clients, and to manage the keys used to do so.
+ *
+ * Clients negotiate the protocol version when connecting (or per HTTP request).
+ * Clients that don't negotiate a version keep the legacy (v1) behavior.
+ */
+export class EncryptionInterface {
+    static supportedVersions = [EncryptionVersion.LEGACY, EncryptionVersion.AES_GCM];
+
+    // The key ID used when the key is derived from the server password
+    static passwordKeyId = "password";
+
+    // The curve used for the key exchange
+    static curve = "prime256v1";
+
+    // The HKDF info that exchanged keys are bound to
+    static keyInfo = "bluebubbles-encryption-v2";
+
+    // How long a replaced key can still be used for, so in-flight requests don't fail
+    static rotationGraceMs = 60 * 60 * 1000;
+
+    // Keys are cached so we don't hit the DB for every single response
+    private static keyCache: Map<string, { key: Buffer; expiresAt: number | null }> = new Map();
+
+    private static passwordKey: { password: string; salt: string; key: Buffer } = null;
+
+    static get isEnabled(): boolean {
+        return !!Server().repo.getConfig("encrypt_coms");
+    }
+
+    /**
+     * Validates the encryption version (and key) requested by a client
+     *
+     * @param version The requested protocol version
+     * @param keyId The ID of the exchanged key to use (v2 only)
+     * @returns The negotiated context, or null if the client didn't request a version
+     * @throws An error if the version isn't supported, or the key is invalid
+     */
+    static async negotiate(version: any, keyId?: string): Promise<EncryptionContext | null> {
+        const requested = safeTrim(String(version ?? ""));
+        if (isEmpty(requested)) return null;
+
+        const parsed = Number.parseInt(requested, 10);
+        if (!EncryptionInterface.supportedVersions.includes(parsed)) {
+            const supported = EncryptionInterface.supportedVersions.join(", ");
+            throw new ValidationError(`Unsupported encryption version: ${requested}. Supported versions: ${supported}`);
+        }
+
+        if (parsed === EncryptionVersion.LEGACY) return { version: parsed };
+
+        const kid = safeTrim(keyId ?? "");
+        if (isEmpty(kid) || kid === EncryptionInterface.passwordKeyId) {
+            return { version: parsed, keyId: EncryptionInterface.passwordKeyId };
+        }
+
+        if (!(await EncryptionInterface.getKey(kid))) {
+            throw new ValidationError("The encryption key is invalid or has expired! Please exchange a new key.");
+        }
+
+        return { version: parsed, keyId: kid };
+    }
+
+    static async find(): Promise<EncryptionKey[]> {
+        return await Server().repo.encryptionKeys().find({ order: { created: "DESC" } });
+    }
+
+    static async get(id: string): Promise<EncryptionKey | null> {
+        return await Server().repo.encryptionKeys().findOneBy({ id });
+    }
+
+    /**
+     * Converts an encryption key to a JSON object, omitting the key itself
+     */
+    static serialize(item: EncryptionKey): Record<string, any> {
+        return {
+            id: item.id,
+            name: item.name,
+            expiresAt: item.expiresAt ? item.expiresAt.getTime() : null,
+            created: item.created ? item.created.getTime() : null
+        };
+    }
+
+    /**
+     * Performs an ECDH (P-256) key exchange with a client, and derives an AES-256 key
+     * from the shared secret using HKDF-SHA256.
+     *
+     * @param publicKey The client's base64 encoded public key (uncompressed point)
+     * @param name A name to identify the client's key by
+     * @param replaces The ID of a key this one is replacing (when rotating). Callers must check that
+     *                 the client is allowed to replace it (i.e. it's the key the client is using)
+     * @returns The server's public key, the HKDF salt, and the new key's info
+     */
+    static async exchangeKey(
+        publicKey: string,
+        name: string,
+        replaces: string = null
+    ): Promise<Record<string, any>> {
+        const ecdh = createECDH(EncryptionInterface.curve);
+        ecdh.generateKeys();
+
+        let secret: Buffer;
+        try {
+            secret = ecdh.computeSecret(Buffer.from(publicKey, "base64"));
+        } catch (ex: any) {
+            throw new ValidationError(`Invalid public key! ${ex?.message ?? String(ex)}`);
+        }
+
+        const salt = randomBytes(32);
+        const key = hkdfSha256(secret, salt, EncryptionInterface.keyInfo, 32);
+
+        const lifetimeDays = Number(Server().repo.getConfig("encryption_key_lifetime") ?? 0);
+        const repo = Server().repo.encryptionKeys();
+        const item = repo.create({
+            id: generateUuid(),
+            name: safeTrim(name ?? "") || "Unknown",
+            key: key.toString("base64"),
+            expiresAt: lifetimeDays > 0 ? new Date(new Date().getTime() + lifetimeDays * 24 * 60 * 60 * 1000) : null
+        });
+
+        await repo.save(item);
+        await EncryptionInterface.purgeExpired();
+
+        // Let the old key live a little longer, so requests using it don't fail mid-rotation
+        if (replaces) {
+            const old = await repo.findOneBy({ id: replaces });
+            const graceEnd = new Date(new Date().getTime() + EncryptionInterface.rotationGraceMs);
+            if (old && (!old.expiresAt || old.expiresAt > graceEnd)) {
+                old.expiresAt = graceEnd;
+                await repo.save(old);
+                EncryptionInterface.keyCache.delete(old.id);
+            }
+        }
+
+        Server().log(`Exchanged new encryption key with client: ${item.name}`);
+        return {
+            ...EncryptionInterface.serialize(item),
+            version: EncryptionVersion.AES_GCM,
+            publicKey: ecdh.getPublicKey().toString("base64"),
+            salt: salt.toString("base64"),
+            info: EncryptionInterface.keyInfo
+        };
+    }
+
+    /**
+     * Revokes (deletes) an encryption key, and disconnects any sockets using it.
+     *
+     * @param id The ID of the key to revoke
+     */
+    static async revokeKey(id: string): Promise<void> {
+        await Server().repo.encryptionKeys().delete({ id });
+        EncryptionInterface.keyCache.delete(id);
+        Server().httpService?.kickClientsUsingKey(id);
+    }
+
+    static async purgeExpired(): Promise<void> {
+        await Server()
+            .repo.encryptionKeys()
+            .createQueryBuilder()
+            .delete()
+            .where("expires_at IS NOT NULL AND expires_at < :now", { now: new Date().getTime() })
+            .execute();
+    }
+
+    /**
+     * Gets an exchanged key, if it exists and hasn't expired
+     *
+     * @param id The key ID
+     */
+    static async getKey(id: string): Promise<Buffer | null> {
+        let cached = EncryptionInterface.keyCache.get(id);
+        if (!cached) {
+            const item = await Server().repo.encryptionKeys().findOneBy({ id });
+            if (!item) return null;
+
+            cached = { key: Buffer.from(item.key, "base64"), expiresAt: item.expiresAt?.getTime() ?? null };
+            EncryptionInterface.keyCache.set(id, cached);
+        }
+
+        if (cached.expiresAt && cached.expiresAt < new Date().getTime()) return null;
+        return cached.key;
+    }
+
+    /**
+     * Derives the key for clients that haven't exchanged a key, from the server password.
+     * Uses scrypt (N=16384, r=8, p=1) with the salt included in each envelope.
+     */
+    static getPasswordKey(): { salt: string; key: Buffer } {
+        const password = String(Server().repo.getConfig("password") ?? "");
+        const salt = String(Server().repo.getConfig("encryption_salt") ?? "");
+
+        const cached = EncryptionInterface.passwordKey;
+        if (cached && cached.password === password && cached.salt === salt) return cached;
+
+        const key = scryptSync(password, salt, 32, { N: 16384, r: 8, p: 1 });
+        EncryptionInterface.passwordKey = { password, salt, key };
+        return EncryptionInterface.passwordKey;
+    }
+
+    /**
+     * Encrypts data for a client, based on the negotiated protocol version
+     *
+     * @param data The data to encrypt
+     * @param context The negotiated encryption context
+     * @returns A CryptoJS string (v1), or an envelope (v2)
+     */
+    static async encrypt(data: any, context: EncryptionContext): Promise<string | EncryptedEnvelope> {
+        if (context.version === EncryptionVersion.LEGACY) {
+            const passphrase = Server().repo.getConfig("password") as string;
+            const plaintext = typeof data === "string" ? data : JSON.stringify(data);
+            return CryptoJS.AES.encrypt(plaintext, passphrase).toString();
+        }
+
+        const kid = context.keyId ?? EncryptionInterface.passwordKeyId;
+        let key: Buffer;
+        let salt: string = null;
+        if (kid === EncryptionInterface.passwordKeyId) {
+            ({ key, salt } = EncryptionInterface.getPasswordKey());
+        } else {
+            key = await EncryptionInterface.getKey(kid);
+            if (!key) {
+                throw new ValidationError("The encryption key is invalid or has expired! Please exchange a new key.");
+            }
+        }
+
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", key, iv);
+        const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data ?? null), "utf8"), cipher.final()]);
+
+        const envelope: EncryptedEnvelope = {
+            v: EncryptionVersion.AES_GCM,
+            alg: "aes-256-gcm",
+            kid,
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+            data: ciphertext.toString("base64")
+        };
+
+        if (salt) envelope.salt = salt;
+        return envelope;
+    }
+}
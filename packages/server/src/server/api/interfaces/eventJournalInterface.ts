@@ -0,0 +1,69 @@
+import { Server } from "@server";
+import { JournalEvent } from "@server/databases/server/entity";
+import { ApiAuth } from "@server/api/types/apiTokenTypes";
+import { ApiTokenInterface } from "./apiTokenInterface";
+
+export type EventReplayResult = {
+    events: Record<string, any>[];
+    metadata: {
+        after: number;
+        count: number;
+        oldestSeq: number | null;
+        latestSeq: number | null;
+        // True when events after the cursor have already been pruned, meaning a full re-sync is required
+        truncated: boolean;
+        // True when there are more events to fetch after the last one returned
+        hasMore: boolean;
+    };
+};
+
+/**
+ * An interface to interact with the event journal
+ */
+export class EventJournalInterface {
+    static async getEventsSince({
+        after = 0,
+        limit = 1000,
+        types = null,
+        auth
+    }: {
+        after?: number;
+        limit?: number;
+        types?: string[] | null;
+        // The client's auth, so only the events it is allowed to receive are returned
+        auth: ApiAuth | null;
+    }): Promise<EventReplayResult> {
+        if (!Server().eventJournal) throw new Error("Event Journal service is not running!");
+
+        const { allowed, denied } = ApiTokenInterface.getEventTypeFilter(auth);
+        const include = allowed ? (types ?? allowed).filter(type => allowed.includes(type)) : types;
+
+        const { oldest, latest } = await Server().eventJournal.getBounds();
+        const events =
+            include && include.length === 0
+                ? []
+                : await Server().eventJournal.getEventsSince(after, limit, include, denied);
+        const lastSeq = events.length > 0 ? events[events.length - 1].seq : after;
+
+        return {
+            events: events.map(EventJournalInterface.serialize),
+            metadata: {
+                after,
+                count: events.length,
+                oldestSeq: oldest,
+                latestSeq: latest,
+                truncated: oldest != null && after < oldest - 1,
+                hasMore: latest != null && lastSeq < latest && events.length >= limit
+            }
+        };
+    }
+
+    static serialize(item: JournalEvent): Record<string, any> {
+        return {
+            seq: item.seq,
+            type: item.type,
+            data: item.data,
+            created: item.created ? item.created.getTime() : null
+        };
+    }
+}
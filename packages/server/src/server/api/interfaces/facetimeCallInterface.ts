@@ -0,0 +1,146 @@
+import { Server } from "@server";
+import { FaceTimeCall } from "@server/databases/server/entity";
+import { FaceTimeCallStatus } from "@server/databases/server/entity/FaceTimeCall";
+import { FaceTimeSessionStatus } from "@server/api/lib/facetime/FaceTimeSession";
+import { isEmpty, isNotEmpty } from "@server/helpers/utils";
+import { FACETIME_CALL_MISSED } from "@server/events";
+
+export type FaceTimeCallFilters = {
+    address?: string | null;
+    direction?: "incoming" | "outgoing" | null;
+    status?: FaceTimeCallStatus | null;
+    after?: Date | null;
+    before?: Date | null;
+    limit?: number;
+    offset?: number;
+    sort?: "ASC" | "DESC";
+};
+
+/**
+ * An interface to manage the FaceTime call log.
+ * Calls are recorded from the Private API's FaceTime status events,
+ * and a `facetime-call-missed` event is emitted when an incoming call isn't answered.
+ */
+export class FaceTimeCallInterface {
+    static async get(callUuid: string): Promise<FaceTimeCall | null> {
+        // The same call UUID is never re-used, but get the latest just in case
+        return await Server()
+            .repo.faceTimeCalls()
+            .findOne({ where: { callUuid }, order: { id: "DESC" } });
+    }
+
+    /**
+     * Finds calls in the call log
+     *
+     * @returns The matching calls & the total number of matches
+     */
+    static async find({
+        address = null,
+        direction = null,
+        status = null,
+        after = null,
+        before = null,
+        limit = 100,
+        offset = 0,
+        sort = "DESC"
+    }: FaceTimeCallFilters = {}): Promise<[FaceTimeCall[], number]> {
+        const query = Server()
+            .repo.faceTimeCalls()
+            .createQueryBuilder("call")
+            .orderBy("call.startedAt", sort)
+            .addOrderBy("call.id", sort)
+            .take(limit)
+            .skip(offset);
+
+        if (isNotEmpty(address)) query.andWhere("call.address LIKE :address", { address: `%${address}%` });
+        if (direction) query.andWhere("call.isOutgoing = :outgoing", { outgoing: direction === "outgoing" ? 1 : 0 });
+        if (isNotEmpty(status)) query.andWhere("call.status = :status", { status });
+        if (after) query.andWhere("call.startedAt >= :after", { after: after.getTime() });
+        if (before) query.andWhere("call.startedAt <= :before", { before: before.getTime() });
+
+        return await query.getManyAndCount();
+    }
+
+    static serialize(item: FaceTimeCall): Record<string, any> {
+        return {
+            id: item.id,
+            callUuid: item.callUuid,
+            address: item.address ?? null,
+            direction: item.isOutgoing ? "outgoing" : "incoming",
+            isVideo: item.isVideo,
+            isAudio: !item.isVideo,
+            status: item.status,
+            endedReason: item.endedReason ?? null,
+            link: item.link ?? null,
+            startedAt: item.startedAt ? item.startedAt.getTime() : null,
+            answeredAt: item.answeredAt ? item.answeredAt.getTime() : null,
+            endedAt: item.endedAt ? item.endedAt.getTime() : null,
+            duration: item.duration ?? null
+        };
+    }
+
+    /**
+     * Records a FaceTime status event (from the Private API) in the call log
+     *
+     * @param event The event data
+     * @returns The updated call, or null if the event doesn't belong to a call
+     */
+    static async record(event: any): Promise<FaceTimeCall | null> {
+        const callUuid: string = event?.call_uuid ?? null;
+        if (isEmpty(callUuid)) return null;
+
+        const now = new Date();
+        const repo = Server().repo.faceTimeCalls();
+        let item = await FaceTimeCallInterface.get(callUuid);
+        if (!item) {
+            item = repo.create({
+                callUuid,
+                address: event.handle?.value ?? null,
+                isOutgoing: event.is_outgoing ?? event.call_status === FaceTimeSessionStatus.OUTGOING,
+                isVideo: event.is_sending_video ?? true,
+                status: "ringing",
+                startedAt: now
+            });
+        }
+
+        // The handle isn't always available for the first event
+        if (isEmpty(item.address) && isNotEmpty(event.handle?.value)) item.address = event.handle.value;
+
+        let isMissed = false;
+        if (event.call_status === FaceTimeSessionStatus.ANSWERED && item.status === "ringing") {
+            item.status = "answered";
+            item.answeredAt = now;
+        } else if (event.call_status === FaceTimeSessionStatus.DISCONNECTED && !item.endedAt) {
+            item.endedAt = now;
+            item.endedReason = isNotEmpty(event.ended_reason) ? String(event.ended_reason) : null;
+            if (item.status === "answered") {
+                item.duration = Math.round((now.getTime() - item.answeredAt.getTime()) / 1000);
+            } else {
+                item.status = /declin/i.test(item.endedReason ?? "") ? "declined" : "missed";
+                item.duration = 0;
+                isMissed = item.status === "missed" && !item.isOutgoing;
+            }
+        }
+
+        await repo.save(item);
+        if (isMissed) {
+            await Server().emitMessage(FACETIME_CALL_MISSED, FaceTimeCallInterface.serialize(item), "high", true, true);
+        }
+
+        return item;
+    }
+
+    /**
+     * Saves the FaceTime link that was generated for a call
+     *
+     * @param callUuid The UUID of the call
+     * @param link The FaceTime link
+     */
+    static async setLink(callUuid: string, link: string): Promise<void> {
+        const item = await FaceTimeCallInterface.get(callUuid);
+        if (!item) return;
+
+        item.link = link;
+        await Server().repo.faceTimeCalls().save(item);
+    }
+}
@@ -2,6 +2,7 @@ import { Server } from "@server";
 import { FaceTimeSession } from "../lib/facetime/FaceTimeSession";
 import { isMinMonterey } from "@server/env";
 import { checkPrivateApiStatus } from "@server/helpers/utils";
+import { FaceTimeCallInterface } from "./facetimeCallInterface";
 
 /**
  * An interface to interact with Facetime
@@ -18,7 +19,9 @@ export class FaceTimeInterface {
     static async answer(callUuid: string): Promise<string> {
         checkPrivateApiStatus();
         if (!isMinMonterey) throw new Error("Answering FaceTime calls is only available on macOS Big Sur and newer!");
-        return await FaceTimeInterface.answerAndWaitForLink(callUuid);
+        const link = await FaceTimeInterface.answerAndWaitForLink(callUuid);
+        await FaceTimeCallInterface.setLink(callUuid, link);
+        return link;
     }
 
     static async leave(callUuid: string): Promise<void> {
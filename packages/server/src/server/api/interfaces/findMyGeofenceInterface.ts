@@ -0,0 +1,154 @@
+import { Server } from "@server";
+import { FindMyGeofence } from "@server/databases/server/entity";
+import { FindMyGeofenceShape } from "@server/databases/server/entity/FindMyGeofence";
+import { getDistance, isInPolygon } from "@server/api/lib/findmy/utils";
+import { isEmpty } from "@server/helpers/utils";
+import { ValidationError } from "@server/lib/ValidationError";
+
+export type FindMyGeofenceParams = {
+    name?: string;
+    shape?: FindMyGeofenceShape;
+    latitude?: number | null;
+    longitude?: number | null;
+    radius?: number | null;
+    points?: Array<[number, number]> | null;
+    sources?: string[] | null;
+    enabled?: boolean;
+};
+
+/**
+ * An interface to manage the user-defined Find My geofences.
+ * A geofence is either a circle (a center & radius) or a polygon (a list of vertices),
+ * and can be limited to specific friends (by handle) or devices (by ID).
+ */
+export class FindMyGeofenceInterface {
+    static async getAll(enabledOnly = false): Promise<FindMyGeofence[]> {
+        const repo = Server().repo.findMyGeofences();
+        return await repo.find({ where: enabledOnly ? { enabled: true } : {}, order: { id: "ASC" } });
+    }
+
+    static async get(id: number): Promise<FindMyGeofence | null> {
+        return await Server().repo.findMyGeofences().findOneBy({ id });
+    }
+
+    /**
+     * Creates a geofence
+     *
+     * @throws An error if the geofence is missing what its shape needs
+     */
+    static async create(params: FindMyGeofenceParams): Promise<FindMyGeofence> {
+        const repo = Server().repo.findMyGeofences();
+        const item = repo.create({ shape: "circle", sources: [], enabled: true });
+        FindMyGeofenceInterface.apply(item, params);
+        return await repo.save(item);
+    }
+
+    /**
+     * Updates a geofence, only changing the params that are provided
+     *
+     * @returns The updated geofence, or null if it doesn't exist
+     * @throws An error if the updated geofence is missing what its shape needs
+     */
+    static async update(id: number, params: FindMyGeofenceParams): Promise<FindMyGeofence | null> {
+        const item = await FindMyGeofenceInterface.get(id);
+        if (!item) return null;
+
+        FindMyGeofenceInterface.apply(item, params);
+        return await Server().repo.findMyGeofences().save(item);
+    }
+
+    static async delete(id: number): Promise<boolean> {
+        const res = await Server().repo.findMyGeofences().delete({ id });
+        return (res.affected ?? 0) > 0;
+    }
+
+    static serialize(item: FindMyGeofence): Record<string, any> {
+        return {
+            id: item.id,
+            name: item.name,
+            shape: item.shape,
+            latitude: item.latitude ?? null,
+            longitude: item.longitude ?? null,
+            radius: item.radius ?? null,
+            points: item.points ?? null,
+            sources: item.sources ?? [],
+            enabled: item.enabled,
+            created: item.created ? item.created.getTime() : null,
+            updated: item.updated ? item.updated.getTime() : null
+        };
+    }
+
+    /**
+     * Checks that a geofence has everything its shape needs
+     *
+     * @throws An error describing the first problem found
+     */
+    static validate(item: FindMyGeofenceParams) {
+        if (item.shape === "polygon") {
+            if (!Array.isArray(item.points) || item.points.length < 3) {
+                throw new ValidationError("A polygon geofence requires at least 3 points!");
+            }
+
+            const invalid = item.points.some(
+                point =>
+                    !Array.isArray(point) ||
+                    point.length !== 2 ||
+                    !FindMyGeofenceInterface.isValidCoordinate(point[0], point[1])
+            );
+            if (invalid) throw new ValidationError("Each point must be a [latitude, longitude] pair!");
+        } else {
+            if (!FindMyGeofenceInterface.isValidCoordinate(item.latitude, item.longitude)) {
+                throw new ValidationError("A circle geofence requires a valid latitude & longitude!");
+            }
+
+            if (typeof item.radius !== "number" || item.radius <= 0) {
+                throw new ValidationError("A circle geofence requires a radius (in meters) greater than 0!");
+            }
+        }
+    }
+
+    /**
+     * Checks if a geofence applies to a friend (by handle) or device (by ID)
+     */
+    static appliesTo(item: FindMyGeofence, sourceId: string): boolean {
+        return isEmpty(item.sources) || item.sources.includes(sourceId);
+    }
+
+    /**
+     * Checks if a coordinate is inside of a geofence
+     */
+    static contains(item: FindMyGeofence, latitude: number, longitude: number): boolean {
+        if (item.shape === "polygon") {
+            return isInPolygon(latitude, longitude, item.points ?? []);
+        }
+
+        return getDistance(item.latitude, item.longitude, latitude, longitude) <= item.radius;
+    }
+
+    private static apply(item: FindMyGeofence, params: FindMyGeofenceParams) {
+        for (const key of Object.keys(params) as Array<keyof FindMyGeofenceParams>) {
+            if (params[key] !== undefined) (item as any)[key] = params[key];
+        }
+
+        // Don't keep the details of the other shape around
+        if (item.shape === "polygon") {
+            item.latitude = null;
+            item.longitude = null;
+            item.radius = null;
+        } else {
+            item.points = null;
+        }
+
+        item.sources = item.sources ?? [];
+        FindMyGeofenceInterface.validate(item);
+    }
+
+    private static isValidCoordinate(latitude: any, longitude: any): boolean {
+        return (
+            typeof latitude === "number" &&
+            typeof longitude === "number" &&
+            Math.abs(latitude) <= 90 &&
+            Math.abs(longitude) <= 180
+        );
+    }
+}
@@ -0,0 +1,124 @@
+import { Server } from "@server";
+import { FindMyLocation } from "@server/databases/server/entity";
+import { FindMyLocationSourceType } from "@server/databases/server/entity/FindMyLocation";
+import { FindMyDevice, FindMyLocationItem } from "@server/api/lib/findmy/types";
+import { isEmpty, isNotEmpty } from "@server/helpers/utils";
+
+export type FindMyHistoryFilters = {
+    sourceType?: FindMyLocationSourceType | null;
+    sourceId?: string | null;
+    after?: Date | null;
+    before?: Date | null;
+    limit?: number;
+    offset?: number;
+    sort?: "ASC" | "DESC";
+};
+
+/**
+ * An interface to query the Find My location history.
+ * Locations are recorded by the `FindMyTrackingService` for friends (by handle) & devices (by ID).
+ */
+export class FindMyHistoryInterface {
+    /**
+     * Finds locations in the history
+     *
+     * @returns The matching locations & the total number of matches
+     */
+    static async find({
+        sourceType = null,
+        sourceId = null,
+        after = null,
+        before = null,
+        limit = 100,
+        offset = 0,
+        sort = "DESC"
+    }: FindMyHistoryFilters = {}): Promise<[FindMyLocation[], number]> {
+        const query = Server()
+            .repo.findMyLocations()
+            .createQueryBuilder("location")
+            .orderBy("location.timestamp", sort)
+            .addOrderBy("location.id", sort)
+            .take(limit)
+            .skip(offset);
+
+        if (isNotEmpty(sourceType)) query.andWhere("location.sourceType = :sourceType", { sourceType });
+        if (isNotEmpty(sourceId)) query.andWhere("location.sourceId = :sourceId", { sourceId });
+        if (after) query.andWhere("location.timestamp >= :after", { after: after.getTime() });
+        if (before) query.andWhere("location.timestamp <= :before", { before: before.getTime() });
+
+        return await query.getManyAndCount();
+    }
+
+    /**
+     * Gets the most recent location recorded for a friend or device
+     */
+    static async getLatest(sourceType: FindMyLocationSourceType, sourceId: string): Promise<FindMyLocation | null> {
+        return await Server()
+            .repo.findMyLocations()
+            .findOne({ where: { sourceType, sourceId }, order: { timestamp: "DESC", id: "DESC" } });
+    }
+
+    static serialize(item: FindMyLocation): Record<string, any> {
+        return {
+            id: item.id ?? null,
+            sourceType: item.sourceType,
+            sourceId: item.sourceId,
+            name: item.name ?? null,
+            latitude: item.latitude,
+            longitude: item.longitude,
+            accuracy: item.accuracy ?? null,
+            address: item.address ?? null,
+            status: item.status ?? null,
+            timestamp: item.timestamp ? item.timestamp.getTime() : null
+        };
+    }
+
+    /**
+     * Converts a friend's location (from the Find My friends cache) into a history entry
+     *
+     * @returns The (unsaved) location, or null if the friend doesn't have a location
+     */
+    static fromFriend(item: FindMyLocationItem): FindMyLocation | null {
+        const [latitude, longitude] = item?.coordinates ?? [0, 0];
+        if (isEmpty(item?.handle) || (latitude === 0 && longitude === 0)) return null;
+
+        return Server()
+            .repo.findMyLocations()
+            .create({
+                sourceType: "friend",
+                sourceId: item.handle,
+                name: item.title ?? null,
+                latitude,
+                longitude,
+                accuracy: null,
+                address: item.long_address ?? item.short_address ?? null,
+                status: item.status ?? null,
+                timestamp: item.last_updated ? new Date(item.last_updated) : new Date()
+            });
+    }
+
+    /**
+     * Converts a device's (or item's) location into a history entry
+     *
+     * @returns The (unsaved) location, or null if the device doesn't have a location
+     */
+    static fromDevice(device: FindMyDevice): FindMyLocation | null {
+        const location = device?.location;
+        const address = device?.address;
+        if (isEmpty(device?.id) || location?.latitude == null || location?.longitude == null) return null;
+
+        return Server()
+            .repo.findMyLocations()
+            .create({
+                sourceType: "device",
+                sourceId: device.id,
+                name: device.name ?? null,
+                latitude: location.latitude,
+                longitude: location.longitude,
+                accuracy: location.horizontalAccuracy ?? null,
+                address: address?.mapItemFullAddress ?? address?.formattedAddressLines?.join(", ") ?? null,
+                status: null,
+                timestamp: location.timeStamp ? new Date(location.timeStamp) : new Date()
+            });
+    }
+}
@@ -35,6 +35,9 @@ export class FindMyInterface {
     static async refreshDevices() {
         // Can't use the Private API to refresh devices yet
         await this.refreshLocationsAccessibility();
+
+        // Pick up the refreshed locations right away, rather than waiting for the next poll
+        await Server().findMyTracking?.pollDevices();
     }
 
     static async refreshFriends(): Promise<FindMyLocationItem[]> {
@@ -46,7 +49,8 @@ export class FindMyInterface {
 
             // Save the data to the cache
             // The cache will handle properly updating the data.
-            Server().findMyCache.addAll(refreshLocations);
+            const added = Server().findMyCache.addAll(refreshLocations);
+            await Server().findMyTracking?.handleFriendLocations(added);
         }
 
         // No matter what, open the Find My app.
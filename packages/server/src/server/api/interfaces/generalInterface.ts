@@ -6,6 +6,7 @@ import { ServerMetadataResponse } from "@server/types";
 import { Device } from "@server/databases/server/entity";
 import { UpdateResult } from "@server/api/http/types";
 import { FileSystem } from "@server/fileSystem";
+import { EncryptionInterface } from "./encryptionInterface";
 
 const osVersion = macosVersion();
 
@@ -22,23 +23,45 @@ export class GeneralInterface {
             detected_imessage: await Server().iMessageRepo.getiMessageAccount(),
             macos_time_sync: await FileSystem.getTimeSync(),
             local_ipv4s: FileSystem.getLocalIps("IPv4"),
-            local_ipv6s: FileSystem.getLocalIps("IPv6")
+            local_ipv6s: FileSystem.getLocalIps("IPv6"),
+            encryption_versions: EncryptionInterface.supportedVersions
         };
     }
 
-    static async addFcmDevice(name: string, identifier: string): Promise<void> {
+    static async addFcmDevice(
+        name: string,
+        identifier: string,
+        provider = "fcm",
+        pushKeys: NodeJS.Dict<any> = null,
+        details: Pick<Device, "clientVersion" | "platform" | "lastIp"> = null
+    ): Promise<void> {
         // If the device ID exists, update the identifier
         const device = await Server().repo.devices().findOneBy({ name });
         if (device) {
+            // The identifier is part of the primary key, so the device needs to be re-created if it changes
+            if (device.identifier !== identifier) {
+                await Server().repo.devices().delete({ name, identifier: device.identifier });
+            }
+
             device.identifier = identifier;
+            device.provider = provider;
+            device.pushKeys = pushKeys;
+            device.clientVersion = details?.clientVersion ?? device.clientVersion;
+            device.platform = details?.platform ?? device.platform;
+            device.lastIp = details?.lastIp ?? device.lastIp;
             device.last_active = new Date().getTime();
             await Server().repo.devices().save(device);
         } else {
-            Server().log(`Registering new client with Google FCM (${name})`);
+            Server().log(`Registering new client with ${provider === "fcm" ? "Google FCM" : provider} (${name})`);
 
             const item = new Device();
             item.name = name;
             item.identifier = identifier;
+            item.provider = provider;
+            item.pushKeys = pushKeys;
+            item.clientVersion = details?.clientVersion ?? null;
+            item.platform = details?.platform ?? null;
+            item.lastIp = details?.lastIp ?? null;
             item.last_active = new Date().getTime();
             await Server().repo.devices().save(item);
         }
@@ -0,0 +1,506 @@
+/* eslint-disable max-classes-per-file */
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import dns from "dns";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import net from "net";
+import path from "path";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { Server } from "@server";
+import { FileSystem } from "@server/fileSystem";
+import { isEmpty, isNotEmpty, safeTrim } from "@server/helpers/utils";
+import { isPrivateAddress } from "@server/utils/NetworkUtils";
+
+/**
+ * Thrown when a preview can't be generated because of the URL itself
+ * (i.e. it's malformed, isn't http(s), or points to a private address)
+ */
+export class InvalidLinkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = this.constructor.name;
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
+
+/**
+ * Resolves a hostname like `dns.lookup`, but refuses to connect to private addresses.
+ * This is checked when the connection is made, so a DNS record can't be changed between the check & the request.
+ */
+const publicLookup = (hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    dns.lookup(hostname, options, (err: NodeJS.ErrnoException, address: any, family: number) => {
+        if (err) return callback(err, address, family);
+
+        const addresses: string[] = Array.isArray(address) ? address.map(i => i.address) : [address];
+        const blocked = addresses.find(i => isPrivateAddress(i));
+        if (blocked) return callback(new InvalidLinkError(`Links to private addresses are not allowed: ${hostname}`));
+        return callback(null, address, family);
+    });
+};
+
+export type LinkPreview = {
+    // The URL that was requested
+    originalUrl: string;
+    // The URL after following any redirects (or the canonical URL, if the page has one)
+    url: string;
+    title: string | null;
+    summary: string | null;
+    siteName: string | null;
+    imageUrl: string | null;
+    iconUrl: string | null;
+    // The local path & MIME type of the downloaded preview image (if there is one)
+    imagePath: string | null;
+    imageMimeType: string | null;
+    fetchedAt: number;
+};
+
+/**
+ * An interface to generate rich link previews for URLs.
+ *
+ * Metadata is pulled from Open Graph & Twitter card tags, falling back to oEmbed and
+ * the standard HTML tags. Previews are cached in memory, and images are cached on disk.
+ */
+export class LinkPreviewInterface {
+    // Previews are cached for 24 hours
+    static cacheLifetimeMs = 24 * 60 * 60 * 1000;
+
+    // The max number of previews to keep in memory
+    static maxCacheSize = 500;
+
+    static requestTimeoutMs = 10 * 1000;
+
+    // Only the start of a page is needed to read the metadata, so pages are cut off after 1 MB
+    static maxPageSize = 1024 * 1024;
+
+    // The max size of a preview image (5 MB)
+    static maxImageSize = 5 * 1024 * 1024;
+
+    static maxRedirects = 5;
+
+    // Some sites only return metadata to crawlers/browsers
+    static userAgent = "Mozilla/5.0 (compatible; BlueBubbles; +https://bluebubbles.app) facebookexternalhit/1.1";
+
+    private static httpAgent = new http.Agent({ lookup: publicLookup } as http.AgentOptions);
+
+    private static httpsAgent = new https.Agent({ lookup: publicLookup } as https.AgentOptions);
+
+    private static cache: Map<string, { preview: LinkPreview; expiresAt: number }> = new Map();
+
+    // Previews being fetched, so concurrent requests don't fetch the same URL twice
+    private static pending: Map<string, Promise<LinkPreview>> = new Map();
+
+    /**
+     * Finds the first http(s) URL in a block of text
+     */
+    static extractUrl(text: string): string | null {
+        const match = (text ?? "").match(/https?:\/\/[^\s<>"']+/i);
+        if (!match) return null;
+
+        // Trailing punctuation is almost always part of the sentence, not the URL
+        return match[0].replace(/[.,!?;:)\]}]+$/, "");
+    }
+
+    /**
+     * Gets the preview for a URL, fetching it if it isn't cached
+     *
+     * @param url The URL to get the preview for
+     * @returns The preview
+     * @throws An `InvalidLinkError` if the URL is invalid, or an error if the page couldn't be fetched
+     */
+    static async getPreview(url: string): Promise<LinkPreview> {
+        const target = LinkPreviewInterface.normalizeUrl(url);
+        const cached = LinkPreviewInterface.cache.get(target);
+        if (cached && cached.expiresAt > new Date().getTime()) {
+            // Make sure the image wasn't cleaned up from underneath us
+            if (!cached.preview.imagePath || fs.existsSync(cached.preview.imagePath)) return cached.preview;
+        }
+
+        if (!LinkPreviewInterface.pending.has(target)) {
+            const task = LinkPreviewInterface.fetchPreview(target);
+            LinkPreviewInterface.pending.set(target, task);
+            task.finally(() => LinkPreviewInterface.pending.delete(target)).catch(() => null);
+        }
+
+        const preview = await LinkPreviewInterface.pending.get(target);
+        LinkPreviewInterface.cache.delete(target);
+        LinkPreviewInterface.cache.set(target, {
+            preview,
+            expiresAt: new Date().getTime() + LinkPreviewInterface.cacheLifetimeMs
+        });
+
+        // Evict the oldest entries (maps keep their insertion order)
+        while (LinkPreviewInterface.cache.size > LinkPreviewInterface.maxCacheSize) {
+            LinkPreviewInterface.cache.delete(LinkPreviewInterface.cache.keys().next().value);
+        }
+
+        return preview;
+    }
+
+    /**
+     * Converts a preview to a JSON object for clients
+     *
+     * @param preview The preview to serialize
+     * @param withImage Whether to include the (base64 encoded) image data
+     */
+    static serialize(preview: LinkPreview, withImage = false): Record<string, any> {
+        const output: Record<string, any> = {
+            originalUrl: preview.originalUrl,
+            url: preview.url,
+            title: preview.title,
+            summary: preview.summary,
+            siteName: preview.siteName,
+            imageUrl: preview.imageUrl,
+            iconUrl: preview.iconUrl,
+            imageMimeType: preview.imageMimeType,
+            fetchedAt: preview.fetchedAt
+        };
+
+        if (withImage) {
+            output.imageData =
+                preview.imagePath && fs.existsSync(preview.imagePath)
+                    ? fs.readFileSync(preview.imagePath).toString("base64")
+                    : null;
+        }
+
+        return output;
+    }
+
+    /**
+     * Converts a preview to the rich link payload the Private API helper expects
+     */
+    static toPrivateApiPayload(preview: LinkPreview): Record<string, any> {
+        return {
+            originalUrl: preview.originalUrl,
+            url: preview.url,
+            title: preview.title,
+            summary: preview.summary,
+            siteName: preview.siteName,
+            imagePath: preview.imagePath,
+            imageMimeType: preview.imageMimeType
+        };
+    }
+
+    /**
+     * Removes the downloaded preview images that are older than the cache lifetime
+     */
+    static purgeImages() {
+        try {
+            if (!fs.existsSync(FileSystem.linkPreviewDir)) return;
+
+            const before = new Date().getTime() - LinkPreviewInterface.cacheLifetimeMs;
+            for (const file of fs.readdirSync(FileSystem.linkPreviewDir)) {
+                const filePath = path.join(FileSystem.linkPreviewDir, file);
+                if (fs.statSync(filePath).mtimeMs > before) continue;
+                fs.unlinkSync(filePath);
+            }
+        } catch (ex: any) {
+            Server().log(`Failed to purge link preview images! ${ex?.message ?? String(ex)}`, "warn");
+        }
+    }
+
+    private static normalizeUrl(url: string): string {
+        let parsed: URL;
+        try {
+            parsed = new URL(safeTrim(url ?? ""));
+        } catch {
+            throw new InvalidLinkError(`Invalid URL: ${url}`);
+        }
+
+        if (!["http:", "https:"].includes(parsed.protocol)) {
+            throw new InvalidLinkError(`Unsupported URL protocol: ${parsed.protocol}`);
+        }
+
+        parsed.hash = "";
+        return parsed.toString();
+    }
+
+    /**
+     * Makes sure a URL is http(s), and that its host doesn't resolve to a private address
+     *
+     * @throws An `InvalidLinkError` if the URL isn't allowed
+     */
+    private static async assertPublicUrl(url: string) {
+        const parsed = new URL(LinkPreviewInterface.normalizeUrl(url));
+        const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+
+        // IP addresses don't go through the DNS lookup, so they need to be checked here
+        if (net.isIP(hostname)) {
+            if (isPrivateAddress(hostname)) {
+                throw new InvalidLinkError(`Links to private addresses are not allowed: ${hostname}`);
+            }
+
+            return;
+        }
+
+        let addresses: dns.LookupAddress[];
+        try {
+            addresses = await dns.promises.lookup(hostname, { all: true });
+        } catch (ex: any) {
+            throw new InvalidLinkError(`Unable to resolve host: ${hostname}`);
+        }
+
+        if (addresses.some(i => isPrivateAddress(i.address))) {
+            throw new InvalidLinkError(`Links to private addresses are not allowed: ${hostname}`);
+        }
+    }
+
+    /**
+     * Makes a GET request, following redirects manually so every hop is checked with `assertPublicUrl`
+     *
+     * @returns The response, and the final URL (after any redirects)
+     */
+    private static async request(url: string, config: AxiosRequestConfig): Promise<[AxiosResponse, string]> {
+        let target = url;
+        for (let i = 0; i <= LinkPreviewInterface.maxRedirects; i++) {
+            await LinkPreviewInterface.assertPublicUrl(target);
+            const response = await axios.get(target, {
+                ...config,
+                timeout: LinkPreviewInterface.requestTimeoutMs,
+                maxRedirects: 0,
+                validateStatus: status => status >= 200 && status < 400,
+                httpAgent: LinkPreviewInterface.httpAgent,
+                httpsAgent: LinkPreviewInterface.httpsAgent
+            });
+
+            if (response.status < 300) return [response, target];
+
+            // Discard the body of the redirect, so a streamed response doesn't keep the connection open
+            if (typeof response.data?.destroy === "function") response.data.destroy();
+
+            const location = response.headers?.location;
+            if (isEmpty(location)) throw new Error(`Received a redirect (${response.status}) without a location`);
+            target = new URL(location, target).toString();
+        }
+
+        throw new Error(`Too many redirects (max: ${LinkPreviewInterface.maxRedirects})`);
+    }
+
+    private static async fetchPreview(url: string): Promise<LinkPreview> {
+        Server().log(`Fetching link preview for: ${url}`, "debug");
+
+        // Use the final URL, so relative image paths resolve against the right page
+        const [response, finalUrl] = await LinkPreviewInterface.request(url, {
+            responseType: "stream",
+            headers: { "User-Agent": LinkPreviewInterface.userAgent, Accept: "text/html,*/*;q=0.8" }
+        });
+
+        const contentType = String(response.headers?.["content-type"] ?? "");
+        const isHtml = contentType.includes("html") || isEmpty(contentType);
+        const stream = response.data as Readable;
+        let html: string = null;
+        if (isHtml) {
+            html = await LinkPreviewInterface.readPage(stream);
+        } else {
+            stream.destroy();
+        }
+
+        const preview: LinkPreview = {
+            originalUrl: url,
+            url: finalUrl,
+            title: null,
+            summary: null,
+            siteName: null,
+            imageUrl: null,
+            iconUrl: null,
+            imagePath: null,
+            imageMimeType: null,
+            fetchedAt: new Date().getTime()
+        };
+
+        // Links straight to an image are their own preview
+        if (contentType.startsWith("image/")) {
+            preview.imageUrl = finalUrl;
+        } else if (isHtml) {
+            const meta = LinkPreviewInterface.parseMetaTags(html);
+            const oEmbed = await LinkPreviewInterface.fetchOEmbed(html, finalUrl);
+
+            preview.title =
+                meta["og:title"] ?? meta["twitter:title"] ?? oEmbed?.title ?? LinkPreviewInterface.parseTitle(html);
+            preview.summary = meta["og:description"] ?? meta["twitter:description"] ?? meta["description"] ?? null;
+            preview.siteName = meta["og:site_name"] ?? oEmbed?.provider_name ?? new URL(finalUrl).hostname;
+            preview.imageUrl = LinkPreviewInterface.resolveUrl(
+                meta["og:image:secure_url"] ?? meta["og:image"] ?? meta["twitter:image"] ?? oEmbed?.thumbnail_url,
+                finalUrl
+            );
+            preview.iconUrl =
+                LinkPreviewInterface.resolveUrl(LinkPreviewInterface.parseIcon(html), finalUrl) ??
+                LinkPreviewInterface.resolveUrl("/favicon.ico", finalUrl);
+
+            const canonical = LinkPreviewInterface.resolveUrl(meta["og:url"], finalUrl);
+            if (canonical) preview.url = canonical;
+        } else {
+            throw new Error(`Unable to generate a preview for content type: ${contentType}`);
+        }
+
+        if (preview.imageUrl) {
+            try {
+                const image = await LinkPreviewInterface.downloadImage(preview.imageUrl);
+                preview.imagePath = image.path;
+                preview.imageMimeType = image.mimeType;
+            } catch (ex: any) {
+                Server().log(`Failed to download link preview image: ${ex?.message ?? String(ex)}`, "debug");
+            }
+        }
+
+        return preview;
+    }
+
+    /**
+     * Reads the start of a page, stopping at the max page size, or once the <head> is done
+     * (that's where the metadata is). The rest of the response is discarded.
+     */
+    private static async readPage(stream: Readable): Promise<string> {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        // The end of the previous chunk, in case the closing tag is split between chunks
+        let tail = "";
+        try {
+            for await (const chunk of stream) {
+                const buffer = Buffer.from(chunk);
+                chunks.push(buffer);
+                size += buffer.length;
+                if (size >= LinkPreviewInterface.maxPageSize) break;
+
+                const text = tail + buffer.toString("latin1");
+                if (/<\/head\s*>/i.test(text)) break;
+                tail = text.substring(text.length - 16);
+            }
+        } finally {
+            stream.destroy();
+        }
+
+        return Buffer.concat(chunks).subarray(0, LinkPreviewInterface.maxPageSize).toString("utf8");
+    }
+
+    /**
+     * Fetches the oEmbed data for a page, if the page advertises a JSON oEmbed endpoint
+     */
+    private static async fetchOEmbed(html: string, pageUrl: string): Promise<Record<string, any> | null> {
+        for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+            const attrs = LinkPreviewInterface.parseAttributes(tag);
+            if ((attrs.type ?? "").toLowerCase() !== "application/json+oembed") continue;
+
+            const href = LinkPreviewInterface.resolveUrl(attrs.href, pageUrl);
+            if (!href) return null;
+
+            try {
+                // The JSON can't be parsed if it's cut off, so an oversized response is rejected.
+                // That only loses the oEmbed fallbacks, not the preview.
+                const [response] = await LinkPreviewInterface.request(href, {
+                    maxContentLength: LinkPreviewInterface.maxPageSize,
+                    headers: { "User-Agent": LinkPreviewInterface.userAgent }
+                });
+
+                return typeof response.data === "object" ? response.data : JSON.parse(String(response.data));
+            } catch (ex: any) {
+                Server().log(`Failed to fetch oEmbed data (${href}): ${ex?.message ?? String(ex)}`, "debug");
+                return null;
+            }
+        }
+
+        return null;
+    }
+
+    private static async downloadImage(url: string): Promise<{ path: string; mimeType: string }> {
+        const hash = createHash("md5").update(url).digest("hex");
+        const existing = fs.existsSync(FileSystem.linkPreviewDir)
+            ? fs.readdirSync(FileSystem.linkPreviewDir).find(i => i.startsWith(`${hash}.`))
+            : null;
+        if (existing) {
+            // Mark the image as used, so it isn't purged while it's still cached
+            const now = new Date();
+            fs.utimesSync(path.join(FileSystem.linkPreviewDir, existing), now, now);
+
+            const ext = path.extname(existing).substring(1);
+            const mimeType = ext === "svg" ? "image/svg+xml" : `image/${ext}`;
+            return { path: path.join(FileSystem.linkPreviewDir, existing), mimeType };
+        }
+
+        const [response] = await LinkPreviewInterface.request(url, {
+            responseType: "arraybuffer",
+            maxContentLength: LinkPreviewInterface.maxImageSize,
+            headers: { "User-Agent": LinkPreviewInterface.userAgent, Accept: "image/*" }
+        });
+
+        const mimeType = String(response.headers?.["content-type"] ?? "").split(";")[0].trim();
+        if (!mimeType.startsWith("image/")) throw new Error(`Not an image (${mimeType || "unknown"})`);
+
+        // i.e. image/svg+xml -> svg
+        const ext = mimeType.split("/")[1].split("+")[0];
+        if (!fs.existsSync(FileSystem.linkPreviewDir)) fs.mkdirSync(FileSystem.linkPreviewDir, { recursive: true });
+        const imagePath = path.join(FileSystem.linkPreviewDir, `${hash}.${ext}`);
+        fs.writeFileSync(imagePath, Buffer.from(response.data));
+        return { path: imagePath, mimeType };
+    }
+
+    /**
+     * Parses the <meta> tags of a page into a map of property/name -> content
+     */
+    private static parseMetaTags(html: string): Record<string, string> {
+        const output: Record<string, string> = {};
+        for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+            const attrs = LinkPreviewInterface.parseAttributes(tag);
+            const key = (attrs.property ?? attrs.name ?? "").toLowerCase();
+            const content = safeTrim(attrs.content ?? "");
+            if (isEmpty(key) || isEmpty(content)) continue;
+
+            // The first tag wins (i.e. the first og:image is the "main" one)
+            if (!(key in output)) output[key] = content;
+        }
+
+        return output;
+    }
+
+    private static parseTitle(html: string): string | null {
+        const match = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+        const title = match ? safeTrim(LinkPreviewInterface.decodeEntities(match[1])) : null;
+        return isNotEmpty(title) ? title : null;
+    }
+
+    private static parseIcon(html: string): string | null {
+        for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+            const attrs = LinkPreviewInterface.parseAttributes(tag);
+            const rel = (attrs.rel ?? "").toLowerCase().split(/\s+/);
+            if (rel.includes("icon") || rel.includes("apple-touch-icon")) return attrs.href ?? null;
+        }
+
+        return null;
+    }
+
+    private static parseAttributes(tag: string): Record<string, string> {
+        const output: Record<string, string> = {};
+        const regex = /([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+        let match: RegExpExecArray;
+        while ((match = regex.exec(tag)) !== null) {
+            const value = match[2] ?? match[3] ?? match[4] ?? "";
+            output[match[1].toLowerCase()] = LinkPreviewInterface.decodeEntities(value);
+        }
+
+        return output;
+    }
+
+    private static decodeEntities(value: string): string {
+        const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+        return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+            if (!code.startsWith("#")) return named[code.toLowerCase()] ?? entity;
+
+            const isHex = code[1] === "x" || code[1] === "X";
+            const point = parseInt(code.substring(isHex ? 2 : 1), isHex ? 16 : 10);
+            return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+        });
+    }
+
+    private static resolveUrl(value: string, base: string): string | null {
+        if (isEmpty(value)) return null;
+
+        try {
+            const resolved = new URL(value, base);
+            return ["http:", "https:"].includes(resolved.protocol) ? resolved.toString() : null;
+        } catch {
+            return null;
+        }
+    }
+}
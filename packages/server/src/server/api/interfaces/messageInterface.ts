@@ -2,9 +2,11 @@ import { Server } from "@server";
 import * as fs from "fs";
 import { FileSystem } from "@server/fileSystem";
 import { MessagePromise } from "@server/managers/outgoingMessageManager/messagePromise";
+import type { OutgoingSend, OutgoingSendStatus } from "@server/managers/outgoingMessageManager";
+import { QueueItemStatus } from "@server/services/queueService";
 import { Message } from "@server/databases/imessage/entity/Message";
 import { checkPrivateApiStatus, isEmpty, isNotEmpty, resultAwaiter } from "@server/helpers/utils";
-import { isMinMonterey, isMinVentura } from "@server/env";
+import { isMinBigSur, isMinMonterey, isMinVentura } from "@server/env";
 import { negativeReactionTextMap, reactionTextMap } from "@server/api/apple/mappings";
 import { invisibleMediaChar } from "@server/api/http/constants";
 import { ActionHandler } from "@server/api/apple/actions";
@@ -19,6 +21,8 @@ import type {
     SendMultipartTextParams
 } from "@server/api/types";
 import { Chat } from "@server/databases/imessage/entity/Chat";
+import { LinkPreviewInterface } from "@server/api/interfaces/linkPreviewInterface";
+import { CAPABILITY_RICH_LINK } from "@server/api/privateApi/Constants";
 import path from "path";
 
 export class MessageInterface {
@@ -37,6 +41,80 @@ export class MessageInterface {
         "-question"
     ];
 
+    /**
+     * Gets the outgoing messages that haven't been sent yet.
+     * Queued items are pending until they are being sent, sends awaiting a match are in-flight,
+     * and sends that failed recently are included as failed.
+     */
+    static async getOutgoingSends(): Promise<OutgoingSend[]> {
+        const statuses: Record<string, OutgoingSendStatus> = {
+            [QueueItemStatus.QUEUED]: "pending",
+            [QueueItemStatus.SENDING]: "in-flight",
+            [QueueItemStatus.FAILED]: "failed"
+        };
+
+        const queued: OutgoingSend[] = ((await Server().queue?.getUnsent()) ?? [])
+            .filter(i => i.type === "send-attachment" && statuses[i.status])
+            .map(i => ({
+                tempGuid: isNotEmpty(i.tempGuid) ? i.tempGuid : i.payload?.data?.attachmentGuid ?? null,
+                chatGuid: i.chatGuid,
+                isAttachment: true,
+                status: statuses[i.status],
+                error: i.error ?? null,
+                createdAt: i.dateCreated,
+                failedAt: i.status === QueueItemStatus.FAILED ? i.lastAttemptAt?.getTime() ?? null : null
+            }));
+
+        // The queue has the most accurate status for the items it is sending
+        const queuedGuids = new Set(queued.map(i => i.tempGuid));
+        const sends = (Server().messageManager?.getSends() ?? []).filter(i => !queuedGuids.has(i.tempGuid));
+        return [...queued, ...sends];
+    }
+
+    /**
+     * Gets an inline reply thread. The thread can be fetched using the GUID
+     * of the message that started it, or the GUID of any reply in it.
+     *
+     * @param guid The GUID of a message in the thread
+     * @returns The originator, a page of replies, and the total number of replies.
+     *          Or null if the message doesn't exist.
+     */
+    static async getThread(
+        guid: string,
+        { offset = 0, limit = 100, sort = "ASC" }: { offset?: number; limit?: number; sort?: "ASC" | "DESC" } = {}
+    ): Promise<{ originatorGuid: string; originator: Message | null; replies: Message[]; total: number }> {
+        if (!isMinBigSur) throw new Error("Inline replies are only supported on macOS Big Sur and newer!");
+
+        const message = await Server().iMessageRepo.getMessage(guid, true, true);
+        if (!message) return null;
+
+        const originatorGuid = isNotEmpty(message.threadOriginatorGuid) ? message.threadOriginatorGuid : message.guid;
+        const originator =
+            originatorGuid === message.guid
+                ? message
+                : await Server().iMessageRepo.getMessage(originatorGuid, true, true);
+
+        // Reactions to replies are part of the thread too, but they aren't replies
+        const [replies, total] = await Server().iMessageRepo.getMessages({
+            withAttachments: true,
+            offset,
+            limit,
+            sort,
+            where: [
+                {
+                    statement: "message.thread_originator_guid = :threadGuid",
+                    args: { threadGuid: originatorGuid }
+                },
+                {
+                    statement: "message.associated_message_type = 0",
+                    args: null
+                }
+            ]
+        });
+
+        return { originatorGuid, originator, replies, total };
+    }
+
     /**
      * Sends a message by executing the sendMessage AppleScript
      *
@@ -57,10 +135,15 @@ export class MessageInterface {
         selectedMessageGuid = null,
         tempGuid = null,
         partIndex = 0,
-        ddScan = false
+        ddScan = false,
+        richLink = false,
+        tokenId = null
     }: SendMessageParams): Promise<Message> {
         if (!chatGuid) throw new Error("No chat GUID provided");
 
+        // Throws if the send is over any of the outgoing limits
+        Server().messageManager.rateLimiter.consume(chatGuid, tokenId);
+
         Server().log(`Sending message "${message}" to ${chatGuid}`, "debug");
 
         // We need offsets here due to iMessage's save times being a bit off for some reason
@@ -92,23 +175,30 @@ export class MessageInterface {
 
         // Try to send the iMessage
         let sentMessage = null;
-        if (method === "apple-script") {
-            // Attempt to send the message
-            await ActionHandler.sendMessage(chatGuid, message ?? "", null);
-            sentMessage = await awaiter.promise;
-        } else if (method === "private-api") {
-            sentMessage = await MessageInterface.sendMessagePrivateApi({
-                chatGuid,
-                message,
-                attributedBody,
-                subject,
-                effectId,
-                selectedMessageGuid,
-                partIndex,
-                ddScan
-            });
-        } else {
-            throw new Error(`Invalid send method: ${method}`);
+        try {
+            if (method === "apple-script") {
+                // Attempt to send the message
+                await ActionHandler.sendMessage(chatGuid, message ?? "", null);
+                sentMessage = await awaiter.promise;
+            } else if (method === "private-api") {
+                sentMessage = await MessageInterface.sendMessagePrivateApi({
+                    chatGuid,
+                    message,
+                    attributedBody,
+                    subject,
+                    effectId,
+                    selectedMessageGuid,
+                    partIndex,
+                    ddScan,
+                    richLink
+                });
+            } else {
+                throw new Error(`Invalid send method: ${method}`);
+            }
+        } catch (ex: any) {
+            // Mark the send as failed right away, rather than waiting for it to time out
+            if (!awaiter.isResolved) await awaiter.reject(ex?.message ?? String(ex));
+            throw ex;
         }
 
         return sentMessage;
@@ -135,10 +225,14 @@ export class MessageInterface {
         effectId = null,
         selectedMessageGuid = null,
         partIndex = 0,
-        isAudioMessage = false
+        isAudioMessage = false,
+        tokenId = null
     }: SendAttachmentParams): Promise<Message> {
         if (!chatGuid) throw new Error("No chat GUID provided");
 
+        // Throws if the send is over any of the outgoing limits
+        Server().messageManager.rateLimiter.consume(chatGuid, tokenId);
+
         // Copy the attachment to a more permanent storage
         const newPath = FileSystem.copyAttachment(attachmentPath, attachmentName, method);
 
@@ -227,9 +321,28 @@ export class MessageInterface {
         effectId = null,
         selectedMessageGuid = null,
         partIndex = 0,
-        ddScan = false
+        ddScan = false,
+        richLink = false
     }: SendMessagePrivateApiParams) {
         checkPrivateApiStatus();
+
+        // A preview that fails to load shouldn't stop the message from being sent
+        let richLinkPayload: Record<string, any> = null;
+        const canSendRichLink = richLink && Server().privateApi.supports(CAPABILITY_RICH_LINK);
+        if (richLink && !canSendRichLink) {
+            Server().log("The Private API helper doesn't support rich links, sending as text", "debug");
+        }
+
+        const url = canSendRichLink ? LinkPreviewInterface.extractUrl(message) : null;
+        if (url) {
+            try {
+                const preview = await LinkPreviewInterface.getPreview(url);
+                richLinkPayload = LinkPreviewInterface.toPrivateApiPayload(preview);
+            } catch (ex: any) {
+                Server().log(`Failed to load link preview, sending as text: ${ex?.message ?? String(ex)}`, "debug");
+            }
+        }
+
         const result = await Server().privateApi.message.send(
             chatGuid,
             message,
@@ -238,7 +351,8 @@ export class MessageInterface {
             effectId ?? null,
             selectedMessageGuid ?? null,
             partIndex ?? 0,
-            ddScan ?? false
+            ddScan ?? false,
+            richLinkPayload
         );
 
         if (!result?.identifier) {
@@ -531,54 +645,62 @@ export class MessageInterface {
         selectedMessageGuid = null,
         partIndex = 0,
         parts = [],
-        ddScan = false
+        ddScan = false,
+        tokenId = null
     }: SendMultipartTextParams): Promise<Message> {
         checkPrivateApiStatus();
         if (!chatGuid) throw new Error("No chat GUID provided");
         if (isEmpty(parts)) throw new Error("No parts provided");
+        Server().messageManager.rateLimiter.consume(chatGuid, tokenId);
 
         // Copy the attachments with the correct name.
-        // And delete the original
-        for (let i = 0; i < parts.length; i++) {
-            if (parts[0].attachment) {
-                const currentPath = path.join(FileSystem.messagesAttachmentsDir, parts[i].attachment);
-                const newPath = FileSystem.copyAttachment(currentPath, parts[i].name, "private-api");
-                parts[i].filePath = newPath;
-
-                // Delete the original
-                fs.unlinkSync(currentPath);
+        // The uploads are deleted once we're done, whether or not the send worked.
+        const uploadPaths: string[] = [];
+        try {
+            for (let i = 0; i < parts.length; i++) {
+                if (parts[i].attachment) {
+                    const currentPath = path.join(FileSystem.messagesAttachmentsDir, parts[i].attachment);
+                    parts[i].filePath = FileSystem.copyAttachment(currentPath, parts[i].name, "private-api");
+                    if (parts[i].filePath !== currentPath) uploadPaths.push(currentPath);
+                }
             }
-        }
 
-        // Send the message
-        const result = await Server().privateApi.message.sendMultipart(
-            chatGuid,
-            parts,
-            attributedBody ?? null,
-            subject ?? null,
-            effectId ?? null,
-            selectedMessageGuid ?? null,
-            partIndex ?? 0,
-            ddScan ?? false
-        );
+            // Send the message
+            const result = await Server().privateApi.message.sendMultipart(
+                chatGuid,
+                parts,
+                attributedBody ?? null,
+                subject ?? null,
+                effectId ?? null,
+                selectedMessageGuid ?? null,
+                partIndex ?? 0,
+                ddScan ?? false
+            );
 
-        if (!result?.identifier) {
-            throw new Error("Failed to send message!");
-        }
+            if (!result?.identifier) {
+                throw new Error("Failed to send message!");
+            }
 
-        const maxWaitMs = 30000;
-        const retMessage = await resultAwaiter({
-            maxWaitMs,
-            getData: async _ => {
-                return await Server().iMessageRepo.getMessage(result.identifier, true, false);
+            const maxWaitMs = 30000;
+            const retMessage = await resultAwaiter({
+                maxWaitMs,
+                getData: async _ => {
+                    return await Server().iMessageRepo.getMessage(result.identifier, true, false);
+                }
+            });
+
+            // Check if the name changed
+            if (!retMessage) {
+                throw new Error(
+                    `Failed to send message! Message not found in database after ${maxWaitMs / 1000} seconds!`
+                );
             }
-        });
 
-        // Check if the name changed
-        if (!retMessage) {
-            throw new Error(`Failed to send message! Message not found in database after ${maxWaitMs / 1000} seconds!`);
+            return retMessage;
+        } finally {
+            for (const uploadPath of uploadPaths) {
+                if (fs.existsSync(uploadPath)) fs.unlinkSync(uploadPath);
+            }
         }
-
-        return retMessage;
     }
 }
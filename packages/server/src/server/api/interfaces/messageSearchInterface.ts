@@ -0,0 +1,53 @@
+import { Server } from "@server";
+import { Message } from "@server/databases/imessage/entity/Message";
+import { isEmpty } from "@server/helpers/utils";
+import type { MessageSearchHit } from "@server/services/messageSearchService";
+import type { ParsedSearchQuery } from "@server/services/messageSearchService/searchQuery";
+
+/**
+ * An interface to search messages using the local search index
+ */
+export class MessageSearchInterface {
+    static async search({
+        query,
+        limit = 25,
+        offset = 0,
+        withChats = false,
+        withAttachments = false
+    }: {
+        query: string;
+        limit?: number;
+        offset?: number;
+        withChats?: boolean;
+        withAttachments?: boolean;
+    }): Promise<{ messages: Message[]; hits: MessageSearchHit[]; total: number; query: ParsedSearchQuery }> {
+        if (!Server().messageSearch) throw new Error("Message Search service is not running!");
+
+        const result = Server().messageSearch.search(query, limit, offset);
+        if (isEmpty(result.hits)) return { messages: [], ...result };
+
+        // Load the full messages, then put them back in the ranked order
+        const guids = result.hits.map(e => e.guid);
+        const args: Record<string, string> = {};
+        guids.forEach((guid, idx) => {
+            args[`guid${idx}`] = guid;
+        });
+
+        const [messages, _] = await Server().iMessageRepo.getMessages({
+            withChats,
+            withAttachments,
+            limit: guids.length,
+            where: [{ statement: `message.guid IN (${Object.keys(args).map(e => `:${e}`).join(", ")})`, args }]
+        });
+
+        const byGuid: Record<string, Message> = {};
+        for (const message of messages) {
+            byGuid[message.guid] = message;
+        }
+
+        return {
+            messages: guids.map(guid => byGuid[guid]).filter(e => !!e),
+            ...result
+        };
+    }
+}
@@ -1,8 +1,25 @@
 import { Server } from "@server";
+import * as fs from "fs";
+import path from "path";
+import { FileSystem } from "@server/fileSystem";
+import { MessageInterface } from "@server/api/interfaces/messageInterface";
 import { ScheduledMessage } from "@server/databases/server/entity";
-import { ScheduledMessageScheduleType, ScheduledMessageType } from "@server/services/scheduledMessagesService";
+import {
+    ScheduledMessagePayload,
+    ScheduledMessageSchedule,
+    ScheduledMessageScheduleRecurringType,
+    ScheduledMessageScheduleType,
+    ScheduledMessageSkipIfType,
+    ScheduledMessageType
+} from "@server/services/scheduledMessagesService";
+import {
+    getLocalTimeZone,
+    getNextCronDate,
+    isValidTimeZone,
+    parseCronExpression
+} from "@server/services/scheduledMessagesService/scheduleUtils";
 import { FindOneOptions } from "typeorm";
-import { SendMessageParams } from "../types";
+import { ValidationError } from "@server/lib/ValidationError";
 
 /**
  * An interface for the scheduled messages API.
@@ -11,30 +28,153 @@ import { SendMessageParams } from "../types";
  * of directly calling the DB or the service.
  */
 export class ScheduledMessagesInterface {
-    static validateSchedule(
-        scheduledFor: Date,
-        schedule: {
-            type: ScheduledMessageScheduleType;
-            intervalType?: string;
-            interval?: number;
+    /**
+     * Validates the payload for a scheduled message type, throwing an error if it's invalid.
+     *
+     * @param type The type of the scheduled message.
+     * @param payload The payload to invoke the action type.
+     */
+    static validatePayload(type: string, payload: NodeJS.Dict<any>) {
+        const types = Object.values(ScheduledMessageType) as string[];
+        if (!types.includes(type)) {
+            throw new ValidationError(`Type must be one of: ${types.join(", ")}`);
+        }
+
+        if (!payload || typeof payload !== "object") {
+            throw new ValidationError("Payload is required");
+        }
+
+        const requiredFields: Record<string, string[]> = {
+            [ScheduledMessageType.SEND_MESSAGE]: ["chatGuid", "message", "method"],
+            [ScheduledMessageType.SEND_ATTACHMENT]: ["chatGuid", "attachment", "name"],
+            [ScheduledMessageType.SEND_MULTIPART]: ["chatGuid", "parts"],
+            [ScheduledMessageType.SEND_REACTION]: ["chatGuid", "selectedMessageGuid", "reaction"],
+            [ScheduledMessageType.RENAME_GROUP]: ["chatGuid", "displayName"],
+            [ScheduledMessageType.MARK_CHAT_READ]: ["chatGuid"]
+        };
+
+        const missing = requiredFields[type].filter(key => !payload[key]);
+        if (missing.length) {
+            throw new ValidationError(`Missing required payload fields: ${missing.join(", ")}`);
+        }
+
+        // Attachments must have been uploaded prior using the /attachment/upload endpoint
+        const checkUpload = (hash: string) => {
+            if (typeof hash !== "string" || !fs.existsSync(path.join(FileSystem.messagesAttachmentsDir, hash))) {
+                throw new ValidationError(`Attachment '${hash}' does not exist`);
+            }
+        };
+
+        if (type === ScheduledMessageType.SEND_ATTACHMENT) {
+            checkUpload(payload.attachment);
+        } else if (type === ScheduledMessageType.SEND_MULTIPART) {
+            if (!Array.isArray(payload.parts)) throw new ValidationError("Parts must be an array");
+            for (const part of payload.parts) {
+                if (!part || typeof part !== "object") throw new ValidationError("Each part must be a dictionary");
+                if (typeof part.partIndex !== "number") {
+                    throw new ValidationError("Each part must have a numeric partIndex");
+                }
+
+                if (!part.text && !part.attachment) {
+                    throw new ValidationError("Each part must have either a text or attachment");
+                }
+
+                if (part.attachment && !part.name) throw new ValidationError("Each attachment must have a name");
+                if (part.attachment) checkUpload(part.attachment);
+                if (part.mention && !part.text) throw new ValidationError("A mention must have text");
+            }
+        } else if (type === ScheduledMessageType.SEND_REACTION) {
+            if (!MessageInterface.possibleReactions.includes(payload.reaction)) {
+                throw new ValidationError(`Reaction must be one of: ${MessageInterface.possibleReactions.join(", ")}`);
+            }
+
+            if (payload.partIndex != null && !(Number.isInteger(payload.partIndex) && payload.partIndex >= 0)) {
+                throw new ValidationError("Reaction partIndex must be a whole number >= 0");
+            }
+        } else if (type === ScheduledMessageType.RENAME_GROUP && typeof payload.displayName !== "string") {
+            throw new ValidationError("Display name must be a string");
+        }
+    }
+
+    /**
+     * Validates a schedule, throwing an error if it's invalid.
+     * For cron schedules, the scheduled date is optional, and is
+     * set to the first time the expression matches (on or after the date).
+     *
+     * @param scheduledFor The date the message should (first) be sent.
+     * @param schedule The schedule configuration.
+     * @returns The date the message should first be sent.
+     */
+    static validateSchedule(scheduledFor: Date | null, schedule: ScheduledMessageSchedule): Date {
+        const scheduleTypes = Object.values(ScheduledMessageScheduleType) as string[];
+        if (!scheduleTypes.includes(schedule?.type)) {
+            throw new ValidationError(`Schedule type must be one of: ${scheduleTypes.join(", ")}`);
         }
-    ) {
-        if (schedule.type === "recurring" && !schedule.intervalType) {
-            throw new Error("Recurring schedule must have an interval type");
+
+        const intervalTypes = Object.values(ScheduledMessageScheduleRecurringType) as string[];
+        if (schedule.type === "recurring" && !intervalTypes.includes(schedule.intervalType)) {
+            throw new ValidationError(`Recurring schedule must have an interval type of: ${intervalTypes.join(", ")}`);
+        }
+
+        if (schedule.type === "recurring" && (!schedule.interval || schedule.interval < 1)) {
+            throw new ValidationError("Recurring schedule must have an interval > 0");
         }
 
-        if (schedule.type === "recurring" && (!schedule.interval || schedule.interval === 0)) {
-            throw new Error("Recurring schedule must have an interval > 0");
+        if (schedule.timeZone && !isValidTimeZone(schedule.timeZone)) {
+            throw new ValidationError(`Invalid time zone: ${schedule.timeZone}`);
         }
 
-        if (!scheduledFor) {
-            throw new Error("Scheduled For date is required");
+        if (schedule.endDate != null && (typeof schedule.endDate !== "number" || schedule.endDate < 1)) {
+            throw new ValidationError("Schedule end date must be a timestamp (in milliseconds)");
         }
 
-        if (scheduledFor.getTime() < new Date().getTime()) {
-            throw new Error("Scheduled For date must be in the future");
+        const { maxOccurrences } = schedule;
+        if (maxOccurrences != null && !(Number.isInteger(maxOccurrences) && maxOccurrences > 0)) {
+            throw new ValidationError("Schedule max occurrences must be a whole number > 0");
         }
+
+        if (schedule.skipIf) {
+            const skipIfTypes = Object.values(ScheduledMessageSkipIfType) as string[];
+            if (!skipIfTypes.includes(schedule.skipIf.type)) {
+                throw new ValidationError(`Skip-if type must be one of: ${skipIfTypes.join(", ")}`);
+            }
+
+            if (typeof schedule.skipIf.hours !== "number" || schedule.skipIf.hours <= 0) {
+                throw new ValidationError("Skip-if hours must be a number > 0");
+            }
+        }
+
+        const now = new Date().getTime();
+        const hasDate = scheduledFor && !Number.isNaN(scheduledFor.getTime());
+        if (schedule.type === "cron") {
+            let cron;
+            try {
+                cron = parseCronExpression(schedule.expression);
+            } catch (ex: any) {
+                throw new ValidationError(`Invalid cron expression! ${ex?.message ?? String(ex)}`);
+            }
+
+            // Start from the requested date, or from now
+            const after = new Date(Math.max(hasDate ? scheduledFor.getTime() - 1 : 0, now));
+            scheduledFor = getNextCronDate(cron, after, schedule.timeZone ?? getLocalTimeZone());
+            if (!scheduledFor) {
+                throw new ValidationError("Cron expression never matches!");
+            }
+        } else if (!hasDate) {
+            throw new ValidationError("Scheduled For date is required");
+        }
+
+        if (scheduledFor.getTime() < now) {
+            throw new ValidationError("Scheduled For date must be in the future");
+        }
+
+        if (schedule.endDate && schedule.endDate < scheduledFor.getTime()) {
+            throw new ValidationError("Schedule end date must be after the Scheduled For date");
+        }
+
+        return scheduledFor;
     }
+
     /**
      * Gets all scheduled messages from the DB.
      *
@@ -49,21 +189,18 @@ export class ScheduledMessagesInterface {
      *
      * @param type The type of the scheduled message.
      * @param payload The payload to invoke the action type.
-     * @param scheduledFor The date the message should be sent.
+     * @param scheduledFor The date the message should be sent (optional for cron schedules).
      * @param schedule The schedule configuration.
      * @returns The newly created scheduled message.
      */
     static async createScheduledMessage(
         type: ScheduledMessageType,
-        payload: SendMessageParams,
+        payload: ScheduledMessagePayload,
         scheduledFor: Date,
-        schedule: {
-            type: ScheduledMessageScheduleType;
-            intervalType?: string;
-            interval?: number;
-        }
+        schedule: ScheduledMessageSchedule
     ): Promise<ScheduledMessage> {
-        ScheduledMessagesInterface.validateSchedule(scheduledFor, schedule);
+        ScheduledMessagesInterface.validatePayload(type, payload);
+        scheduledFor = ScheduledMessagesInterface.validateSchedule(scheduledFor, schedule);
 
         const msg = new ScheduledMessage();
         msg.type = type;
@@ -86,15 +223,12 @@ export class ScheduledMessagesInterface {
     static async updateScheduledMessage(
         id: number,
         type: ScheduledMessageType,
-        payload: SendMessageParams,
+        payload: ScheduledMessagePayload,
         scheduledFor: Date,
-        schedule: {
-            type: ScheduledMessageScheduleType;
-            intervalType?: string;
-            interval?: number;
-        }
+        schedule: ScheduledMessageSchedule
     ): Promise<ScheduledMessage> {
-        ScheduledMessagesInterface.validateSchedule(scheduledFor, schedule);
+        ScheduledMessagesInterface.validatePayload(type, payload);
+        scheduledFor = ScheduledMessagesInterface.validateSchedule(scheduledFor, schedule);
 
         const msg = new ScheduledMessage();
         msg.type = type;
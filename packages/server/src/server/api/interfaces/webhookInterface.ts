@@ -0,0 +1,71 @@
+import { Server } from "@server";
+import { Webhook, WebhookDelivery } from "@server/databases/server/entity";
+import { isNotEmpty } from "@server/helpers/utils";
+
+/**
+ * An interface to interact with webhooks & their delivery history
+ */
+export class WebhookInterface {
+    static async getWebhooks(): Promise<Webhook[]> {
+        return await Server().repo.getWebhooks();
+    }
+
+    static async getDeliveries({
+        webhookId = null,
+        status = null,
+        limit = 100,
+        offset = 0
+    }: {
+        webhookId?: number | null;
+        status?: string | null;
+        limit?: number;
+        offset?: number;
+    } = {}): Promise<WebhookDelivery[]> {
+        const where: NodeJS.Dict<any> = {};
+        if (webhookId != null) where.webhookId = webhookId;
+        if (isNotEmpty(status)) where.status = status;
+
+        return await Server()
+            .repo.webhookDeliveries()
+            .find({ where, order: { id: "DESC" }, take: limit, skip: offset });
+    }
+
+    static async getDelivery(id: number): Promise<WebhookDelivery | null> {
+        return await Server().repo.webhookDeliveries().findOneBy({ id });
+    }
+
+    static async redeliver(id: number): Promise<WebhookDelivery> {
+        if (!Server().webhookService) throw new Error("Webhook service is not running!");
+        return await Server().webhookService.redeliver(id);
+    }
+
+    static serializeWebhook(item: Webhook): Record<string, any> {
+        return {
+            id: item.id,
+            url: item.url,
+            events: item.events,
+            secret: item.secret,
+            created: item.created
+        };
+    }
+
+    static serializeDelivery(item: WebhookDelivery, withPayload = false): Record<string, any> {
+        const output: Record<string, any> = {
+            id: item.id,
+            webhookId: item.webhookId,
+            eventId: item.eventId,
+            eventType: item.eventType,
+            status: item.status,
+            attempts: item.attempts,
+            statusCode: item.statusCode,
+            latencyMs: item.latencyMs,
+            error: item.error,
+            nextAttemptAt: item.nextAttemptAt ? item.nextAttemptAt.getTime() : null,
+            lastAttemptAt: item.lastAttemptAt ? item.lastAttemptAt.getTime() : null,
+            created: item.created ? item.created.getTime() : null
+        };
+
+        if (withPayload) output.payload = item.payload;
+        return output;
+    }
+}
@@ -36,3 +36,37 @@ export const transformFindMyItemToDevice = (item: FindMyItem): FindMyDevice => (
     serialNumber: item.serialNumber,
     lostModeMetadata: item.lostModeMetadata
 });
+
+// The mean radius of the Earth (in meters)
+const EARTH_RADIUS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Gets the distance (in meters) between two coordinates, using the haversine formula
+ */
+export const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a =
+        Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Checks if a coordinate is inside a polygon (a list of [latitude, longitude] vertices), using ray casting.
+ * The polygon is treated as flat, which is accurate enough for geofences that are a few kilometers wide.
+ */
+export const isInPolygon = (latitude: number, longitude: number, points: Array<[number, number]>): boolean => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [latI, lonI] = points[i];
+        const [latJ, lonJ] = points[j];
+        const intersects =
+            lonI > longitude !== lonJ > longitude &&
+            latitude < ((latJ - latI) * (longitude - lonI)) / (lonJ - lonI) + latI;
+        if (intersects) inside = !inside;
+    }
+
+    return inside;
+};
@@ -1,2 +1,5 @@
 export const MIN_PORT = 45670;
 export const MAX_PORT = 65535;
+
+// Optional features a helper can report in its ping
+export const CAPABILITY_RICH_LINK = "rich-link";
@@ -38,6 +38,9 @@ export class PrivateApiService extends Loggable {
 
     activeClients: Record<string, Socket> = {};
 
+    // The optional features each helper process says it supports (sent with its ping)
+    clientCapabilities: Record<string, string[]> = {};
+
     restartCounter = 0;
 
     transactionManager: TransactionManager;
@@ -147,8 +150,9 @@ export class PrivateApiService extends Loggable {
         return null;
     }
 
-    registerClient(process: string, socket: Socket) {
+    registerClient(process: string, socket: Socket, capabilities: string[] = []) {
         this.activeClients[process] = socket;
+        this.clientCapabilities[process] = capabilities;
         this.emit("client-registered", { process, socket });
     }
 
@@ -169,9 +173,18 @@ export class PrivateApiService extends Loggable {
 
         if (proc) {
             delete this.activeClients[proc];
+            delete this.clientCapabilities[proc];
         }
     }
 
+    /**
+     * Checks if a connected helper supports an optional feature.
+     * Helpers that don't report their capabilities are treated as not supporting any.
+     */
+    supports(capability: string): boolean {
+        return Object.values(this.clientCapabilities).some(capabilities => capabilities.includes(capability));
+    }
+
     async configureServer(): Promise<void> {
         return new Promise<void>((resolve, _) => {
             this.server = net.createServer((client: net.Socket) => {
@@ -6,6 +6,7 @@ import {
 import { PrivateApiAction } from ".";
 import type { ValidTapback, ValidRemoveTapback } from "@server/types";
 import { isMinCatalina, isMinMonterey } from "@server/env";
+import { CAPABILITY_RICH_LINK } from "../Constants";
 
 export class PrivateApiMessage extends PrivateApiAction {
     tag = "PrivateApiMessage";
@@ -18,7 +19,8 @@ export class PrivateApiMessage extends PrivateApiAction {
         effectId: string = null,
         selectedMessageGuid: string = null,
         partIndex = 0,
-        ddScan = false
+        ddScan = false,
+        richLink: Record<string, any> = null
     ): Promise<TransactionResult> {
         const action = "send-message";
         this.throwForNoMissingFields(action, [chatGuid, message]);
@@ -38,6 +40,12 @@ export class PrivateApiMessage extends PrivateApiAction {
             data.ddScan = ddScan ? 1 : 0;
         }
 
+        // The pre-fetched link metadata, so the message is sent as a rich link.
+        // Only helpers that report the capability understand it, so older helpers get plain text.
+        if (richLink && this.api.supports(CAPABILITY_RICH_LINK)) {
+            data.richLink = richLink;
+        }
+
         return this.sendApiMessage("send-message", data, request);
     }
 
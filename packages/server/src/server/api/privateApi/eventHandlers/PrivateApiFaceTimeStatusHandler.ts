@@ -8,6 +8,7 @@ import { HandleSerializer } from "@server/api/serializers/HandleSerializer";
 import { FaceTimeSessionManager } from "@server/api/lib/facetime/FacetimeSessionManager";
 import { FaceTimeSession, FaceTimeSessionStatus, callStatusMap } from "@server/api/lib/facetime/FaceTimeSession";
 import { Loggable } from "@server/lib/logging/Loggable";
+import { FaceTimeCallInterface } from "@server/api/interfaces/facetimeCallInterface";
 
 type FaceTimeStatusData = {
     uuid: string;
@@ -30,6 +31,13 @@ export class PrivateApiFaceTimeStatusHandler extends Loggable implements Private
     types: string[] = ["ft-call-status-changed"];
 
     async handle(data: EventData, _: net.Socket) {
+        // Every call is saved to the call log, no matter how it's handled
+        try {
+            await FaceTimeCallInterface.record(data.data);
+        } catch (ex: any) {
+            this.log.warn(`Failed to record FaceTime call! ${ex?.message ?? String(ex)}`);
+        }
+
         const ft_calling = Server().repo.getConfig("facetime_calling") as boolean;
         if (ft_calling) {
             await this.handleCalling(data);
@@ -27,6 +27,9 @@ export class PrivateApiFindMyEventHandler extends Loggable implements PrivateApi
         // Store the data in the cache
         const added = Server().findMyCache?.addAll(data);
 
+        // Record the updated locations in the history, and check the geofences
+        await Server().findMyTracking?.handleFriendLocations(added);
+
         // If there were items updated in the cache, emit them
         let count = 0;
         for (const item of added) {
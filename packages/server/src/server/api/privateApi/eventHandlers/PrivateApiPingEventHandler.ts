@@ -13,7 +13,9 @@ export class PrivateApiPingEventHandler extends Loggable implements PrivateApiEv
         const proc = event?.process;
         this.log.info(`Received Ping from Private API Helper via ${proc ?? "Anonymous"}!`);
         if (isNotEmpty(proc)) {
-            Server().privateApi.registerClient(proc, socket);
+            // Older helpers don't send their capabilities
+            const capabilities = Array.isArray(event?.capabilities) ? event.capabilities.map(String) : [];
+            Server().privateApi.registerClient(proc, socket, capabilities);
         }
     }
 }
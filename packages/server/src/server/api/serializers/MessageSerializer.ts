@@ -1,7 +1,11 @@
 import { Server } from "@server";
 import { isEmpty, isNotEmpty } from "@server/helpers/utils";
 import { isMinHighSierra, isMinMonterey, isMinVentura } from "@server/env";
-import { HandleResponse, MessageResponse } from "@server/types";
+import { Message } from "@server/databases/imessage/entity/Message";
+import { convertAttributedBody } from "@server/databases/imessage/helpers/utils";
+import { getCocoaDate } from "@server/databases/imessage/helpers/dateUtil";
+import { AttributedBodyUtils } from "@server/utils/AttributedBodyUtils";
+import { HandleResponse, MessageEditResponse, MessageReactionResponse, MessageResponse } from "@server/types";
 import { AttachmentSerializer } from "./AttachmentSerializer";
 import { ChatSerializer } from "./ChatSerializer";
 import { DEFAULT_ATTACHMENT_CONFIG, DEFAULT_MESSAGE_CONFIG } from "./constants";
@@ -79,6 +83,23 @@ export class MessageSerializer {
             }
         }
 
+        // Expand the reactions, replies, and edits into the messages (if requested).
+        // This needs to happen before the summary info is cleared, since that's where the edits are.
+        if (config.includeReactions) {
+            await MessageSerializer.loadReactions(messages, messageResponses);
+        }
+
+        if (config.includeReplies) {
+            await MessageSerializer.loadReplies(messages, messageResponses);
+        }
+
+        if (config.includeEditHistory) {
+            for (const response of messageResponses) {
+                response.editHistory = MessageSerializer.getEditHistory(response);
+                response.unsentParts = MessageSerializer.getUnsentParts(response);
+            }
+        }
+
         // The parse options are enforced _after_ the convert function is called.
         // This is so that we can properly extract the text from the attributed body
         // for those on macOS Ventura. Otherwise, set it to null to not clutter the payload.
@@ -227,4 +248,156 @@ export class MessageSerializer {
 
         return output;
     }
+
+    /**
+     * Gets the previous versions of an edited message from its' summary info
+     *
+     * @param message The serialized message (with the summary info)
+     */
+    static getEditHistory(message: MessageResponse): MessageEditResponse[] {
+        const edits = message.messageSummaryInfo?.[0]?.ec;
+        if (!edits || typeof edits !== "object") return [];
+
+        const output: MessageEditResponse[] = [];
+        for (const [partIndex, entries] of Object.entries(edits)) {
+            for (const entry of Array.isArray(entries) ? entries : []) {
+                const body = Buffer.isBuffer(entry?.t) ? convertAttributedBody(entry.t) : entry?.t;
+                let date: number = null;
+                if (entry?.d instanceof Date) {
+                    date = entry.d.getTime();
+                } else if (typeof entry?.d === "number") {
+                    date = getCocoaDate(entry.d)?.getTime() ?? null;
+                }
+
+                const text = AttributedBodyUtils.extractText(body);
+                output.push({ partIndex: Number(partIndex), date, text: isNotEmpty(text) ? text : null });
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Gets the indexes of the parts of a message that were unsent.
+     * Apple doesn't keep the content of unsent parts, so only the indexes are available.
+     *
+     * @param message The serialized message (with the summary info)
+     */
+    static getUnsentParts(message: MessageResponse): number[] {
+        const retracted = message.messageSummaryInfo?.[0]?.rp;
+        return Array.isArray(retracted) ? retracted.map((i: any) => Number(i)).filter(i => !Number.isNaN(i)) : [];
+    }
+
+    /**
+     * Gets the index of the part a reply was made to.
+     * The originator part is formatted as "<part>:<start>:<length>".
+     */
+    static getThreadPartIndex(threadOriginatorPart: string): number {
+        const partIndex = Number.parseInt((threadOriginatorPart ?? "0").split(":")[0], 10);
+        return Number.isNaN(partIndex) ? 0 : partIndex;
+    }
+
+    /**
+     * Parses the GUID & part index out of an associated message GUID (i.e. p:0/<guid> or bp:<guid>)
+     */
+    private static parseAssociatedGuid(associatedGuid: string): { guid: string; partIndex: number } {
+        const value = associatedGuid ?? "";
+        if (value.startsWith("bp:")) return { guid: value.substring(3), partIndex: 0 };
+
+        const match = value.match(/^p:(\d+)\/(.+)$/);
+        if (match) return { guid: match[2], partIndex: Number.parseInt(match[1], 10) };
+        return { guid: value, partIndex: 0 };
+    }
+
+    /**
+     * Loads the current reactions for each message, net of any removals.
+     * Each sender can only have one reaction per message part, so a newer reaction replaces an older one.
+     */
+    private static async loadReactions(messages: Message[], responses: MessageResponse[]) {
+        let oldest: Date = null;
+        for (const message of messages) {
+            if (message.dateCreated && (!oldest || message.dateCreated < oldest)) oldest = message.dateCreated;
+        }
+
+        const reactions = await Server().iMessageRepo.getReactionsForMessages(
+            messages.map(i => i.guid),
+            oldest
+        );
+
+        // Message GUID -> "part:sender" -> the sender's current reaction
+        const current: Record<string, Record<string, Message>> = {};
+        for (const reaction of reactions) {
+            const { guid, partIndex } = MessageSerializer.parseAssociatedGuid(reaction.associatedMessageGuid);
+            const key = `${partIndex}:${reaction.isFromMe ? "me" : reaction.handleId}`;
+            if (!current[guid]) current[guid] = {};
+
+            // Known types are named (i.e. love/-love), unknown types are left as their ID (i.e. 2006/3006)
+            const type = reaction.associatedMessageType ?? "";
+            const numericType = Number.parseInt(type, 10);
+            if (type.startsWith("-") || numericType >= 3000) {
+                const removed = type.startsWith("-") ? type.substring(1) : String(numericType - 1000);
+                if (current[guid][key]?.associatedMessageType === removed) delete current[guid][key];
+            } else {
+                current[guid][key] = reaction;
+            }
+        }
+
+        for (let i = 0; i < messages.length; i++) {
+            const output: MessageReactionResponse[] = [];
+            for (const reaction of Object.values(current[messages[i].guid] ?? {})) {
+                output.push({
+                    guid: reaction.guid,
+                    type: reaction.associatedMessageType,
+                    partIndex: MessageSerializer.parseAssociatedGuid(reaction.associatedMessageGuid).partIndex,
+                    isFromMe: reaction.isFromMe,
+                    handle: reaction.handle
+                        ? await HandleSerializer.serialize({
+                              handle: reaction.handle,
+                              config: { includeChats: false, includeMessages: false }
+                          })
+                        : null,
+                    dateCreated: reaction.dateCreated ? reaction.dateCreated.getTime() : null
+                });
+            }
+
+            responses[i].reactions = output;
+        }
+    }
+
+    /**
+     * Loads the number of inline replies to each message, and the root of the thread each reply is in
+     */
+    private static async loadReplies(messages: Message[], responses: MessageResponse[]) {
+        const counts = await Server().iMessageRepo.getReplyCounts(messages.map(i => i.guid));
+        const rootGuids = [...new Set(messages.map(i => i.threadOriginatorGuid).filter(i => isNotEmpty(i)))];
+        const roots: Record<string, Message> = {};
+        for (const root of await Server().iMessageRepo.getMessagesByGuids(rootGuids)) {
+            roots[root.guid] = root;
+        }
+
+        for (let i = 0; i < messages.length; i++) {
+            responses[i].replyCount = counts[messages[i].guid] ?? 0;
+
+            const rootGuid = messages[i].threadOriginatorGuid;
+            if (isEmpty(rootGuid)) {
+                responses[i].threadRoot = null;
+                continue;
+            }
+
+            const root = roots[rootGuid];
+            responses[i].threadRoot = {
+                guid: rootGuid,
+                text: root ? root.universalText(true) : null,
+                isFromMe: root ? root.isFromMe : null,
+                handle: root?.handle
+                    ? await HandleSerializer.serialize({
+                          handle: root.handle,
+                          config: { includeChats: false, includeMessages: false }
+                      })
+                    : null,
+                dateCreated: root?.dateCreated ? root.dateCreated.getTime() : null,
+                partIndex: MessageSerializer.getThreadPartIndex(messages[i].threadOriginatorPart)
+            };
+        }
+    }
 }
@@ -14,7 +14,10 @@ export const DEFAULT_MESSAGE_CONFIG = {
     enforceMaxSize: false,
     // Max payload size is 4000 bytes
     // https://firebase.google.com/docs/cloud-messaging/concept-options#notifications_and_data_messages
-    maxSizeBytes: 4000
+    maxSizeBytes: 4000,
+    includeReactions: false,
+    includeReplies: false,
+    includeEditHistory: false
 };
 
 export const DEFAULT_CHAT_CONFIG = {
@@ -28,6 +28,9 @@ export interface MessageSerializerParams {
     loadChatParticipants?: boolean;
     enforceMaxSize?: boolean;
     maxSizeBytes?: number;
+    includeReactions?: boolean;
+    includeReplies?: boolean;
+    includeEditHistory?: boolean;
 }
 
 export interface MessageSerializerSingleParams {
@@ -0,0 +1,22 @@
+/**
+ * The scopes that can be granted to an API token.
+ * Authenticating with the server password grants every scope.
+ */
+export enum ApiTokenScope {
+    READ_MESSAGES = "read-messages",
+    SEND_MESSAGES = "send-messages",
+    MANAGE_CHATS = "manage-chats",
+    PRIVATE_API = "private-api",
+    SERVER_ADMIN = "server-admin",
+    FINDMY = "findmy"
+}
+
+export type ApiAuth = {
+    // How the client authenticated
+    type: "password" | "token";
+    // The ID of the API token (only set when type is "token")
+    tokenId?: number;
+    // The name of the API token (only set when type is "token")
+    name?: string;
+    scopes: ApiTokenScope[];
+};
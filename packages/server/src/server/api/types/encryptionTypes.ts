@@ -0,0 +1,35 @@
+/**
+ * The versions of the encryption protocol.
+ * Clients that don't negotiate a version are treated as legacy (v1) clients.
+ */
+export enum EncryptionVersion {
+    // CryptoJS AES (OpenSSL-compatible, MD5 key derivation from the server password)
+    LEGACY = 1,
+    // AES-256-GCM, using a key from a key exchange, or derived from the server password with scrypt
+    AES_GCM = 2
+}
+
+export type EncryptionContext = {
+    version: EncryptionVersion;
+    // The ID of the exchanged key to use (only used by v2). Defaults to the password-based key.
+    keyId?: string;
+};
+
+/**
+ * The envelope that v2 encrypted data is wrapped in.
+ * The plaintext is always the JSON encoded data.
+ */
+export type EncryptedEnvelope = {
+    v: EncryptionVersion.AES_GCM;
+    alg: "aes-256-gcm";
+    // The ID of the key used to encrypt the data
+    kid: string;
+    // The scrypt salt (only included when the password-based key is used)
+    salt?: string;
+    // Base64 encoded 12 byte nonce
+    iv: string;
+    // Base64 encoded 16 byte authentication tag
+    tag: string;
+    // Base64 encoded ciphertext
+    data: string;
+};
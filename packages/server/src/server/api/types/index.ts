@@ -13,6 +13,10 @@ export type SendMessageParams = {
     tempGuid?: string;
     partIndex?: number;
     ddScan?: boolean;
+    // Whether to send the first URL in the message as a rich link (Private API only)
+    richLink?: boolean;
+    // The API token the message is being sent with, for rate limiting
+    tokenId?: number | null;
 };
 
 export type SendMessagePrivateApiParams = {
@@ -24,6 +28,7 @@ export type SendMessagePrivateApiParams = {
     selectedMessageGuid?: string;
     partIndex?: number;
     ddScan?: boolean;
+    richLink?: boolean;
 };
 
 export type SendAttachmentPrivateApiParams = {
@@ -63,6 +68,7 @@ export type SendAttachmentParams = {
     effectId?: string;
     selectedMessageGuid?: string;
     partIndex?: number;
+    tokenId?: number | null;
 };
 
 export type SendReactionParams = {
@@ -83,6 +89,7 @@ export type SendMultipartTextParams = {
     partIndex?: number;
     parts: Record<string, any>[];
     ddScan?: boolean;
+    tokenId?: number | null;
 };
 
 export class Socket extends net.Socket {
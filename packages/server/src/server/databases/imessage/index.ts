@@ -1,14 +1,21 @@
 /* eslint-disable no-param-reassign */
 import { Brackets, DataSource, SelectQueryBuilder } from "typeorm";
 
-import { DBMessageParams, ChatParams, HandleParams, DBWhereItem } from "@server/databases/imessage/types";
-import { convertDateTo2001Time } from "@server/databases/imessage/helpers/dateUtil";
+import {
+    DBMessageParams,
+    ChatParams,
+    HandleParams,
+    DBWhereItem,
+    AnalyticsParams,
+    AnalyticsInterval
+} from "@server/databases/imessage/types";
+import { convertDateTo2001Time, get2001Time } from "@server/databases/imessage/helpers/dateUtil";
 import { Chat } from "@server/databases/imessage/entity/Chat";
 import { Handle } from "@server/databases/imessage/entity/Handle";
 import { Message } from "@server/databases/imessage/entity/Message";
 import { Attachment } from "@server/databases/imessage/entity/Attachment";
-import { isNotEmpty } from "@server/helpers/utils";
-import { isMinHighSierra, isMinVentura } from "@server/env";
+import { isEmpty, isNotEmpty } from "@server/helpers/utils";
+import { isMinBigSur, isMinHighSierra, isMinVentura } from "@server/env";
 import { Loggable } from "@server/lib/logging/Loggable";
 
 /**
@@ -791,4 +798,278 @@ export class MessageRepository extends Loggable {
         const count = await query.getCount();
         return count;
     }
+
+    /**
+     * Builds the (raw SQL) filters shared by the analytics queries.
+     * Expects the message table to be joined as "message", and the chat table as "chat".
+     */
+    private getAnalyticsFilters({ after = null, before = null, chatGuid = null }: AnalyticsParams = {}) {
+        const clauses: string[] = [];
+        const params: any[] = [];
+        if (after) {
+            clauses.push("message.date >= ?");
+            params.push(convertDateTo2001Time(after));
+        }
+        if (before) {
+            clauses.push("message.date <= ?");
+            params.push(convertDateTo2001Time(before));
+        }
+        if (isNotEmpty(chatGuid)) {
+            clauses.push("chat.guid = ?");
+            params.push(chatGuid);
+        }
+
+        return { clauses, params };
+    }
+
+    /**
+     * Gets a SQL expression that converts the message date to a local date string.
+     * Message dates are stored in nanoseconds since 2001 (seconds, before High Sierra).
+     */
+    private getLocalDateExpression(format: string) {
+        const unitsPerSecond = isMinHighSierra ? 10 ** 9 : 1;
+        const epochOffset = get2001Time() / 1000;
+        return `strftime('${format}', message.date / ${unitsPerSecond} + ${epochOffset}, 'unixepoch', 'localtime')`;
+    }
+
+    private getIntervalFormat(interval: AnalyticsInterval) {
+        const formats: Record<AnalyticsInterval, string> = {
+            hour: "%Y-%m-%d %H:00",
+            day: "%Y-%m-%d",
+            week: "%Y-W%W",
+            month: "%Y-%m"
+        };
+
+        return formats[interval] ?? formats.day;
+    }
+
+    /**
+     * Counts sent & received messages, grouped by a time interval (in local time).
+     * Reactions and group events (renames, participant changes, etc.) are not counted.
+     */
+    async getMessageCountsByInterval(interval: AnalyticsInterval, params: AnalyticsParams = {}) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        const bucket = this.getLocalDateExpression(this.getIntervalFormat(interval));
+        return await this.db.getRepository(Message).query(
+            `SELECT
+                ${bucket} AS bucket,
+                SUM(CASE WHEN message.is_from_me = 1 THEN 1 ELSE 0 END) AS sent,
+                SUM(CASE WHEN message.is_from_me = 0 THEN 1 ELSE 0 END) AS received
+            FROM message
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE message.item_type = 0 AND message.associated_message_type = 0
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            GROUP BY bucket
+            ORDER BY bucket ASC;`,
+            args
+        );
+    }
+
+    /**
+     * Counts messages by day of the week (0 = Sunday) and hour of the day (in local time)
+     */
+    async getMessageHeatmap(params: AnalyticsParams = {}) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        return await this.db.getRepository(Message).query(
+            `SELECT
+                CAST(${this.getLocalDateExpression("%w")} AS INTEGER) AS weekday,
+                CAST(${this.getLocalDateExpression("%H")} AS INTEGER) AS hour,
+                COUNT(message.ROWID) AS message_count
+            FROM message
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE message.item_type = 0 AND message.associated_message_type = 0
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            GROUP BY weekday, hour;`,
+            args
+        );
+    }
+
+    /**
+     * Counts sent & received messages for each chat, ordered by the most active chats
+     */
+    async getMessageCountsByChat(params: AnalyticsParams = {}, limit = 25) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        return await this.db.getRepository(Message).query(
+            `SELECT
+                chat.guid AS chat_guid,
+                chat.display_name AS group_name,
+                chat.style AS style,
+                SUM(CASE WHEN message.is_from_me = 1 THEN 1 ELSE 0 END) AS sent,
+                SUM(CASE WHEN message.is_from_me = 0 THEN 1 ELSE 0 END) AS received
+            FROM message
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE message.item_type = 0 AND message.associated_message_type = 0
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            GROUP BY chat.guid
+            ORDER BY COUNT(message.ROWID) DESC
+            LIMIT ?;`,
+            [...args, limit]
+        );
+    }
+
+    /**
+     * Counts sent & received messages for each handle, ordered by the most active handles.
+     * Sent messages only have a handle in 1:1 chats, so messages sent to groups aren't attributed.
+     */
+    async getMessageCountsByHandle(params: AnalyticsParams = {}, limit = 25) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        return await this.db.getRepository(Message).query(
+            `SELECT
+                handle.id AS address,
+                handle.service AS service,
+                SUM(CASE WHEN message.is_from_me = 1 THEN 1 ELSE 0 END) AS sent,
+                SUM(CASE WHEN message.is_from_me = 0 THEN 1 ELSE 0 END) AS received
+            FROM message
+            JOIN handle ON handle.ROWID = message.handle_id
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE message.item_type = 0 AND message.associated_message_type = 0
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            GROUP BY handle.ROWID
+            ORDER BY COUNT(message.ROWID) DESC
+            LIMIT ?;`,
+            [...args, limit]
+        );
+    }
+
+    /**
+     * Gets the date & direction of each message, ordered by chat, then date.
+     * Used to calculate response times.
+     */
+    async getMessageTimeline(params: AnalyticsParams = {}) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        return await this.db.getRepository(Message).query(
+            `SELECT
+                cmj.chat_id AS chat_id,
+                message.date AS date,
+                message.is_from_me AS is_from_me
+            FROM message
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE message.item_type = 0 AND message.associated_message_type = 0
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            ORDER BY cmj.chat_id ASC, message.date ASC;`,
+            args
+        );
+    }
+
+    /**
+     * Counts reactions (tapbacks) by type, and by whether they were sent or received.
+     * Removed reactions are the 3000 range of the associated message types.
+     */
+    async getReactionCounts(params: AnalyticsParams = {}) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        return await this.db.getRepository(Message).query(
+            `SELECT
+                message.associated_message_type AS reaction_type,
+                message.is_from_me AS is_from_me,
+                COUNT(message.ROWID) AS reaction_count
+            FROM message
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE message.associated_message_type >= 2000 AND message.associated_message_type < 4000
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            GROUP BY reaction_type, is_from_me;`,
+            args
+        );
+    }
+
+    /**
+     * Counts attachments (and their size) by media category, grouped by a time interval (in local time)
+     */
+    async getAttachmentCountsByInterval(interval: AnalyticsInterval, params: AnalyticsParams = {}) {
+        const { clauses, params: args } = this.getAnalyticsFilters(params);
+        const bucket = this.getLocalDateExpression(this.getIntervalFormat(interval));
+        return await this.db.getRepository(Attachment).query(
+            `SELECT
+                ${bucket} AS bucket,
+                CASE
+                    WHEN attachment.mime_type LIKE 'image/%' THEN 'image'
+                    WHEN attachment.mime_type LIKE 'video/%' THEN 'video'
+                    WHEN attachment.mime_type LIKE 'audio/%' THEN 'audio'
+                    ELSE 'other'
+                END AS category,
+                COUNT(attachment.ROWID) AS attachment_count,
+                SUM(attachment.total_bytes) AS total_bytes
+            FROM attachment
+            JOIN message_attachment_join AS maj ON attachment.ROWID = maj.attachment_id
+            JOIN message ON message.ROWID = maj.message_id
+            JOIN chat_message_join AS cmj ON message.ROWID = cmj.message_id
+            JOIN chat ON chat.ROWID = cmj.chat_id
+            WHERE 1 = 1
+            ${clauses.map(c => `AND ${c}`).join(" ")}
+            GROUP BY bucket, category
+            ORDER BY bucket ASC;`,
+            args
+        );
+    }
+
+    /**
+     * Gets the reactions (tapbacks) to a list of messages, including removals, oldest first.
+     * Associated GUIDs are prefixed with the part they target (i.e. p:0/<guid> or bp:<guid>).
+     *
+     * @param guids The GUIDs of the messages to get the reactions for
+     * @param after The date of the oldest message (reactions can't be older than what they react to)
+     */
+    async getReactionsForMessages(guids: string[], after: Date = null) {
+        if (isEmpty(guids)) return [];
+
+        const query = this.db
+            .getRepository(Message)
+            .createQueryBuilder("message")
+            .leftJoinAndSelect("message.handle", "handle")
+            .where("message.associated_message_type >= 2000 AND message.associated_message_type < 4000")
+            .andWhere(
+                `(CASE WHEN message.associated_message_guid LIKE 'bp:%'
+                    THEN substr(message.associated_message_guid, 4)
+                    ELSE substr(message.associated_message_guid, instr(message.associated_message_guid, '/') + 1)
+                END) IN (:...guids)`,
+                { guids }
+            );
+
+        if (after) query.andWhere("message.date >= :after", { after: convertDateTo2001Time(after) });
+        return await query.orderBy("message.date", "ASC").getMany();
+    }
+
+    /**
+     * Counts the inline replies to each message (messages that have it as their thread originator).
+     * Reactions to the replies aren't replies themselves, so they aren't counted (the same as the thread endpoint).
+     *
+     * @param guids The GUIDs of the messages to count the replies for
+     */
+    async getReplyCounts(guids: string[]): Promise<Record<string, number>> {
+        if (!isMinBigSur || isEmpty(guids)) return {};
+
+        const rows = await this.db.getRepository(Message).query(
+            `SELECT thread_originator_guid AS guid, COUNT(ROWID) AS reply_count
+            FROM message
+            WHERE thread_originator_guid IN (${guids.map(() => "?").join(", ")}) AND associated_message_type = 0
+            GROUP BY thread_originator_guid;`,
+            guids
+        );
+
+        const output: Record<string, number> = {};
+        for (const row of rows) {
+            output[row.guid] = Number(row.reply_count ?? 0);
+        }
+
+        return output;
+    }
+
+    /**
+     * Gets a list of messages by their GUIDs
+     */
+    async getMessagesByGuids(guids: string[]) {
+        if (isEmpty(guids)) return [];
+
+        return await this.db
+            .getRepository(Message)
+            .createQueryBuilder("message")
+            .leftJoinAndSelect("message.handle", "handle")
+            .where("message.guid IN (:...guids)", { guids })
+            .getMany();
+    }
 }
@@ -7,6 +7,7 @@ import { IMessageCache, IMessagePoller } from "../pollers";
 import { MessageRepository } from "..";
 import { waitMs } from "@server/helpers/utils";
 import { DebounceSubsequentWithWait } from "@server/lib/decorators/DebounceDecorator";
+import { Metrics } from "@server/lib/metrics/Metrics";
 
 export class IMessageListener extends Loggable {
     tag = "IMessageListener";
@@ -122,7 +123,7 @@ export class IMessageListener extends Loggable {
             }
 
             const endMs = new Date().getTime();
-            // this.log.debug(`${poller.tag} took ${endMs - startMs}ms`);
+            Metrics.pollerDuration.observe({ poller: poller.tag }, (endMs - startMs) / 1000);
         }
     }
 }
@@ -133,6 +133,11 @@ export class MessagePoller extends IMessagePoller {
             results.push({ eventType: event, data: entry });
         }
 
+        // Keep the search index up-to-date with any new/updated messages
+        Server().messageSearch?.indexMessages(
+            results.filter(e => ["new-entry", "updated-entry"].includes(e.eventType)).map(e => e.data)
+        );
+
         return results;
     }
 
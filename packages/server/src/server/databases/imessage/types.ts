@@ -30,6 +30,14 @@ export type ChatParams = {
     orderBy?: string;
 };
 
+export type AnalyticsParams = {
+    after?: Date;
+    before?: Date;
+    chatGuid?: string;
+};
+
+export type AnalyticsInterval = "hour" | "day" | "week" | "month";
+
 export type HandleParams = {
     address?: string;
     offset?: number;
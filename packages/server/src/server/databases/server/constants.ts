@@ -1,4 +1,5 @@
 import { Server } from "@server";
+import { generateRandomString } from "@server/utils/CryptoUtils";
 
 export const DEFAULT_SOCKET_PORT = 1234;
 export const DEFAULT_DB_ITEMS: { [key: string]: () => any } = {
@@ -39,4 +40,27 @@ export const DEFAULT_DB_ITEMS: { [key: string]: () => any } = {
     zrok_reserved_name: () => "",
     zrok_reserved_token: () => "",
     landing_page_path: () => "",
+    // Outgoing message limits (messages per minute & burst size). A rate of 0 disables the limit
+    outgoing_rate_limit_global: () => 0,
+    outgoing_rate_burst_global: () => 20,
+    outgoing_rate_limit_chat: () => 0,
+    outgoing_rate_burst_chat: () => 10,
+    outgoing_rate_limit_token: () => 0,
+    outgoing_rate_burst_token: () => 10,
+    // How many times to retry a queued send after a transient failure, and the base delay (in seconds)
+    queue_max_retries: () => 3,
+    queue_retry_delay: () => 10,
+    // How many days an exchanged encryption key can be used for before it must be rotated (0 to never expire)
+    encryption_key_lifetime: () => 30,
+    // The salt used to derive the password-based encryption key
+    encryption_salt: () => generateRandomString(32),
+    // The VAPID keys are generated the first time a Web Push notification is sent
+    web_push_public_key: () => "",
+    web_push_private_key: () => "",
+    // The contact (mailto: or https: URL) that push services can reach out to about our notifications
+    web_push_subject: () => "",
+    // How many days a device can be inactive for before it is removed (0 to never expire)
+    device_expiry_days: () => 31,
+    // How many days of Find My location history to keep (0 to disable the history)
+    findmy_history_days: () => 30
 };
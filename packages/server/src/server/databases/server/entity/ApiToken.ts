@@ -0,0 +1,32 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from "typeorm";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+@Entity({ name: "api_token" })
+export class ApiToken {
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    // A user-friendly name so the token's owner can be identified
+    @Column("text", { name: "name", nullable: false })
+    name: string;
+
+    // SHA-256 hash of the token. The raw token is only returned once, at creation.
+    @Column("text", { name: "token_hash", nullable: false, unique: true })
+    tokenHash: string;
+
+    // The first few characters of the token, so it can be identified in the UI
+    @Column("text", { name: "token_prefix", nullable: false })
+    tokenPrefix: string;
+
+    // JSON String containing the list of scopes granted to the token
+    @Column("text", { name: "scopes", nullable: false, transformer: JsonTransformer })
+    scopes: string[];
+
+    // The last time the token was used to authenticate
+    @Column("integer", { name: "last_used", nullable: true, transformer: EpochDateTransformer })
+    lastUsed: Date;
+
+    @CreateDateColumn()
+    created: Date;
+}
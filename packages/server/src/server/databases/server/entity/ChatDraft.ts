@@ -0,0 +1,34 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+@Entity({ name: "chat_draft" })
+export class ChatDraft {
+    // The GUID of the chat the draft belongs to (each chat has at most 1 draft)
+    @PrimaryColumn("text", { name: "chat_guid" })
+    chatGuid: string;
+
+    @Column("text", { name: "text", nullable: true, default: null })
+    text: string;
+
+    // JSON String containing the pending attachments (upload session IDs, or hashes of uploaded attachments)
+    @Column("text", { name: "attachments", nullable: false, transformer: JsonTransformer })
+    attachments: string[];
+
+    // The GUID of the message being replied to
+    @Column("text", { name: "reply_to_guid", nullable: true, default: null })
+    replyToGuid: string;
+
+    // The part of the message being replied to
+    @Column("integer", { name: "reply_to_part", nullable: true, default: null })
+    replyToPart: number;
+
+    // The expressive send effect (i.e. com.apple.MobileSMS.expressivesend.impact)
+    @Column("text", { name: "effect_id", nullable: true, default: null })
+    effectId: string;
+
+    @CreateDateColumn()
+    created: Date;
+
+    @UpdateDateColumn()
+    updated: Date;
+}
@@ -0,0 +1,55 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { BooleanTransformer } from "@server/databases/transformers/BooleanTransformer";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+export type ChatLabel = {
+    name: string;
+    // A hex color (i.e. #FF0000), or null to use the client's default
+    color: string | null;
+};
+
+@Entity({ name: "chat_metadata" })
+export class ChatMetadata {
+    // The GUID of the chat the metadata belongs to
+    @PrimaryColumn("text", { name: "chat_guid" })
+    chatGuid: string;
+
+    // The position of the chat in the pinned list (null if the chat isn't pinned)
+    @Column("integer", { name: "pinned_index", nullable: true, default: null })
+    pinnedIndex: number;
+
+    // This is separate from the Messages.app archive status
+    @Column({
+        name: "is_archived",
+        type: "integer",
+        transformer: BooleanTransformer,
+        default: 0
+    })
+    isArchived: boolean;
+
+    @Column({
+        name: "is_muted",
+        type: "integer",
+        transformer: BooleanTransformer,
+        default: 0
+    })
+    isMuted: boolean;
+
+    // When the chat should be unmuted (null if the chat is muted indefinitely)
+    @Column("integer", { name: "muted_until", nullable: true, transformer: EpochDateTransformer })
+    mutedUntil: Date;
+
+    // JSON String containing the list of custom labels
+    @Column("text", { name: "labels", nullable: false, transformer: JsonTransformer })
+    labels: ChatLabel[];
+
+    @Column("text", { name: "notes", nullable: true, default: null })
+    notes: string;
+
+    @CreateDateColumn()
+    created: Date;
+
+    @UpdateDateColumn()
+    updated: Date;
+}
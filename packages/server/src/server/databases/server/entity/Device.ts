@@ -1,13 +1,51 @@
 import { Entity, PrimaryColumn, Column } from "typeorm";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+export type DevicePreferences = {
+    // The event types the device wants to receive (null for all events)
+    events: string[] | null;
+    // If not empty, only events for these chats are sent
+    includeChats: string[];
+    excludeChats: string[];
+    // A daily window (HH:mm, in the server's local time) where nothing is sent to the device
+    quietHours: { start: string; end: string } | null;
+    // Only send new messages from group chats if they mention you
+    mentionsOnly: boolean;
+};
 
 @Entity({ name: "device" })
 export class Device {
     @PrimaryColumn("text", { name: "name" })
     name: string;
 
+    // The FCM token, or the push endpoint URL (UnifiedPush & Web Push)
     @PrimaryColumn("text", { name: "identifier" })
     identifier: string;
 
     @Column("int", { name: "last_active", nullable: true })
     last_active: number;
+
+    // The push provider the device receives notifications from (fcm, unifiedpush, or webpush)
+    @Column("text", { name: "provider", nullable: false, default: "fcm" })
+    provider: string;
+
+    // JSON String containing the keys used to encrypt notifications (Web Push only)
+    @Column("text", { name: "push_keys", nullable: true, transformer: JsonTransformer })
+    pushKeys: NodeJS.Dict<any>;
+
+    // JSON String containing the notification preferences (null for the defaults)
+    @Column("text", { name: "preferences", nullable: true, transformer: JsonTransformer })
+    preferences: DevicePreferences;
+
+    // The version of the client app, as reported when registering
+    @Column("text", { name: "client_version", nullable: true })
+    clientVersion: string;
+
+    // The platform the client is running on (i.e. android, web, desktop)
+    @Column("text", { name: "platform", nullable: true })
+    platform: string;
+
+    // The IP address the device last registered or connected from
+    @Column("text", { name: "last_ip", nullable: true })
+    lastIp: string;
 }
@@ -0,0 +1,24 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from "typeorm";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+
+@Entity({ name: "encryption_key" })
+export class EncryptionKey {
+    // The key ID, which clients send to select the key (and is included in each envelope)
+    @PrimaryColumn("text", { name: "id" })
+    id: string;
+
+    // A user-friendly name so the device that owns the key can be identified
+    @Column("text", { name: "name", nullable: false })
+    name: string;
+
+    // Base64 encoded AES-256 key, derived from the key exchange
+    @Column("text", { name: "key", nullable: false })
+    key: string;
+
+    // When the key can no longer be negotiated (null if it never expires)
+    @Column("integer", { name: "expires_at", nullable: true, transformer: EpochDateTransformer })
+    expiresAt: Date;
+
+    @CreateDateColumn()
+    created: Date;
+}
@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from "typeorm";
+import { BooleanTransformer } from "@server/databases/transformers/BooleanTransformer";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+
+export type FaceTimeCallStatus = "ringing" | "answered" | "missed" | "declined";
+
+@Entity({ name: "facetime_call" })
+@Index("IDX_facetime_call_call_uuid", ["callUuid"])
+export class FaceTimeCall {
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    // The UUID FaceTime assigned to the call
+    @Column("text", { name: "call_uuid", nullable: false })
+    callUuid: string;
+
+    // The address of the other person on the call
+    @Column("text", { name: "address", nullable: true })
+    address: string;
+
+    @Column({
+        name: "is_outgoing",
+        type: "integer",
+        transformer: BooleanTransformer,
+        default: 0
+    })
+    isOutgoing: boolean;
+
+    // Audio-only calls are FaceTime Audio calls
+    @Column({
+        name: "is_video",
+        type: "integer",
+        transformer: BooleanTransformer,
+        default: 1
+    })
+    isVideo: boolean;
+
+    // The call is "ringing" until it is answered or ends
+    @Column("text", { name: "status", nullable: false, default: "ringing" })
+    status: FaceTimeCallStatus;
+
+    // The reason FaceTime gave for the call ending (if any)
+    @Column("text", { name: "ended_reason", nullable: true })
+    endedReason: string;
+
+    // The FaceTime link generated for the call, when it was answered by the server
+    @Column("text", { name: "link", nullable: true })
+    link: string;
+
+    @Column("integer", { name: "started_at", nullable: false, transformer: EpochDateTransformer })
+    startedAt: Date;
+
+    @Column("integer", { name: "answered_at", nullable: true, transformer: EpochDateTransformer })
+    answeredAt: Date;
+
+    @Column("integer", { name: "ended_at", nullable: true, transformer: EpochDateTransformer })
+    endedAt: Date;
+
+    // How long the call lasted after it was answered (in seconds)
+    @Column("integer", { name: "duration", nullable: true })
+    duration: number;
+}
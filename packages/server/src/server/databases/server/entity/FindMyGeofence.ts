@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { BooleanTransformer } from "@server/databases/transformers/BooleanTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+export type FindMyGeofenceShape = "circle" | "polygon";
+
+@Entity({ name: "findmy_geofence" })
+export class FindMyGeofence {
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    @Column("text", { name: "name", nullable: false })
+    name: string;
+
+    @Column("text", { name: "shape", nullable: false, default: "circle" })
+    shape: FindMyGeofenceShape;
+
+    // The center of a circle geofence
+    @Column("real", { name: "latitude", nullable: true })
+    latitude: number;
+
+    @Column("real", { name: "longitude", nullable: true })
+    longitude: number;
+
+    // The radius of a circle geofence (in meters)
+    @Column("real", { name: "radius", nullable: true })
+    radius: number;
+
+    // The vertices of a polygon geofence, as [latitude, longitude] pairs
+    @Column("text", { name: "points", nullable: true, transformer: JsonTransformer })
+    points: Array<[number, number]>;
+
+    // The friend handles & device IDs the geofence applies to (empty for all)
+    @Column("text", { name: "sources", nullable: true, transformer: JsonTransformer })
+    sources: string[];
+
+    @Column({
+        name: "enabled",
+        type: "integer",
+        transformer: BooleanTransformer,
+        default: 1
+    })
+    enabled: boolean;
+
+    @CreateDateColumn()
+    created: Date;
+
+    @UpdateDateColumn()
+    updated: Date;
+}
@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from "typeorm";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+
+export type FindMyLocationSourceType = "friend" | "device";
+
+@Entity({ name: "findmy_location" })
+@Index("IDX_findmy_location_source_timestamp", ["sourceType", "sourceId", "timestamp"])
+export class FindMyLocation {
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    // Whether the location belongs to a friend (handle) or one of the account's devices/items
+    @Column("text", { name: "source_type", nullable: false })
+    sourceType: FindMyLocationSourceType;
+
+    // The friend's handle, or the device/item ID
+    @Column("text", { name: "source_id", nullable: false })
+    sourceId: string;
+
+    // The device name, or the friend's display title (if available)
+    @Column("text", { name: "name", nullable: true })
+    name: string;
+
+    @Column("real", { name: "latitude", nullable: false })
+    latitude: number;
+
+    @Column("real", { name: "longitude", nullable: false })
+    longitude: number;
+
+    // The horizontal accuracy (in meters), when Find My reports it
+    @Column("real", { name: "accuracy", nullable: true })
+    accuracy: number;
+
+    @Column("text", { name: "address", nullable: true })
+    address: string;
+
+    // The Find My location status (i.e. live, shallow, or legacy), for friends only
+    @Column("text", { name: "status", nullable: true })
+    status: string;
+
+    // When Find My says the location was last updated
+    @Column("integer", { name: "timestamp", nullable: false, transformer: EpochDateTransformer })
+    timestamp: Date;
+}
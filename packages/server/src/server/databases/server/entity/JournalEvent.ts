@@ -0,0 +1,22 @@
+import { Entity, PrimaryGeneratedColumn, Column } from "typeorm";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+@Entity({ name: "event_journal" })
+export class JournalEvent {
+    // Monotonically increasing sequence number (AUTOINCREMENT never re-uses IDs)
+    @PrimaryGeneratedColumn({ name: "seq" })
+    seq: number;
+
+    // The type of event that was emitted
+    @Column("text", { name: "type", nullable: false })
+    type: string;
+
+    // JSON String containing the data that was emitted
+    @Column("text", { name: "data", nullable: true, transformer: JsonTransformer })
+    data: any;
+
+    // When the event was emitted
+    @Column("integer", { name: "created", nullable: false, transformer: EpochDateTransformer })
+    created: Date;
+}
@@ -1,6 +1,9 @@
-import { Entity, PrimaryGeneratedColumn, Column } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, Index } from "typeorm";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
 
 @Entity({ name: "queue" })
+@Index("IDX_queue_status_next_attempt", ["status", "nextAttemptAt"])
 export class Queue {
     @PrimaryGeneratedColumn({ name: "id" })
     id: number;
@@ -16,4 +19,32 @@ export class Queue {
 
     @Column("integer", { name: "date_created", nullable: false })
     dateCreated: number;
+
+    // The type of action to perform (i.e. send-attachment or open-chat)
+    @Column("text", { name: "type", nullable: true, default: null })
+    type: string;
+
+    // JSON String containing the data needed to perform the action
+    @Column("text", { name: "payload", nullable: true, default: null, transformer: JsonTransformer })
+    payload: NodeJS.Dict<any>;
+
+    // The current status of the item (queued, sending, sent, or failed)
+    @Column("text", { name: "status", nullable: false, default: "queued" })
+    status: string;
+
+    // The number of times we've attempted to process the item
+    @Column("integer", { name: "attempts", nullable: false, default: 0 })
+    attempts: number;
+
+    // The error from the last attempt
+    @Column("text", { name: "error", nullable: true, default: null })
+    error: string;
+
+    // The time that the next attempt should be made at
+    @Column("integer", { name: "next_attempt_at", nullable: true, transformer: EpochDateTransformer })
+    nextAttemptAt: Date;
+
+    // The time that the last attempt was made at
+    @Column("integer", { name: "last_attempt_at", nullable: true, transformer: EpochDateTransformer })
+    lastAttemptAt: Date;
 }
@@ -12,6 +12,10 @@ export class Webhook {
     @Column("text", { name: "events", nullable: false })
     events: string;
 
+    // The secret used to sign (HMAC-SHA256) the payloads sent to the webhook
+    @Column("text", { name: "secret", nullable: true, default: null })
+    secret: string;
+
     @CreateDateColumn()
     created: Date;
 }
@@ -0,0 +1,57 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+
+@Entity({ name: "webhook_delivery" })
+@Index("IDX_webhook_delivery_status_next_attempt", ["status", "nextAttemptAt"])
+export class WebhookDelivery {
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    // The ID of the webhook the event is being delivered to
+    @Column("integer", { name: "webhook_id", nullable: false })
+    webhookId: number;
+
+    // A unique ID for the event. This stays the same across retries & redeliveries
+    @Column("text", { name: "event_id", nullable: false })
+    eventId: string;
+
+    // The type of event being delivered
+    @Column("text", { name: "event_type", nullable: false })
+    eventType: string;
+
+    // JSON String containing the event that is POSTed to the webhook
+    @Column("text", { name: "payload", nullable: false, transformer: JsonTransformer })
+    payload: NodeJS.Dict<any>;
+
+    // The current status of the delivery (pending, delivered, or failed)
+    @Column("text", { name: "status", nullable: false, default: "pending" })
+    status: string;
+
+    // The number of times we've attempted to deliver the event
+    @Column("integer", { name: "attempts", nullable: false, default: 0 })
+    attempts: number;
+
+    // The HTTP status code returned by the last attempt
+    @Column("integer", { name: "status_code", nullable: true, default: null })
+    statusCode: number;
+
+    // How long the last attempt took, in milliseconds
+    @Column("integer", { name: "latency_ms", nullable: true, default: null })
+    latencyMs: number;
+
+    // The error from the last attempt
+    @Column("text", { name: "error", nullable: true, default: null })
+    error: string;
+
+    // The time that the next attempt should be made at
+    @Column("integer", { name: "next_attempt_at", nullable: true, transformer: EpochDateTransformer })
+    nextAttemptAt: Date;
+
+    // The time that the last attempt was made at
+    @Column("integer", { name: "last_attempt_at", nullable: true, transformer: EpochDateTransformer })
+    lastAttemptAt: Date;
+
+    @CreateDateColumn()
+    created: Date;
+}
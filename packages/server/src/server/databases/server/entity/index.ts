@@ -6,5 +6,32 @@ import { Webhook } from "./Webhook";
 import { Contact } from "./Contact";
 import { ContactAddress } from "./ContactAddress";
 import { ScheduledMessage } from "./ScheduledMessage";
+import { ApiToken } from "./ApiToken";
+import { WebhookDelivery } from "./WebhookDelivery";
+import { JournalEvent } from "./JournalEvent";
+import { EncryptionKey } from "./EncryptionKey";
+import { ChatDraft } from "./ChatDraft";
+import { ChatMetadata } from "./ChatMetadata";
+import { FaceTimeCall } from "./FaceTimeCall";
+import { FindMyLocation } from "./FindMyLocation";
+import { FindMyGeofence } from "./FindMyGeofence";
 
-export { Config, Alert, Device, Queue, Webhook, Contact, ContactAddress, ScheduledMessage };
+export {
+    Config,
+    Alert,
+    Device,
+    Queue,
+    Webhook,
+    Contact,
+    ContactAddress,
+    ScheduledMessage,
+    ApiToken,
+    WebhookDelivery,
+    JournalEvent,
+    EncryptionKey,
+    ChatDraft,
+    ChatMetadata,
+    FaceTimeCall,
+    FindMyLocation,
+    FindMyGeofence
+};
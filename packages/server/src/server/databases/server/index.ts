@@ -4,10 +4,41 @@ import { EventEmitter } from "events";
 import { DataSource } from "typeorm";
 import { Server } from "@server";
 import { isEmpty, isNotEmpty } from "@server/helpers/utils";
-import { Config, Alert, Device, Queue, Webhook, Contact, ContactAddress, ScheduledMessage } from "./entity";
+import {
+    Config,
+    Alert,
+    Device,
+    Queue,
+    Webhook,
+    Contact,
+    ContactAddress,
+    ScheduledMessage,
+    ApiToken,
+    WebhookDelivery,
+    JournalEvent,
+    EncryptionKey,
+    ChatDraft,
+    ChatMetadata,
+    FaceTimeCall,
+    FindMyLocation,
+    FindMyGeofence
+} from "./entity";
+import { generateRandomString } from "@server/utils/CryptoUtils";
 import { DEFAULT_DB_ITEMS } from "./constants";
 import { ContactTables1654432080899 } from "./migrations/1654432080899-ContactTables";
 import { ScheduledMessageTable1665083072000 } from "./migrations/1665083072000-ScheduledMessageTable";
+import { ApiTokenTable1792454400000 } from "./migrations/1792454400000-ApiTokenTable";
+import { WebhookDeliveryTable1792540800000 } from "./migrations/1792540800000-WebhookDeliveryTable";
+import { EventJournalTable1792627200000 } from "./migrations/1792627200000-EventJournalTable";
+import { QueueStatusColumns1792713600000 } from "./migrations/1792713600000-QueueStatusColumns";
+import { EncryptionKeyTable1792800000000 } from "./migrations/1792800000000-EncryptionKeyTable";
+import { ChatDraftTable1792886400000 } from "./migrations/1792886400000-ChatDraftTable";
+import { ChatMetadataTable1792972800000 } from "./migrations/1792972800000-ChatMetadataTable";
+import { DevicePushProviderColumns1793059200000 } from "./migrations/1793059200000-DevicePushProviderColumns";
+import { DevicePreferencesColumn1793145600000 } from "./migrations/1793145600000-DevicePreferencesColumn";
+import { DeviceDetailsColumns1793232000000 } from "./migrations/1793232000000-DeviceDetailsColumns";
+import { FaceTimeCallTable1793318400000 } from "./migrations/1793318400000-FaceTimeCallTable";
+import { FindMyTrackingTables1793404800000 } from "./migrations/1793404800000-FindMyTrackingTables";
 
 export type ServerConfig = { [key: string]: Date | string | boolean | number };
 export type ServerConfigChange = { prevConfig: ServerConfig; nextConfig: ServerConfig };
@@ -43,8 +74,41 @@ export class ServerRepository extends EventEmitter {
             name: "config",
             type: "better-sqlite3",
             database: dbPath,
-            entities: [Config, Alert, Device, Queue, Webhook, Contact, ContactAddress, ScheduledMessage],
-            migrations: [ContactTables1654432080899, ScheduledMessageTable1665083072000],
+            entities: [
+                Config,
+                Alert,
+                Device,
+                Queue,
+                Webhook,
+                Contact,
+                ContactAddress,
+                ScheduledMessage,
+                ApiToken,
+                WebhookDelivery,
+                JournalEvent,
+                EncryptionKey,
+                ChatDraft,
+                ChatMetadata,
+                FaceTimeCall,
+                FindMyLocation,
+                FindMyGeofence
+            ],
+            migrations: [
+                ContactTables1654432080899,
+                ScheduledMessageTable1665083072000,
+                ApiTokenTable1792454400000,
+                WebhookDeliveryTable1792540800000,
+                EventJournalTable1792627200000,
+                QueueStatusColumns1792713600000,
+                EncryptionKeyTable1792800000000,
+                ChatDraftTable1792886400000,
+                ChatMetadataTable1792972800000,
+                DevicePushProviderColumns1793059200000,
+                DevicePreferencesColumn1793145600000,
+                DeviceDetailsColumns1793232000000,
+                FaceTimeCallTable1793318400000,
+                FindMyTrackingTables1793404800000
+            ],
             migrationsRun: !shouldSync,
             migrationsTableName: "migrations",
             synchronize: shouldSync
@@ -114,6 +178,69 @@ export class ServerRepository extends EventEmitter {
         return this.db.getRepository(ScheduledMessage);
     }
 
+    /**
+     * Get the API tokens repo
+     */
+    apiTokens() {
+        return this.db.getRepository(ApiToken);
+    }
+
+    /**
+     * Get the webhook deliveries repo
+     */
+    webhookDeliveries() {
+        return this.db.getRepository(WebhookDelivery);
+    }
+
+    /**
+     * Get the event journal repo
+     */
+    eventJournal() {
+        return this.db.getRepository(JournalEvent);
+    }
+
+    /**
+     * Get the encryption keys repo
+     */
+    encryptionKeys() {
+        return this.db.getRepository(EncryptionKey);
+    }
+
+    /**
+     * Get the chat drafts repo
+     */
+    chatDrafts() {
+        return this.db.getRepository(ChatDraft);
+    }
+
+    /**
+     * Get the chat metadata repo
+     */
+    chatMetadata() {
+        return this.db.getRepository(ChatMetadata);
+    }
+
+    /**
+     * Get the FaceTime call log repo
+     */
+    faceTimeCalls() {
+        return this.db.getRepository(FaceTimeCall);
+    }
+
+    /**
+     * Get the Find My location history repo
+     */
+    findMyLocations() {
+        return this.db.getRepository(FindMyLocation);
+    }
+
+    /**
+     * Get the Find My geofences repo
+     */
+    findMyGeofences() {
+        return this.db.getRepository(FindMyGeofence);
+    }
+
     private async loadConfig() {
         const items: Config[] = await this.configs().find();
         for (const i of items) this.config[i.name] = ServerRepository.convertFromDbValue(i.value);
@@ -164,16 +291,20 @@ export class ServerRepository extends EventEmitter {
     }
 
     async purgeOldDevices() {
-        // Get devices that have a null last_active or older than 31 days
-        const sevenDaysAgo = new Date().getTime() - 86400 * 1000 * 31;  // Now - 31 days
+        // A value of 0 disables the automatic expiry
+        const expiryDays = Number(this.getConfig("device_expiry_days") ?? 0);
+        if (Number.isNaN(expiryDays) || expiryDays <= 0) return;
+
+        // Get devices that have a null last_active or are older than the expiry
+        const expiresBefore = new Date().getTime() - 86400 * 1000 * expiryDays;
         const devicesToDelete = (await this.devices().find()).filter(
-            (item: Device) => !item.last_active || (item.last_active && item.last_active <= sevenDaysAgo)
+            (item: Device) => !item.last_active || (item.last_active && item.last_active <= expiresBefore)
         );
 
         // Delete the devices
         if (isNotEmpty(devicesToDelete)) {
-            Server().log(
-                `Automatically purging ${devicesToDelete.length} devices from your server (inactive for 31 days)`);
+            const count = devicesToDelete.length;
+            Server().log(`Automatically purging ${count} devices from your server (inactive for ${expiryDays} days)`);
             for (const item of devicesToDelete) {
                 const dateStr = item.last_active ? new Date(item.last_active).toLocaleDateString() : "N/A";
                 Server().log(`    -> Device: ${item.name} (Last Active: ${dateStr})`);
@@ -204,7 +335,11 @@ export class ServerRepository extends EventEmitter {
         // If the webhook exists, don't re-add it, just return it
         if (item) return item;
 
-        const webhook = repo.create({ url, events: JSON.stringify(events.map(e => e.value)) });
+        const webhook = repo.create({
+            url,
+            events: JSON.stringify(events.map(e => e.value)),
+            secret: generateRandomString(64)
+        });
         return await repo.save(webhook);
     }
 
@@ -233,20 +368,20 @@ export class ServerRepository extends EventEmitter {
         const item = url ? await repo.findOneBy({ url }) : await repo.findOneBy({ id });
         if (!item) return;
         await repo.delete(item.id);
+        await this.webhookDeliveries().delete({ webhookId: item.id });
     }
 
     public async hasQueuedMessage(tempGuid: string): Promise<boolean> {
-        const repo = this.queue();
-
-        // Get all queued items
-        let entries = await repo.find();
-        if (isEmpty(entries)) return false;
+        if (isEmpty(tempGuid)) return false;
 
-        // Check if any have a matching tempGUID
-        entries = entries.filter(item => item.tempGuid === tempGuid || item.text.startsWith(tempGuid));
+        // Only the items that are still waiting to be sent count
+        const count = await this.queue()
+            .createQueryBuilder("queue")
+            .where("queue.temp_guid = :tempGuid", { tempGuid })
+            .andWhere("queue.status IN ('queued', 'sending')")
+            .getCount();
 
-        // Return if there are tempGUID matches
-        return isNotEmpty(entries);
+        return count > 0;
     }
 
     /**
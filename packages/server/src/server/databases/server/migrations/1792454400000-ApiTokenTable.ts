@@ -0,0 +1,29 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ApiTokenTable1792454400000 implements MigrationInterface {
+    name = "ApiTokenTable1792454400000";
+
+    createApiTokenTable = `
+        CREATE TABLE IF NOT EXISTS "api_token" (
+            "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "name" text NOT NULL,
+            "token_hash" text NOT NULL,
+            "token_prefix" text NOT NULL,
+            "scopes" text NOT NULL,
+            "last_used" integer DEFAULT NULL,
+            "created" datetime NOT NULL DEFAULT (datetime('now')),
+            CONSTRAINT "UQ_api_token_token_hash" UNIQUE ("token_hash")
+        );
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating ApiToken table...`, "debug");
+        await queryRunner.query(this.createApiTokenTable);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,47 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class WebhookDeliveryTable1792540800000 implements MigrationInterface {
+    name = "WebhookDeliveryTable1792540800000";
+
+    createWebhookDeliveryTable = `
+        CREATE TABLE IF NOT EXISTS "webhook_delivery" (
+            "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "webhook_id" integer NOT NULL,
+            "event_id" text NOT NULL,
+            "event_type" text NOT NULL,
+            "payload" text NOT NULL,
+            "status" text NOT NULL DEFAULT 'pending',
+            "attempts" integer NOT NULL DEFAULT 0,
+            "status_code" integer DEFAULT NULL,
+            "latency_ms" integer DEFAULT NULL,
+            "error" text DEFAULT NULL,
+            "next_attempt_at" integer DEFAULT NULL,
+            "last_attempt_at" integer DEFAULT NULL,
+            "created" datetime NOT NULL DEFAULT (datetime('now'))
+        );
+    `;
+
+    createWebhookDeliveryIndex = `
+        CREATE INDEX IF NOT EXISTS "IDX_webhook_delivery_status_next_attempt"
+        ON "webhook_delivery" ("status", "next_attempt_at");
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        // The column may already exist if the DB was created via synchronization
+        const columns: Array<{ name: string }> = await queryRunner.query(`PRAGMA table_info("webhook")`);
+        if (!columns.some(column => column.name === "secret")) {
+            Server().log(`Migration[${this.name}] Adding secret column to Webhook table...`, "debug");
+            await queryRunner.query(`ALTER TABLE "webhook" ADD COLUMN "secret" text DEFAULT NULL`);
+        }
+
+        Server().log(`Migration[${this.name}] Creating WebhookDelivery table...`, "debug");
+        await queryRunner.query(this.createWebhookDeliveryTable);
+        await queryRunner.query(this.createWebhookDeliveryIndex);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,25 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class EventJournalTable1792627200000 implements MigrationInterface {
+    name = "EventJournalTable1792627200000";
+
+    createEventJournalTable = `
+        CREATE TABLE IF NOT EXISTS "event_journal" (
+            "seq" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "type" text NOT NULL,
+            "data" text,
+            "created" integer NOT NULL
+        );
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating EventJournal table...`, "debug");
+        await queryRunner.query(this.createEventJournalTable);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,43 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class QueueStatusColumns1792713600000 implements MigrationInterface {
+    name = "QueueStatusColumns1792713600000";
+
+    newColumns: Record<string, string> = {
+        type: `"type" text DEFAULT NULL`,
+        payload: `"payload" text DEFAULT NULL`,
+        status: `"status" text NOT NULL DEFAULT 'queued'`,
+        attempts: `"attempts" integer NOT NULL DEFAULT 0`,
+        error: `"error" text DEFAULT NULL`,
+        next_attempt_at: `"next_attempt_at" integer DEFAULT NULL`,
+        last_attempt_at: `"last_attempt_at" integer DEFAULT NULL`
+    };
+
+    createQueueIndex = `
+        CREATE INDEX IF NOT EXISTS "IDX_queue_status_next_attempt"
+        ON "queue" ("status", "next_attempt_at");
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        // The columns may already exist if the DB was created via synchronization
+        const columns: Array<{ name: string }> = await queryRunner.query(`PRAGMA table_info("queue")`);
+        for (const [name, definition] of Object.entries(this.newColumns)) {
+            if (columns.some(column => column.name === name)) continue;
+            Server().log(`Migration[${this.name}] Adding ${name} column to Queue table...`, "debug");
+            await queryRunner.query(`ALTER TABLE "queue" ADD COLUMN ${definition}`);
+        }
+
+        // Any existing rows don't have the info needed to be processed
+        await queryRunner.query(
+            `UPDATE "queue" SET "status" = 'failed', "error" = 'Missing payload' WHERE "payload" IS NULL`
+        );
+
+        await queryRunner.query(this.createQueueIndex);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
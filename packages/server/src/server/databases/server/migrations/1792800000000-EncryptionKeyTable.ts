@@ -0,0 +1,26 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class EncryptionKeyTable1792800000000 implements MigrationInterface {
+    name = "EncryptionKeyTable1792800000000";
+
+    createEncryptionKeyTable = `
+        CREATE TABLE IF NOT EXISTS "encryption_key" (
+            "id" text PRIMARY KEY NOT NULL,
+            "name" text NOT NULL,
+            "key" text NOT NULL,
+            "expires_at" integer DEFAULT NULL,
+            "created" datetime NOT NULL DEFAULT (datetime('now'))
+        );
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating EncryptionKey table...`, "debug");
+        await queryRunner.query(this.createEncryptionKeyTable);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
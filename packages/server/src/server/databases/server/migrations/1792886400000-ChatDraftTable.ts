@@ -0,0 +1,29 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ChatDraftTable1792886400000 implements MigrationInterface {
+    name = "ChatDraftTable1792886400000";
+
+    createChatDraftTable = `
+        CREATE TABLE IF NOT EXISTS "chat_draft" (
+            "chat_guid" text PRIMARY KEY NOT NULL,
+            "text" text DEFAULT NULL,
+            "attachments" text NOT NULL,
+            "reply_to_guid" text DEFAULT NULL,
+            "reply_to_part" integer DEFAULT NULL,
+            "effect_id" text DEFAULT NULL,
+            "created" datetime NOT NULL DEFAULT (datetime('now')),
+            "updated" datetime NOT NULL DEFAULT (datetime('now'))
+        );
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating ChatDraft table...`, "debug");
+        await queryRunner.query(this.createChatDraftTable);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,30 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ChatMetadataTable1792972800000 implements MigrationInterface {
+    name = "ChatMetadataTable1792972800000";
+
+    createChatMetadataTable = `
+        CREATE TABLE IF NOT EXISTS "chat_metadata" (
+            "chat_guid" text PRIMARY KEY NOT NULL,
+            "pinned_index" integer DEFAULT NULL,
+            "is_archived" integer NOT NULL DEFAULT (0),
+            "is_muted" integer NOT NULL DEFAULT (0),
+            "muted_until" integer DEFAULT NULL,
+            "labels" text NOT NULL,
+            "notes" text DEFAULT NULL,
+            "created" datetime NOT NULL DEFAULT (datetime('now')),
+            "updated" datetime NOT NULL DEFAULT (datetime('now'))
+        );
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating ChatMetadata table...`, "debug");
+        await queryRunner.query(this.createChatMetadataTable);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,27 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class DevicePushProviderColumns1793059200000 implements MigrationInterface {
+    name = "DevicePushProviderColumns1793059200000";
+
+    newColumns: Record<string, string> = {
+        provider: `"provider" text NOT NULL DEFAULT 'fcm'`,
+        push_keys: `"push_keys" text DEFAULT NULL`
+    };
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        // The columns may already exist if the DB was created via synchronization
+        const columns: Array<{ name: string }> = await queryRunner.query(`PRAGMA table_info("device")`);
+        for (const [name, definition] of Object.entries(this.newColumns)) {
+            if (columns.some(column => column.name === name)) continue;
+            Server().log(`Migration[${this.name}] Adding ${name} column to Device table...`, "debug");
+            await queryRunner.query(`ALTER TABLE "device" ADD COLUMN ${definition}`);
+        }
+
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,21 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class DevicePreferencesColumn1793145600000 implements MigrationInterface {
+    name = "DevicePreferencesColumn1793145600000";
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        // The column may already exist if the DB was created via synchronization
+        const columns: Array<{ name: string }> = await queryRunner.query(`PRAGMA table_info("device")`);
+        if (!columns.some(column => column.name === "preferences")) {
+            Server().log(`Migration[${this.name}] Adding preferences column to Device table...`, "debug");
+            await queryRunner.query(`ALTER TABLE "device" ADD COLUMN "preferences" text DEFAULT NULL`);
+        }
+
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,28 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class DeviceDetailsColumns1793232000000 implements MigrationInterface {
+    name = "DeviceDetailsColumns1793232000000";
+
+    newColumns: Record<string, string> = {
+        client_version: `"client_version" text DEFAULT NULL`,
+        platform: `"platform" text DEFAULT NULL`,
+        last_ip: `"last_ip" text DEFAULT NULL`
+    };
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        // The columns may already exist if the DB was created via synchronization
+        const columns: Array<{ name: string }> = await queryRunner.query(`PRAGMA table_info("device")`);
+        for (const [name, definition] of Object.entries(this.newColumns)) {
+            if (columns.some(column => column.name === name)) continue;
+            Server().log(`Migration[${this.name}] Adding ${name} column to Device table...`, "debug");
+            await queryRunner.query(`ALTER TABLE "device" ADD COLUMN ${definition}`);
+        }
+
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,39 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FaceTimeCallTable1793318400000 implements MigrationInterface {
+    name = "FaceTimeCallTable1793318400000";
+
+    createFaceTimeCallTable = `
+        CREATE TABLE IF NOT EXISTS "facetime_call" (
+            "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "call_uuid" text NOT NULL,
+            "address" text,
+            "is_outgoing" integer NOT NULL DEFAULT (0),
+            "is_video" integer NOT NULL DEFAULT (1),
+            "status" text NOT NULL DEFAULT ('ringing'),
+            "ended_reason" text,
+            "link" text,
+            "started_at" integer NOT NULL,
+            "answered_at" integer,
+            "ended_at" integer,
+            "duration" integer
+        );
+    `;
+
+    createFaceTimeCallIndex = `
+        CREATE INDEX IF NOT EXISTS "IDX_facetime_call_call_uuid"
+        ON "facetime_call" ("call_uuid");
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating FaceTimeCall table...`, "debug");
+        await queryRunner.query(this.createFaceTimeCallTable);
+        await queryRunner.query(this.createFaceTimeCallIndex);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
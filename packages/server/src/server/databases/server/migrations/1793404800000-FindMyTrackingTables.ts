@@ -0,0 +1,55 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class FindMyTrackingTables1793404800000 implements MigrationInterface {
+    name = "FindMyTrackingTables1793404800000";
+
+    createFindMyLocationTable = `
+        CREATE TABLE IF NOT EXISTS "findmy_location" (
+            "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "source_type" text NOT NULL,
+            "source_id" text NOT NULL,
+            "name" text,
+            "latitude" real NOT NULL,
+            "longitude" real NOT NULL,
+            "accuracy" real,
+            "address" text,
+            "status" text,
+            "timestamp" integer NOT NULL
+        );
+    `;
+
+    createFindMyLocationIndex = `
+        CREATE INDEX IF NOT EXISTS "IDX_findmy_location_source_timestamp"
+        ON "findmy_location" ("source_type", "source_id", "timestamp");
+    `;
+
+    createFindMyGeofenceTable = `
+        CREATE TABLE IF NOT EXISTS "findmy_geofence" (
+            "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "name" text NOT NULL,
+            "shape" text NOT NULL DEFAULT ('circle'),
+            "latitude" real,
+            "longitude" real,
+            "radius" real,
+            "points" text,
+            "sources" text,
+            "enabled" integer NOT NULL DEFAULT (1),
+            "created" datetime NOT NULL DEFAULT (datetime('now')),
+            "updated" datetime NOT NULL DEFAULT (datetime('now'))
+        );
+    `;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Creating FindMyLocation table...`, "debug");
+        await queryRunner.query(this.createFindMyLocationTable);
+        await queryRunner.query(this.createFindMyLocationIndex);
+        Server().log(`Migration[${this.name}] Creating FindMyGeofence table...`, "debug");
+        await queryRunner.query(this.createFindMyGeofenceTable);
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
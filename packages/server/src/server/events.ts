@@ -5,7 +5,9 @@ export const SCHEDULED_MESSAGE_UPDATED = "scheduled-message-updated";
 export const SCHEDULED_MESSAGE_CREATED = "scheduled-message-created";
 export const NEW_MESSAGE = "new-message";
 export const MESSAGE_SEND_ERROR = "message-send-error";
+export const QUEUED_MESSAGE_ERROR = "queued-message-error";
 export const MESSAGE_UPDATED = "updated-message";
+export const THREAD_UPDATED = "thread-updated";
 export const NEW_SERVER = "new-server";
 export const PARTICIPANT_REMOVED = "participant-removed";
 export const PARTICIPANT_ADDED = "participant-added";
@@ -13,6 +15,9 @@ export const PARTICIPANT_LEFT = "participant-left";
 export const GROUP_ICON_CHANGED = "group-icon-changed";
 export const GROUP_ICON_REMOVED = "group-icon-removed";
 export const CHAT_READ_STATUS_CHANGED = "chat-read-status-changed";
+export const DRAFT_UPDATED = "draft-updated";
+export const CHAT_METADATA_UPDATED = "chat-metadata-updated";
+export const CHAT_EXPORT_PROGRESS = "chat-export-progress";
 export const HELLO_WORLD = "hello-world";
 export const TYPING_INDICATOR = "typing-indicator";
 export const SERVER_UPDATE = "server-update";
@@ -28,4 +33,7 @@ export const THEME_BACKUP_DELETED = "theme-backup-deleted";
 export const THEME_BACKUP_UPDATED = "theme-backup-updated";
 export const IMESSAGE_ALIASES_REMOVED = "imessage-aliases-removed";
 export const FT_CALL_STATUS_CHANGED = "ft-call-status-changed";
+export const FACETIME_CALL_MISSED = "facetime-call-missed";
 export const NEW_FINDMY_LOCATION = "new-findmy-location";
+export const FINDMY_GEOFENCE_ENTER = "findmy-geofence-enter";
+export const FINDMY_GEOFENCE_EXIT = "findmy-geofence-exit";
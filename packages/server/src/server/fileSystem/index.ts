@@ -9,7 +9,6 @@ import { sync } from "read-chunk";
 import { Server } from "@server";
 import {
     escapeDoubleQuote,
-    concatUint8Arrays,
     parseMetadataString,
     isNotEmpty,
     isEmpty,
@@ -85,6 +84,10 @@ export class FileSystem {
 
     public static fcmDir = path.join(FileSystem.baseDir, "FCM");
 
+    public static exportsDir = path.join(FileSystem.baseDir, "Exports");
+
+    public static linkPreviewDir = path.join(FileSystem.baseDir, "LinkPreviews");
+
     public static modules = path.join(appPath, moddir, "node_modules");
 
     public static resources = path.join(appPath, "appResources");
@@ -153,6 +156,8 @@ export class FileSystem {
         if (!fs.existsSync(FileSystem.certsDir)) fs.mkdirSync(FileSystem.certsDir);
         if (!fs.existsSync(FileSystem.themesDir)) fs.mkdirSync(FileSystem.themesDir);
         if (!fs.existsSync(FileSystem.settingsDir)) fs.mkdirSync(FileSystem.settingsDir);
+        if (!fs.existsSync(FileSystem.exportsDir)) fs.mkdirSync(FileSystem.exportsDir);
+        if (!fs.existsSync(FileSystem.linkPreviewDir)) fs.mkdirSync(FileSystem.linkPreviewDir);
 
         if (isMinMonterey) {
             if (!fs.existsSync(FileSystem.iMessageAttachmentsDir)) fs.mkdirSync(FileSystem.iMessageAttachmentsDir);
@@ -313,27 +318,42 @@ export class FileSystem {
      * Builds an attachment by combining all chunks
      *
      * @param guid Unique identifier for the attachment
+     * @param name The name of the built file
      */
     static buildAttachmentChunks(guid: string, name: string): string {
-        let chunks = new Uint8Array(0);
+        const dir = path.join(FileSystem.attachmentsDir, guid);
 
-        // Get the files in ascending order
-        const files = fs.readdirSync(path.join(FileSystem.attachmentsDir, guid));
-        files.sort((a, b) => Number(a.split(".")[0]) - Number(b.split(".")[0]));
+        // Build the file in its own directory, so its name can't clash with a chunk (i.e. "0.chunk")
+        const outDir = path.join(dir, "output");
+        if (!fs.existsSync(outDir)) fs.mkdirSync(outDir);
+        const outFile = path.join(outDir, path.basename(name));
+        if (fs.existsSync(outFile)) fs.unlinkSync(outFile);
+
+        // Get the chunks in ascending order
+        const files = FileSystem.getAttachmentChunks(guid);
 
-        // Read the files and append to chunks
+        // Append each chunk to the final file, so large files don't have to fit in memory
         for (const file of files) {
-            const fileData = fs.readFileSync(path.join(FileSystem.attachmentsDir, guid, file));
-            chunks = concatUint8Arrays(chunks, Uint8Array.from(fileData));
+            fs.appendFileSync(outFile, fs.readFileSync(path.join(dir, file)));
         }
 
-        // Write the final file to disk
-        const outFile = path.join(FileSystem.attachmentsDir, guid, name);
-        fs.writeFileSync(outFile, chunks);
-
         return outFile;
     }
 
+    /**
+     * Gets the chunk files saved for an attachment, in ascending order
+     *
+     * @param guid Unique identifier for the attachment
+     */
+    static getAttachmentChunks(guid: string): string[] {
+        const dir = path.join(FileSystem.attachmentsDir, guid);
+        if (!fs.existsSync(dir)) return [];
+
+        const files = fs.readdirSync(dir).filter(file => file.endsWith(".chunk"));
+        files.sort((a, b) => Number(a.split(".")[0]) - Number(b.split(".")[0]));
+        return files;
+    }
+
     /**
      * Saves a VCF file
      *
@@ -550,6 +570,75 @@ export class FileSystem {
         }
     }
 
+    /**
+     * Generates a PNG thumbnail for a file using Quick Look.
+     * This works for videos (the poster frame), PDFs (the first page), and images.
+     *
+     * @param originalPath The file to generate a thumbnail for
+     * @param outputPath Where to save the thumbnail
+     * @param size The max width/height of the thumbnail
+     */
+    static async generateThumbnail(originalPath: string, outputPath: string, size = 512): Promise<void> {
+        const oldPath = FileSystem.getRealPath(originalPath);
+
+        // Quick Look names the output after the input, so generate it in its own directory
+        const tmpDir = `${outputPath}.tmp`;
+        if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true });
+
+        try {
+            await FileSystem.execShellCommand(`/usr/bin/qlmanage -t -s ${size} -o "${tmpDir}" "${oldPath}"`);
+            const thumbnail = path.join(tmpDir, `${path.basename(oldPath)}.png`);
+            if (!fs.existsSync(thumbnail)) {
+                throw Error(`Failed to generate thumbnail for: ${oldPath}`);
+            }
+
+            fs.renameSync(thumbnail, outputPath);
+        } finally {
+            rimrafSync(tmpDir);
+        }
+    }
+
+    /**
+     * Converts a video to an H.264 MP4 using AVFoundation
+     *
+     * @param originalPath The video to convert
+     * @param outputPath Where to save the MP4
+     * @param preset The AVFoundation export preset (controls the resolution & bitrate)
+     * @param start Where to start the output from (in seconds)
+     * @param duration The max length of the output (in seconds)
+     */
+    static async convertVideoToMp4(
+        originalPath: string,
+        outputPath: string,
+        preset = "Preset960x540",
+        start: number = null,
+        duration: number = null
+    ): Promise<void> {
+        const oldPath = FileSystem.getRealPath(originalPath);
+        const args = [`--source "${oldPath}"`, `--preset ${preset}`, `--output "${outputPath}"`, "--replace"];
+        if (start != null) args.push(`--start ${start}`);
+        if (duration != null) args.push(`--duration ${duration}`);
+
+        const output = await FileSystem.execShellCommand(`/usr/bin/avconvert ${args.join(" ")}`);
+        if ((isNotEmpty(output) && output.includes("Error")) || !fs.existsSync(outputPath)) {
+            throw Error(`Failed to convert video to MP4: ${output}`);
+        }
+    }
+
+    /**
+     * Zips the contents of a directory (without the directory itself)
+     *
+     * @param dirPath The directory to zip
+     * @param outputPath Where to save the zip file
+     */
+    static async zipDirectory(dirPath: string, outputPath: string): Promise<void> {
+        if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
+        await FileSystem.execShellCommand(`/usr/bin/ditto -c -k --sequesterRsrc "${dirPath}" "${outputPath}"`);
+        if (!fs.existsSync(outputPath)) {
+            throw Error(`Failed to zip directory: ${dirPath}`);
+        }
+    }
+
     static async isSipDisabled(): Promise<boolean> {
         const res = ((await FileSystem.execShellCommand(`csrutil status`)) ?? "").trim();
         return !res.endsWith("enabled.");
@@ -32,7 +32,12 @@ import {
     WebhookService,
     ScheduledMessagesService,
     OauthService,
-    ZrokService
+    ZrokService,
+    EventJournalService,
+    MessageSearchService,
+    ChatExportService,
+    PushService,
+    FindMyTrackingService
 } from "@server/services";
 import { EventCache } from "@server/eventCache";
 import { runTerminalScript, openSystemPreferences } from "@server/api/apple/scripts";
@@ -53,6 +58,7 @@ import {
     GROUP_NAME_CHANGE,
     MESSAGE_UPDATED,
     NEW_MESSAGE,
+    THREAD_UPDATED,
     NEW_SERVER,
     PARTICIPANT_ADDED,
     PARTICIPANT_LEFT,
@@ -64,7 +70,9 @@ import { Alert } from "./databases/server/entity";
 import { getStartDelay } from "./utils/ConfigUtils";
 import { FindMyFriendsCache } from "./api/lib/findmy/FindMyFriendsCache";
 import { ScheduledService } from "./lib/ScheduledService";
+import { LinkPreviewInterface } from "./api/interfaces/linkPreviewInterface";
 import { getLogger } from "./lib/logging/Loggable";
+import { Metrics } from "./lib/metrics/Metrics";
 import { IMessageListener } from "./databases/imessage/listeners/IMessageListener";
 import { ChatUpdatePoller } from "./databases/imessage/pollers/ChatChangePoller";
 import { IMessageCache } from "./databases/imessage/pollers";
@@ -127,6 +135,8 @@ class BlueBubblesServer extends EventEmitter {
 
     fcm: FCMService;
 
+    push: PushService;
+
     networkChecker: NetworkService;
 
     caffeinate: CaffeinateService;
@@ -143,6 +153,16 @@ class BlueBubblesServer extends EventEmitter {
 
     webhookService: WebhookService;
 
+    eventJournal: EventJournalService;
+
+    messageSearch: MessageSearchService;
+
+    chatExports: ChatExportService;
+
+    findMyTracking: FindMyTrackingService;
+
+    linkPreviewPurger: ScheduledService;
+
     oauthService: OauthService;
 
     actionHandler: ActionHandler;
@@ -223,6 +243,7 @@ class BlueBubblesServer extends EventEmitter {
         this.httpService = null;
         this.privateApi = null;
         this.fcm = null;
+        this.push = null;
         this.caffeinate = null;
         this.networkChecker = null;
         this.queue = null;
@@ -230,6 +251,11 @@ class BlueBubblesServer extends EventEmitter {
         this.updater = null;
         this.messageManager = null;
         this.webhookService = null;
+        this.eventJournal = null;
+        this.messageSearch = null;
+        this.chatExports = null;
+        this.findMyTracking = null;
+        this.linkPreviewPurger = null;
         this.scheduledMessages = null;
         this.oauthService = null;
         this.iMessageListener = null;
@@ -446,6 +472,13 @@ class BlueBubblesServer extends EventEmitter {
     async initServices(): Promise<void> {
         this.initFcm();
 
+        try {
+            this.logger.info("Initializing push service...");
+            this.push = new PushService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to setup push service! ${ex.message}`);
+        }
+
         try {
             this.logger.info("Initializing up sockets...");
             this.httpService = new HttpService();
@@ -488,6 +521,34 @@ class BlueBubblesServer extends EventEmitter {
             this.logger.error(`Failed to start Webhook service! ${ex.message}`);
         }
 
+        try {
+            this.logger.info("Initializing Event Journal Service...");
+            this.eventJournal = new EventJournalService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Event Journal service! ${ex.message}`);
+        }
+
+        try {
+            this.logger.info("Initializing Find My Tracking Service...");
+            this.findMyTracking = new FindMyTrackingService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Find My Tracking service! ${ex.message}`);
+        }
+
+        try {
+            this.logger.info("Initializing Message Search Service...");
+            this.messageSearch = new MessageSearchService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Message Search service! ${ex.message}`);
+        }
+
+        try {
+            this.logger.info("Initializing Chat Export Service...");
+            this.chatExports = new ChatExportService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Chat Export service! ${ex.message}`);
+        }
+
         try {
             this.logger.info("Initializing Scheduled Messages Service...");
             this.scheduledMessages = new ScheduledMessagesService();
@@ -529,6 +590,44 @@ class BlueBubblesServer extends EventEmitter {
             this.logger.error(`Failed to connect to proxy service! ${ex.message}`);
         }
 
+        try {
+            this.logger.info("Starting Webhook service...");
+            this.webhookService.start();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Webhook service! ${ex.message}`);
+        }
+
+        try {
+            this.logger.info("Starting Event Journal service...");
+            this.eventJournal.start();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Event Journal service! ${ex.message}`);
+        }
+
+        try {
+            this.logger.info("Starting Find My Tracking service...");
+            this.findMyTracking.start();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Find My Tracking service! ${ex.message}`);
+        }
+
+        try {
+            this.logger.info("Starting Chat Export service...");
+            this.chatExports.start();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Chat Export service! ${ex.message}`);
+        }
+
+        try {
+            // Every hour, remove the link preview images that have expired
+            this.linkPreviewPurger?.stop();
+            this.linkPreviewPurger = new ScheduledService(() => {
+                LinkPreviewInterface.purgeImages();
+            }, 1000 * 60 * 60);
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Link Preview purger! ${ex.message}`);
+        }
+
         try {
             this.logger.info("Starting Scheduled Messages service...");
             await this.scheduledMessages.start();
@@ -546,6 +645,21 @@ class BlueBubblesServer extends EventEmitter {
         if (this.hasDiskAccess) {
             this.logger.info("Starting iMessage Database listeners...");
             await this.startChatListeners();
+
+            try {
+                this.logger.info("Starting Message Search service...");
+                this.messageSearch.start();
+            } catch (ex: any) {
+                this.logger.error(`Failed to start Message Search service! ${ex.message}`);
+            }
+        }
+
+        // Resume the queued sends once we are able to match the sent messages
+        try {
+            this.logger.info("Starting Queue service...");
+            await this.queue.start();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Queue service! ${ex.message}`);
         }
 
         try {
@@ -603,6 +717,48 @@ class BlueBubblesServer extends EventEmitter {
             this.logger.error(`Failed to stop Scheduled Messages service! ${ex?.message ?? ex}`);
         }
 
+        try {
+            this.webhookService?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Webhook service! ${ex?.message ?? ex}`);
+        }
+
+        try {
+            this.messageSearch?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Message Search service! ${ex?.message ?? ex}`);
+        }
+
+        try {
+            this.eventJournal?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Event Journal service! ${ex?.message ?? ex}`);
+        }
+
+        try {
+            this.findMyTracking?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Find My Tracking service! ${ex?.message ?? ex}`);
+        }
+
+        try {
+            this.linkPreviewPurger?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Link Preview purger! ${ex?.message ?? ex}`);
+        }
+
+        try {
+            this.queue?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Queue service! ${ex?.message ?? ex}`);
+        }
+
+        try {
+            this.chatExports?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Chat Export service! ${ex?.message ?? ex}`);
+        }
+
         this.logger.info("Finished stopping services...");
     }
 
@@ -1066,6 +1222,16 @@ class BlueBubblesServer extends EventEmitter {
             }
         }
 
+        // If the device expiry changes, remove the devices that are now expired
+        if (prevConfig.device_expiry_days !== nextConfig.device_expiry_days) {
+            await this.repo.purgeOldDevices();
+        }
+
+        // If the Find My history retention changes, remove the locations that are now expired
+        if (prevConfig.findmy_history_days !== nextConfig.findmy_history_days) {
+            await this.findMyTracking?.prune();
+        }
+
         // If the password changes, we need to make sure the clients connected to the socket are kicked.
         if (prevConfig.password !== nextConfig.password) {
             this.httpService.kickClients();
@@ -1079,33 +1245,30 @@ class BlueBubblesServer extends EventEmitter {
      *
      * @param type The type of notification
      * @param data Associated data with the notification (as a string)
+     * @param fullData The complete data, if `data` was reduced for notifications.
+     *                 The device preferences (i.e. "mentions only") are checked against it.
      */
     async emitMessage(
         type: string,
         data: any,
         priority: "normal" | "high" = "normal",
         sendFcmMessage = true,
-        sendSocket = true
+        sendSocket = true,
+        fullData: any = data
     ) {
+        Metrics.eventsEmitted.inc({ type });
+
         if (sendSocket) {
-            this.httpService?.socketServer.emit(type, data);
+            await this.emitToSockets(type, data);
         }
 
-        // Send notification to devices
+        // Send notification to devices, through each device's push provider
         try {
-            if (sendFcmMessage && FCMService.getApp()) {
-                const devices = await this.repo.devices().find();
-                if (isNotEmpty(devices)) {
-                    const notifData = JSON.stringify(data);
-                    await this.fcm?.sendNotification(
-                        devices.map(device => device.identifier),
-                        { type, data: notifData },
-                        priority
-                    );
-                }
+            if (sendFcmMessage) {
+                await this.push?.send(type, data, priority, fullData);
             }
         } catch (ex: any) {
-            this.logger.debug("Failed to send FCM messages!");
+            this.logger.debug("Failed to send push notifications!");
             this.logger.debug(ex);
         }
 
@@ -1113,6 +1276,28 @@ class BlueBubblesServer extends EventEmitter {
         this.webhookService?.dispatch({ type, data });
     }
 
+    /**
+     * Emits an event to the sockets, saving it to the journal first so clients can replay it later.
+     * The journal stores exactly what the sockets receive, so a replay matches the live event.
+     *
+     * @param type The event type
+     * @param data The event data
+     */
+    async emitToSockets(type: string, data: any) {
+        // Transient events (i.e. hello-world) aren't worth replaying, so they skip the DB write
+        let seq: number = null;
+        if (this.eventJournal?.shouldRecord(type)) {
+            try {
+                seq = (await this.eventJournal.record(type, data)) ?? null;
+            } catch (ex: any) {
+                this.logger.debug(`Failed to save event to the journal! ${ex?.message ?? String(ex)}`);
+            }
+        }
+
+        // The sequence number is sent as an extra argument so existing clients are unaffected
+        await this.httpService?.emitToClients(type, data, { seq });
+    }
+
     private getTheme() {
         nativeTheme.on("updated", () => {
             this.setTheme(nativeTheme.shouldUseDarkColors);
@@ -1266,7 +1451,7 @@ class BlueBubblesServer extends EventEmitter {
 
             // Manually send the message to the socket so we can serialize it with
             // all the extra data
-            this.httpService.socketServer.emit(
+            await this.emitToSockets(
                 GROUP_NAME_CHANGE,
                 await MessageSerializer.serialize({
                     message: item,
@@ -1299,7 +1484,7 @@ class BlueBubblesServer extends EventEmitter {
 
             // Manually send the message to the socket so we can serialize it with
             // all the extra data
-            this.httpService.socketServer.emit(
+            await this.emitToSockets(
                 PARTICIPANT_REMOVED,
                 await MessageSerializer.serialize({
                     message: item,
@@ -1328,7 +1513,7 @@ class BlueBubblesServer extends EventEmitter {
 
             // Manually send the message to the socket so we can serialize it with
             // all the extra data
-            this.httpService.socketServer.emit(
+            await this.emitToSockets(
                 PARTICIPANT_ADDED,
                 await MessageSerializer.serialize({
                     message: item,
@@ -1357,7 +1542,7 @@ class BlueBubblesServer extends EventEmitter {
 
             // Manually send the message to the socket so we can serialize it with
             // all the extra data
-            this.httpService.socketServer.emit(
+            await this.emitToSockets(
                 PARTICIPANT_LEFT,
                 await MessageSerializer.serialize({
                     message: item,
@@ -1386,7 +1571,7 @@ class BlueBubblesServer extends EventEmitter {
 
             // Manually send the message to the socket so we can serialize it with
             // all the extra data
-            this.httpService.socketServer.emit(
+            await this.emitToSockets(
                 GROUP_ICON_CHANGED,
                 await MessageSerializer.serialize({
                     message: item,
@@ -1415,7 +1600,7 @@ class BlueBubblesServer extends EventEmitter {
 
             // Manually send the message to the socket so we can serialize it with
             // all the extra data
-            this.httpService.socketServer.emit(
+            await this.emitToSockets(
                 GROUP_ICON_REMOVED,
                 await MessageSerializer.serialize({
                     message: item,
@@ -1451,19 +1636,17 @@ class BlueBubblesServer extends EventEmitter {
 
         // Manually send the message to the socket so we can serialize it with
         // all the extra data
-        this.httpService.socketServer.emit(
-            NEW_MESSAGE,
-            await MessageSerializer.serialize({
-                message: newMessage,
-                config: {
-                    parseAttributedBody: true,
-                    parseMessageSummary: true,
-                    parsePayloadData: true,
-                    loadChatParticipants: false,
-                    includeChats: true
-                }
-            })
-        );
+        const message = await MessageSerializer.serialize({
+            message: newMessage,
+            config: {
+                parseAttributedBody: true,
+                parseMessageSummary: true,
+                parsePayloadData: true,
+                loadChatParticipants: false,
+                includeChats: true
+            }
+        });
+        await this.emitToSockets(NEW_MESSAGE, message);
 
         // Emit it to the FCM devices, but not socket
         await this.emitMessage(
@@ -1477,7 +1660,35 @@ class BlueBubblesServer extends EventEmitter {
             }),
             newMessage.isFromMe ? "normal" : "high",
             true,
-            false
+            false,
+            message
+        );
+
+        // Let clients know that a thread has a new reply, so open thread views can stay up-to-date
+        if (isNotEmpty(newMessage.threadOriginatorGuid) && !newMessage.associatedMessageType) {
+            await this.emitThreadUpdate(newMessage);
+        }
+    }
+
+    private async emitThreadUpdate(reply: Message) {
+        const threadGuid = reply.threadOriginatorGuid;
+        const replyCounts = await this.iMessageRepo.getReplyCounts([threadGuid]);
+        await this.emitMessage(
+            THREAD_UPDATED,
+            {
+                threadOriginatorGuid: threadGuid,
+                chatGuid: reply.chats?.[0]?.guid ?? null,
+                replyCount: replyCounts[threadGuid] ?? 0,
+                partIndex: MessageSerializer.getThreadPartIndex(reply.threadOriginatorPart),
+                message: await MessageSerializer.serialize({
+                    message: reply,
+                    config: { loadChatParticipants: false, includeChats: false },
+                    isForNotification: true
+                })
+            },
+            "normal",
+            false,
+            true
         );
     }
 
@@ -1504,19 +1715,17 @@ class BlueBubblesServer extends EventEmitter {
 
         // Manually send the message to the socket so we can serialize it with
         // all the extra data
-        this.httpService.socketServer.emit(
-            MESSAGE_UPDATED,
-            await MessageSerializer.serialize({
-                message: newMessage,
-                config: {
-                    parseAttributedBody: true,
-                    parseMessageSummary: true,
-                    parsePayloadData: true,
-                    loadChatParticipants: false,
-                    includeChats: true
-                }
-            })
-        );
+        const message = await MessageSerializer.serialize({
+            message: newMessage,
+            config: {
+                parseAttributedBody: true,
+                parseMessageSummary: true,
+                parsePayloadData: true,
+                loadChatParticipants: false,
+                includeChats: true
+            }
+        });
+        await this.emitToSockets(MESSAGE_UPDATED, message);
 
         // Emit it to the FCM devices only
         // Since this is a message update, we do not need to include the participants or chats
@@ -1532,7 +1741,8 @@ class BlueBubblesServer extends EventEmitter {
             }),
             "normal",
             true,
-            false
+            false,
+            message
         );
     }
 
@@ -0,0 +1,11 @@
+/**
+ * Thrown when a request's input is invalid (i.e. a missing or malformed parameter).
+ * The HTTP routes translate this into a 400, while any other error is a 500.
+ */
+export class ValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = this.constructor.name;
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
@@ -0,0 +1,73 @@
+import { Server } from "@server";
+import { MetricsRegistry } from "./MetricsRegistry";
+
+// Latency buckets (in seconds), covering quick DB reads up to slow Private API calls
+const durationBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+export const MetricsRegistryInstance = new MetricsRegistry();
+
+/**
+ * All of the metrics the server keeps track of.
+ * These are exposed in the Prometheus text format via the /server/metrics endpoint.
+ */
+export const Metrics = {
+    httpRequestDuration: MetricsRegistryInstance.histogram(
+        "bluebubbles_http_request_duration_seconds",
+        "The duration of HTTP requests, by method, route, and status code",
+        durationBuckets
+    ),
+    socketConnections: MetricsRegistryInstance.gauge(
+        "bluebubbles_socket_connections",
+        "The number of authenticated socket clients currently connected",
+        gauge => gauge.set({}, Server()?.httpService?.socketAuth?.size ?? 0)
+    ),
+    socketConnectionAttempts: MetricsRegistryInstance.counter(
+        "bluebubbles_socket_connections_total",
+        "The number of socket connection attempts, by result"
+    ),
+    eventsEmitted: MetricsRegistryInstance.counter(
+        "bluebubbles_events_emitted_total",
+        "The number of events emitted to clients, by event type"
+    ),
+    privateApiTransactionDuration: MetricsRegistryInstance.histogram(
+        "bluebubbles_private_api_transaction_duration_seconds",
+        "The duration of Private API transactions, by transaction type and result",
+        durationBuckets
+    ),
+    privateApiTransactionTimeouts: MetricsRegistryInstance.counter(
+        "bluebubbles_private_api_transaction_timeouts_total",
+        "The number of Private API transactions that timed out, by transaction type"
+    ),
+    pollerDuration: MetricsRegistryInstance.histogram(
+        "bluebubbles_imessage_poller_duration_seconds",
+        "The duration of each iMessage database poller cycle, by poller",
+        durationBuckets
+    ),
+    fcmSendFailures: MetricsRegistryInstance.counter(
+        "bluebubbles_fcm_send_failures_total",
+        "The number of failed FCM notification sends, by error code"
+    ),
+    webhookDeliveries: MetricsRegistryInstance.counter(
+        "bluebubbles_webhook_deliveries_total",
+        "The number of webhook delivery attempts, by outcome"
+    ),
+    scheduledMessages: MetricsRegistryInstance.counter(
+        "bluebubbles_scheduled_messages_total",
+        "The number of scheduled message runs, by type and outcome"
+    ),
+    uptime: MetricsRegistryInstance.gauge(
+        "bluebubbles_process_uptime_seconds",
+        "The number of seconds the server process has been running",
+        gauge => gauge.set({}, Math.floor(process.uptime()))
+    ),
+    memory: MetricsRegistryInstance.gauge(
+        "bluebubbles_process_memory_bytes",
+        "The memory usage of the server process, by type",
+        gauge => {
+            const usage = process.memoryUsage();
+            gauge.set({ type: "rss" }, usage.rss);
+            gauge.set({ type: "heap_used" }, usage.heapUsed);
+            gauge.set({ type: "heap_total" }, usage.heapTotal);
+        }
+    )
+};
@@ -0,0 +1,205 @@
+/* eslint-disable max-classes-per-file */
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+const escapeLabelValue = (value: string | number): string =>
+    String(value ?? "").replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/**
+ * Builds the label string for a sample (i.e. {method="GET",status="200"}).
+ * The labels are sorted so that the same labels always map to the same series.
+ */
+const formatLabels = (labels: MetricLabels): string => {
+    const keys = Object.keys(labels ?? {}).sort();
+    if (keys.length === 0) return "";
+    return `{${keys.map(key => `${key}="${escapeLabelValue(labels[key])}"`).join(",")}}`;
+};
+
+const formatValue = (value: number): string => {
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return Number.isNaN(value) ? "NaN" : String(value);
+};
+
+export abstract class Metric {
+    name: string;
+
+    help: string;
+
+    abstract type: MetricType;
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    abstract getSamples(): string[];
+
+    /**
+     * Renders the metric in the Prometheus text exposition format
+     */
+    render(): string {
+        const help = this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+        return [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`, ...this.getSamples()].join("\n");
+    }
+}
+
+/**
+ * A value that only goes up (i.e. the number of requests)
+ */
+export class Counter extends Metric {
+    type: MetricType = "counter";
+
+    private series: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+    inc(labels: MetricLabels = {}, value = 1) {
+        if (value < 0) throw new Error("Counters can only be incremented by a positive value!");
+
+        const key = formatLabels(labels);
+        const existing = this.series.get(key);
+        if (existing) {
+            existing.value += value;
+        } else {
+            this.series.set(key, { labels, value });
+        }
+    }
+
+    getSamples(): string[] {
+        return [...this.series.entries()].map(([key, item]) => `${this.name}${key} ${formatValue(item.value)}`);
+    }
+}
+
+/**
+ * A value that can go up and down (i.e. the number of connected clients).
+ * If a collector is provided, it is called to refresh the value(s) before rendering.
+ */
+export class Gauge extends Metric {
+    type: MetricType = "gauge";
+
+    private series: Map<string, number> = new Map();
+
+    private collector: (gauge: Gauge) => void;
+
+    constructor(name: string, help: string, collector: (gauge: Gauge) => void = null) {
+        super(name, help);
+        this.collector = collector;
+    }
+
+    set(labels: MetricLabels, value: number) {
+        this.series.set(formatLabels(labels), value);
+    }
+
+    inc(labels: MetricLabels = {}, value = 1) {
+        const key = formatLabels(labels);
+        this.series.set(key, (this.series.get(key) ?? 0) + value);
+    }
+
+    dec(labels: MetricLabels = {}, value = 1) {
+        this.inc(labels, -value);
+    }
+
+    getSamples(): string[] {
+        if (this.collector) {
+            try {
+                this.collector(this);
+            } catch {
+                // If we can't collect the value, report the last known value
+            }
+        }
+
+        return [...this.series.entries()].map(([key, value]) => `${this.name}${key} ${formatValue(value)}`);
+    }
+}
+
+/**
+ * Tracks the distribution of values (i.e. request latencies) in cumulative buckets
+ */
+export class Histogram extends Metric {
+    type: MetricType = "histogram";
+
+    buckets: number[];
+
+    private series: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(name: string, help: string, buckets: number[]) {
+        super(name, help);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: MetricLabels, value: number) {
+        const key = formatLabels(labels);
+        let item = this.series.get(key);
+        if (!item) {
+            item = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, item);
+        }
+
+        for (let i = 0; i < this.buckets.length; i++) {
+            if (value <= this.buckets[i]) item.counts[i] += 1;
+        }
+
+        item.sum += value;
+        item.count += 1;
+    }
+
+    /**
+     * Starts a timer, which observes the elapsed time (in seconds) when called.
+     * The labels can be extended when the timer ends (i.e. with a status code).
+     *
+     * @param labels The labels to observe the time with
+     */
+    startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+        const start = process.hrtime.bigint();
+        return (extraLabels: MetricLabels = {}) => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe({ ...labels, ...extraLabels }, seconds);
+            return seconds;
+        };
+    }
+
+    getSamples(): string[] {
+        const samples: string[] = [];
+        for (const item of this.series.values()) {
+            for (let i = 0; i < this.buckets.length; i++) {
+                const labels = formatLabels({ ...item.labels, le: formatValue(this.buckets[i]) });
+                samples.push(`${this.name}_bucket${labels} ${item.counts[i]}`);
+            }
+
+            samples.push(`${this.name}_bucket${formatLabels({ ...item.labels, le: "+Inf" })} ${item.count}`);
+            samples.push(`${this.name}_sum${formatLabels(item.labels)} ${formatValue(item.sum)}`);
+            samples.push(`${this.name}_count${formatLabels(item.labels)} ${item.count}`);
+        }
+
+        return samples;
+    }
+}
+
+/**
+ * A collection of metrics, which can be rendered in the Prometheus text format
+ */
+export class MetricsRegistry {
+    private metrics: Map<string, Metric> = new Map();
+
+    private register<T extends Metric>(metric: T): T {
+        if (this.metrics.has(metric.name)) throw new Error(`Metric already registered: ${metric.name}`);
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string, collector: (gauge: Gauge) => void = null): Gauge {
+        return this.register(new Gauge(name, help, collector));
+    }
+
+    histogram(name: string, help: string, buckets: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    render(): string {
+        return `${[...this.metrics.values()].map(metric => metric.render()).join("\n")}\n`;
+    }
+}
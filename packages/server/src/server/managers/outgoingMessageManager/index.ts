@@ -1,10 +1,29 @@
 import { Message } from "@server/databases/imessage/entity/Message";
 import { MessagePromise } from "./messagePromise";
+import { OutgoingRateLimiter } from "./rateLimiter";
+
+export type OutgoingSendStatus = "pending" | "in-flight" | "failed";
+
+export type OutgoingSend = {
+    tempGuid: string | null;
+    chatGuid: string;
+    isAttachment: boolean;
+    status: OutgoingSendStatus;
+    error: string | null;
+    createdAt: number | null;
+    failedAt: number | null;
+};
 
 export class OutgoingMessageManager {
+    // Settled promises are kept around for an hour, so that failed sends can be looked up
+    static settledRetentionMs = 60 * 60 * 1000;
+
     promises: MessagePromise[] = [];
 
+    rateLimiter = new OutgoingRateLimiter();
+
     add(promise: MessagePromise) {
+        this.prune();
         this.promises.push(promise);
     }
 
@@ -49,4 +68,32 @@ export class OutgoingMessageManager {
 
         return false;
     }
+
+    /**
+     * Gets the sends that are still awaiting a match, as well as the recently failed sends
+     */
+    getSends(): OutgoingSend[] {
+        this.prune();
+
+        const output: OutgoingSend[] = [];
+        for (const promise of this.promises) {
+            if (promise.isResolved && !promise.errored) continue;
+            output.push({
+                tempGuid: promise.tempGuid ?? null,
+                chatGuid: promise.chatGuid,
+                isAttachment: promise.isAttachment,
+                status: promise.errored ? "failed" : "in-flight",
+                error: promise.errored ? promise.error?.message ?? String(promise.error) : null,
+                createdAt: promise.createdAt,
+                failedAt: promise.errored ? promise.settledAt : null
+            });
+        }
+
+        return output;
+    }
+
+    private prune() {
+        const cutoff = new Date().getTime() - OutgoingMessageManager.settledRetentionMs;
+        this.promises = this.promises.filter(p => !p.isResolved || (p.settledAt ?? 0) > cutoff);
+    }
 }
@@ -43,7 +43,11 @@ export class MessagePromise {
 
     isAttachment: boolean;
 
-    private tempGuid?: string | null;
+    tempGuid?: string | null;
+
+    createdAt: number;
+
+    settledAt: number | null = null;
 
     constructor({ chatGuid, text, isAttachment, sentAt, subject, tempGuid }: MessagePromiseConstructorParameters) {
         // Used to temporarily update the guid
@@ -61,6 +65,8 @@ export class MessagePromise {
             this.error = err;
         });
 
+        this.createdAt = new Date().getTime();
+
         this.chatGuid = chatGuid;
         this.text = isAttachment ? getFilenameWithoutExtension(text) : onlyAlphaNumeric(text ?? "");
         this.subject = onlyAlphaNumeric(subject ?? "");
@@ -86,12 +92,14 @@ export class MessagePromise {
 
     async resolve(value: Message) {
         this.isResolved = true;
+        this.settledAt = new Date().getTime();
         this.resolvePromise(value);
         await this.emitMessageMatch(value);
     }
 
     async reject(reason?: string, message: Message = null) {
         this.isResolved = true;
+        this.settledAt = new Date().getTime();
         this.rejectPromise(new MessagePromiseRejection(reason, message, this.tempGuid));
         if (message) {
             await this.emitMessageError(message);
@@ -0,0 +1,155 @@
+/* eslint-disable max-classes-per-file */
+import { Server } from "@server";
+
+export class RateLimitExceeded extends Error {
+    // How long (in milliseconds) until the send would be allowed
+    retryAfterMs: number;
+
+    // Which limit was hit (global, chat, or token)
+    scope: string;
+
+    constructor(scope: string, retryAfterMs: number) {
+        super(`Outgoing message rate limit exceeded (${scope}). Retry in ${Math.ceil(retryAfterMs / 1000)} second(s)`);
+        this.name = this.constructor.name;
+        this.scope = scope;
+        this.retryAfterMs = retryAfterMs;
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
+
+/**
+ * A token bucket, which refills at a steady rate, up to the burst size
+ */
+class TokenBucket {
+    tokens: number;
+
+    updatedAt: number;
+
+    constructor(public ratePerMinute: number, public burst: number) {
+        this.tokens = burst;
+        this.updatedAt = new Date().getTime();
+    }
+
+    refill(now: number) {
+        const elapsed = Math.max(now - this.updatedAt, 0);
+        this.tokens = Math.min(this.burst, this.tokens + (elapsed * this.ratePerMinute) / 60000);
+        this.updatedAt = now;
+    }
+
+    /**
+     * Gets how long until a token is available (0 if one is available now)
+     */
+    waitMs(now: number): number {
+        this.refill(now);
+        if (this.tokens >= 1) return 0;
+        return Math.ceil(((1 - this.tokens) * 60000) / this.ratePerMinute);
+    }
+
+    isFull(now: number): boolean {
+        this.refill(now);
+        return this.tokens >= this.burst;
+    }
+}
+
+type LimitConfig = {
+    ratePerMinute: number;
+    burst: number;
+};
+
+/**
+ * Throttles outgoing messages so that bulk senders can't flood Messages.app.
+ *
+ * There is a global limit, a limit per chat, and a limit per API token.
+ * A limit with a rate of 0 is disabled.
+ */
+export class OutgoingRateLimiter {
+    global: TokenBucket = null;
+
+    chats: Map<string, TokenBucket> = new Map();
+
+    tokens: Map<number, TokenBucket> = new Map();
+
+    /**
+     * Takes a token from each of the applicable buckets,
+     * or throws a RateLimitExceeded error if any of them are empty.
+     * Nothing is taken unless the send is allowed by all of the limits.
+     *
+     * @param chatGuid The chat the message is being sent to
+     * @param tokenId The API token the message is being sent with (if any)
+     */
+    consume(chatGuid: string, tokenId?: number | null) {
+        const now = new Date().getTime();
+        this.prune(now);
+
+        const buckets: [string, TokenBucket][] = [];
+        const globalLimit = OutgoingRateLimiter.getLimit("global");
+        if (globalLimit) {
+            this.global = OutgoingRateLimiter.configure(this.global, globalLimit);
+            buckets.push(["global", this.global]);
+        } else {
+            this.global = null;
+        }
+
+        const chatLimit = OutgoingRateLimiter.getLimit("chat");
+        if (chatLimit && chatGuid) {
+            const bucket = OutgoingRateLimiter.configure(this.chats.get(chatGuid), chatLimit);
+            this.chats.set(chatGuid, bucket);
+            buckets.push(["chat", bucket]);
+        }
+
+        const tokenLimit = OutgoingRateLimiter.getLimit("token");
+        if (tokenLimit && tokenId != null) {
+            const bucket = OutgoingRateLimiter.configure(this.tokens.get(tokenId), tokenLimit);
+            this.tokens.set(tokenId, bucket);
+            buckets.push(["token", bucket]);
+        }
+
+        // Report the longest wait, so that the client doesn't retry too early
+        let exceeded: RateLimitExceeded = null;
+        for (const [scope, bucket] of buckets) {
+            const waitMs = bucket.waitMs(now);
+            if (waitMs > 0 && (!exceeded || waitMs > exceeded.retryAfterMs)) {
+                exceeded = new RateLimitExceeded(scope, waitMs);
+            }
+        }
+
+        if (exceeded) throw exceeded;
+        for (const [_, bucket] of buckets) {
+            bucket.tokens -= 1;
+        }
+    }
+
+    /**
+     * Removes the chat & token buckets that have fully refilled,
+     * since they are the same as a brand new bucket
+     */
+    private prune(now: number) {
+        for (const [key, bucket] of this.chats) {
+            if (bucket.isFull(now)) this.chats.delete(key);
+        }
+
+        for (const [key, bucket] of this.tokens) {
+            if (bucket.isFull(now)) this.tokens.delete(key);
+        }
+    }
+
+    private static configure(bucket: TokenBucket | null | undefined, limit: LimitConfig): TokenBucket {
+        if (!bucket) return new TokenBucket(limit.ratePerMinute, limit.burst);
+
+        // Apply any config changes to the existing bucket
+        bucket.refill(new Date().getTime());
+        bucket.ratePerMinute = limit.ratePerMinute;
+        bucket.burst = limit.burst;
+        bucket.tokens = Math.min(bucket.tokens, limit.burst);
+        return bucket;
+    }
+
+    private static getLimit(scope: "global" | "chat" | "token"): LimitConfig | null {
+        const ratePerMinute = Number(Server().repo.getConfig(`outgoing_rate_limit_${scope}`) ?? 0);
+        if (!Number.isFinite(ratePerMinute) || ratePerMinute <= 0) return null;
+
+        // The burst can't be less than 1, otherwise nothing could ever be sent
+        const burst = Number(Server().repo.getConfig(`outgoing_rate_burst_${scope}`) ?? 0);
+        return { ratePerMinute, burst: Number.isFinite(burst) && burst >= 1 ? burst : 1 };
+    }
+}
@@ -1,10 +1,26 @@
-import { TransactionPromise } from "./transactionPromise";
+import { Metrics } from "@server/lib/metrics/Metrics";
+import { TransactionPromise, TransactionType } from "./transactionPromise";
 
 export class TransactionManager {
     promises: TransactionPromise[] = [];
 
     add(promise: TransactionPromise) {
         this.promises.push(promise);
+        this.trackMetrics(promise);
+    }
+
+    private trackMetrics(promise: TransactionPromise) {
+        const type = TransactionType[promise.type] ?? "OTHER";
+        const endTimer = Metrics.privateApiTransactionDuration.startTimer({ type });
+        promise.promise
+            .then(() => {
+                endTimer({ result: "success" });
+            })
+            .catch((err: any) => {
+                const timedOut = err === "Transaction timeout";
+                endTimer({ result: timedOut ? "timeout" : "error" });
+                if (timedOut) Metrics.privateApiTransactionTimeouts.inc({ type });
+            });
     }
 
     findIndex(transactionId: string, includeResolved = false): number {
@@ -0,0 +1,181 @@
+import type { MessageResponse } from "@server/types";
+import type { ChatExportTranscriptInfo, ExportedAttachment, ExportedMessage } from "./index";
+
+const reactionEmojis: Record<string, string> = {
+    love: "❤️",
+    like: "👍",
+    dislike: "👎",
+    laugh: "😂",
+    emphasize: "‼️",
+    question: "❓"
+};
+
+const styles = `
+    body { font-family: -apple-system, "Helvetica Neue", sans-serif; background: #f5f5f7; margin: 0; }
+    header { background: #fff; border-bottom: 1px solid #ddd; padding: 16px 24px; }
+    header h1 { font-size: 20px; margin: 0 0 4px 0; }
+    header p { color: #666; font-size: 13px; margin: 0; }
+    main { max-width: 800px; margin: 0 auto; padding: 16px 24px; }
+    .message { display: flex; flex-direction: column; margin: 8px 0; }
+    .message.from-me { align-items: flex-end; }
+    .message.system { align-items: center; color: #888; font-size: 12px; }
+    .sender { color: #888; font-size: 12px; margin: 0 12px 2px 12px; }
+    .bubble { background: #e9e9eb; border-radius: 18px; max-width: 70%; padding: 8px 12px; }
+    .bubble { white-space: pre-wrap; word-wrap: break-word; }
+    .from-me .bubble { background: #0b84fe; color: #fff; }
+    .bubble img, .bubble video { border-radius: 12px; display: block; max-width: 100%; margin: 4px 0; }
+    .from-me .bubble a { color: #fff; }
+    .subject { font-weight: bold; }
+    .meta { color: #aaa; font-size: 11px; margin: 2px 12px 0 12px; }
+    .reactions { font-size: 13px; margin: 2px 12px 0 12px; }
+    details { color: #888; font-size: 12px; margin: 2px 12px 0 12px; }
+`;
+
+const escapeHtml = (value: string): string =>
+    (value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+const formatDate = (timestamp: number): string => (timestamp ? new Date(timestamp).toLocaleString() : "");
+
+const getSender = (message: Omit<MessageResponse, "reactions">): string =>
+    message.isFromMe ? "Me" : message.handle?.address ?? "Unknown";
+
+const getMessageText = (message: Omit<MessageResponse, "reactions">): string => {
+    if (message.text) return message.text;
+    for (const body of message.attributedBody ?? []) {
+        if (body?.string) return body.string;
+    }
+
+    return "";
+};
+
+const renderAttachment = (attachment: ExportedAttachment): string => {
+    const name = escapeHtml(attachment.transferName ?? attachment.guid);
+    if (!attachment.exportPath) return `<div><em>${name} (not downloaded)</em></div>`;
+
+    // Encode each path segment so that file names with special characters still load
+    const src = attachment.exportPath.split(/[\\/]/).map(encodeURIComponent).join("/");
+    const mimeType = attachment.mimeType ?? "";
+    if (mimeType.startsWith("image/")) return `<a href="${src}"><img src="${src}" alt="${name}" /></a>`;
+    if (mimeType.startsWith("video/")) return `<video src="${src}" controls></video>`;
+    if (mimeType.startsWith("audio/")) return `<audio src="${src}" controls></audio>`;
+    return `<div><a href="${src}">${name}</a></div>`;
+};
+
+/**
+ * Gets the reactions that are still active, since a reaction
+ * can be removed (or replaced) by the same sender later on.
+ */
+const renderReactions = (message: ExportedMessage): string => {
+    const bySender: Record<string, string> = {};
+    for (const reaction of message.reactions) {
+        const type = reaction.associatedMessageType ?? "";
+        const sender = getSender(reaction);
+        if (type.startsWith("-")) {
+            if (bySender[sender] === type.substring(1)) delete bySender[sender];
+        } else {
+            bySender[sender] = type;
+        }
+    }
+
+    const items = Object.entries(bySender).map(
+        ([sender, type]) => `<span title="${escapeHtml(sender)}">${reactionEmojis[type] ?? escapeHtml(type)}</span>`
+    );
+
+    return items.length > 0 ? `<div class="reactions">${items.join(" ")}</div>` : "";
+};
+
+/**
+ * Renders a single message of an exported chat
+ *
+ * @param message The exported message (with its reactions)
+ * @param isGroup Whether the chat is a group chat, so the sender is shown
+ */
+export const renderChatExportHtmlMessage = (message: ExportedMessage, isGroup: boolean): string => {
+    const text = getMessageText(message);
+    const isSystem = !!message.itemType || (!text && !message.subject && message.attachments.length === 0);
+    if (isSystem) {
+        let description = "Group event";
+        if (message.groupTitle) {
+            description = `Group renamed to "${message.groupTitle}"`;
+        } else if (message.associatedMessageType) {
+            // Reactions to messages that aren't in the export
+            const type = message.associatedMessageType;
+            const action = type.startsWith("-") ? "removed a" : "sent a";
+            description = `${getSender(message)} ${action} ${type.replace(/^-/, "")}`;
+        }
+
+        const date = formatDate(message.dateCreated);
+        return `<div class="message system">${escapeHtml(description)} &middot; ${date}</div>`;
+    }
+
+    const classes = ["message", message.isFromMe ? "from-me" : ""].join(" ").trim();
+    const parts = [
+        isGroup && !message.isFromMe ? `<div class="sender">${escapeHtml(getSender(message))}</div>` : "",
+        '<div class="bubble">',
+        message.subject ? `<div class="subject">${escapeHtml(message.subject)}</div>` : "",
+        ...message.attachments.map(renderAttachment),
+        escapeHtml(text).replace(/\uFFFC/g, ""),
+        "</div>",
+        renderReactions(message),
+        `<div class="meta">${formatDate(message.dateCreated)}${message.dateEdited ? " &middot; Edited" : ""}</div>`
+    ];
+
+    if (message.editHistory.length > 0) {
+        const edits = message.editHistory.map(
+            edit => `<li>${formatDate(edit.date)}: ${escapeHtml(edit.text ?? "")}</li>`
+        );
+        parts.push(`<details><summary>Edit History</summary><ul>${edits.join("")}</ul></details>`);
+    }
+
+    return `<div class="${classes}">${parts.join("")}</div>`;
+};
+
+/**
+ * Renders the start of the HTML page for an exported chat, up to where the messages go.
+ * The messages are rendered separately (see `renderChatExportHtmlMessage`), followed by the end of the page.
+ * Attachments are referenced relative to the root of the export bundle.
+ *
+ * @param transcript The exported chat (without the messages)
+ * @param messageCount The number of messages in the export
+ */
+export const renderChatExportHtmlStart = (transcript: ChatExportTranscriptInfo, messageCount: number): string => {
+    const { chat } = transcript;
+    const isGroup = chat.style === 43;
+    const participants = (chat.participants ?? []).map(e => e.address).join(", ");
+    const title = chat.displayName || participants || chat.chatIdentifier;
+
+    const range = [
+        transcript.after ? `From ${formatDate(transcript.after)}` : "",
+        transcript.before ? `Until ${formatDate(transcript.before)}` : ""
+    ].filter(e => !!e);
+
+    const summary = [`${messageCount} message(s)`, ...range, `Exported ${formatDate(transcript.exportedAt)}`].join(
+        " &middot; "
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>${isGroup ? `${escapeHtml(participants)}<br />` : ""}${summary}</p>
+</header>
+<main>
+`;
+};
+
+export const renderChatExportHtmlEnd = (): string => `</main>
+</body>
+</html>
+`;
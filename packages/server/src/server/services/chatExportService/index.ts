@@ -0,0 +1,398 @@
+import * as fs from "fs";
+import path from "path";
+import readline from "readline";
+import { rimrafSync } from "rimraf";
+import { Server } from "@server";
+import { FileSystem } from "@server/fileSystem";
+import { Loggable } from "@server/lib/logging/Loggable";
+import { ScheduledService } from "@server/lib/ScheduledService";
+import { generateUuid, isEmpty, isNotEmpty } from "@server/helpers/utils";
+import { Message } from "@server/databases/imessage/entity/Message";
+import { convertAttributedBody } from "@server/databases/imessage/helpers/utils";
+import { getCocoaDate } from "@server/databases/imessage/helpers/dateUtil";
+import { AttributedBodyUtils } from "@server/utils/AttributedBodyUtils";
+import { MessageSerializer } from "@server/api/serializers/MessageSerializer";
+import { ChatSerializer } from "@server/api/serializers/ChatSerializer";
+import { MessageInterface } from "@server/api/interfaces/messageInterface";
+import { CHAT_EXPORT_PROGRESS } from "@server/events";
+import type { AttachmentResponse, ChatResponse, MessageEditResponse, MessageResponse } from "@server/types";
+import { TranscriptWriter } from "./transcriptWriter";
+
+export enum ChatExportStatus {
+    PENDING = "pending",
+    RUNNING = "running",
+    COMPLETE = "complete",
+    FAILED = "failed"
+}
+
+export type ChatExportJob = {
+    id: string;
+    chatGuid: string;
+    after: number | null;
+    before: number | null;
+    status: ChatExportStatus;
+    // 0 - 100
+    progress: number;
+    messageCount: number;
+    attachmentCount: number;
+    fileSize: number | null;
+    error: string | null;
+    createdAt: number;
+    completedAt: number | null;
+};
+
+export type ExportedAttachment = AttachmentResponse & {
+    // The path of the copied attachment, relative to the root of the bundle
+    exportPath: string | null;
+};
+
+export type ExportedMessage = Omit<MessageResponse, "attachments" | "reactions" | "editHistory"> & {
+    attachments: ExportedAttachment[];
+    reactions: MessageResponse[];
+    editHistory: MessageEditResponse[];
+};
+
+export type ChatExportTranscript = {
+    exportedAt: number;
+    after: number | null;
+    before: number | null;
+    chat: ChatResponse;
+    messages: ExportedMessage[];
+};
+
+export type ChatExportTranscriptInfo = Omit<ChatExportTranscript, "messages">;
+
+// Reactions (tapbacks), keyed by the GUID of the message they reacted to
+type ReactionMap = Record<string, MessageResponse[]>;
+
+/**
+ * Exports chats to a zip bundle containing a JSON transcript,
+ * an HTML rendering of the transcript, and the chat's attachments.
+ *
+ * Exports run one at a time in the background, and the progress is emitted to clients.
+ */
+export class ChatExportService extends Loggable {
+    tag = "ChatExportService";
+
+    // Exports are deleted after 1 day
+    static exportRetentionMs = 24 * 60 * 60 * 1000;
+
+    // The number of messages to load from the DB at a time
+    static pageSize = 500;
+
+    jobs: Record<string, ChatExportJob> = {};
+
+    purgeService: ScheduledService;
+
+    isProcessing = false;
+
+    start() {
+        this.stop();
+
+        // The jobs aren't persisted, so anything left over from the last run can't be downloaded
+        this.purgeExports(true);
+
+        // Every hour, remove old exports
+        this.purgeService = new ScheduledService(() => {
+            this.purgeExports();
+        }, 1000 * 60 * 60);
+    }
+
+    stop() {
+        this.purgeService?.stop();
+    }
+
+    /**
+     * Queues an export for a chat
+     *
+     * @param chatGuid The chat to export
+     * @param after Only export messages after this date
+     * @param before Only export messages before this date
+     * @returns The export job
+     */
+    createExport(chatGuid: string, after: Date | null = null, before: Date | null = null): ChatExportJob {
+        const job: ChatExportJob = {
+            id: generateUuid(),
+            chatGuid,
+            after: after?.getTime() ?? null,
+            before: before?.getTime() ?? null,
+            status: ChatExportStatus.PENDING,
+            progress: 0,
+            messageCount: 0,
+            attachmentCount: 0,
+            fileSize: null,
+            error: null,
+            createdAt: new Date().getTime(),
+            completedAt: null
+        };
+
+        this.jobs[job.id] = job;
+        this.log.info(`Queued export for chat: ${chatGuid} (Job: ${job.id})`);
+
+        // This doesn't need to be awaited on
+        this.process();
+        return job;
+    }
+
+    getJob(id: string): ChatExportJob | null {
+        return this.jobs[id] ?? null;
+    }
+
+    getJobs(chatGuid: string = null): ChatExportJob[] {
+        return Object.values(this.jobs)
+            .filter(job => !chatGuid || job.chatGuid === chatGuid)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    getExportPath(id: string): string {
+        return path.join(FileSystem.exportsDir, `${id}.zip`);
+    }
+
+    /**
+     * Runs the pending exports, one at a time, in the order they were created
+     */
+    async process(): Promise<void> {
+        if (this.isProcessing) return;
+        this.isProcessing = true;
+
+        try {
+            let job = this.getJobs().find(e => e.status === ChatExportStatus.PENDING);
+            while (job) {
+                await this.runExport(job);
+                job = this.getJobs().find(e => e.status === ChatExportStatus.PENDING);
+            }
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    private async runExport(job: ChatExportJob): Promise<void> {
+        const workDir = path.join(FileSystem.exportsDir, job.id);
+        const messagesPath = path.join(workDir, "messages.jsonl");
+        const writer = new TranscriptWriter();
+        job.status = ChatExportStatus.RUNNING;
+        this.notifyProgress(job);
+
+        try {
+            const [chats, _] = await Server().iMessageRepo.getChats({ chatGuid: job.chatGuid, withParticipants: true });
+            if (isEmpty(chats)) throw new Error("Chat does not exist!");
+
+            fs.mkdirSync(path.join(workDir, "attachments"), { recursive: true });
+            const reactions = await this.exportMessages(job, workDir, messagesPath);
+            const reactionCount = Object.values(reactions).reduce((total, items) => total + items.length, 0);
+
+            const transcript: ChatExportTranscriptInfo = {
+                exportedAt: new Date().getTime(),
+                after: job.after,
+                before: job.before,
+                chat: await ChatSerializer.serialize({
+                    chat: chats[0],
+                    config: { includeParticipants: true, includeMessages: false }
+                })
+            };
+
+            writer.open(workDir, transcript, job.messageCount - reactionCount);
+            await this.writeTranscripts(messagesPath, reactions, writer);
+            writer.close();
+
+            // The intermediate messages file isn't part of the bundle
+            fs.unlinkSync(messagesPath);
+
+            const exportPath = this.getExportPath(job.id);
+            await FileSystem.zipDirectory(workDir, exportPath);
+
+            job.fileSize = fs.statSync(exportPath).size;
+            job.status = ChatExportStatus.COMPLETE;
+            job.progress = 100;
+            this.log.info(`Finished export for chat: ${job.chatGuid} (Job: ${job.id})`);
+        } catch (ex: any) {
+            this.log.error(`Failed to export chat: ${job.chatGuid} (Job: ${job.id})! ${ex?.message ?? String(ex)}`);
+            job.status = ChatExportStatus.FAILED;
+            job.error = ex?.message ?? String(ex);
+        } finally {
+            writer.dispose();
+            if (fs.existsSync(workDir)) rimrafSync(workDir);
+        }
+
+        job.completedAt = new Date().getTime();
+        this.notifyProgress(job);
+    }
+
+    /**
+     * Loads the chat's messages a page at a time, serializing them to a file (one per line),
+     * and copying their attachments into the export directory.
+     *
+     * @returns The reactions to messages that are in the export
+     */
+    private async exportMessages(job: ChatExportJob, workDir: string, messagesPath: string): Promise<ReactionMap> {
+        const guids = new Set<string>();
+        const reactions: ReactionMap = {};
+        let total: number = null;
+        let lastProgress = 0;
+
+        const fd = fs.openSync(messagesPath, "w");
+        try {
+            while (total == null || job.messageCount < total) {
+                const [messages, count] = await Server().iMessageRepo.getMessages({
+                    chatGuid: job.chatGuid,
+                    after: job.after ? new Date(job.after) : null,
+                    before: job.before ? new Date(job.before) : null,
+                    offset: job.messageCount,
+                    limit: ChatExportService.pageSize,
+                    withAttachments: true,
+                    sort: "ASC"
+                });
+
+                total = count;
+                if (isEmpty(messages)) break;
+
+                const serialized = await MessageSerializer.serializeList({
+                    messages,
+                    config: {
+                        parseAttributedBody: true,
+                        parseMessageSummary: true,
+                        parsePayloadData: false,
+                        loadChatParticipants: false,
+                        includeChats: false
+                    },
+                    attachmentConfig: { convert: false, loadMetadata: false, loadData: false }
+                });
+
+                const lines: string[] = [];
+                for (let i = 0; i < messages.length; i++) {
+                    const message: ExportedMessage = {
+                        ...serialized[i],
+                        attachments: this.exportAttachments(job, messages[i], serialized[i], workDir),
+                        reactions: [],
+                        editHistory: MessageSerializer.getEditHistory(serialized[i])
+                    };
+
+                    guids.add(message.guid);
+                    const target = ChatExportService.getReactionTarget(message);
+                    if (target) {
+                        const { attachments: _, reactions: __, editHistory: ___, ...reaction } = message;
+                        if (!reactions[target]) reactions[target] = [];
+                        reactions[target].push(reaction);
+                    }
+
+                    lines.push(`${JSON.stringify(message)}\n`);
+                }
+
+                fs.writeSync(fd, lines.join(""));
+                job.messageCount += messages.length;
+
+                // Leave the last 10% for building & zipping the bundle.
+                // Only notify every 10% so that clients aren't flooded with events.
+                job.progress = Math.floor((job.messageCount / Math.max(total, 1)) * 90);
+                if (job.progress - lastProgress >= 10) {
+                    lastProgress = job.progress;
+                    this.notifyProgress(job);
+                }
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        // Reactions to messages that aren't in the export are left as-is
+        for (const target of Object.keys(reactions)) {
+            if (!guids.has(target)) delete reactions[target];
+        }
+
+        return reactions;
+    }
+
+    /**
+     * Reads the exported messages back, one at a time, and writes them to the transcripts.
+     * Reactions are moved into the message they reacted to.
+     */
+    private async writeTranscripts(messagesPath: string, reactions: ReactionMap, writer: TranscriptWriter) {
+        const lines = readline.createInterface({ input: fs.createReadStream(messagesPath), crlfDelay: Infinity });
+        for await (const line of lines) {
+            if (!line) continue;
+
+            // Skip the reactions that were moved into their message
+            const message = JSON.parse(line) as ExportedMessage;
+            const target = ChatExportService.getReactionTarget(message);
+            if (target && reactions[target]) continue;
+
+            message.reactions = reactions[message.guid] ?? [];
+            writer.write(message);
+        }
+    }
+
+    private exportAttachments(
+        job: ChatExportJob,
+        message: Message,
+        serialized: MessageResponse,
+        workDir: string
+    ): ExportedAttachment[] {
+        return (serialized.attachments ?? []).map(attachment => {
+            const original = (message.attachments ?? []).find(e => e.guid === attachment.guid);
+            const filePath = FileSystem.getRealPath(original?.filePath);
+            if (!filePath || !fs.existsSync(filePath)) return { ...attachment, exportPath: null };
+
+            try {
+                // The transfer name comes from the sender, so it can't be trusted as a path (i.e. "../file")
+                const transferName = path.basename(original.transferName ?? "");
+                const name = ["", ".", ".."].includes(transferName) ? path.basename(filePath) : transferName;
+                const exportPath = path.join("attachments", attachment.guid, name);
+                fs.mkdirSync(path.join(workDir, "attachments", attachment.guid), { recursive: true });
+                fs.copyFileSync(filePath, path.join(workDir, exportPath));
+
+                job.attachmentCount += 1;
+                return { ...attachment, exportPath };
+            } catch (ex: any) {
+                this.log.debug(`Failed to copy attachment, ${attachment.guid}: ${ex?.message ?? String(ex)}`);
+                return { ...attachment, exportPath: null };
+            }
+        });
+    }
+
+    notifyProgress(job: ChatExportJob) {
+        Server().emitMessage(CHAT_EXPORT_PROGRESS, job, "normal", false);
+    }
+
+    /**
+     * Deletes exports that are older than the retention period
+     *
+     * @param all Whether to delete every export, regardless of age
+     */
+    purgeExports(all = false) {
+        const before = new Date().getTime() - ChatExportService.exportRetentionMs;
+        for (const job of Object.values(this.jobs)) {
+            if (!job.completedAt || job.completedAt > before) continue;
+            delete this.jobs[job.id];
+        }
+
+        try {
+            if (!fs.existsSync(FileSystem.exportsDir)) return;
+            for (const file of fs.readdirSync(FileSystem.exportsDir)) {
+                const id = file.replace(/\.zip$/, "");
+                const job = this.jobs[id];
+                if (!all && job) continue;
+
+                // Don't delete anything that is currently being worked on
+                if (job?.status === ChatExportStatus.RUNNING) continue;
+                rimrafSync(path.join(FileSystem.exportsDir, file));
+                delete this.jobs[id];
+            }
+        } catch (ex: any) {
+            this.log.warn(`Failed to purge old exports! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    /**
+     * Gets the GUID of the message a reaction (tapback) reacted to
+     *
+     * @param message The exported message
+     * @returns The GUID, or null if the message isn't a reaction
+     */
+    static getReactionTarget(message: ExportedMessage): string | null {
+        const type = message.associatedMessageType ?? "";
+        const isReaction = MessageInterface.possibleReactions.includes(type.replace(/^-/, ""));
+        if (!isReaction || isEmpty(message.associatedMessageGuid)) return null;
+
+        // Associated GUIDs are prefixed with the part (i.e. p:0/<guid> or bp:<guid>)
+        return message.associatedMessageGuid.replace(/^(p:\d+\/|bp:)/, "");
+    }
+}
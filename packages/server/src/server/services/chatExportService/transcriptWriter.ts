@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import path from "path";
+import type { ChatExportTranscriptInfo, ExportedMessage } from "./index";
+import { renderChatExportHtmlEnd, renderChatExportHtmlMessage, renderChatExportHtmlStart } from "./htmlRenderer";
+
+/**
+ * Writes the JSON & HTML transcripts of an export one message at a time,
+ * so that the whole chat never has to be held in memory.
+ *
+ * The JSON transcript has the same shape as `ChatExportTranscript`.
+ */
+export class TranscriptWriter {
+    private jsonFd: number = null;
+
+    private htmlFd: number = null;
+
+    private isGroup: boolean;
+
+    private count = 0;
+
+    /**
+     * Opens the transcript files, and writes everything that comes before the messages
+     *
+     * @param workDir The directory to write the transcripts to
+     * @param transcript The exported chat (without the messages)
+     * @param messageCount The number of messages that will be written
+     */
+    open(workDir: string, transcript: ChatExportTranscriptInfo, messageCount: number) {
+        this.isGroup = transcript.chat.style === 43;
+        this.jsonFd = fs.openSync(path.join(workDir, "transcript.json"), "w");
+        this.htmlFd = fs.openSync(path.join(workDir, "transcript.html"), "w");
+
+        // Leave the object open (minus the closing brace), so the messages can be added to it
+        const header = JSON.stringify(transcript, null, 2);
+        fs.writeSync(this.jsonFd, `${header.substring(0, header.length - 2)},\n  "messages": [`);
+        fs.writeSync(this.htmlFd, renderChatExportHtmlStart(transcript, messageCount));
+    }
+
+    write(message: ExportedMessage) {
+        const json = JSON.stringify(message, null, 2).replace(/\n/g, "\n    ");
+        fs.writeSync(this.jsonFd, `${this.count > 0 ? "," : ""}\n    ${json}`);
+        fs.writeSync(this.htmlFd, `${renderChatExportHtmlMessage(message, this.isGroup)}\n`);
+        this.count += 1;
+    }
+
+    /**
+     * Finishes the transcripts, and closes the files
+     */
+    close() {
+        fs.writeSync(this.jsonFd, `${this.count > 0 ? "\n  " : ""}]\n}`);
+        fs.writeSync(this.htmlFd, renderChatExportHtmlEnd());
+        this.dispose();
+    }
+
+    /**
+     * Closes the files without finishing them (i.e. when the export fails)
+     */
+    dispose() {
+        for (const fd of [this.jsonFd, this.htmlFd]) {
+            if (fd != null) fs.closeSync(fd);
+        }
+
+        this.jsonFd = null;
+        this.htmlFd = null;
+    }
+}
@@ -0,0 +1,131 @@
+import { Server } from "@server";
+import { Loggable } from "@server/lib/logging/Loggable";
+import { ScheduledService } from "@server/lib/ScheduledService";
+import { JournalEvent } from "@server/databases/server/entity";
+import {
+    CHAT_EXPORT_PROGRESS,
+    FT_CALL_STATUS_CHANGED,
+    HELLO_WORLD,
+    INCOMING_FACETIME,
+    SERVER_UPDATE_DOWNLOADING,
+    SERVER_UPDATE_INSTALLING
+} from "@server/events";
+
+/**
+ * Persists every event emitted by the server to a bounded journal,
+ * so that clients can replay anything they missed while disconnected.
+ */
+export class EventJournalService extends Loggable {
+    tag = "EventJournalService";
+
+    // The max number of events to keep in the journal
+    static maxEvents = 10000;
+
+    // Events that are only useful in the moment, so there's no point replaying them
+    static transientEvents = [
+        HELLO_WORLD,
+        CHAT_EXPORT_PROGRESS,
+        INCOMING_FACETIME,
+        FT_CALL_STATUS_CHANGED,
+        SERVER_UPDATE_DOWNLOADING,
+        SERVER_UPDATE_INSTALLING
+    ];
+
+    pruneService: ScheduledService;
+
+    start() {
+        this.stop();
+
+        // Every 5 minutes, trim the journal down to size
+        this.pruneService = new ScheduledService(() => {
+            this.prune();
+        }, 1000 * 60 * 5);
+    }
+
+    stop() {
+        this.pruneService?.stop();
+    }
+
+    /**
+     * Saves an event to the journal
+     *
+     * @param type The event type
+     * @param data The event data
+     * @returns The sequence number of the saved event
+     */
+    async record(type: string, data: any): Promise<number> {
+        const repo = Server().repo.eventJournal();
+        const item = repo.create({ type, data: data ?? null, created: new Date() });
+        await repo.insert(item);
+        return item.seq;
+    }
+
+    /**
+     * Checks if an event should be saved to the journal
+     */
+    shouldRecord(type: string): boolean {
+        return !EventJournalService.transientEvents.includes(type);
+    }
+
+    /**
+     * Fetches the events emitted after a given sequence number
+     *
+     * @param after The last sequence number the client received
+     * @param limit The max number of events to return
+     * @param types Optionally only return events of these types
+     * @param excludeTypes Optionally leave out events of these types
+     */
+    async getEventsSince(
+        after: number,
+        limit = 1000,
+        types: string[] = null,
+        excludeTypes: string[] = null
+    ): Promise<JournalEvent[]> {
+        const query = Server()
+            .repo.eventJournal()
+            .createQueryBuilder("event")
+            .where("event.seq > :after", { after })
+            .orderBy("event.seq", "ASC")
+            .limit(limit);
+
+        if (types && types.length > 0) {
+            query.andWhere("event.type IN (:...types)", { types });
+        }
+
+        if (excludeTypes && excludeTypes.length > 0) {
+            query.andWhere("event.type NOT IN (:...excludeTypes)", { excludeTypes });
+        }
+
+        return await query.getMany();
+    }
+
+    /**
+     * Gets the lowest and highest sequence numbers currently in the journal
+     */
+    async getBounds(): Promise<{ oldest: number | null; latest: number | null }> {
+        const res = await Server()
+            .repo.eventJournal()
+            .createQueryBuilder("event")
+            .select("MIN(event.seq)", "oldest")
+            .addSelect("MAX(event.seq)", "latest")
+            .getRawOne();
+
+        return { oldest: res?.oldest ?? null, latest: res?.latest ?? null };
+    }
+
+    private async prune() {
+        try {
+            const { latest } = await this.getBounds();
+            if (!latest || latest <= EventJournalService.maxEvents) return;
+
+            await Server()
+                .repo.eventJournal()
+                .createQueryBuilder()
+                .delete()
+                .where("seq <= :seq", { seq: latest - EventJournalService.maxEvents })
+                .execute();
+        } catch (ex: any) {
+            this.log.warn(`Failed to prune the event journal! ${ex?.message ?? String(ex)}`);
+        }
+    }
+}
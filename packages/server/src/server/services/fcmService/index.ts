@@ -7,8 +7,10 @@ import axios from "axios";
 import { isEmpty, waitMs } from "@server/helpers/utils";
 import { ScheduledService } from "@server/lib/ScheduledService";
 import { Loggable } from "@server/lib/logging/Loggable";
+import { Metrics } from "@server/lib/metrics/Metrics";
 import { AsyncSingleton } from "@server/lib/decorators/AsyncSingletonDecorator";
 import { AsyncRetryer } from "@server/lib/decorators/AsyncRetryerDecorator";
+import { ChatMetadataInterface } from "@server/api/interfaces/chatMetadataInterface";
 
 const AppName = "BlueBubbles";
 
@@ -25,6 +27,12 @@ enum DbType {
 export class FCMService extends Loggable {
     tag = "FCMService";
 
+    // The errors FCM returns for tokens that will never be valid again (i.e. the app was uninstalled)
+    static expiredTokenErrorCodes = [
+        "messaging/registration-token-not-registered",
+        "messaging/invalid-registration-token"
+    ];
+
     static getApp(): admin.app.App {
         try {
             return admin.app(AppName);
@@ -447,6 +455,11 @@ export class FCMService extends Loggable {
         try {
             if (!this.hasInitialized || !(await this.start())) return null;
 
+            if (await ChatMetadataInterface.isMutedNotification(data)) {
+                this.log.debug(`Not sending FCM notification (Type: ${data?.type}) for muted chat`);
+                return { responses: [], successCount: 0, failureCount: 0 };
+            }
+
             // Build out the notification message
             const payload: admin.messaging.MulticastMessage = {
                 data,
@@ -466,12 +479,13 @@ export class FCMService extends Loggable {
                     if (!resp.success && resp.error) {
                         const code = resp.error?.code;
                         const msg = resp.error?.message;
+                        Metrics.fcmSendFailures.inc({ code: code ?? "unknown" });
                         if (code === "messaging/payload-size-limit-exceeded") {
                             // Manually handle the size limit error
                             this.log.warn("Could not send Firebase Notification due to payload exceeding size limits!");
                             this.log.debug(`Failed notification Payload: ${JSON.stringify(data)}`);
-                        } else if (code !== "messaging/registration-token-not-registered") {
-                            // Ignore token not registered errors
+                        } else if (!FCMService.expiredTokenErrorCodes.includes(code)) {
+                            // Ignore expired token errors, the push provider removes those devices
                             this.log.error(`Firebase returned the following error (Code: ${code}): ${msg}`);
 
                             if (resp.error?.stack) {
@@ -484,6 +498,7 @@ export class FCMService extends Loggable {
 
             return response;
         } catch (ex: any) {
+            Metrics.fcmSendFailures.inc({ code: "exception" });
             this.log.debug(`Failed to send notification! ${ex.message}`);
         }
 
@@ -0,0 +1,177 @@
+import { Server } from "@server";
+import { Loggable } from "@server/lib/logging/Loggable";
+import { ScheduledService } from "@server/lib/ScheduledService";
+import { FindMyLocation } from "@server/databases/server/entity";
+import { FindMyDevice, FindMyLocationItem } from "@server/api/lib/findmy/types";
+import { FindMyInterface } from "@server/api/interfaces/findMyInterface";
+import { FindMyHistoryInterface } from "@server/api/interfaces/findMyHistoryInterface";
+import { FindMyGeofenceInterface } from "@server/api/interfaces/findMyGeofenceInterface";
+import { FINDMY_GEOFENCE_ENTER, FINDMY_GEOFENCE_EXIT } from "@server/events";
+
+/**
+ * Records the Find My locations of friends & devices to a bounded history,
+ * and emits an event whenever one of them enters or exits a geofence.
+ */
+export class FindMyTrackingService extends Loggable {
+    tag = "FindMyTrackingService";
+
+    // The max number of locations to keep for each friend or device
+    static maxLocationsPerSource = 1000;
+
+    pollService: ScheduledService;
+
+    pruneService: ScheduledService;
+
+    // The last known location of each friend/device, keyed by `<type>:<id>`
+    lastLocations: Map<string, FindMyLocation> = new Map();
+
+    start() {
+        this.stop();
+
+        // Every 5 minutes, check the Find My cache files for device location updates
+        this.pollService = new ScheduledService(() => {
+            this.pollDevices();
+        }, 1000 * 60 * 5);
+
+        // Every hour, remove the locations that are past the retention period
+        this.pruneService = new ScheduledService(() => {
+            this.prune();
+        }, 1000 * 60 * 60);
+    }
+
+    stop() {
+        this.pollService?.stop();
+        this.pruneService?.stop();
+    }
+
+    /**
+     * Reads the device locations from the Find My cache files, and tracks them
+     */
+    async pollDevices() {
+        try {
+            const devices = await FindMyInterface.getDevices();
+            if (devices) await this.handleDevices(devices);
+        } catch (ex: any) {
+            this.log.debug(`Failed to poll Find My devices! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    async handleFriendLocations(items: FindMyLocationItem[]) {
+        await this.trackAll((items ?? []).map(item => FindMyHistoryInterface.fromFriend(item)));
+    }
+
+    async handleDevices(devices: FindMyDevice[]) {
+        await this.trackAll((devices ?? []).map(device => FindMyHistoryInterface.fromDevice(device)));
+    }
+
+    /**
+     * Removes locations older than the retention period,
+     * and trims each friend/device down to the max number of locations
+     */
+    async prune() {
+        try {
+            const repo = Server().repo.findMyLocations();
+            const historyDays = Number(Server().repo.getConfig("findmy_history_days") ?? 0);
+            const expiresBefore = new Date().getTime() - 86400 * 1000 * Math.max(historyDays, 0);
+            await repo
+                .createQueryBuilder()
+                .delete()
+                .where("timestamp < :expiresBefore", { expiresBefore })
+                .execute();
+
+            const overLimit = await repo
+                .createQueryBuilder("location")
+                .select("location.sourceType", "sourceType")
+                .addSelect("location.sourceId", "sourceId")
+                .groupBy("location.sourceType")
+                .addGroupBy("location.sourceId")
+                .having("COUNT(*) > :max", { max: FindMyTrackingService.maxLocationsPerSource })
+                .getRawMany();
+
+            for (const { sourceType, sourceId } of overLimit) {
+                // Find the oldest location we want to keep, and delete everything before it
+                const [oldest] = await repo.find({
+                    where: { sourceType, sourceId },
+                    order: { timestamp: "DESC", id: "DESC" },
+                    skip: FindMyTrackingService.maxLocationsPerSource - 1,
+                    take: 1
+                });
+
+                if (!oldest) continue;
+                await repo
+                    .createQueryBuilder()
+                    .delete()
+                    .where("source_type = :sourceType AND source_id = :sourceId", { sourceType, sourceId })
+                    .andWhere("id < :id", { id: oldest.id })
+                    .execute();
+            }
+        } catch (ex: any) {
+            this.log.warn(`Failed to prune the Find My location history! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    private async trackAll(locations: Array<FindMyLocation | null>) {
+        for (const location of locations) {
+            if (!location) continue;
+
+            try {
+                await this.track(location);
+            } catch (ex: any) {
+                this.log.warn(
+                    `Failed to track Find My location for ${location.sourceId}! ${ex?.message ?? String(ex)}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Saves a location to the history (if it's new), and checks it against the geofences
+     */
+    private async track(location: FindMyLocation) {
+        const key = `${location.sourceType}:${location.sourceId}`;
+        if (!this.lastLocations.has(key)) {
+            this.lastLocations.set(key, await FindMyHistoryInterface.getLatest(location.sourceType, location.sourceId));
+        }
+
+        // Ignore locations that are older than (or the same as) the last known location
+        const previous = this.lastLocations.get(key);
+        if (previous && previous.timestamp.getTime() >= location.timestamp.getTime()) return;
+
+        // A value of 0 disables the history, but the geofences still work
+        const historyDays = Number(Server().repo.getConfig("findmy_history_days") ?? 0);
+        if (historyDays > 0) {
+            await Server().repo.findMyLocations().insert(location);
+        }
+
+        this.lastLocations.set(key, location);
+        if (previous) await this.checkGeofences(previous, location);
+    }
+
+    /**
+     * Emits an event for each geofence the friend/device entered or exited between two locations
+     */
+    private async checkGeofences(previous: FindMyLocation, current: FindMyLocation) {
+        const geofences = await FindMyGeofenceInterface.getAll(true);
+        for (const geofence of geofences) {
+            if (!FindMyGeofenceInterface.appliesTo(geofence, current.sourceId)) continue;
+
+            const wasInside = FindMyGeofenceInterface.contains(geofence, previous.latitude, previous.longitude);
+            const isInside = FindMyGeofenceInterface.contains(geofence, current.latitude, current.longitude);
+            if (wasInside === isInside) continue;
+
+            const type = isInside ? FINDMY_GEOFENCE_ENTER : FINDMY_GEOFENCE_EXIT;
+            this.log.debug(`${current.name ?? current.sourceId} ${isInside ? "entered" : "exited"} ${geofence.name}`);
+            await Server().emitMessage(
+                type,
+                {
+                    geofence: FindMyGeofenceInterface.serialize(geofence),
+                    source: { type: current.sourceType, id: current.sourceId, name: current.name ?? null },
+                    location: FindMyHistoryInterface.serialize(current)
+                },
+                "normal",
+                true,
+                true
+            );
+        }
+    }
+}
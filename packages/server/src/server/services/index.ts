@@ -12,6 +12,11 @@ import { CertificateService } from "./certificateService";
 import { WebhookService } from "./webhookService";
 import { ScheduledMessagesService } from "./scheduledMessagesService";
 import { OauthService } from "./oauthService";
+import { EventJournalService } from "./eventJournalService";
+import { MessageSearchService } from "./messageSearchService";
+import { ChatExportService } from "./chatExportService";
+import { PushService } from "./pushService";
+import { FindMyTrackingService } from "./findMyTrackingService";
 
 export {
     FCMService,
@@ -27,5 +32,10 @@ export {
     CloudflareService,
     WebhookService,
     ScheduledMessagesService,
-    OauthService
+    OauthService,
+    EventJournalService,
+    MessageSearchService,
+    ChatExportService,
+    PushService,
+    FindMyTrackingService
 };
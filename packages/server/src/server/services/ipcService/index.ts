@@ -8,11 +8,15 @@ import { AlertsInterface } from "@server/api/interfaces/alertsInterface";
 import { openLogs, openAppData } from "@server/api/apple/scripts";
 import { fixServerUrl } from "@server/helpers/utils";
 import { ContactInterface } from "@server/api/interfaces/contactInterface";
+import { AnalyticsInterface } from "@server/api/interfaces/analyticsInterface";
+import { DeviceInterface } from "@server/api/interfaces/deviceInterface";
 import { PrivateApiService } from "../../api/privateApi/PrivateApiService";
 import { getContactPermissionStatus, requestContactPermission } from "@server/utils/PermissionUtils";
 import { ScheduledMessagesInterface } from "@server/api/interfaces/scheduledMessagesInterface";
 import { ChatInterface } from "@server/api/interfaces/chatInterface";
 import { GeneralInterface } from "@server/api/interfaces/generalInterface";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { WebhookInterface } from "@server/api/interfaces/webhookInterface";
 import {
     isMinBigSur,
     isMinCatalina,
@@ -123,6 +127,15 @@ export class IPCService extends Loggable {
             return await Server().repo.devices().find();
         });
 
+        ipcMain.handle("update-device-preferences", async (_, args) => {
+            const device = await DeviceInterface.updatePreferences(args.name, args.preferences ?? {});
+            return DeviceInterface.serialize(device);
+        });
+
+        ipcMain.handle("revoke-device", async (_, args) => {
+            await DeviceInterface.revoke(args.name);
+        });
+
         ipcMain.handle("get-private-api-requirements", async (_, __) => {
             return await Server().checkPrivateApiRequirements();
         });
@@ -149,13 +162,12 @@ export class IPCService extends Loggable {
 
         ipcMain.handle("get-webhooks", async (event, args) => {
             const res = await Server().repo.getWebhooks();
-            return res.map(e => ({ id: e.id, url: e.url, events: e.events, created: e.created }));
+            return res.map(WebhookInterface.serializeWebhook);
         });
 
         ipcMain.handle("create-webhook", async (event, payload) => {
             const res = await Server().repo.addWebhook(payload.url, payload.events);
-            const output = { id: res.id, url: res.url, events: res.events, created: res.created };
-            return output;
+            return WebhookInterface.serializeWebhook(res);
         });
 
         ipcMain.handle("delete-webhook", async (event, args) => {
@@ -166,6 +178,30 @@ export class IPCService extends Loggable {
             return await Server().repo.updateWebhook({ id: args.id, url: args?.url, events: args?.events });
         });
 
+        ipcMain.handle("get-webhook-deliveries", async (event, args) => {
+            const res = await WebhookInterface.getDeliveries({ webhookId: args?.webhookId, limit: args?.limit });
+            return res.map(e => WebhookInterface.serializeDelivery(e));
+        });
+
+        ipcMain.handle("redeliver-webhook", async (event, args) => {
+            const res = await WebhookInterface.redeliver(args.id);
+            return WebhookInterface.serializeDelivery(res);
+        });
+
+        ipcMain.handle("get-api-tokens", async (event, _) => {
+            const res = await ApiTokenInterface.find();
+            return res.map(ApiTokenInterface.serialize);
+        });
+
+        ipcMain.handle("create-api-token", async (event, payload) => {
+            const { token, apiToken } = await ApiTokenInterface.create(payload.name, payload.scopes);
+            return { ...ApiTokenInterface.serialize(apiToken), token };
+        });
+
+        ipcMain.handle("delete-api-token", async (event, args) => {
+            return await ApiTokenInterface.revoke(args.id);
+        });
+
         ipcMain.handle("contact-permission-status", async (event, _) => {
             return await getContactPermissionStatus();
         });
@@ -299,6 +335,37 @@ export class IPCService extends Loggable {
             return currentTop;
         });
 
+        ipcMain.handle("get-analytics", async (_, args) => {
+            if (!Server().iMessageRepo?.db) return null;
+
+            const query = {
+                after: args?.after ? new Date(args.after) : null,
+                before: args?.before ? new Date(args.before) : null,
+                chatGuid: args?.chatGuid ?? null,
+                interval: args?.interval ?? "day",
+                limit: args?.limit ?? 25
+            };
+
+            switch (args?.type) {
+                case "messages":
+                    return await AnalyticsInterface.getMessageTimeSeries(query);
+                case "heatmap":
+                    return await AnalyticsInterface.getMessageHeatmap(query);
+                case "response-times":
+                    return await AnalyticsInterface.getResponseTimes(query);
+                case "chats":
+                    return await AnalyticsInterface.getChatTotals(query);
+                case "handles":
+                    return await AnalyticsInterface.getHandleTotals(query);
+                case "reactions":
+                    return await AnalyticsInterface.getReactionBreakdown(query);
+                case "attachments":
+                    return await AnalyticsInterface.getAttachmentTimeSeries(query);
+                default:
+                    throw new Error(`Invalid analytics type: ${args?.type}`);
+            }
+        });
+
         ipcMain.handle("check-permissions", async (_, __) => {
             return await Server().checkPermissions();
         });
@@ -416,7 +483,7 @@ export class IPCService extends Loggable {
             return ScheduledMessagesInterface.createScheduledMessage(
                 msg.type,
                 msg.payload,
-                new Date(msg.scheduledFor),
+                msg.scheduledFor ? new Date(msg.scheduledFor) : null,
                 msg.schedule
             );
         });
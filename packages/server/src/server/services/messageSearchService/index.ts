@@ -0,0 +1,264 @@
+import path from "path";
+import Database from "better-sqlite3";
+import { Server } from "@server";
+import { FileSystem } from "@server/fileSystem";
+import { Loggable } from "@server/lib/logging/Loggable";
+import { Message } from "@server/databases/imessage/entity/Message";
+import { isEmpty, waitMs } from "@server/helpers/utils";
+import { ValidationError } from "@server/lib/ValidationError";
+import {
+    buildMatchExpression,
+    formatSnippet,
+    parseSearchQuery,
+    ParsedSearchQuery,
+    SNIPPET_END,
+    SNIPPET_START
+} from "./searchQuery";
+
+export type MessageSearchHit = {
+    guid: string;
+    rank: number | null;
+    // The matching text (HTML escaped), with the matched terms wrapped in <mark> tags
+    snippet: string | null;
+};
+
+export type MessageSearchResult = {
+    query: ParsedSearchQuery;
+    hits: MessageSearchHit[];
+    total: number;
+};
+
+/**
+ * Maintains a local SQLite FTS5 index of the decoded message text,
+ * so that messages can be searched by their text (including attributedBody-only messages).
+ *
+ * The index lives in its own database since it can always be rebuilt from the iMessage database.
+ */
+export class MessageSearchService extends Loggable {
+    tag = "MessageSearchService";
+
+    static dbPath = path.join(FileSystem.baseDir, "search.db");
+
+    // The number of messages to index per batch when backfilling
+    static batchSize = 500;
+
+    db: Database.Database = null;
+
+    isBackfilling = false;
+
+    stopped = true;
+
+    start() {
+        if (this.db) return;
+        this.stopped = false;
+
+        this.db = new Database(MessageSearchService.dbPath);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS message_fts USING fts5(
+                text, subject, tokenize = 'unicode61 remove_diacritics 2'
+            );
+            CREATE TABLE IF NOT EXISTS message_meta (
+                "rowid" integer PRIMARY KEY NOT NULL,
+                "guid" text NOT NULL UNIQUE,
+                "chat_guid" text,
+                "handle" text,
+                "is_from_me" integer NOT NULL DEFAULT 0,
+                "has_attachment" integer NOT NULL DEFAULT 0,
+                "date_created" integer NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS "IDX_message_meta_date_created" ON message_meta ("date_created");
+            CREATE INDEX IF NOT EXISTS "IDX_message_meta_chat_guid" ON message_meta ("chat_guid");
+            CREATE TABLE IF NOT EXISTS index_state ("key" text PRIMARY KEY NOT NULL, "value" text);
+        `);
+
+        // Catch the index up with the iMessage database in the background
+        this.backfill();
+    }
+
+    stop() {
+        this.stopped = true;
+        if (!this.db) return;
+
+        try {
+            this.db.close();
+        } finally {
+            this.db = null;
+        }
+    }
+
+    /**
+     * Indexes all the messages that haven't been indexed yet, in batches
+     */
+    async backfill() {
+        if (this.isBackfilling || !this.db) return;
+        this.isBackfilling = true;
+
+        try {
+            let lastRowId = this.getLastIndexedRowId();
+            let total = 0;
+            while (!this.stopped) {
+                const [messages, _] = await Server().iMessageRepo.getMessages({
+                    withChats: true,
+                    withAttachments: true,
+                    limit: MessageSearchService.batchSize,
+                    sort: "ASC",
+                    orderBy: "message.ROWID",
+                    where: [{ statement: "message.ROWID > :lastRowId", args: { lastRowId } }]
+                });
+
+                if (isEmpty(messages) || this.stopped) break;
+                this.indexMessages(messages);
+                lastRowId = messages[messages.length - 1].ROWID;
+                this.setLastIndexedRowId(lastRowId);
+                total += messages.length;
+
+                // Give other work a chance to run in between batches
+                await waitMs(50);
+            }
+
+            if (total > 0) this.log.info(`Indexed ${total} message(s) for search`);
+        } catch (ex: any) {
+            this.log.error(`Failed to backfill the message search index! ${ex?.message ?? String(ex)}`);
+        } finally {
+            this.isBackfilling = false;
+        }
+    }
+
+    /**
+     * Adds (or updates) messages in the index. Unsent messages are removed from the index.
+     * This does not move the backfill cursor, so that live messages can't cause gaps.
+     *
+     * @param messages The messages to index
+     */
+    indexMessages(messages: Message[]) {
+        if (!this.db || isEmpty(messages)) return;
+
+        const deleteFts = this.db.prepare("DELETE FROM message_fts WHERE rowid = ?");
+        const deleteMeta = this.db.prepare("DELETE FROM message_meta WHERE rowid = ?");
+        const insertFts = this.db.prepare("INSERT INTO message_fts (rowid, text, subject) VALUES (?, ?, ?)");
+        const insertMeta = this.db.prepare(`
+            INSERT INTO message_meta (rowid, guid, chat_guid, handle, is_from_me, has_attachment, date_created)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        const transaction = this.db.transaction((items: Message[]) => {
+            for (const message of items) {
+                deleteFts.run(message.ROWID);
+                deleteMeta.run(message.ROWID);
+
+                // Don't index unsent messages, or messages without anything to search
+                const text = message.universalText(true) ?? "";
+                const hasAttachment = (message.attachments ?? []).length > 0;
+                if (message.isEmpty || (isEmpty(text) && isEmpty(message.subject) && !hasAttachment)) continue;
+
+                insertFts.run(message.ROWID, text, message.subject ?? "");
+                insertMeta.run(
+                    message.ROWID,
+                    message.guid,
+                    message.chats?.[0]?.guid ?? null,
+                    message.handle?.id ?? null,
+                    message.isFromMe ? 1 : 0,
+                    hasAttachment ? 1 : 0,
+                    message.dateCreated?.getTime() ?? 0
+                );
+            }
+        });
+
+        try {
+            transaction(messages);
+        } catch (ex: any) {
+            this.log.warn(`Failed to index messages for search! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    /**
+     * Searches the index
+     *
+     * @param query The raw query string
+     * @param limit The max number of results
+     * @param offset The number of results to skip
+     */
+    search(query: string, limit = 25, offset = 0): MessageSearchResult {
+        if (!this.db) throw new Error("The message search index is not available!");
+
+        const parsed = parseSearchQuery(query);
+        const match = buildMatchExpression(parsed);
+        const where: string[] = [];
+        const args: any[] = [];
+
+        if (match) {
+            where.push("message_fts MATCH ?");
+            args.push(match);
+        }
+
+        if (parsed.from) {
+            if (parsed.from.toLowerCase() === "me") {
+                where.push("meta.is_from_me = 1");
+            } else {
+                where.push("meta.is_from_me = 0 AND meta.handle LIKE ?");
+                args.push(`%${parsed.from.replace("+", "")}%`);
+            }
+        }
+
+        if (parsed.chat) {
+            where.push("(meta.chat_guid = ? OR meta.chat_guid LIKE ?)");
+            args.push(parsed.chat, `%${parsed.chat}`);
+        }
+
+        if (parsed.before) {
+            where.push("meta.date_created < ?");
+            args.push(parsed.before.getTime());
+        }
+
+        if (parsed.after) {
+            where.push("meta.date_created > ?");
+            args.push(parsed.after.getTime());
+        }
+
+        if (parsed.hasAttachment) {
+            where.push("meta.has_attachment = 1");
+        }
+
+        if (isEmpty(where)) {
+            throw new ValidationError("Please provide something to search for!");
+        }
+
+        const from = "message_meta meta INNER JOIN message_fts ON message_fts.rowid = meta.rowid";
+        const whereClause = `WHERE ${where.join(" AND ")}`;
+
+        // When there aren't any text terms, there is nothing to rank or highlight, so sort by date
+        const select = match
+            ? `meta.guid, bm25(message_fts) AS rank, snippet(message_fts, 0, ?, ?, '…', 16) AS snippet`
+            : "meta.guid, NULL AS rank, NULL AS snippet";
+        const selectArgs = match ? [SNIPPET_START, SNIPPET_END] : [];
+        const orderBy = match ? "rank ASC, meta.date_created DESC" : "meta.date_created DESC";
+
+        const hits = this.db
+            .prepare(`SELECT ${select} FROM ${from} ${whereClause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+            .all(...selectArgs, ...args, limit, offset) as MessageSearchHit[];
+        const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM ${from} ${whereClause}`).get(...args) as {
+            total: number;
+        };
+
+        for (const hit of hits) {
+            hit.snippet = formatSnippet(hit.snippet);
+        }
+
+        return { query: parsed, hits, total };
+    }
+
+    private getLastIndexedRowId(): number {
+        const row = this.db?.prepare(`SELECT "value" FROM index_state WHERE "key" = 'last_row_id'`).get() as {
+            value: string;
+        };
+
+        return row ? Number.parseInt(row.value, 10) : 0;
+    }
+
+    private setLastIndexedRowId(rowId: number) {
+        this.db
+            ?.prepare(`INSERT OR REPLACE INTO index_state ("key", "value") VALUES ('last_row_id', ?)`)
+            .run(String(rowId));
+    }
+}
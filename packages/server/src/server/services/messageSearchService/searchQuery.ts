@@ -0,0 +1,141 @@
+import { ValidationError } from "@server/lib/ValidationError";
+
+// The markers FTS5 wraps the matched terms of a snippet with.
+// They are Unicode non-characters, so they won't show up in real message text.
+export const SNIPPET_START = "\ufdd0";
+export const SNIPPET_END = "\ufdd1";
+
+export type ParsedSearchQuery = {
+    // The free-text terms & phrases to match against the message text
+    terms: string[];
+    phrases: string[];
+    // The handle address to filter by, or "me" for messages sent by you
+    from: string | null;
+    // The chat GUID (or partial chat identifier) to filter by
+    chat: string | null;
+    before: Date | null;
+    after: Date | null;
+    hasAttachment: boolean;
+};
+
+/**
+ * Parses a search query string into its parts.
+ *
+ * Supported syntax:
+ *   - Bare words, which all need to match: `hello world`
+ *   - Quoted phrases: `"see you soon"`
+ *   - `from:me` or `from:<address>`
+ *   - `in:<chat guid or identifier>`
+ *   - `before:<date>` and `after:<date>` (anything `Date` can parse, i.e. 2023-01-31)
+ *   - `has:attachment`
+ *
+ * @param query The raw query string
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+    const output: ParsedSearchQuery = {
+        terms: [],
+        phrases: [],
+        from: null,
+        chat: null,
+        before: null,
+        after: null,
+        hasAttachment: false
+    };
+
+    // Either a quoted phrase, a key:"quoted value", or a run of non-whitespace
+    const tokenizer = /(\w+):"([^"]*)"|"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenizer.exec(query ?? "")) !== null) {
+        if (match[3] !== undefined) {
+            if (match[3].trim().length > 0) output.phrases.push(match[3].trim());
+            continue;
+        }
+
+        let key: string = null;
+        let value: string = null;
+        if (match[1] !== undefined) {
+            key = match[1];
+            value = match[2];
+        } else {
+            const token = match[4];
+            const separator = token.indexOf(":");
+            if (separator > 0 && separator < token.length - 1) {
+                key = token.substring(0, separator);
+                value = token.substring(separator + 1);
+            } else {
+                output.terms.push(token);
+                continue;
+            }
+        }
+
+        switch (key.toLowerCase()) {
+            case "from":
+                output.from = value;
+                break;
+            case "in":
+                output.chat = value;
+                break;
+            case "before":
+                output.before = parseSearchDate(key, value);
+                break;
+            case "after":
+                output.after = parseSearchDate(key, value);
+                break;
+            case "has":
+                if (!["attachment", "attachments"].includes(value.toLowerCase())) {
+                    throw new ValidationError(`Unsupported search filter: has:${value}`);
+                }
+
+                output.hasAttachment = true;
+                break;
+            default:
+                // Not a filter we know about (i.e. a URL or a time), so treat it as text
+                output.terms.push(`${key}:${value}`);
+        }
+    }
+
+    return output;
+};
+
+const parseSearchDate = (key: string, value: string): Date => {
+    const date = /^\d+$/.test(value) ? new Date(Number.parseInt(value, 10)) : new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new ValidationError(`Invalid date for search filter ${key}: ${value}`);
+    }
+
+    return date;
+};
+
+/**
+ * Builds an FTS5 MATCH expression from the parsed terms & phrases.
+ * Everything is quoted so that user input can't inject FTS5 syntax.
+ */
+export const buildMatchExpression = (query: ParsedSearchQuery): string | null => {
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const parts = [
+        // Bare words are prefix-matched so that partial words still match
+        ...query.terms.map(term => `${quote(term)}*`),
+        ...query.phrases.map(quote)
+    ];
+
+    return parts.length > 0 ? parts.join(" AND ") : null;
+};
+
+/**
+ * Converts a raw FTS5 snippet into HTML, with the matched terms wrapped in <mark> tags.
+ * The message text is escaped before the tags are added, so that whatever a sender typed
+ * can't be rendered as HTML by a client.
+ *
+ * @param snippet The snippet, with the matches wrapped in `SNIPPET_START` & `SNIPPET_END`
+ */
+export const formatSnippet = (snippet: string | null): string | null => {
+    if (snippet == null) return null;
+
+    const escaped = snippet
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+    return escaped.split(SNIPPET_START).join("<mark>").split(SNIPPET_END).join("</mark>");
+};
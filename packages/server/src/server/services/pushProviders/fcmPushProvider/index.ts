@@ -0,0 +1,40 @@
+import { Server } from "@server";
+import { Device } from "@server/databases/server/entity";
+import { FCMService } from "@server/services/fcmService";
+import { PushNotification, PushProvider, PushProviderType, PushResult } from "../pushProvider";
+
+/**
+ * Sends notifications through Google FCM (via the existing FCM service)
+ */
+export class FcmPushProvider extends PushProvider {
+    tag = "FcmPushProvider";
+
+    type = PushProviderType.FCM;
+
+    // FCM allows 4096 bytes of data, leave some room for the keys
+    payloadLimit = 4000;
+
+    isEnabled(): boolean {
+        return !!Server().fcm && !!FCMService.getApp();
+    }
+
+    async send(devices: Device[], notification: PushNotification, priority: "normal" | "high"): Promise<PushResult> {
+        const response = await Server().fcm.sendNotification(
+            devices.map(device => device.identifier),
+            notification,
+            priority
+        );
+
+        // The responses are in the same order as the tokens that were sent
+        const expired = devices.filter((_, index) => {
+            const code = response?.responses?.[index]?.error?.code;
+            return code != null && FCMService.expiredTokenErrorCodes.includes(code);
+        });
+
+        return {
+            successCount: response?.successCount ?? 0,
+            failureCount: response?.failureCount ?? 0,
+            expired
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { Device } from "@server/databases/server/entity";
+import { Loggable } from "@server/lib/logging/Loggable";
+
+export enum PushProviderType {
+    FCM = "fcm",
+    UNIFIED_PUSH = "unifiedpush",
+    WEB_PUSH = "webpush"
+}
+
+export type PushNotification = {
+    // The event type (i.e. new-message)
+    type: string;
+    // The JSON encoded event data
+    data: string;
+};
+
+export type PushResult = {
+    successCount: number;
+    failureCount: number;
+    // Devices that the provider says no longer exist (i.e. expired subscriptions)
+    expired: Device[];
+};
+
+/**
+ * A service that can deliver push notifications to a type of device.
+ * Devices are registered with the provider type they use (see the `Device` entity).
+ */
+export abstract class PushProvider extends Loggable {
+    tag = "PushProvider";
+
+    abstract type: PushProviderType;
+
+    // The max size (in bytes) of a notification, before it's encoded/encrypted by the provider
+    abstract payloadLimit: number;
+
+    /**
+     * Checks if the provider is able to send notifications (i.e. is configured)
+     */
+    abstract isEnabled(): boolean;
+
+    /**
+     * Sends a notification to the given devices
+     *
+     * @param devices The devices to send the notification to (all registered with this provider)
+     * @param notification The notification to send
+     * @param priority The priority of the notification
+     */
+    abstract send(
+        devices: Device[],
+        notification: PushNotification,
+        priority: "normal" | "high"
+    ): Promise<PushResult>;
+}
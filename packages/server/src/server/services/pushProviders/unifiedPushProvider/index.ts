@@ -0,0 +1,65 @@
+import axios from "axios";
+import { Device } from "@server/databases/server/entity";
+import { PushNotification, PushProvider, PushProviderType, PushResult } from "../pushProvider";
+
+/**
+ * Sends notifications through UnifiedPush.
+ * Each device registers its own push endpoint (on the distributor of its choice),
+ * and notifications are sent as an HTTP POST to that endpoint.
+ *
+ * https://unifiedpush.org/developers/spec/server/
+ */
+export class UnifiedPushProvider extends PushProvider {
+    tag = "UnifiedPushProvider";
+
+    type = PushProviderType.UNIFIED_PUSH;
+
+    // UnifiedPush distributors only have to accept messages up to 4096 bytes
+    static maxPayloadSize = 4096;
+
+    static requestTimeoutMs = 15000;
+
+    payloadLimit = UnifiedPushProvider.maxPayloadSize;
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    async send(devices: Device[], notification: PushNotification, priority: "normal" | "high"): Promise<PushResult> {
+        const result: PushResult = { successCount: 0, failureCount: 0, expired: [] };
+
+        let body = JSON.stringify(notification);
+        if (Buffer.byteLength(body) > UnifiedPushProvider.maxPayloadSize) {
+            // Let the client know something happened, so it can fetch the data itself
+            this.log.debug(`Notification (Type: ${notification.type}) is too large for UnifiedPush, removing the data`);
+            body = JSON.stringify({ type: notification.type, data: null });
+        }
+
+        for (const device of devices) {
+            try {
+                await axios.post(device.identifier, body, {
+                    headers: {
+                        "Content-Type": "application/json",
+                        TTL: "86400",
+                        Urgency: priority === "high" ? "high" : "normal"
+                    },
+                    timeout: UnifiedPushProvider.requestTimeoutMs
+                });
+
+                result.successCount += 1;
+            } catch (ex: any) {
+                result.failureCount += 1;
+
+                // The endpoint no longer exists (i.e. the app was uninstalled)
+                const status = ex?.response?.status;
+                if (status === 404 || status === 410) {
+                    result.expired.push(device);
+                } else {
+                    this.log.debug(`Failed to send UnifiedPush notification to ${device.name}: ${ex?.message ?? ex}`);
+                }
+            }
+        }
+
+        return result;
+    }
+}
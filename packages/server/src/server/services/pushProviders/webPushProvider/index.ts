@@ -0,0 +1,212 @@
+import axios from "axios";
+import { createCipheriv, createECDH, createPrivateKey, createSign, randomBytes } from "crypto";
+import { Server } from "@server";
+import { Device } from "@server/databases/server/entity";
+import { isEmpty } from "@server/helpers/utils";
+import { hkdfSha256 } from "@server/utils/CryptoUtils";
+import { PushNotification, PushProvider, PushProviderType, PushResult } from "../pushProvider";
+
+export type WebPushKeys = {
+    // The client's base64url encoded P-256 public key
+    p256dh: string;
+    // The client's base64url encoded 16 byte auth secret
+    auth: string;
+};
+
+/**
+ * Sends notifications through the standard Web Push protocol (RFC 8030).
+ * Payloads are encrypted with "aes128gcm" (RFC 8291), and the server identifies itself with VAPID (RFC 8292).
+ * Browsers subscribe using the server's VAPID public key, and register the subscription as a device.
+ */
+export class WebPushProvider extends PushProvider {
+    tag = "WebPushProvider";
+
+    type = PushProviderType.WEB_PUSH;
+
+    // Push services only have to accept payloads up to 4096 bytes
+    static maxPayloadSize = 4096;
+
+    // The salt (16), record size (4), key ID length (1), and key ID (65) of the aes128gcm header
+    static headerSize = 86;
+
+    static requestTimeoutMs = 15000;
+
+    // VAPID tokens can be valid for at most 24 hours
+    static tokenLifetimeSecs = 12 * 60 * 60;
+
+    static defaultSubject = "https://bluebubbles.app";
+
+    // Each payload has the header, a padding delimiter, and the auth tag added to it
+    payloadLimit = WebPushProvider.maxPayloadSize - WebPushProvider.headerSize - 17;
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    /**
+     * Gets the server's VAPID keys, generating them if they don't exist yet
+     *
+     * @returns The base64url encoded public key (uncompressed point) and private key
+     */
+    static async getVapidKeys(): Promise<{ publicKey: string; privateKey: string }> {
+        let publicKey = Server().repo.getConfig("web_push_public_key") as string;
+        let privateKey = Server().repo.getConfig("web_push_private_key") as string;
+        if (isEmpty(publicKey) || isEmpty(privateKey)) {
+            const ecdh = createECDH("prime256v1");
+            ecdh.generateKeys();
+            publicKey = WebPushProvider.toBase64Url(ecdh.getPublicKey());
+            privateKey = WebPushProvider.toBase64Url(ecdh.getPrivateKey());
+            await Server().repo.setConfig("web_push_public_key", publicKey);
+            await Server().repo.setConfig("web_push_private_key", privateKey);
+            Server().log("Generated new VAPID keys for Web Push");
+        }
+
+        return { publicKey, privateKey };
+    }
+
+    async send(devices: Device[], notification: PushNotification, priority: "normal" | "high"): Promise<PushResult> {
+        const result: PushResult = { successCount: 0, failureCount: 0, expired: [] };
+        const vapid = await WebPushProvider.getVapidKeys();
+
+        let payload = Buffer.from(JSON.stringify(notification), "utf8");
+        if (payload.length > this.payloadLimit) {
+            // Let the client know something happened, so it can fetch the data itself
+            this.log.debug(`Notification (Type: ${notification.type}) is too large for Web Push, removing the data`);
+            payload = Buffer.from(JSON.stringify({ type: notification.type, data: null }), "utf8");
+        }
+
+        for (const device of devices) {
+            try {
+                const keys = device.pushKeys as WebPushKeys;
+                if (isEmpty(keys?.p256dh) || isEmpty(keys?.auth)) {
+                    throw new Error("Device is missing its Web Push keys!");
+                }
+
+                await axios.post(device.identifier, WebPushProvider.encrypt(payload, keys), {
+                    headers: {
+                        "Content-Type": "application/octet-stream",
+                        "Content-Encoding": "aes128gcm",
+                        TTL: "86400",
+                        Urgency: priority === "high" ? "high" : "normal",
+                        Authorization: WebPushProvider.getVapidAuthorization(device.identifier, vapid)
+                    },
+                    timeout: WebPushProvider.requestTimeoutMs
+                });
+
+                result.successCount += 1;
+            } catch (ex: any) {
+                result.failureCount += 1;
+
+                // The subscription has expired or was removed by the client
+                const status = ex?.response?.status;
+                if (status === 404 || status === 410) {
+                    result.expired.push(device);
+                } else {
+                    this.log.debug(`Failed to send Web Push notification to ${device.name}: ${ex?.message ?? ex}`);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Encrypts a payload for a subscription, using the "aes128gcm" content encoding (RFC 8291).
+     * The payload is sent as a single record.
+     *
+     * @param payload The plaintext payload
+     * @param keys The subscription keys
+     * @returns The encrypted body, including the aes128gcm header
+     */
+    static encrypt(payload: Buffer, keys: WebPushKeys): Buffer {
+        const clientPublicKey = WebPushProvider.fromBase64Url(keys.p256dh);
+        const authSecret = WebPushProvider.fromBase64Url(keys.auth);
+
+        // A new key pair is used for every message
+        const ecdh = createECDH("prime256v1");
+        ecdh.generateKeys();
+        const serverPublicKey = ecdh.getPublicKey();
+        const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+        const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0", "utf8"), clientPublicKey, serverPublicKey]);
+        const ikm = hkdfSha256(sharedSecret, authSecret, keyInfo, 32);
+
+        const salt = randomBytes(16);
+        const cek = hkdfSha256(ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0", "utf8"), 16);
+        const nonce = hkdfSha256(ikm, salt, Buffer.from("Content-Encoding: nonce\0", "utf8"), 12);
+
+        // 0x02 marks the last (and only) record
+        const cipher = createCipheriv("aes-128-gcm", cek, nonce);
+        const ciphertext = Buffer.concat([
+            cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+            cipher.final(),
+            cipher.getAuthTag()
+        ]);
+
+        const recordSize = Buffer.alloc(4);
+        recordSize.writeUInt32BE(WebPushProvider.maxPayloadSize, 0);
+        return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+    }
+
+    /**
+     * Builds the VAPID Authorization header (RFC 8292) for a push endpoint
+     */
+    private static getVapidAuthorization(endpoint: string, vapid: { publicKey: string; privateKey: string }): string {
+        const subject = (Server().repo.getConfig("web_push_subject") as string) || WebPushProvider.defaultSubject;
+        const header = WebPushProvider.toBase64Url(Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+        const claims = WebPushProvider.toBase64Url(
+            Buffer.from(
+                JSON.stringify({
+                    aud: new URL(endpoint).origin,
+                    exp: Math.floor(new Date().getTime() / 1000) + WebPushProvider.tokenLifetimeSecs,
+                    sub: subject
+                })
+            )
+        );
+
+        const unsigned = `${header}.${claims}`;
+        const signature = createSign("SHA256")
+            .update(unsigned)
+            .sign(WebPushProvider.getSigningKey(vapid.publicKey, vapid.privateKey));
+        const token = `${unsigned}.${WebPushProvider.toBase64Url(WebPushProvider.derToJose(signature))}`;
+        return `vapid t=${token}, k=${vapid.publicKey}`;
+    }
+
+    /**
+     * Wraps the raw P-256 keys in a SEC1 (RFC 5915) DER structure, so they can be used for signing
+     */
+    private static getSigningKey(publicKey: string, privateKey: string) {
+        const der = Buffer.concat([
+            Buffer.from("30770201010420", "hex"),
+            WebPushProvider.fromBase64Url(privateKey),
+            Buffer.from("a00a06082a8648ce3d030107a144034200", "hex"),
+            WebPushProvider.fromBase64Url(publicKey)
+        ]);
+
+        return createPrivateKey({ key: der, format: "der", type: "sec1" });
+    }
+
+    /**
+     * Converts a DER encoded ECDSA signature to the raw (r || s) format JWTs use
+     */
+    private static derToJose(signature: Buffer): Buffer {
+        const rLength = signature[3];
+        const r = signature.subarray(4, 4 + rLength);
+        const s = signature.subarray(6 + rLength, 6 + rLength + signature[5 + rLength]);
+
+        const toFixed = (value: Buffer) => {
+            const trimmed = value.subarray(Math.max(0, value.length - 32));
+            return Buffer.concat([Buffer.alloc(32 - trimmed.length), trimmed]);
+        };
+
+        return Buffer.concat([toFixed(r), toFixed(s)]);
+    }
+
+    private static toBase64Url(value: Buffer): string {
+        return value.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    }
+
+    private static fromBase64Url(value: string): Buffer {
+        return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+    }
+}
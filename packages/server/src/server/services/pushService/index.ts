@@ -0,0 +1,84 @@
+import { Server } from "@server";
+import { Device } from "@server/databases/server/entity";
+import { Loggable } from "@server/lib/logging/Loggable";
+import { isEmpty } from "@server/helpers/utils";
+import { ChatMetadataInterface } from "@server/api/interfaces/chatMetadataInterface";
+import { DeviceInterface } from "@server/api/interfaces/deviceInterface";
+import { PushProvider, PushProviderType } from "../pushProviders/pushProvider";
+import { FcmPushProvider } from "../pushProviders/fcmPushProvider";
+import { UnifiedPushProvider } from "../pushProviders/unifiedPushProvider";
+import { WebPushProvider } from "../pushProviders/webPushProvider";
+import { buildPushPayload } from "./pushPayloadBuilder";
+
+/**
+ * This service sends push notifications to the registered devices,
+ * using the push provider each device was registered with.
+ */
+export class PushService extends Loggable {
+    tag = "PushService";
+
+    providers: Record<string, PushProvider> = {
+        [PushProviderType.FCM]: new FcmPushProvider(),
+        [PushProviderType.UNIFIED_PUSH]: new UnifiedPushProvider(),
+        [PushProviderType.WEB_PUSH]: new WebPushProvider()
+    };
+
+    static get providerTypes(): PushProviderType[] {
+        return Object.values(PushProviderType);
+    }
+
+    /**
+     * Sends an event to all registered devices
+     *
+     * @param type The event type
+     * @param data The event data
+     * @param priority The priority of the notification
+     * @param fullData The complete event data, if `data` was reduced for notifications
+     *                 (i.e. a message without its attributed body, which is needed to check for mentions)
+     */
+    async send(type: string, data: any, priority: "normal" | "high" = "normal", fullData: any = data): Promise<void> {
+        // Only send the event to the devices that want it
+        const devices = await DeviceInterface.filterDevices(await Server().repo.devices().find(), type, fullData);
+        if (isEmpty(devices)) return;
+
+        // The payloads may be trimmed, so check for muted chats before they are built
+        const notification = { type, data: JSON.stringify(data ?? null) };
+        if (await ChatMetadataInterface.isMutedNotification(notification)) {
+            this.log.debug(`Not sending notification (Type: ${type}) for muted chat`);
+            return;
+        }
+
+        const byProvider: Record<string, Device[]> = {};
+        for (const device of devices) {
+            const provider = device.provider ?? PushProviderType.FCM;
+            if (!byProvider[provider]) byProvider[provider] = [];
+            byProvider[provider].push(device);
+        }
+
+        for (const [providerType, providerDevices] of Object.entries(byProvider)) {
+            const provider = this.providers[providerType];
+            if (!provider) {
+                this.log.debug(`Skipping ${providerDevices.length} device(s) with unknown provider: ${providerType}`);
+                continue;
+            }
+
+            if (!provider.isEnabled()) continue;
+
+            try {
+                // Each provider has its own size limit, so the payload is trimmed to fit it
+                const payload = buildPushPayload(type, data, provider.payloadLimit);
+                if (payload.data !== notification.data) {
+                    this.log.debug(`Trimmed notification (Type: ${type}) to fit the ${providerType} size limit`);
+                }
+
+                const result = await provider.send(providerDevices, payload, priority);
+                for (const device of result.expired) {
+                    this.log.info(`Removing device with an expired ${providerType} subscription: ${device.name}`);
+                    await Server().repo.devices().delete({ name: device.name, identifier: device.identifier });
+                }
+            } catch (ex: any) {
+                this.log.debug(`Failed to send notification via ${providerType}! ${ex?.message ?? String(ex)}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,180 @@
+import { isNotEmpty } from "@server/helpers/utils";
+import type { PushNotification } from "../pushProviders/pushProvider";
+
+// Fields that are only nice-to-have in a notification, and can be large
+const HEAVY_MESSAGE_FIELDS = [
+    "attributedBody",
+    "messageSummaryInfo",
+    "payloadData",
+    "editHistory",
+    "reactions",
+    "threadRoot"
+];
+
+// The ellipsis appended to truncated text
+const ELLIPSIS = "…";
+
+/**
+ * Gets the size (in bytes) of a notification, as it will be sent
+ */
+export const getPayloadSize = (notification: PushNotification): number => {
+    return Buffer.byteLength(JSON.stringify(notification), "utf8");
+};
+
+/**
+ * Builds a push notification for an event, trimming the data so that it fits within the size limit.
+ *
+ * Message payloads are reduced in steps until they fit:
+ *   1. Heavy fields (i.e. the attributed body, summary info, and chat participants) are removed
+ *   2. The text & subject are truncated
+ *   3. The message is reduced to the bare minimum a client needs to show a notification
+ *   4. Only the message GUID is sent
+ * Any other payload that is too large is replaced with a stub.
+ *
+ * When the data is trimmed, `truncated: true` is set (along with the message GUID),
+ * so the client knows to fetch the full record from the server.
+ *
+ * Message events are already serialized with the notification profile (`isForNotification`)
+ * before they are emitted, so the data is trimmed as-is rather than re-serialized here.
+ * Re-serializing would mean looking up every message in the iMessage DB again for each push.
+ *
+ * @param type The event type
+ * @param data The (un-encoded) event data
+ * @param maxBytes The max size of the notification (in bytes)
+ */
+export const buildPushPayload = (type: string, data: any, maxBytes: number): PushNotification => {
+    const notification = { type, data: JSON.stringify(data ?? null) };
+    if (getPayloadSize(notification) <= maxBytes) return notification;
+
+    const fits = (value: any) => getPayloadSize({ type, data: JSON.stringify(value) }) <= maxBytes;
+    if (!isMessagePayload(data)) {
+        return { type, data: JSON.stringify(fits({ truncated: true }) ? { truncated: true } : null) };
+    }
+
+    const candidates = [dropHeavyFields(data), toMinimalMessage(data)];
+    for (const candidate of candidates) {
+        if (fits(candidate)) return { type, data: JSON.stringify(candidate) };
+
+        const truncated = truncateText(candidate, fits);
+        if (truncated) return { type, data: JSON.stringify(truncated) };
+    }
+
+    const stub = { guid: data.guid, truncated: true };
+    return { type, data: JSON.stringify(fits(stub) ? stub : null) };
+};
+
+/**
+ * Checks if the data is a serialized message (i.e. from the `MessageSerializer`)
+ */
+const isMessagePayload = (data: any): boolean => {
+    return !!data && typeof data === "object" && !Array.isArray(data) && typeof data.guid === "string";
+};
+
+/**
+ * Removes the heavy fields from a message, including the chat participants & attachment metadata
+ */
+const dropHeavyFields = (message: any): any => {
+    const output: any = { ...message, truncated: true };
+    for (const field of HEAVY_MESSAGE_FIELDS) {
+        delete output[field];
+    }
+
+    if (Array.isArray(output.chats)) {
+        output.chats = output.chats.map((chat: any) => {
+            const { participants, ...rest } = chat ?? {};
+            return rest;
+        });
+    }
+
+    if (Array.isArray(output.attachments)) {
+        output.attachments = output.attachments.map((attachment: any) => {
+            const { metadata, data, ...rest } = attachment ?? {};
+            return rest;
+        });
+    }
+
+    return output;
+};
+
+/**
+ * Reduces a message to the fields a client needs to display a notification
+ */
+const toMinimalMessage = (message: any): any => {
+    const output: any = {
+        guid: message.guid,
+        text: message.text ?? null,
+        subject: message.subject ?? null,
+        isFromMe: message.isFromMe ?? false,
+        dateCreated: message.dateCreated ?? null,
+        handle: message.handle ? { address: message.handle.address } : null,
+        chats: (message.chats ?? []).map((chat: any) => ({
+            guid: chat?.guid,
+            style: chat?.style,
+            chatIdentifier: chat?.chatIdentifier,
+            displayName: chat?.displayName
+        })),
+        attachments: (message.attachments ?? []).map((attachment: any) => ({
+            guid: attachment?.guid,
+            mimeType: attachment?.mimeType,
+            transferName: attachment?.transferName
+        })),
+        truncated: true
+    };
+
+    // Only include the optional fields if they are set
+    for (const field of ["associatedMessageGuid", "associatedMessageType", "threadOriginatorGuid", "tempGuid"]) {
+        if (isNotEmpty(message[field])) output[field] = message[field];
+    }
+
+    return output;
+};
+
+/**
+ * Truncates the text & subject of a message so that it fits.
+ * The longest text that fits is found with a binary search.
+ *
+ * @returns The truncated message, or null if it can't fit (even without any text)
+ */
+const truncateText = (message: any, fits: (value: any) => boolean): any | null => {
+    const subject = message.subject ?? null;
+    const text = fitString(message.text ?? "", value => fits({ ...message, text: value, subject }));
+    if (text != null) return { ...message, text, subject };
+
+    // The subject alone is too large, so it needs to be truncated too
+    const truncatedSubject = fitString(subject ?? "", value => fits({ ...message, text: "", subject: value }));
+    return truncatedSubject != null ? { ...message, text: "", subject: truncatedSubject } : null;
+};
+
+/**
+ * Finds the longest prefix of a string (with an ellipsis) that passes the check
+ *
+ * @returns The truncated string, or null if even an empty string doesn't pass
+ */
+const fitString = (value: string, check: (value: string) => boolean): string | null => {
+    if (!check("")) return null;
+
+    let low = 0;
+    let high = value.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (check(truncateString(value, mid))) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return low > 0 ? truncateString(value, low) : "";
+};
+
+/**
+ * Cuts a string to a length, without splitting a surrogate pair (i.e. an emoji)
+ */
+const truncateString = (value: string, length: number): string => {
+    if (length >= value.length) return value;
+
+    let end = length;
+    const lastCode = value.charCodeAt(end - 1);
+    if (lastCode >= 0xd800 && lastCode <= 0xdbff) end -= 1;
+    return `${value.substring(0, end)}${ELLIPSIS}`;
+};
@@ -4,95 +4,316 @@ import { ActionHandler } from "@server/api/apple/actions";
 import { isNotEmpty } from "@server/helpers/utils";
 import { Server } from "@server";
 import { Loggable } from "@server/lib/logging/Loggable";
+import { ScheduledService } from "@server/lib/ScheduledService";
+import { Queue } from "@server/databases/server/entity";
+import { Message } from "@server/databases/imessage/entity/Message";
+import { MessagePromiseRejection } from "@server/managers/outgoingMessageManager/messagePromise";
+import { RateLimitExceeded } from "@server/managers/outgoingMessageManager/rateLimiter";
+import { QUEUED_MESSAGE_ERROR } from "@server/events";
 
 export type QueueItem = {
     type: string;
     data: any;
 };
 
+export enum QueueItemStatus {
+    QUEUED = "queued",
+    SENDING = "sending",
+    SENT = "sent",
+    FAILED = "failed"
+}
+
+/**
+ * Handles the outgoing actions that need to be performed one at a time (i.e. sending attachments).
+ *
+ * Items are persisted to the server DB, so that they are resumed after a restart,
+ * and transient failures are retried with a backoff, up to the configured number of retries.
+ * Items that were interrupted mid-send are failed rather than retried, to avoid sending duplicates.
+ */
 export class QueueService extends Loggable {
     tag = "QueueService";
 
-    items: QueueItem[] = [];
+    // Sent & failed items are purged after 1 day
+    static itemRetentionMs = 24 * 60 * 60 * 1000;
+
+    // The longest we'll wait in between retries
+    static maxRetryDelayMs = 10 * 60 * 1000;
+
+    processService: ScheduledService;
+
+    purgeService: ScheduledService;
 
     isProcessing = false;
 
-    async add(item: QueueItem) {
+    stopped = true;
+
+    async start() {
+        this.stop();
+        this.stopped = false;
+
+        // Anything that was being sent when we stopped was interrupted
+        await this.failInterruptedItems();
+
+        // Every 5 seconds, check for items that are due to be retried
+        this.processService = new ScheduledService(() => {
+            this.process();
+        }, 1000 * 5);
+
+        // Every hour, purge old items
+        this.purgeService = new ScheduledService(() => {
+            this.purgeItems();
+        }, 1000 * 60 * 60);
+
+        // Pick up anything left over from the last run
+        this.process();
+    }
+
+    stop() {
+        this.stopped = true;
+        this.processService?.stop();
+        this.purgeService?.stop();
+    }
+
+    async add(item: QueueItem): Promise<Queue> {
+        const repo = Server().repo.queue();
+        const isOpenChat = item.type === "open-chat";
+        const queued = await repo.save(
+            repo.create({
+                type: item.type,
+                payload: item,
+                tempGuid: (isOpenChat ? null : item.data?.tempGuid) ?? "",
+                chatGuid: (isOpenChat ? item.data : item.data?.chatGuid) ?? "",
+                text: (isOpenChat ? null : item.data?.message) ?? "",
+                dateCreated: new Date().getTime(),
+                status: QueueItemStatus.QUEUED,
+                attempts: 0,
+                nextAttemptAt: new Date()
+            })
+        );
+
         if (this.isProcessing) {
-            // If we are already processing, add item to the queue
             this.log.debug("QueueService is already working. Adding item to queue.");
-            this.items.push(item);
         } else {
-            // If we aren't processing, process the next item
             // This doesn't need to be awaited on
-            this.process(item);
+            this.process();
         }
+
+        return queued;
+    }
+
+    /**
+     * Gets the items that haven't been sent yet, as well as the recently failed items
+     */
+    async getUnsent(): Promise<Queue[]> {
+        return await Server()
+            .repo.queue()
+            .createQueryBuilder("queue")
+            .where("queue.status != :status", { status: QueueItemStatus.SENT })
+            .orderBy("queue.id", "ASC")
+            .getMany();
     }
 
-    private async process(item: QueueItem): Promise<void> {
-        // Tell everyone we are currently processing
+    /**
+     * Processes all the items that are due, one at a time, in the order they were added
+     */
+    async process(): Promise<void> {
+        if (this.isProcessing || this.stopped) return;
         this.isProcessing = true;
-        this.log.info(`Processing next item in the queue; Item type: ${item.type}`);
 
-        // Handle the event
         try {
-            this.log.info(`Handling queue item, '${item.type}'`);
-            switch (item.type) {
-                case "open-chat":
-                    await ActionHandler.openChat(item.data);
-                    break;
-                case "send-attachment":
-                    // Send the attachment first
-                    try {
-                        await MessageInterface.sendAttachmentSync({
-                            chatGuid: item.data.chatGuid,
-                            attachmentPath: item.data.attachmentPath,
-                            attachmentName: item.data.attachmentName,
-                            attachmentGuid: item.data.attachmentGuid
-                        });
-                        Server().httpService.sendCache.remove(item?.data?.attachmentGuid);
-                    } catch (ex: any) {
-                        // Re-throw the error after removing from cache
-                        Server().httpService.sendCache.remove(item?.data?.attachmentGuid);
-                        throw ex;
-                    }
-
-                    // Then send the message (if required)
-                    if (isNotEmpty(item.data.message)) {
-                        try {
-                            await MessageInterface.sendMessageSync({
-                                chatGuid: item.data.chatGuid,
-                                message: item.data.message,
-                                method: "apple-script",
-                                tempGuid: item.data.tempGuid
-                            });
-                        } finally {
-                            // Remove from cache
-                            Server().httpService.sendCache.remove(item?.data?.tempGuid);
-                        }
-                    }
-
-                    // After 30 minutes, delete the attachment chunks
-                    setTimeout(() => {
-                        FileSystem.deleteChunks(item.data.attachmentGuid);
-                    }, 1000 * 60 * 30);
-                    break;
-                default:
-                    this.log.debug(`Unhandled queue item type: ${item.type}`);
+            while (!this.stopped) {
+                const item = await Server()
+                    .repo.queue()
+                    .createQueryBuilder("queue")
+                    .where("queue.status = :status", { status: QueueItemStatus.QUEUED })
+                    .andWhere("queue.next_attempt_at <= :now", { now: new Date().getTime() })
+                    .orderBy("queue.id", "ASC")
+                    .getOne();
+
+                if (!item) break;
+                await this.processItem(item);
             }
         } catch (ex: any) {
+            this.log.error(`Failed to process the queue! ${ex?.message ?? String(ex)}`);
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    private async processItem(item: Queue): Promise<void> {
+        const repo = Server().repo.queue();
+        item.status = QueueItemStatus.SENDING;
+        item.attempts += 1;
+        item.lastAttemptAt = new Date();
+        await repo.save(item);
+
+        this.log.info(`Handling queue item, '${item.type}' (Attempt: ${item.attempts})`);
+        try {
+            await this.handleItem(item);
+
+            item.status = QueueItemStatus.SENT;
+            item.error = null;
+            item.nextAttemptAt = null;
+            await repo.save(item);
+            this.cleanup(item);
+            return;
+        } catch (ex: any) {
+            item.error = ex?.message ?? String(ex);
             this.log.debug(`Failed to process queued item; Item type: ${item.type}`);
-            this.log.debug(ex?.message ?? ex);
+            this.log.debug(item.error);
+
+            // Waiting on the rate limit doesn't count as an attempt
+            if (ex instanceof RateLimitExceeded) {
+                item.attempts -= 1;
+                item.status = QueueItemStatus.QUEUED;
+                item.nextAttemptAt = new Date(new Date().getTime() + ex.retryAfterMs);
+                await repo.save(item);
+                return;
+            }
+
+            const maxRetries = Number(Server().repo.getConfig("queue_max_retries") ?? 0);
+            if (QueueService.isTransientError(ex) && item.attempts <= maxRetries) {
+                const baseDelayMs = Number(Server().repo.getConfig("queue_retry_delay") ?? 0) * 1000;
+                const delay = Math.min(baseDelayMs * 2 ** (item.attempts - 1), QueueService.maxRetryDelayMs);
+                this.log.debug(`Retrying queued item in ${delay / 1000}s`);
+
+                item.status = QueueItemStatus.QUEUED;
+                item.nextAttemptAt = new Date(new Date().getTime() + delay);
+                await repo.save(item);
+                return;
+            }
         }
 
-        // Check and see if there are any other items to process
-        if (isNotEmpty(this.items)) {
-            const nextItem: QueueItem = this.items.shift();
-            await this.process(nextItem);
-        } else {
-            // If there are no other items to process, tell everyone
-            // that we are finished processing
-            this.isProcessing = false;
+        this.log.warn(`Giving up on queued item after ${item.attempts} attempt(s); Item type: ${item.type}`);
+        item.status = QueueItemStatus.FAILED;
+        item.nextAttemptAt = null;
+        await repo.save(item);
+        this.cleanup(item);
+
+        await Server().emitMessage(QUEUED_MESSAGE_ERROR, QueueService.serialize(item), "high");
+    }
+
+    /**
+     * Fails the items that were interrupted while being sent (i.e. the server was quit or crashed).
+     * They may have been sent before we stopped, and the iMessage DB can't tell us (it doesn't know
+     * the temp GUID), so re-sending them could send a duplicate. Instead, the client is notified,
+     * and can decide whether to send it again.
+     */
+    private async failInterruptedItems() {
+        const repo = Server().repo.queue();
+        const items = await repo.find({ where: { status: QueueItemStatus.SENDING } });
+        for (const item of items) {
+            // Opening a chat is safe to repeat
+            if (item.type === "open-chat") {
+                item.status = QueueItemStatus.QUEUED;
+                item.nextAttemptAt = new Date();
+                await repo.save(item);
+                continue;
+            }
+
+            this.log.warn(`Queued item was interrupted while sending; Item type: ${item.type}`);
+            item.status = QueueItemStatus.FAILED;
+            item.error = "The server stopped while sending, so the item may or may not have been sent";
+            item.nextAttemptAt = null;
+            await repo.save(item);
+            this.cleanup(item);
+
+            await Server().emitMessage(QUEUED_MESSAGE_ERROR, QueueService.serialize(item), "high");
         }
     }
+
+    private async handleItem(item: Queue): Promise<void> {
+        const { data } = (item.payload ?? {}) as QueueItem;
+        switch (item.type) {
+            case "open-chat":
+                await ActionHandler.openChat(data);
+                break;
+            case "send-attachment":
+                // Send the attachment first (unless it was sent by a previous attempt)
+                if (!data.attachmentSent) {
+                    await MessageInterface.sendAttachmentSync({
+                        chatGuid: data.chatGuid,
+                        attachmentPath: data.attachmentPath,
+                        attachmentName: data.attachmentName,
+                        attachmentGuid: data.attachmentGuid,
+                        tokenId: data.tokenId
+                    });
+
+                    // Save the progress, so that a retry doesn't re-send the attachment
+                    data.attachmentSent = true;
+                    await Server().repo.queue().update(item.id, { payload: item.payload });
+                }
+
+                // Then send the message (if required)
+                if (isNotEmpty(data.message)) {
+                    await MessageInterface.sendMessageSync({
+                        chatGuid: data.chatGuid,
+                        message: data.message,
+                        method: "apple-script",
+                        tempGuid: data.tempGuid,
+                        tokenId: data.tokenId
+                    });
+                }
+                break;
+            default:
+                throw new Error(`Unhandled queue item type: ${item.type}`);
+        }
+    }
+
+    /**
+     * Cleans up after an item is done being processed (sent or failed)
+     */
+    private cleanup(item: Queue) {
+        const { data } = (item.payload ?? {}) as QueueItem;
+        if (item.type !== "send-attachment" || !data) return;
+
+        Server().httpService.sendCache.remove(data.attachmentGuid);
+        Server().httpService.sendCache.remove(data.tempGuid);
+
+        // After 30 minutes, delete the attachment chunks
+        setTimeout(() => {
+            FileSystem.deleteChunks(data.attachmentGuid);
+        }, 1000 * 60 * 30);
+    }
+
+    private async purgeItems() {
+        try {
+            await Server()
+                .repo.queue()
+                .createQueryBuilder()
+                .delete()
+                .where("status IN (:...statuses)", { statuses: [QueueItemStatus.SENT, QueueItemStatus.FAILED] })
+                .andWhere("date_created < :before", { before: new Date().getTime() - QueueService.itemRetentionMs })
+                .execute();
+        } catch (ex: any) {
+            this.log.warn(`Failed to purge old queue items! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    /**
+     * Checks if an error is worth retrying.
+     * If iMessage reported an error (or we timed out waiting for the message),
+     * the message may have actually been sent, so we don't want to send a duplicate.
+     *
+     * @param ex The error that was thrown
+     */
+    static isTransientError(ex: any): boolean {
+        if (ex instanceof Message || ex instanceof MessagePromiseRejection) return false;
+        if (ex?.code === "ENOENT") return false;
+        return true;
+    }
+
+    static serialize(item: Queue) {
+        return {
+            id: item.id,
+            type: item.type,
+            tempGuid: isNotEmpty(item.tempGuid) ? item.tempGuid : null,
+            chatGuid: item.chatGuid,
+            status: item.status,
+            attempts: item.attempts,
+            error: item.error ?? null,
+            dateCreated: item.dateCreated,
+            lastAttemptAt: item.lastAttemptAt?.getTime() ?? null
+        };
+    }
 }
@@ -1,7 +1,13 @@
 import { Server } from "@server";
 import { ScheduledMessage } from "@server/databases/server/entity";
+import * as fs from "fs";
+import path from "path";
 import { MessageInterface } from "@server/api/interfaces/messageInterface";
+import { ChatInterface } from "@server/api/interfaces/chatInterface";
 import { SendMessageParams } from "@server/api/types";
+import { FileSystem } from "@server/fileSystem";
+import { generateUuid, isEmpty } from "@server/helpers/utils";
+import type { ValidRemoveTapback, ValidTapback } from "@server/types";
 import { FindOneOptions } from "typeorm";
 import {
     SCHEDULED_MESSAGE_CREATED,
@@ -11,7 +17,9 @@ import {
     SCHEDULED_MESSAGE_UPDATED
 } from "@server/events";
 import { Loggable } from "@server/lib/logging/Loggable";
+import { Metrics } from "@server/lib/metrics/Metrics";
 import { safeTimeout } from "@server/utils/TimeUtils";
+import { addZonedInterval, getLocalTimeZone, getNextCronDate, parseCronExpression } from "./scheduleUtils";
 
 /**
  * The possible states of a scheduled message
@@ -20,6 +28,7 @@ export enum ScheduledMessageStatus {
     PENDING = "pending",
     IN_PROGRESS = "in-progress",
     COMPLETE = "complete",
+    SKIPPED = "skipped",
     ERROR = "error"
 }
 
@@ -28,15 +37,30 @@ export enum ScheduledMessageStatus {
  * can perform
  */
 export enum ScheduledMessageType {
-    SEND_MESSAGE = "send-message"
+    SEND_MESSAGE = "send-message",
+    SEND_ATTACHMENT = "send-attachment",
+    SEND_MULTIPART = "send-multipart",
+    SEND_REACTION = "send-reaction",
+    RENAME_GROUP = "rename-group",
+    MARK_CHAT_READ = "mark-chat-read"
 }
 
+/**
+ * The scheduled message types that send something to the chat
+ */
+export const scheduledSendTypes: string[] = [
+    ScheduledMessageType.SEND_MESSAGE,
+    ScheduledMessageType.SEND_ATTACHMENT,
+    ScheduledMessageType.SEND_MULTIPART
+];
+
 /**
  * The possible schedule types for a scheduled message
  */
 export enum ScheduledMessageScheduleType {
     ONCE = "once",
-    RECURRING = "recurring"
+    RECURRING = "recurring",
+    CRON = "cron"
 }
 
 /**
@@ -51,6 +75,88 @@ export enum ScheduledMessageScheduleRecurringType {
     YEARLY = "yearly"
 }
 
+/**
+ * The possible conditions for skipping a scheduled message
+ */
+export enum ScheduledMessageSkipIfType {
+    // Skip if I've sent a message to the chat in the last N hours
+    MESSAGE_FROM_ME_WITHIN = "message-from-me-within"
+}
+
+/**
+ * The schedule configuration for a scheduled message
+ */
+export type ScheduledMessageSchedule = {
+    type: ScheduledMessageScheduleType;
+    // Recurring schedules
+    intervalType?: string;
+    interval?: number;
+    // Cron schedules
+    expression?: string;
+    // The IANA time zone the schedule is in, so DST changes don't shift sends
+    timeZone?: string;
+    // When to stop repeating (epoch ms), and/or how many times to repeat
+    endDate?: number;
+    maxOccurrences?: number;
+    // The number of times the schedule has occurred (managed by the server)
+    occurrences?: number;
+    skipIf?: {
+        type: ScheduledMessageSkipIfType;
+        hours: number;
+    };
+};
+
+/**
+ * The payload for sending an attachment that was uploaded
+ * beforehand (using the /attachment/upload endpoint)
+ */
+export type ScheduledAttachmentPayload = {
+    chatGuid: string;
+    // The hash returned by the upload endpoint
+    attachment: string;
+    name: string;
+    method?: string;
+    isAudioMessage?: boolean;
+    subject?: string;
+    effectId?: string;
+};
+
+/**
+ * The payload for sending a multipart message. Attachment parts
+ * must be uploaded beforehand (using the /attachment/upload endpoint)
+ */
+export type ScheduledMultipartPayload = {
+    chatGuid: string;
+    parts: Record<string, any>[];
+    subject?: string;
+    effectId?: string;
+    ddScan?: boolean;
+};
+
+export type ScheduledReactionPayload = {
+    chatGuid: string;
+    selectedMessageGuid: string;
+    reaction: ValidTapback | ValidRemoveTapback;
+    partIndex?: number;
+};
+
+export type ScheduledRenameGroupPayload = {
+    chatGuid: string;
+    displayName: string;
+};
+
+export type ScheduledMarkChatReadPayload = {
+    chatGuid: string;
+};
+
+export type ScheduledMessagePayload =
+    | SendMessageParams
+    | ScheduledAttachmentPayload
+    | ScheduledMultipartPayload
+    | ScheduledReactionPayload
+    | ScheduledRenameGroupPayload
+    | ScheduledMarkChatReadPayload;
+
 /**
  * Service that manages scheduled messages
  */
@@ -263,7 +369,10 @@ export class ScheduledMessagesService extends Loggable {
             return this.handleInterruptedMessage(scheduledMessage);
         }
 
-        if (scheduledMessage.status === ScheduledMessageStatus.COMPLETE) {
+        if (
+            scheduledMessage.status === ScheduledMessageStatus.COMPLETE ||
+            scheduledMessage.status === ScheduledMessageStatus.SKIPPED
+        ) {
             this.tryReschedule(scheduledMessage);
             return;
         }
@@ -299,6 +408,7 @@ export class ScheduledMessagesService extends Loggable {
      * @param scheduledMessage The message to expire
      */
     async handleExpiredMessage(scheduledMessage: ScheduledMessage): Promise<void> {
+        Metrics.scheduledMessages.inc({ type: scheduledMessage.type, outcome: "expired" });
         await this.setScheduledMessageError(
             scheduledMessage,
             "Message expired before it could be sent. Or the server was not online at the time."
@@ -351,20 +461,44 @@ export class ScheduledMessagesService extends Loggable {
             this.removeTimer(scheduledMessage.id);
         }
 
-        // If it's a recurring message, schedule it again
-        const isRecurring = scheduledMessage.schedule.type === ScheduledMessageScheduleType.RECURRING;
-        if (isRecurring) {
-            if (recalc) {
-                scheduledMessage.scheduledFor = this.getNextRecurringDate(scheduledMessage);
-            }
-
-            this.log.info(`Rescheduling: ${scheduledMessage.toString()}`);
-            scheduledMessage.status = ScheduledMessageStatus.PENDING;
-            await this.scheduleMessage(scheduledMessage);
-            return true;
+        // If it's a recurring message, schedule it again (unless it has ended)
+        if (!this.isRepeating(scheduledMessage)) return false;
+        if (recalc) {
+            const nextDate = this.getNextOccurrence(scheduledMessage);
+            if (!nextDate) return false;
+            scheduledMessage.scheduledFor = nextDate;
         }
 
-        return false;
+        this.log.info(`Rescheduling: ${scheduledMessage.toString()}`);
+        scheduledMessage.status = ScheduledMessageStatus.PENDING;
+        await this.scheduleMessage(scheduledMessage);
+        return true;
+    }
+
+    /**
+     * Checks if a scheduled message has a recurring (or cron) schedule.
+     *
+     * @param scheduledMessage The scheduled message to check
+     */
+    isRepeating(scheduledMessage: ScheduledMessage): boolean {
+        const type = scheduledMessage.schedule?.type;
+        return type === ScheduledMessageScheduleType.RECURRING || type === ScheduledMessageScheduleType.CRON;
+    }
+
+    /**
+     * Gets the next date for a recurring message, taking the
+     * end date & max number of occurrences into account.
+     *
+     * @param scheduledMessage The scheduled message
+     * @returns A future date, or null if the schedule has ended
+     */
+    getNextOccurrence(scheduledMessage: ScheduledMessage): Date | null {
+        const { maxOccurrences, occurrences, endDate } = scheduledMessage.schedule;
+        if (maxOccurrences && (occurrences ?? 0) >= maxOccurrences) return null;
+
+        const nextDate = this.getNextRecurringDate(scheduledMessage);
+        if (endDate && nextDate.getTime() > endDate) return null;
+        return nextDate;
     }
 
     /**
@@ -374,13 +508,37 @@ export class ScheduledMessagesService extends Loggable {
      * @returns A future date
      */
     getNextRecurringDate(scheduledMessage: ScheduledMessage): Date {
-        if (scheduledMessage.schedule.type !== ScheduledMessageScheduleType.RECURRING) {
+        const { schedule } = scheduledMessage;
+        if (schedule.type === ScheduledMessageScheduleType.CRON) {
+            const after = Math.max(new Date().getTime(), scheduledMessage.scheduledFor.getTime());
+            const nextDate = getNextCronDate(
+                parseCronExpression(schedule.expression),
+                new Date(after),
+                schedule.timeZone ?? getLocalTimeZone()
+            );
+
+            if (!nextDate) throw new Error("Invalid schedule! The cron expression never matches.");
+            return nextDate;
+        }
+
+        if (schedule.type !== ScheduledMessageScheduleType.RECURRING) {
             throw new Error('Schedule must be of type "recurring" to get the next date!');
         }
 
+        // With a time zone, add calendar units so that the wall-clock time stays the same across DST changes
+        if (schedule.timeZone) {
+            const nowTime = new Date().getTime();
+            let nextDate = scheduledMessage.scheduledFor;
+            do {
+                nextDate = addZonedInterval(nextDate, schedule.timeZone, schedule.intervalType, schedule.interval);
+            } while (nextDate.getTime() < nowTime);
+
+            return nextDate;
+        }
+
         let nowTime = new Date().getTime();
         const previousTime = scheduledMessage.scheduledFor.getTime();
-        const nextTs = this.getMillisecondsForSchedule(scheduledMessage.schedule);
+        const nextTs = this.getMillisecondsForSchedule(schedule);
         if (nextTs === 0) {
             throw new Error("Invalid schedule! Next schedule would have been 0 ms in the future.");
         }
@@ -426,6 +584,36 @@ export class ScheduledMessagesService extends Loggable {
         }
     }
 
+    /**
+     * Checks if a scheduled message should be skipped, based on its' skip-if condition.
+     *
+     * @param scheduledMessage The scheduled message to check
+     * @returns The reason to skip the message, or null if it should be sent
+     */
+    async getSkipReason(scheduledMessage: ScheduledMessage): Promise<string | null> {
+        const skipIf = scheduledMessage.schedule.skipIf;
+        if (!skipIf || !scheduledSendTypes.includes(scheduledMessage.type)) return null;
+
+        try {
+            if (skipIf.type === ScheduledMessageSkipIfType.MESSAGE_FROM_ME_WITHIN) {
+                const after = new Date(new Date().getTime() - skipIf.hours * 60 * 60 * 1000);
+                const [messages, _] = await Server().iMessageRepo.getMessages({
+                    chatGuid: scheduledMessage.payload.chatGuid,
+                    after,
+                    limit: 1,
+                    withAttachments: false,
+                    where: [{ statement: "message.is_from_me = 1", args: {} }]
+                });
+
+                if (messages.length > 0) return `A message was sent to the chat in the last ${skipIf.hours} hour(s)`;
+            }
+        } catch (ex: any) {
+            this.log.warn(`Failed to check skip condition, sending anyways: ${ex?.message ?? String(ex)}`);
+        }
+
+        return null;
+    }
+
     /**
      * Sends a scheduled message.
      *
@@ -436,10 +624,15 @@ export class ScheduledMessagesService extends Loggable {
 
         // Set the status to in-progress
         scheduledMessage.status = ScheduledMessageStatus.IN_PROGRESS;
+        const skipReason = await this.getSkipReason(scheduledMessage);
 
         // Calculate the next schedule time (for recurring only)
-        if (scheduledMessage.schedule.type === ScheduledMessageScheduleType.RECURRING) {
-            scheduledMessage.scheduledFor = this.getNextRecurringDate(scheduledMessage);
+        let nextDate: Date = null;
+        if (this.isRepeating(scheduledMessage)) {
+            const occurrences = (scheduledMessage.schedule.occurrences ?? 0) + 1;
+            scheduledMessage.schedule = { ...scheduledMessage.schedule, occurrences };
+            nextDate = this.getNextOccurrence(scheduledMessage);
+            if (nextDate) scheduledMessage.scheduledFor = nextDate;
         }
 
         // Save the updated information
@@ -447,40 +640,131 @@ export class ScheduledMessagesService extends Loggable {
 
         // Inject the method based on if it's not already provided,
         // or if the private api is enabled on the server & connected.
-        if (!scheduledMessage.payload.method) {
+        const hasMethod = [ScheduledMessageType.SEND_MESSAGE, ScheduledMessageType.SEND_ATTACHMENT] as string[];
+        if (hasMethod.includes(scheduledMessage.type) && !scheduledMessage.payload.method) {
             const papiEnabled = Server().repo.getConfig("enable_private_api") as boolean;
             scheduledMessage.payload.method =
                 papiEnabled && !!Server().privateApi.helper ? "private-api" : "apple-script";
         }
 
-        // Send the message
-        try {
-            if (scheduledMessage.type === ScheduledMessageType.SEND_MESSAGE) {
-                await MessageInterface.sendMessageSync({ ...(scheduledMessage.payload as SendMessageParams) });
-            }
-
-            scheduledMessage.sentAt = new Date();
-            this.notifySuccess(scheduledMessage);
-        } catch (ex: any) {
-            this.log.info(`Failed to send scheduled message: ${ex?.message ?? String(ex)}`);
-            scheduledMessage.status = ScheduledMessageStatus.ERROR;
-            scheduledMessage.error = String(ex);
-
-            this.notifyError(scheduledMessage);
-        } finally {
-            if (scheduledMessage.status !== ScheduledMessageStatus.ERROR) {
-                scheduledMessage.status = ScheduledMessageStatus.COMPLETE;
+        if (skipReason) {
+            this.log.info(`Skipping: ${skipReason}`);
+            scheduledMessage.status = ScheduledMessageStatus.SKIPPED;
+            scheduledMessage.error = null;
+            Metrics.scheduledMessages.inc({ type: scheduledMessage.type, outcome: "skipped" });
+        } else {
+            // Send the message
+            try {
+                await this.performAction(scheduledMessage);
+
+                scheduledMessage.sentAt = new Date();
+                scheduledMessage.error = null;
+                Metrics.scheduledMessages.inc({ type: scheduledMessage.type, outcome: "sent" });
+                this.notifySuccess(scheduledMessage);
+            } catch (ex: any) {
+                this.log.info(`Failed to send scheduled message: ${ex?.message ?? String(ex)}`);
+                scheduledMessage.status = ScheduledMessageStatus.ERROR;
+                scheduledMessage.error = String(ex);
+                Metrics.scheduledMessages.inc({ type: scheduledMessage.type, outcome: "error" });
+
+                this.notifyError(scheduledMessage);
+            } finally {
+                if (scheduledMessage.status !== ScheduledMessageStatus.ERROR) {
+                    scheduledMessage.status = ScheduledMessageStatus.COMPLETE;
+                }
             }
         }
 
         // Don't recalculate because we already did it above,
-        // before the action was taken.
-        await this.tryReschedule(scheduledMessage, true, false);
+        // before the action was taken. If there is no next date, the schedule has ended.
+        if (nextDate) {
+            await this.tryReschedule(scheduledMessage, true, false);
+        } else {
+            this.removeTimer(scheduledMessage.id);
+        }
 
         // Save the message
         await this.saveScheduledMessage(scheduledMessage);
     }
 
+    /**
+     * Performs the action for a scheduled message, based on its' type.
+     *
+     * @param scheduledMessage The scheduled message to perform
+     */
+    async performAction(scheduledMessage: ScheduledMessage): Promise<void> {
+        const payload = scheduledMessage.payload;
+        switch (scheduledMessage.type) {
+            case ScheduledMessageType.SEND_MESSAGE:
+                await MessageInterface.sendMessageSync({ ...(payload as SendMessageParams) });
+                break;
+            case ScheduledMessageType.SEND_ATTACHMENT: {
+                const { chatGuid, attachment, name, method, isAudioMessage, subject, effectId } =
+                    payload as ScheduledAttachmentPayload;
+
+                // The upload is copied when sending, so it's still available for the next occurrence
+                await MessageInterface.sendAttachmentSync({
+                    chatGuid,
+                    attachmentPath: path.join(FileSystem.messagesAttachmentsDir, attachment),
+                    attachmentName: name,
+                    method,
+                    isAudioMessage,
+                    subject,
+                    effectId
+                });
+                break;
+            }
+            case ScheduledMessageType.SEND_MULTIPART: {
+                const { chatGuid, parts, subject, effectId, ddScan } = payload as ScheduledMultipartPayload;
+
+                // Sending a multipart message deletes the uploads, so send copies of them instead.
+                // That way, they are still available for the next occurrence.
+                const copyPaths: string[] = [];
+                try {
+                    const partCopies = parts.map(part => {
+                        if (!part.attachment) return { ...part };
+
+                        const copyName = `${part.attachment}-${generateUuid()}`;
+                        const copyPath = path.join(FileSystem.messagesAttachmentsDir, copyName);
+                        fs.copyFileSync(path.join(FileSystem.messagesAttachmentsDir, part.attachment), copyPath);
+                        copyPaths.push(copyPath);
+
+                        return { ...part, attachment: copyName };
+                    });
+
+                    await MessageInterface.sendMultipart({ chatGuid, parts: partCopies, subject, effectId, ddScan });
+                } finally {
+                    // sendMultipart deletes the copies it uses, so this only removes the ones left over from a failure
+                    for (const copyPath of copyPaths) {
+                        if (fs.existsSync(copyPath)) fs.unlinkSync(copyPath);
+                    }
+                }
+                break;
+            }
+            case ScheduledMessageType.SEND_REACTION: {
+                const { chatGuid, selectedMessageGuid, reaction, partIndex } = payload as ScheduledReactionPayload;
+                const message = await Server().iMessageRepo.getMessage(selectedMessageGuid, false, true);
+                if (!message) throw new Error("Selected message does not exist!");
+
+                await MessageInterface.sendReaction({ chatGuid, message, reaction, partIndex });
+                break;
+            }
+            case ScheduledMessageType.RENAME_GROUP: {
+                const { chatGuid, displayName } = payload as ScheduledRenameGroupPayload;
+                const [chats, _] = await Server().iMessageRepo.getChats({ chatGuid, withParticipants: true });
+                if (isEmpty(chats)) throw new Error("Chat does not exist!");
+
+                await ChatInterface.setDisplayName(chats[0], displayName);
+                break;
+            }
+            case ScheduledMessageType.MARK_CHAT_READ:
+                await ChatInterface.markRead((payload as ScheduledMarkChatReadPayload).chatGuid);
+                break;
+            default:
+                throw new Error(`Unhandled scheduled message type: ${scheduledMessage.type}`);
+        }
+    }
+
     /**
      * Starts the scheduled message service.
      */
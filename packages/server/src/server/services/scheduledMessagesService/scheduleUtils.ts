@@ -0,0 +1,300 @@
+const dayMs = 24 * 60 * 60 * 1000;
+
+// How far ahead we look for the next cron match before giving up
+const maxCronSearchDays = 366 * 5;
+
+const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+const dayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+export type ZonedParts = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+};
+
+/**
+ * A parsed cron expression (minute, hour, day of month, month, day of week).
+ *
+ * On top of the standard syntax, the day of month field supports `L` (the last day of the month)
+ * and `LW` (the last weekday of the month), and the day of week field supports `<day>L`
+ * (i.e. `5L` or `FRIL` for the last Friday of the month).
+ */
+export type CronSchedule = {
+    minutes: number[];
+    hours: number[];
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    lastDay: boolean;
+    lastWeekday: boolean;
+    lastWeekdays: Set<number>;
+    dayRestricted: boolean;
+    weekdayRestricted: boolean;
+};
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    if (!formatters[timeZone]) {
+        formatters[timeZone] = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric"
+        });
+    }
+
+    return formatters[timeZone];
+};
+
+/**
+ * Gets the time zone the server is running in
+ */
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Gets the wall-clock time for a date, in a time zone
+ *
+ * @param date The date to convert
+ * @param timeZone The IANA time zone (i.e. America/New_York)
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        if (part.type !== "literal") parts[part.type] = Number.parseInt(part.value, 10);
+    }
+
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour % 24,
+        minute: parts.minute,
+        second: parts.second
+    };
+};
+
+const partsToWallTime = (parts: ZonedParts): number =>
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+const getOffsetMs = (timestamp: number, timeZone: string): number => {
+    const rounded = Math.floor(timestamp / 1000) * 1000;
+    return partsToWallTime(getZonedParts(new Date(rounded), timeZone)) - rounded;
+};
+
+/**
+ * Converts a wall-clock time in a time zone to a UTC timestamp.
+ * Times that don't exist (skipped by DST) are moved forward by the DST shift (i.e. 2:30 AM -> 3:30 AM).
+ * Times that happen twice (repeated by DST) resolve to the first occurrence.
+ *
+ * @param wallTime The wall-clock time, as if it were UTC (i.e. from Date.UTC)
+ * @param timeZone The IANA time zone
+ */
+export const zonedTimeToUtc = (wallTime: number, timeZone: string): number => {
+    // The offsets either side of the time (a DST change happens at most once in that window)
+    const offsetBefore = getOffsetMs(wallTime - dayMs, timeZone);
+    const offsetAfter = getOffsetMs(wallTime + dayMs, timeZone);
+
+    // A candidate is only valid if it maps back to the same wall-clock time
+    const candidates = [wallTime - offsetBefore, wallTime - offsetAfter].filter(
+        utc => getOffsetMs(utc, timeZone) === wallTime - utc
+    );
+    if (candidates.length > 0) return Math.min(...candidates);
+
+    // The time was skipped, so keep the offset from before the change, which moves it forward
+    return wallTime - offsetBefore;
+};
+
+/**
+ * Adds a calendar interval to a date, keeping the same wall-clock time in the time zone,
+ * so that DST changes don't shift the time.
+ *
+ * @param date The date to add to
+ * @param timeZone The IANA time zone
+ * @param intervalType The unit (hourly, daily, weekly, monthly, or yearly)
+ * @param interval The number of units to add
+ */
+export const addZonedInterval = (date: Date, timeZone: string, intervalType: string, interval: number): Date => {
+    if (intervalType === "hourly") return new Date(date.getTime() + interval * 60 * 60 * 1000);
+
+    const parts = getZonedParts(date, timeZone);
+    if (intervalType === "daily") {
+        parts.day += interval;
+    } else if (intervalType === "weekly") {
+        parts.day += interval * 7;
+    } else if (intervalType === "monthly" || intervalType === "yearly") {
+        const months = parts.month - 1 + (intervalType === "monthly" ? interval : interval * 12);
+        parts.year += Math.floor(months / 12);
+        parts.month = (months % 12) + 1;
+
+        // Don't overflow into the next month (i.e. Jan 31st -> Feb 28th)
+        const daysInMonth = new Date(Date.UTC(parts.year, parts.month, 0)).getUTCDate();
+        parts.day = Math.min(parts.day, daysInMonth);
+    } else {
+        throw new Error(`Invalid interval type: ${intervalType}`);
+    }
+
+    return new Date(zonedTimeToUtc(partsToWallTime(parts), timeZone));
+};
+
+const parseCronValue = (value: string, names: string[] | null, nameOffset: number): number => {
+    const upper = value.toUpperCase();
+    if (names && names.includes(upper)) return names.indexOf(upper) + nameOffset;
+    if (!/^\d+$/.test(value)) throw new Error(`Invalid cron value: ${value}`);
+    return Number.parseInt(value, 10);
+};
+
+const parseCronField = (
+    field: string,
+    min: number,
+    max: number,
+    names: string[] | null = null,
+    nameOffset = 0
+): Set<number> => {
+    const output = new Set<number>();
+    for (const part of field.split(",")) {
+        const [range, stepStr] = part.split("/");
+        const step = stepStr != null ? parseCronValue(stepStr, null, 0) : 1;
+        if (step < 1) throw new Error(`Invalid cron step: ${part}`);
+
+        let start = min;
+        let end = max;
+        if (range !== "*" && range !== "?") {
+            const [startStr, endStr] = range.split("-");
+            start = parseCronValue(startStr, names, nameOffset);
+            end = endStr != null ? parseCronValue(endStr, names, nameOffset) : stepStr != null ? max : start;
+        }
+
+        if (start < min || end > max || start > end) {
+            throw new Error(`Cron value out of range (${min}-${max}): ${part}`);
+        }
+
+        for (let i = start; i <= end; i += step) {
+            output.add(i);
+        }
+    }
+
+    return output;
+};
+
+/**
+ * Parses a 5 field cron expression (minute, hour, day of month, month, day of week)
+ *
+ * @param expression The cron expression
+ * @throws An error if the expression is invalid
+ */
+export const parseCronExpression = (expression: string): CronSchedule => {
+    const fields = (expression ?? "").trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error("Cron expression must have 5 fields (minute, hour, day of month, month, day of week)");
+    }
+
+    const [minuteField, hourField, dayField, monthField, weekdayField] = fields;
+
+    // Pull out the "last" tokens, since they aren't a fixed set of days
+    let lastDay = false;
+    let lastWeekday = false;
+    const dayParts = dayField.split(",").filter(part => {
+        const upper = part.toUpperCase();
+        if (upper === "L") lastDay = true;
+        if (upper === "LW") lastWeekday = true;
+        return upper !== "L" && upper !== "LW";
+    });
+
+    const lastWeekdays = new Set<number>();
+    const weekdayParts = weekdayField.split(",").filter(part => {
+        const match = part.toUpperCase().match(/^([0-7]|SUN|MON|TUE|WED|THU|FRI|SAT)L$/);
+        if (match) lastWeekdays.add(parseCronValue(match[1], dayNames, 0) % 7);
+        return !match;
+    });
+
+    const weekdays = new Set(
+        [...(weekdayParts.length > 0 ? parseCronField(weekdayParts.join(","), 0, 7, dayNames) : [])].map(i => i % 7)
+    );
+
+    return {
+        minutes: [...parseCronField(minuteField, 0, 59)].sort((a, b) => a - b),
+        hours: [...parseCronField(hourField, 0, 23)].sort((a, b) => a - b),
+        days: dayParts.length > 0 ? parseCronField(dayParts.join(","), 1, 31) : new Set(),
+        months: parseCronField(monthField, 1, 12, monthNames, 1),
+        weekdays,
+        lastDay,
+        lastWeekday,
+        lastWeekdays,
+        dayRestricted: dayField !== "*" && dayField !== "?",
+        weekdayRestricted: weekdayField !== "*" && weekdayField !== "?"
+    };
+};
+
+const cronMatchesDay = (cron: CronSchedule, year: number, month: number, day: number): boolean => {
+    if (!cron.months.has(month)) return false;
+
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+    let lastWeekdayOfMonth = daysInMonth;
+    const lastDayWeekday = new Date(Date.UTC(year, month - 1, daysInMonth)).getUTCDay();
+    if (lastDayWeekday === 6) lastWeekdayOfMonth -= 1;
+    if (lastDayWeekday === 0) lastWeekdayOfMonth -= 2;
+
+    const dayMatch =
+        cron.days.has(day) || (cron.lastDay && day === daysInMonth) || (cron.lastWeekday && day === lastWeekdayOfMonth);
+    const weekdayMatch = cron.weekdays.has(weekday) || (cron.lastWeekdays.has(weekday) && day + 7 > daysInMonth);
+
+    // Same as standard cron, if both are restricted, either can match
+    if (cron.dayRestricted && cron.weekdayRestricted) return dayMatch || weekdayMatch;
+    if (cron.dayRestricted) return dayMatch;
+    if (cron.weekdayRestricted) return weekdayMatch;
+    return true;
+};
+
+/**
+ * Gets the next time (after the given date) that matches a cron schedule, in a time zone
+ *
+ * @param cron The parsed cron expression
+ * @param after The date to start searching after
+ * @param timeZone The IANA time zone the expression is in
+ * @returns The next date, or null if there isn't one in the next 5 years
+ */
+export const getNextCronDate = (cron: CronSchedule, after: Date, timeZone: string): Date | null => {
+    const start = getZonedParts(after, timeZone);
+
+    // Skip any times that are well before the start, leaving room for a DST shift
+    const minWallTime = partsToWallTime(start) - 3 * 60 * 60 * 1000;
+
+    let day = Date.UTC(start.year, start.month - 1, start.day);
+    for (let i = 0; i < maxCronSearchDays; i += 1, day += dayMs) {
+        const date = new Date(day);
+        const [year, month, dayOfMonth] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+        if (!cronMatchesDay(cron, year, month, dayOfMonth)) continue;
+
+        for (const hour of cron.hours) {
+            for (const minute of cron.minutes) {
+                const wallTime = Date.UTC(year, month - 1, dayOfMonth, hour, minute);
+                if (wallTime < minWallTime) continue;
+
+                const candidate = zonedTimeToUtc(wallTime, timeZone);
+                if (candidate > after.getTime()) return new Date(candidate);
+            }
+        }
+    }
+
+    return null;
+};
@@ -1,34 +1,291 @@
 import axios from "axios";
+import { createHmac } from "crypto";
+import { v4 } from "uuid";
 import { Server } from "@server";
 import { Loggable } from "@server/lib/logging/Loggable";
+import { ScheduledService } from "@server/lib/ScheduledService";
+import { Metrics } from "@server/lib/metrics/Metrics";
+import { Webhook, WebhookDelivery } from "@server/databases/server/entity";
+import { generateRandomString } from "@server/utils/CryptoUtils";
 
 export type WebhookEvent = {
     type: string;
     data: any;
 };
 
+export enum WebhookDeliveryStatus {
+    PENDING = "pending",
+    DELIVERED = "delivered",
+    FAILED = "failed"
+}
+
 /**
- * Handles dispatching webhooks
+ * Handles dispatching webhooks.
+ *
+ * Events are persisted to the server DB as deliveries, so that they survive restarts,
+ * and are retried with an exponential backoff until they succeed, or run out of attempts.
  */
 export class WebhookService extends Loggable {
     tag = "WebhookService";
 
+    // The max number of times to attempt a delivery before marking it as failed
+    static maxAttempts = 8;
+
+    // The backoff starts at 30 seconds, doubling each attempt, up to 1 hour
+    static baseRetryDelayMs = 30 * 1000;
+
+    static maxRetryDelayMs = 60 * 60 * 1000;
+
+    static requestTimeoutMs = 30 * 1000;
+
+    // Deliveries older than 7 days are purged
+    static deliveryRetentionMs = 7 * 24 * 60 * 60 * 1000;
+
+    // The max number of due deliveries to process per webhook, per tick
+    static batchSize = 50;
+
+    retryService: ScheduledService;
+
+    purgeService: ScheduledService;
+
+    // The IDs of the webhooks that currently have deliveries being sent
+    activeWebhooks: Set<number> = new Set();
+
+    start() {
+        this.stop();
+
+        // Every 10 seconds, check for deliveries that are due
+        this.retryService = new ScheduledService(() => {
+            this.processDeliveries();
+        }, 1000 * 10);
+
+        // Every 6 hours, purge old deliveries
+        this.purgeService = new ScheduledService(() => {
+            this.purgeDeliveries();
+        }, 1000 * 60 * 60 * 6);
+
+        // Pick up anything left over from the last run
+        this.processDeliveries();
+    }
+
+    stop() {
+        this.retryService?.stop();
+        this.purgeService?.stop();
+    }
+
     async dispatch(event: WebhookEvent) {
-        const webhooks = await Server().repo.getWebhooks();
-        for (const i of webhooks) {
-            const eventTypes = JSON.parse(i.events) as Array<string>;
-            if (!eventTypes.includes("*") && !eventTypes.includes(event.type)) continue;
-            this.log.debug(`Dispatching event to webhook: ${i.url}`);
+        // This isn't awaited by the callers, so it can't throw
+        try {
+            const webhooks = await Server().repo.getWebhooks();
+            const eventId = v4();
+            const repo = Server().repo.webhookDeliveries();
+
+            let queued = 0;
+            for (const i of webhooks) {
+                const eventTypes = JSON.parse(i.events) as Array<string>;
+                if (!eventTypes.includes("*") && !eventTypes.includes(event.type)) continue;
+                this.log.debug(`Queueing event for webhook: ${i.url}`);
+
+                try {
+                    await repo.save(
+                        repo.create({
+                            webhookId: i.id,
+                            eventId,
+                            eventType: event.type,
+                            payload: event,
+                            status: WebhookDeliveryStatus.PENDING,
+                            attempts: 0,
+                            nextAttemptAt: new Date()
+                        })
+                    );
+
+                    queued += 1;
+                } catch (ex: any) {
+                    this.log.warn(`Failed to queue event for webhook: ${i.url}`);
+                    this.log.debug(ex?.message ?? String(ex));
+                }
+            }
 
             // We don't need to await this
-            this.sendPost(i.url, event).catch(ex => {
-                this.log.warn(`Failed to dispatch event to webhook: ${i.url}`);
-                this.log.debug(ex?.message ?? String(ex));
+            if (queued > 0) this.processDeliveries();
+        } catch (ex: any) {
+            this.log.error(`Failed to dispatch event (Type: ${event?.type}) to webhooks! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    /**
+     * Resets a delivery so that it is re-sent as soon as possible.
+     * The event ID is kept the same so that consumers can de-duplicate it.
+     *
+     * @param id The ID of the delivery to re-send
+     */
+    async redeliver(id: number): Promise<WebhookDelivery> {
+        const repo = Server().repo.webhookDeliveries();
+        const delivery = await repo.findOneBy({ id });
+        if (!delivery) throw new Error("Webhook delivery does not exist!");
+
+        delivery.status = WebhookDeliveryStatus.PENDING;
+        delivery.attempts = 0;
+        delivery.error = null;
+        delivery.nextAttemptAt = new Date();
+        await repo.save(delivery);
+
+        this.processDeliveries();
+        return delivery;
+    }
+
+    /**
+     * Sends all the deliveries that are due to be sent.
+     * Each webhook is processed as its own queue, so a slow or dead endpoint doesn't hold up the others.
+     */
+    async processDeliveries() {
+        try {
+            const due = await Server()
+                .repo.webhookDeliveries()
+                .createQueryBuilder("delivery")
+                .select("DISTINCT delivery.webhook_id", "webhookId")
+                .where("delivery.status = :status", { status: WebhookDeliveryStatus.PENDING })
+                .andWhere("delivery.next_attempt_at <= :now", { now: new Date().getTime() })
+                .getRawMany();
+
+            const webhooks: Record<number, Webhook> = {};
+            for (const i of await Server().repo.getWebhooks()) {
+                webhooks[i.id] = i;
+            }
+
+            await Promise.all(
+                due.map(({ webhookId }) => this.processWebhookDeliveries(Number(webhookId), webhooks[webhookId]))
+            );
+        } catch (ex: any) {
+            this.log.error(`Failed to process webhook deliveries! ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    /**
+     * Sends the deliveries for a single webhook, in order.
+     * If a delivery fails (and will be retried), the deliveries after it wait for it,
+     * so the consumer never receives events out of order.
+     *
+     * @param webhookId The ID of the webhook
+     * @param webhook The webhook (or null if it has been deleted)
+     */
+    private async processWebhookDeliveries(webhookId: number, webhook: Webhook | null) {
+        if (this.activeWebhooks.has(webhookId)) return;
+        this.activeWebhooks.add(webhookId);
+
+        try {
+            const pending = await Server()
+                .repo.webhookDeliveries()
+                .createQueryBuilder("delivery")
+                .where("delivery.webhook_id = :webhookId", { webhookId })
+                .andWhere("delivery.status = :status", { status: WebhookDeliveryStatus.PENDING })
+                .orderBy("delivery.id", "ASC")
+                .limit(WebhookService.batchSize)
+                .getMany();
+
+            for (const delivery of pending) {
+                // The oldest delivery is waiting to be retried, so everything after it has to wait too
+                if (delivery.nextAttemptAt && delivery.nextAttemptAt.getTime() > new Date().getTime()) break;
+
+                await this.attemptDelivery(delivery, webhook ?? null);
+                if (delivery.status === WebhookDeliveryStatus.PENDING) break;
+            }
+        } catch (ex: any) {
+            this.log.error(`Failed to process deliveries for webhook ${webhookId}! ${ex?.message ?? String(ex)}`);
+        } finally {
+            this.activeWebhooks.delete(webhookId);
+        }
+    }
+
+    private async attemptDelivery(delivery: WebhookDelivery, webhook: Webhook | null) {
+        const repo = Server().repo.webhookDeliveries();
+
+        // If the webhook has since been deleted, there's nowhere to send it
+        if (!webhook) {
+            delivery.status = WebhookDeliveryStatus.FAILED;
+            delivery.error = "Webhook no longer exists";
+            delivery.nextAttemptAt = null;
+            await repo.save(delivery);
+            Metrics.webhookDeliveries.inc({ result: "failed" });
+            return;
+        }
+
+        // Webhooks created before signing was added won't have a secret yet
+        if (!webhook.secret) {
+            webhook.secret = generateRandomString(64);
+            await Server().repo.webhooks().update(webhook.id, { secret: webhook.secret });
+        }
+
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = String(Math.floor(new Date().getTime() / 1000));
+        const signature = createHmac("sha256", webhook.secret).update(`${timestamp}.${body}`).digest("hex");
+
+        delivery.attempts += 1;
+        delivery.lastAttemptAt = new Date();
+
+        const start = new Date().getTime();
+        try {
+            const res = await axios.post(webhook.url, body, {
+                timeout: WebhookService.requestTimeoutMs,
+                headers: {
+                    "Content-Type": "application/json",
+                    "Idempotency-Key": delivery.eventId,
+                    "X-BlueBubbles-Event-Id": delivery.eventId,
+                    "X-BlueBubbles-Event-Type": delivery.eventType,
+                    "X-BlueBubbles-Delivery-Id": String(delivery.id),
+                    "X-BlueBubbles-Delivery-Attempt": String(delivery.attempts),
+                    "X-BlueBubbles-Timestamp": timestamp,
+                    "X-BlueBubbles-Signature": `sha256=${signature}`
+                }
             });
+
+            delivery.status = WebhookDeliveryStatus.DELIVERED;
+            delivery.statusCode = res.status;
+            delivery.error = null;
+            delivery.nextAttemptAt = null;
+        } catch (ex: any) {
+            delivery.statusCode = ex?.response?.status ?? null;
+            delivery.error = ex?.message ?? String(ex);
+
+            if (delivery.attempts >= WebhookService.maxAttempts) {
+                this.log.warn(`Giving up on webhook delivery after ${delivery.attempts} attempts: ${webhook.url}`);
+                delivery.status = WebhookDeliveryStatus.FAILED;
+                delivery.nextAttemptAt = null;
+            } else {
+                const delay = Math.min(
+                    WebhookService.baseRetryDelayMs * 2 ** (delivery.attempts - 1),
+                    WebhookService.maxRetryDelayMs
+                );
+
+                this.log.debug(`Failed to dispatch event to webhook: ${webhook.url}. Retrying in ${delay / 1000}s`);
+                delivery.nextAttemptAt = new Date(new Date().getTime() + delay);
+            }
         }
+
+        delivery.latencyMs = new Date().getTime() - start;
+        await repo.save(delivery);
+
+        // Pending deliveries are going to be retried
+        const result = delivery.status === WebhookDeliveryStatus.PENDING ? "retrying" : delivery.status;
+        Metrics.webhookDeliveries.inc({ result });
     }
 
-    private async sendPost(url: string, event: WebhookEvent) {
-        return await axios.post(url, event, { headers: { "Content-Type": "application/json" } });
+    private async purgeDeliveries() {
+        // Deliveries that were never attempted (i.e. the webhook was deleted) fall back to when they were created
+        const before = new Date().getTime() - WebhookService.deliveryRetentionMs;
+        try {
+            await Server()
+                .repo.webhookDeliveries()
+                .createQueryBuilder()
+                .delete()
+                .where("status != :status", { status: WebhookDeliveryStatus.PENDING })
+                .andWhere("(last_attempt_at < :before OR (last_attempt_at IS NULL AND created < :createdBefore))", {
+                    before,
+                    createdBefore: new Date(before)
+                })
+                .execute();
+        } catch (ex: any) {
+            this.log.warn(`Failed to purge old webhook deliveries! ${ex?.message ?? String(ex)}`);
+        }
     }
 }
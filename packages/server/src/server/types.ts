@@ -12,6 +12,8 @@ export type ServerMetadataResponse = {
     macos_time_sync: number | null;
     local_ipv4s: string[];
     local_ipv6s: string[];
+    // The encryption protocol versions the server supports
+    encryption_versions: number[];
 };
 
 /**
@@ -74,6 +76,54 @@ export type MessageResponse = {
     didNotifyRecipient?: boolean;
     shareStatus?: number | null;
     shareDirection?: number | null;
+    // Only included when requested (with=reactions,replies,editHistory)
+    reactions?: MessageReactionResponse[];
+    replyCount?: number;
+    threadRoot?: MessageThreadRootResponse | null;
+    editHistory?: MessageEditResponse[];
+    unsentParts?: number[];
+};
+
+/**
+ * A reaction (tapback) that is currently applied to a message part.
+ * Reactions that were later removed (or replaced) by the sender are not included.
+ */
+export type MessageReactionResponse = {
+    guid: string;
+    // i.e. love, like, dislike, laugh, emphasize, question
+    type: string;
+    partIndex: number;
+    isFromMe: boolean;
+    handle: HandleResponse | null;
+    dateCreated: number | null;
+};
+
+export type MessageThreadRootResponse = {
+    guid: string;
+    text: string | null;
+    isFromMe: boolean | null;
+    handle: HandleResponse | null;
+    dateCreated: number | null;
+    // The part of the root message that was replied to
+    partIndex: number;
+};
+
+export type MessageThreadResponse = {
+    // The GUID of the message that started the thread
+    originatorGuid: string;
+    // The message that started the thread (null if it no longer exists on the server)
+    originator: MessageResponse | null;
+    // The replies, each with the index of the originator part they replied to
+    replies: (MessageResponse & { partIndex: number })[];
+};
+
+/**
+ * A previous version of an edited message part
+ */
+export type MessageEditResponse = {
+    partIndex: number;
+    date: number | null;
+    text: string | null;
 };
 
 export type HandleResponse = {
@@ -100,6 +150,8 @@ export type ChatResponse = {
     displayName: string;
     groupId?: string;
     lastAddressedHandle?: string | null;
+    // Server-side metadata (pins, mutes, labels, etc.)
+    metadata?: NodeJS.Dict<any>;
 };
 
 export type AttachmentResponse = {
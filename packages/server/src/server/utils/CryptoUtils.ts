@@ -1,4 +1,4 @@
-import { createHash, randomBytes } from "crypto";
+import { createHash, createHmac, randomBytes } from "crypto";
 
 
 export const generateMd5Hash = (data: Buffer): string => {
@@ -7,4 +7,28 @@ export const generateMd5Hash = (data: Buffer): string => {
 
 export const generateRandomString = (length: number): string => {
     return randomBytes(Math.ceil(length / 2)).toString('hex');
-};
\ No newline at end of file
+};
+
+/**
+ * Derives a key using HKDF (RFC 5869) with SHA-256
+ *
+ * @param ikm The input key material (i.e. an ECDH shared secret)
+ * @param salt The salt to extract with
+ * @param info The context info to bind the key to
+ * @param length The length of the output key, in bytes
+ */
+export const hkdfSha256 = (ikm: Buffer, salt: Buffer, info: string | Buffer, length: number): Buffer => {
+    const prk = createHmac("sha256", salt).update(ikm).digest();
+    const infoBytes = typeof info === "string" ? Buffer.from(info, "utf8") : info;
+
+    const blocks: Buffer[] = [];
+    let previous = Buffer.alloc(0);
+    for (let i = 1; blocks.length * 32 < length; i++) {
+        previous = createHmac("sha256", prk)
+            .update(Buffer.concat([previous, infoBytes, Buffer.from([i])]))
+            .digest();
+        blocks.push(previous);
+    }
+
+    return Buffer.concat(blocks).subarray(0, length);
+};
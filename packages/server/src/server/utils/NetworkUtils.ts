@@ -0,0 +1,89 @@
+import net from "net";
+
+// IPv4 ranges that aren't publicly routable: [network, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+    ["0.0.0.0", 8], // "This" network
+    ["10.0.0.0", 8], // Private
+    ["100.64.0.0", 10], // Carrier-grade NAT
+    ["127.0.0.0", 8], // Loopback
+    ["169.254.0.0", 16], // Link-local (i.e. cloud metadata services)
+    ["172.16.0.0", 12], // Private
+    ["192.0.0.0", 24], // IETF protocol assignments
+    ["192.0.2.0", 24], // Documentation
+    ["192.168.0.0", 16], // Private
+    ["198.18.0.0", 15], // Benchmarking
+    ["198.51.100.0", 24], // Documentation
+    ["203.0.113.0", 24], // Documentation
+    ["224.0.0.0", 4], // Multicast
+    ["240.0.0.0", 4] // Reserved (including broadcast)
+];
+
+const ipv4ToNumber = (address: string): number => {
+    return address.split(".").reduce((output, octet) => output * 256 + Number.parseInt(octet, 10), 0);
+};
+
+const isPrivateIPv4 = (address: string): boolean => {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([network, bits]) => {
+        const size = 2 ** (32 - bits);
+        const start = ipv4ToNumber(network);
+        return value >= start && value < start + size;
+    });
+};
+
+/**
+ * Expands an IPv6 address into its 8 hextets (i.e. ::1 -> [0, 0, 0, 0, 0, 0, 0, 1])
+ */
+const expandIPv6 = (address: string): number[] => {
+    let value = address.split("%")[0].toLowerCase();
+
+    // Convert an embedded IPv4 address (i.e. ::ffff:127.0.0.1) into hextets
+    const ipv4 = value.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (ipv4) {
+        const num = ipv4ToNumber(ipv4[1]);
+        const hextets = `${Math.floor(num / 65536).toString(16)}:${(num % 65536).toString(16)}`;
+        value = `${value.substring(0, ipv4.index)}${hextets}`;
+    }
+
+    const [head, tail] = value.split("::");
+    const headParts = head ? head.split(":") : [];
+    const tailParts = tail != null && tail !== "" ? tail.split(":") : [];
+    const missing = tail != null ? 8 - headParts.length - tailParts.length : 0;
+    return [...headParts, ...Array(missing).fill("0"), ...tailParts].map(i => Number.parseInt(i, 16));
+};
+
+const isPrivateIPv6 = (address: string): boolean => {
+    const hextets = expandIPv6(address);
+    if (hextets.length !== 8 || hextets.some(i => Number.isNaN(i))) return true;
+
+    // Unspecified (::) & loopback (::1)
+    if (hextets.slice(0, 7).every(i => i === 0) && hextets[7] <= 1) return true;
+
+    // Unique local (fc00::/7), link-local (fe80::/10) & multicast (ff00::/8)
+    if ((hextets[0] & 0xfe00) === 0xfc00) return true;
+    if ((hextets[0] & 0xffc0) === 0xfe80) return true;
+    if ((hextets[0] & 0xff00) === 0xff00) return true;
+
+    // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) & NAT64 (64:ff9b::/96) addresses embed an IPv4 address
+    const embedsIPv4 =
+        (hextets.slice(0, 5).every(i => i === 0) && (hextets[5] === 0xffff || hextets[5] === 0)) ||
+        (hextets[0] === 0x64 && hextets[1] === 0xff9b && hextets.slice(2, 6).every(i => i === 0));
+    if (embedsIPv4) {
+        const ipv4 = [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff].join(".");
+        return isPrivateIPv4(ipv4);
+    }
+
+    return false;
+};
+
+/**
+ * Checks if an IP address is private, loopback, link-local, or otherwise not publicly routable.
+ * Anything that isn't a valid IP address is treated as private.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+    const value = (address ?? "").replace(/^\[|\]$/g, "");
+    const version = net.isIP(value.split("%")[0]);
+    if (version === 4) return isPrivateIPv4(value);
+    if (version === 6) return isPrivateIPv6(value);
+    return true;
+};
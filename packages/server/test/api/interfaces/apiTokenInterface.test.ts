@@ -0,0 +1,76 @@
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { ApiAuth, ApiTokenScope } from "@server/api/types/apiTokenTypes";
+import {
+    FINDMY_GEOFENCE_ENTER,
+    HELLO_WORLD,
+    NEW_FINDMY_LOCATION,
+    NEW_MESSAGE,
+    SERVER_UPDATE,
+    TYPING_INDICATOR
+} from "@server/events";
+
+jest.mock("@server/helpers/utils", () => require("../../../mocks/helpers/utils"));
+jest.mock("@server", () => ({ Server: (): any => null }));
+jest.mock("@server/databases/server/entity", () => ({}));
+
+const tokenWith = (...scopes: ApiTokenScope[]): ApiAuth => ({ type: "token", tokenId: 1, name: "Test", scopes });
+
+describe("ApiTokenInterface.canReceiveEvent", () => {
+    it("lets the server password receive every event", () => {
+        const auth: ApiAuth = { type: "password", scopes: ApiTokenInterface.allScopes };
+        for (const type of [NEW_MESSAGE, FINDMY_GEOFENCE_ENTER, SERVER_UPDATE, "some-new-event"]) {
+            expect(ApiTokenInterface.canReceiveEvent(auth, type)).toBe(true);
+        }
+    });
+
+    it("requires the read-messages scope for message events", () => {
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.READ_MESSAGES), NEW_MESSAGE)).toBe(true);
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.READ_MESSAGES), TYPING_INDICATOR)).toBe(true);
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.FINDMY), NEW_MESSAGE)).toBe(false);
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.SEND_MESSAGES), TYPING_INDICATOR)).toBe(false);
+    });
+
+    it("requires the findmy scope for Find My events", () => {
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.FINDMY), FINDMY_GEOFENCE_ENTER)).toBe(true);
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.READ_MESSAGES), FINDMY_GEOFENCE_ENTER)).toBe(
+            false
+        );
+    });
+
+    it("requires the server-admin scope for any other event", () => {
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.READ_MESSAGES), SERVER_UPDATE)).toBe(false);
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.SERVER_ADMIN), SERVER_UPDATE)).toBe(true);
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.READ_MESSAGES), "some-new-event")).toBe(false);
+    });
+
+    it("sends the hello world event to any authenticated client, but nothing to unauthenticated ones", () => {
+        expect(ApiTokenInterface.canReceiveEvent(tokenWith(ApiTokenScope.FINDMY), HELLO_WORLD)).toBe(true);
+        expect(ApiTokenInterface.canReceiveEvent(null, HELLO_WORLD)).toBe(false);
+        expect(ApiTokenInterface.canReceiveEvent(undefined, NEW_MESSAGE)).toBe(false);
+    });
+});
+
+describe("ApiTokenInterface.getEventTypeFilter", () => {
+    it("doesn't filter anything for the server password", () => {
+        const auth: ApiAuth = { type: "password", scopes: ApiTokenInterface.allScopes };
+        expect(ApiTokenInterface.getEventTypeFilter(auth)).toEqual({ allowed: null, denied: [] });
+    });
+
+    it("only allows the events a token has the scope for", () => {
+        const { allowed, denied } = ApiTokenInterface.getEventTypeFilter(tokenWith(ApiTokenScope.READ_MESSAGES));
+        expect(allowed).toContain(NEW_MESSAGE);
+        expect(allowed).not.toContain(NEW_FINDMY_LOCATION);
+        expect(allowed).not.toContain(FINDMY_GEOFENCE_ENTER);
+        expect(allowed).not.toContain(SERVER_UPDATE);
+        expect(denied).toEqual([]);
+    });
+
+    it("denies the listed events a server-admin token is missing a scope for", () => {
+        const { allowed, denied } = ApiTokenInterface.getEventTypeFilter(tokenWith(ApiTokenScope.SERVER_ADMIN));
+        expect(allowed).toBeNull();
+        expect(denied).toContain(NEW_MESSAGE);
+        expect(denied).toContain(NEW_FINDMY_LOCATION);
+        expect(denied).not.toContain(HELLO_WORLD);
+        expect(denied).not.toContain(SERVER_UPDATE);
+    });
+});
@@ -0,0 +1,80 @@
+import { DeviceInterface } from "@server/api/interfaces/deviceInterface";
+import { MESSAGE_UPDATED, NEW_MESSAGE, TYPING_INDICATOR } from "@server/events";
+
+jest.mock("@server/helpers/utils", () => require("../../../mocks/helpers/utils"));
+jest.mock("@server", () => ({
+    Server: () => ({ iMessageRepo: { getiMessageAccount: () => Promise.resolve("me@icloud.com") } })
+}));
+
+const makeDevice = (name: string, preferences: Record<string, any> = null): any => ({
+    name,
+    identifier: `${name}-token`,
+    preferences
+});
+
+// A message, as it is serialized for the sockets (with the attributed body parsed)
+const makeMessage = (mention: string = null, overrides: Record<string, any> = {}): Record<string, any> => ({
+    guid: "D4E3B2A1-0000-4000-8000-1234567890AB",
+    text: "Hey you",
+    isFromMe: false,
+    attributedBody: [
+        {
+            string: "Hey you",
+            runs: [
+                { range: [0, 4], attributes: { __kIMMessagePartAttributeName: 0 } },
+                {
+                    range: [4, 3],
+                    attributes: mention
+                        ? { __kIMMessagePartAttributeName: 0, [DeviceInterface.mentionAttribute]: mention }
+                        : { __kIMMessagePartAttributeName: 0 }
+                }
+            ]
+        }
+    ],
+    chats: [{ guid: "iMessage;+;chat123456789", style: 43, lastAddressedHandle: "+15555550100" }],
+    ...overrides
+});
+
+const filter = async (type: string, data: any) => {
+    const devices = [makeDevice("all"), makeDevice("mentions", { mentionsOnly: true })];
+    return (await DeviceInterface.filterDevices(devices, type, data)).map(i => i.name);
+};
+
+describe("DeviceInterface.filterDevices", () => {
+    it.each([NEW_MESSAGE, MESSAGE_UPDATED])("sends %s to mentions-only devices when you're mentioned", async type => {
+        expect(await filter(type, makeMessage("+1 (555) 555-0100"))).toEqual(["all", "mentions"]);
+        expect(await filter(type, makeMessage("mailto:Me@iCloud.com"))).toEqual(["all", "mentions"]);
+    });
+
+    it("doesn't send group messages to mentions-only devices without a mention", async () => {
+        expect(await filter(NEW_MESSAGE, makeMessage())).toEqual(["all"]);
+        expect(await filter(NEW_MESSAGE, makeMessage("+15555550199"))).toEqual(["all"]);
+        expect(await filter(NEW_MESSAGE, makeMessage("+15555550100", { isFromMe: true }))).toEqual(["all"]);
+    });
+
+    it("only applies mentions-only to group messages", async () => {
+        const direct = makeMessage(null, { chats: [{ guid: "iMessage;-;+15555550199", style: 45 }] });
+        expect(await filter(NEW_MESSAGE, direct)).toEqual(["all", "mentions"]);
+        expect(await filter(TYPING_INDICATOR, { guid: "iMessage;+;chat123456789", display: true })).toEqual([
+            "all",
+            "mentions"
+        ]);
+    });
+
+    it("applies the event, chat, and quiet hour preferences", async () => {
+        const devices = [
+            makeDevice("events", { events: [MESSAGE_UPDATED] }),
+            makeDevice("excluded", { excludeChats: ["iMessage;+;chat123456789"] }),
+            makeDevice("included", { includeChats: ["iMessage;+;chat123456789"] }),
+            makeDevice("quiet", { quietHours: { start: "22:00", end: "07:00" } })
+        ];
+
+        const output = await DeviceInterface.filterDevices(
+            devices,
+            NEW_MESSAGE,
+            makeMessage(),
+            new Date(2024, 0, 1, 23)
+        );
+        expect(output.map(i => i.name)).toEqual(["included"]);
+    });
+});
@@ -0,0 +1,187 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+import { FileSystem } from "@server/fileSystem";
+import { InvalidLinkError, LinkPreviewInterface } from "@server/api/interfaces/linkPreviewInterface";
+
+jest.mock("@server/helpers/utils", () => require("../../../mocks/helpers/utils"));
+jest.mock("@server", () => ({ Server: () => ({ log: (): void => null }) }));
+jest.mock("@server/fileSystem", () => {
+    const os = require("os");
+    const { join } = require("path");
+    return { FileSystem: { linkPreviewDir: join(os.tmpdir(), `bluebubbles-link-previews-${process.pid}`) } };
+});
+
+// A 1x1 transparent PNG
+const PNG = Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+    "base64"
+);
+
+const page = (image: string) => `
+    <html>
+        <head>
+            <title>Fallback Title</title>
+            <meta property="og:title" content="Fixture &amp; Friends" />
+            <meta property="og:description" content="A page served by the test fixture" />
+            <meta property="og:site_name" content="Fixture" />
+            <meta property="og:image" content="${image}" />
+        </head>
+        <body></body>
+    </html>
+`;
+
+const routes: Record<string, (res: http.ServerResponse) => void> = {
+    "/page": res => {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(page("/image.png"));
+    },
+    "/image.png": res => {
+        res.writeHead(200, { "Content-Type": "image/png" });
+        res.end(PNG);
+    },
+    "/redirect": res => {
+        res.writeHead(302, { Location: "/page" });
+        res.end();
+    },
+    "/metadata-redirect": res => {
+        res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data/" });
+        res.end();
+    },
+    "/private-image": res => {
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end(page("http://10.0.0.1/image.png"));
+    },
+    "/large-page": res => {
+        // The metadata is at the start, followed by more than the max page size
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.write(page("/image.png").replace("</html>", ""));
+        res.end(`<p>${"a".repeat(2 * 1024 * 1024)}</p></html>`);
+    },
+    "/large-head": res => {
+        // A head that never ends (i.e. a lot of inline scripts), which is cut off at the max page size
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.write('<html><head><meta property="og:title" content="Big Head" />');
+        res.end(`<script>${"a".repeat(2 * 1024 * 1024)}</script>`);
+    },
+    "/file.zip": res => {
+        res.writeHead(200, { "Content-Type": "application/zip" });
+        res.end("not a page");
+    }
+};
+
+describe("LinkPreviewInterface", () => {
+    let server: http.Server;
+    let origin: string;
+    let assertPublicUrl: jest.SpyInstance;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            const route = routes[req.url];
+            if (route) return route(res);
+
+            res.writeHead(404);
+            res.end();
+        });
+
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        fs.rmdirSync(FileSystem.linkPreviewDir, { recursive: true });
+    });
+
+    beforeEach(() => {
+        // The fixture server is on loopback, so it has to be let through the private address check
+        const original = (LinkPreviewInterface as any).assertPublicUrl.bind(LinkPreviewInterface);
+        assertPublicUrl = jest
+            .spyOn(LinkPreviewInterface as any, "assertPublicUrl")
+            .mockImplementation((url: any) => (url.startsWith(origin) ? Promise.resolve() : original(url)));
+    });
+
+    afterEach(() => {
+        assertPublicUrl.mockRestore();
+    });
+
+    it("builds a preview from the Open Graph tags, and downloads the image", async () => {
+        const preview = await LinkPreviewInterface.getPreview(`${origin}/page`);
+        expect(preview.title).toBe("Fixture & Friends");
+        expect(preview.summary).toBe("A page served by the test fixture");
+        expect(preview.siteName).toBe("Fixture");
+        expect(preview.imageUrl).toBe(`${origin}/image.png`);
+        expect(preview.imageMimeType).toBe("image/png");
+        expect(fs.readFileSync(preview.imagePath)).toEqual(PNG);
+
+        const serialized = LinkPreviewInterface.serialize(preview, true);
+        expect(serialized.imageData).toBe(PNG.toString("base64"));
+        expect(serialized.imagePath).toBeUndefined();
+    });
+
+    it.each(["/large-page", "/large-head"])("previews pages larger than the max page size (%s)", async route => {
+        const preview = await LinkPreviewInterface.getPreview(`${origin}${route}`);
+        expect(preview.title).toBe(route === "/large-page" ? "Fixture & Friends" : "Big Head");
+    });
+
+    it("follows redirects, checking every hop", async () => {
+        const preview = await LinkPreviewInterface.getPreview(`${origin}/redirect`);
+        expect(preview.url).toBe(`${origin}/page`);
+        expect(preview.title).toBe("Fixture & Friends");
+        expect(assertPublicUrl).toHaveBeenCalledWith(`${origin}/redirect`);
+        expect(assertPublicUrl).toHaveBeenCalledWith(`${origin}/page`);
+    });
+
+    it("rejects redirects to private addresses", async () => {
+        await expect(LinkPreviewInterface.getPreview(`${origin}/metadata-redirect`)).rejects.toThrow(
+            InvalidLinkError
+        );
+    });
+
+    it("doesn't download images from private addresses", async () => {
+        const preview = await LinkPreviewInterface.getPreview(`${origin}/private-image`);
+        expect(preview.imageUrl).toBe("http://10.0.0.1/image.png");
+        expect(preview.imagePath).toBeNull();
+    });
+
+    it("rejects content that can't be previewed as an upstream error", async () => {
+        const error = await LinkPreviewInterface.getPreview(`${origin}/file.zip`).catch(ex => ex);
+        expect(error).toBeInstanceOf(Error);
+        expect(error).not.toBeInstanceOf(InvalidLinkError);
+    });
+
+    it.each(["not a url", "file:///etc/passwd", "ftp://example.com/file"])("rejects %s", async url => {
+        await expect(LinkPreviewInterface.getPreview(url)).rejects.toThrow(InvalidLinkError);
+    });
+
+    it("rejects loopback addresses", async () => {
+        assertPublicUrl.mockRestore();
+        await expect(LinkPreviewInterface.getPreview(`${origin}/page?loopback`)).rejects.toThrow(InvalidLinkError);
+        await expect(LinkPreviewInterface.getPreview("http://localhost/page")).rejects.toThrow(InvalidLinkError);
+    });
+
+    it("refuses to connect if the host resolves to a private address after the check", async () => {
+        // i.e. a DNS record that changes between the check & the request
+        assertPublicUrl.mockImplementation(() => Promise.resolve());
+        const port = (server.address() as AddressInfo).port;
+        await expect(LinkPreviewInterface.getPreview(`http://localhost:${port}/page`)).rejects.toThrow(
+            InvalidLinkError
+        );
+    });
+
+    it("purges images older than the cache lifetime", () => {
+        fs.mkdirSync(FileSystem.linkPreviewDir, { recursive: true });
+        const oldImage = path.join(FileSystem.linkPreviewDir, "old.png");
+        const newImage = path.join(FileSystem.linkPreviewDir, "new.png");
+        fs.writeFileSync(oldImage, PNG);
+        fs.writeFileSync(newImage, PNG);
+
+        const expired = new Date(new Date().getTime() - LinkPreviewInterface.cacheLifetimeMs - 1000);
+        fs.utimesSync(oldImage, expired, expired);
+
+        LinkPreviewInterface.purgeImages();
+        expect(fs.existsSync(oldImage)).toBe(false);
+        expect(fs.existsSync(newImage)).toBe(true);
+    });
+});
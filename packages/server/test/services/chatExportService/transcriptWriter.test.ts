@@ -0,0 +1,95 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TranscriptWriter } from "@server/services/chatExportService/transcriptWriter";
+import type { ChatExportTranscriptInfo, ExportedMessage } from "@server/services/chatExportService";
+
+const transcript = {
+    exportedAt: 1700000000000,
+    after: null,
+    before: 1700000500000,
+    chat: {
+        guid: "iMessage;+;chat123456789",
+        style: 43,
+        chatIdentifier: "chat123456789",
+        displayName: "The Group",
+        participants: [{ address: "+15555550100" }, { address: "+15555550101" }]
+    }
+} as unknown as ChatExportTranscriptInfo;
+
+const makeMessage = (index: number, overrides: Record<string, any> = {}): ExportedMessage =>
+    ({
+        guid: `message-${index}`,
+        text: `Message <${index}>`,
+        isFromMe: index % 2 === 0,
+        handle: { address: "+15555550100" },
+        dateCreated: 1700000000000 + index * 1000,
+        attachments: [],
+        reactions: [],
+        editHistory: [],
+        ...overrides
+    } as unknown as ExportedMessage);
+
+describe("TranscriptWriter", () => {
+    let workDir: string;
+
+    beforeEach(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), "bluebubbles-export-"));
+    });
+
+    afterEach(() => {
+        fs.rmdirSync(workDir, { recursive: true });
+    });
+
+    const read = (name: string) => fs.readFileSync(path.join(workDir, name), "utf-8");
+
+    it("writes the same JSON transcript as serializing it in one go", () => {
+        const messages = [
+            makeMessage(1),
+            makeMessage(2, { reactions: [{ guid: "reaction-1", associatedMessageType: "love" }] }),
+            makeMessage(3, { text: 'Line 1\nLine 2 "quoted"' })
+        ];
+
+        const writer = new TranscriptWriter();
+        writer.open(workDir, transcript, messages.length);
+        messages.forEach(message => writer.write(message));
+        writer.close();
+
+        expect(read("transcript.json")).toBe(JSON.stringify({ ...transcript, messages }, null, 2));
+    });
+
+    it("writes a valid transcript without any messages", () => {
+        const writer = new TranscriptWriter();
+        writer.open(workDir, transcript, 0);
+        writer.close();
+
+        expect(JSON.parse(read("transcript.json"))).toEqual({ ...transcript, messages: [] });
+        expect(read("transcript.html")).toContain("0 message(s)");
+    });
+
+    it("renders each message to the HTML transcript", () => {
+        const writer = new TranscriptWriter();
+        writer.open(workDir, transcript, 2);
+        writer.write(makeMessage(1));
+        writer.write(makeMessage(2, { reactions: [{ guid: "reaction-1", associatedMessageType: "love" }] }));
+        writer.close();
+
+        const html = read("transcript.html");
+        expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+        expect(html.trim().endsWith("</html>")).toBe(true);
+        expect(html).toContain("<h1>The Group</h1>");
+        expect(html).toContain("2 message(s)");
+        expect(html).toContain("Message &lt;1&gt;");
+        expect(html).toContain("Message &lt;2&gt;");
+        expect(html).toContain("❤️");
+    });
+
+    it("can be disposed without finishing the files", () => {
+        const writer = new TranscriptWriter();
+        writer.open(workDir, transcript, 1);
+        writer.dispose();
+        writer.dispose();
+
+        expect(fs.existsSync(path.join(workDir, "transcript.json"))).toBe(true);
+    });
+});
@@ -0,0 +1,46 @@
+import { ValidationError } from "@server/lib/ValidationError";
+import {
+    formatSnippet,
+    parseSearchQuery,
+    SNIPPET_END,
+    SNIPPET_START
+} from "@server/services/messageSearchService/searchQuery";
+
+describe("parseSearchQuery", () => {
+    it("parses terms, phrases & filters", () => {
+        const query = parseSearchQuery('hello "see you soon" from:me in:chat123 after:2023-01-31 has:attachment');
+        expect(query.terms).toEqual(["hello"]);
+        expect(query.phrases).toEqual(["see you soon"]);
+        expect(query.from).toBe("me");
+        expect(query.chat).toBe("chat123");
+        expect(query.after).toEqual(new Date("2023-01-31"));
+        expect(query.hasAttachment).toBe(true);
+    });
+
+    it("treats unknown filters as text", () => {
+        expect(parseSearchQuery("https://example.com").terms).toEqual(["https://example.com"]);
+    });
+
+    it.each(["has:photo", "before:yesterday"])("rejects %s as a validation error", query => {
+        expect(() => parseSearchQuery(query)).toThrow(ValidationError);
+    });
+});
+
+describe("formatSnippet", () => {
+    it("escapes the message text, and highlights the matches", () => {
+        const snippet = `<img src=x onerror="alert('hi')"> ${SNIPPET_START}hello${SNIPPET_END} & bye`;
+        expect(formatSnippet(snippet)).toBe(
+            "&lt;img src=x onerror=&quot;alert(&#39;hi&#39;)&quot;&gt; <mark>hello</mark> &amp; bye"
+        );
+    });
+
+    it("doesn't treat marks typed by the sender as highlights", () => {
+        expect(formatSnippet(`<mark>${SNIPPET_START}hi${SNIPPET_END}</mark>`)).toBe(
+            "&lt;mark&gt;<mark>hi</mark>&lt;/mark&gt;"
+        );
+    });
+
+    it("leaves a missing snippet as null", () => {
+        expect(formatSnippet(null)).toBeNull();
+    });
+});
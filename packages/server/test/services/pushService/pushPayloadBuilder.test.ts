@@ -0,0 +1,112 @@
+import { buildPushPayload, getPayloadSize } from "@server/services/pushService/pushPayloadBuilder";
+
+jest.mock("@server/helpers/utils", () => require("../../../mocks/helpers/utils"));
+
+// The payload limits of the FCM & Web Push providers
+const PAYLOAD_LIMITS = [4000, 4096 - 86 - 17];
+
+const makeMessage = (overrides: Record<string, any> = {}): Record<string, any> => ({
+    guid: "D4E3B2A1-0000-4000-8000-1234567890AB",
+    text: "Hello world",
+    subject: null,
+    isFromMe: false,
+    dateCreated: 1700000000000,
+    handle: { address: "+15555550100", service: "iMessage" },
+    chats: [
+        {
+            guid: "iMessage;+;chat123456789",
+            style: 43,
+            chatIdentifier: "chat123456789",
+            displayName: "The Group",
+            participants: []
+        }
+    ],
+    attachments: [],
+    attributedBody: null,
+    ...overrides
+});
+
+const makeParticipants = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+        address: `+1555555${String(i).padStart(4, "0")}`,
+        service: "iMessage",
+        country: "us",
+        uncanonicalizedId: null,
+        originalROWID: i
+    }));
+
+const decode = (notification: { data: string }) => JSON.parse(notification.data);
+
+const expectTruncatedMessage = (type: string, data: any, limit: number) => {
+    const notification = buildPushPayload(type, data, limit);
+    expect(getPayloadSize(notification)).toBeLessThanOrEqual(limit);
+
+    const output = decode(notification);
+    expect(output.truncated).toBe(true);
+    expect(output.guid).toBe(data.guid);
+    return output;
+};
+
+describe.each(PAYLOAD_LIMITS)("buildPushPayload (limit: %i bytes)", limit => {
+    it("sends payloads that fit as-is", () => {
+        const data = makeMessage();
+        const notification = buildPushPayload("new-message", data, limit);
+        expect(notification).toEqual({ type: "new-message", data: JSON.stringify(data) });
+        expect(decode(notification).truncated).toBeUndefined();
+    });
+
+    it("truncates long text", () => {
+        const data = makeMessage({ text: "a".repeat(20000) });
+        const output = expectTruncatedMessage("new-message", data, limit);
+        expect(output.text.length).toBeGreaterThan(0);
+        expect(output.text.endsWith("…")).toBe(true);
+        expect(data.text.startsWith(output.text.slice(0, -1))).toBe(true);
+    });
+
+    it("drops a large participant list", () => {
+        const data = makeMessage();
+        data.chats[0].participants = makeParticipants(500);
+        const output = expectTruncatedMessage("new-message", data, limit);
+        expect(output.chats[0].participants).toBeUndefined();
+        expect(output.chats[0].guid).toBe(data.chats[0].guid);
+        expect(output.text).toBe(data.text);
+    });
+
+    it("drops a big attributedBody", () => {
+        const runs = Array.from({ length: 300 }, (_, i) => ({
+            range: [i * 10, 10],
+            attributes: { __kIMMessagePartAttributeName: i, __kIMBaseWritingDirectionAttributeName: -1 }
+        }));
+        const data = makeMessage({ attributedBody: [{ string: "x".repeat(3000), runs }] });
+        const output = expectTruncatedMessage("new-message", data, limit);
+        expect(output.attributedBody).toBeUndefined();
+        expect(output.text).toBe(data.text);
+    });
+
+    it("doesn't split an emoji at the cut point", () => {
+        const data = makeMessage({ text: "😀".repeat(5000) });
+        const output = expectTruncatedMessage("new-message", data, limit);
+        const body = output.text.slice(0, -1);
+        expect(body.length).toBeGreaterThan(0);
+        expect(body.length % 2).toBe(0);
+        expect(/[\ud800-\udbff](?![\udc00-\udfff])/.test(body)).toBe(false);
+    });
+
+    it("truncates an oversized subject", () => {
+        const data = makeMessage({ text: "b".repeat(10000), subject: "s".repeat(10000) });
+        const output = expectTruncatedMessage("new-message", data, limit);
+        expect(output.text).toBe("");
+        expect(output.subject.endsWith("…")).toBe(true);
+    });
+
+    it("replaces an oversized non-message payload with a stub", () => {
+        const data = { items: Array.from({ length: 2000 }, (_, i) => ({ index: i, value: "value" })) };
+        const notification = buildPushPayload("new-findmy-location", data, limit);
+        expect(getPayloadSize(notification)).toBeLessThanOrEqual(limit);
+
+        // There is no GUID to include, so the client has to re-fetch based on the event type
+        const output = decode(notification);
+        expect(output).toEqual({ truncated: true });
+        expect(output.guid).toBeUndefined();
+    });
+});
@@ -0,0 +1,82 @@
+import { PushService } from "@server/services/pushService";
+import { NEW_MESSAGE } from "@server/events";
+
+const mockDevices = [
+    { name: "all", identifier: "all-token", provider: "fcm", preferences: null },
+    { name: "mentions", identifier: "mentions-token", provider: "fcm", preferences: { mentionsOnly: true } }
+];
+
+const mockProvider = (type: string) => ({
+    type,
+    payloadLimit: 4000,
+    isEnabled: () => type === "fcm",
+    send: jest.fn(() => Promise.resolve({ successCount: 1, failureCount: 0, expired: [] as any[] }))
+});
+
+jest.mock("@server/helpers/utils", () => require("../../../mocks/helpers/utils"));
+jest.mock("@server/lib/logging/Loggable", () => ({
+    Loggable: class {
+        log = { debug: (): void => null, info: (): void => null };
+    }
+}));
+jest.mock("@server", () => ({
+    Server: () => ({
+        repo: { devices: () => ({ find: () => Promise.resolve(mockDevices) }) },
+        iMessageRepo: { getiMessageAccount: () => Promise.resolve("me@icloud.com") }
+    })
+}));
+jest.mock("@server/api/interfaces/chatMetadataInterface", () => ({
+    ChatMetadataInterface: { isMutedNotification: () => Promise.resolve(false) }
+}));
+jest.mock("@server/services/pushProviders/fcmPushProvider", () => ({
+    FcmPushProvider: jest.fn(() => mockProvider("fcm"))
+}));
+jest.mock("@server/services/pushProviders/unifiedPushProvider", () => ({
+    UnifiedPushProvider: jest.fn(() => mockProvider("unifiedpush"))
+}));
+jest.mock("@server/services/pushProviders/webPushProvider", () => ({
+    WebPushProvider: jest.fn(() => mockProvider("webpush"))
+}));
+
+// A group message that mentions you, as it is serialized for the sockets
+const fullMessage = {
+    guid: "D4E3B2A1-0000-4000-8000-1234567890AB",
+    text: "Hey you",
+    isFromMe: false,
+    attributedBody: [
+        {
+            string: "Hey you",
+            runs: [{ range: [4, 3], attributes: { __kIMMentionConfirmedMention: "+15555550100" } }]
+        }
+    ],
+    chats: [{ guid: "iMessage;+;chat123456789", style: 43, lastAddressedHandle: "+15555550100" }]
+};
+
+// The same message, as it is serialized for notifications (without the attributed body)
+const notificationMessage = {
+    ...fullMessage,
+    attributedBody: null as any,
+    chats: [{ guid: "iMessage;+;chat123456789", style: 43 }]
+};
+
+const getRecipients = (service: PushService) => {
+    const send = service.providers.fcm.send as jest.Mock;
+    return (send.mock.calls[0][0] as any[]).map(i => i.name);
+};
+
+describe("PushService.send", () => {
+    it("checks for mentions against the full message, and sends the notification payload", async () => {
+        const service = new PushService();
+        await service.send(NEW_MESSAGE, notificationMessage, "high", fullMessage);
+
+        expect(getRecipients(service)).toEqual(["all", "mentions"]);
+        const payload = (service.providers.fcm.send as jest.Mock).mock.calls[0][1];
+        expect(JSON.parse(payload.data).attributedBody).toBeNull();
+    });
+
+    it("can't find a mention in the notification payload alone", async () => {
+        const service = new PushService();
+        await service.send(NEW_MESSAGE, notificationMessage, "high");
+        expect(getRecipients(service)).toEqual(["all"]);
+    });
+});
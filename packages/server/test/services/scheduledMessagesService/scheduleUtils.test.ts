@@ -0,0 +1,116 @@
+import {
+    addZonedInterval,
+    getNextCronDate,
+    parseCronExpression,
+    zonedTimeToUtc
+} from "@server/services/scheduledMessagesService/scheduleUtils";
+
+const NEW_YORK = "America/New_York";
+const BERLIN = "Europe/Berlin";
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+/**
+ * Gets every time a cron expression fires between two dates
+ */
+const getCronDates = (expression: string, from: string, to: string, timeZone: string): string[] => {
+    const cron = parseCronExpression(expression);
+    const output: string[] = [];
+    let next = getNextCronDate(cron, new Date(from), timeZone);
+    while (next && next.getTime() <= new Date(to).getTime()) {
+        output.push(iso(next));
+        next = getNextCronDate(cron, next, timeZone);
+    }
+
+    return output;
+};
+
+describe("zonedTimeToUtc", () => {
+    it("converts a normal wall-clock time", () => {
+        expect(zonedTimeToUtc(Date.UTC(2025, 0, 15, 9, 0), NEW_YORK)).toBe(Date.parse("2025-01-15T14:00:00Z"));
+        expect(zonedTimeToUtc(Date.UTC(2025, 6, 15, 9, 0), NEW_YORK)).toBe(Date.parse("2025-07-15T13:00:00Z"));
+        expect(zonedTimeToUtc(Date.UTC(2025, 6, 15, 9, 0), BERLIN)).toBe(Date.parse("2025-07-15T07:00:00Z"));
+    });
+
+    it("moves times skipped by DST forward", () => {
+        // 2:30 AM doesn't exist on the day the clocks spring forward, so it becomes 3:30 AM
+        expect(zonedTimeToUtc(Date.UTC(2025, 2, 9, 2, 30), NEW_YORK)).toBe(Date.parse("2025-03-09T07:30:00Z"));
+        expect(zonedTimeToUtc(Date.UTC(2025, 2, 30, 2, 30), BERLIN)).toBe(Date.parse("2025-03-30T01:30:00Z"));
+    });
+
+    it("uses the first occurrence of times repeated by DST", () => {
+        // 1:30 AM happens twice on the day the clocks fall back (EDT, then EST)
+        expect(zonedTimeToUtc(Date.UTC(2025, 10, 2, 1, 30), NEW_YORK)).toBe(Date.parse("2025-11-02T05:30:00Z"));
+        expect(zonedTimeToUtc(Date.UTC(2025, 9, 26, 2, 30), BERLIN)).toBe(Date.parse("2025-10-26T00:30:00Z"));
+    });
+});
+
+describe("getNextCronDate", () => {
+    it("fires at 3:30 AM on the day the clocks spring forward", () => {
+        expect(getCronDates("30 2 * * *", "2025-03-08T00:00:00Z", "2025-03-10T23:59:59Z", NEW_YORK)).toEqual([
+            "2025-03-08T07:30:00.000Z", // 2:30 AM EST
+            "2025-03-09T07:30:00.000Z", // 3:30 AM EDT (2:30 AM was skipped)
+            "2025-03-10T06:30:00.000Z" // 2:30 AM EDT
+        ]);
+    });
+
+    it("fires once on the day the clocks fall back", () => {
+        expect(getCronDates("30 1 * * *", "2025-11-01T00:00:00Z", "2025-11-03T23:59:59Z", NEW_YORK)).toEqual([
+            "2025-11-01T05:30:00.000Z", // 1:30 AM EDT
+            "2025-11-02T05:30:00.000Z", // 1:30 AM EDT (not again at 1:30 AM EST)
+            "2025-11-03T06:30:00.000Z" // 1:30 AM EST
+        ]);
+    });
+
+    it("keeps the wall-clock time across a DST change", () => {
+        expect(getCronDates("0 9 * * 1", "2025-03-01T00:00:00Z", "2025-03-17T23:59:59Z", NEW_YORK)).toEqual([
+            "2025-03-03T14:00:00.000Z",
+            "2025-03-10T13:00:00.000Z",
+            "2025-03-17T13:00:00.000Z"
+        ]);
+    });
+
+    it("fires on the last day of each month", () => {
+        expect(getCronDates("0 9 L * *", "2024-01-15T00:00:00Z", "2024-04-30T23:59:59Z", BERLIN)).toEqual([
+            "2024-01-31T08:00:00.000Z",
+            "2024-02-29T08:00:00.000Z", // Leap year
+            "2024-03-31T07:00:00.000Z", // After the DST change
+            "2024-04-30T07:00:00.000Z"
+        ]);
+    });
+
+    it("fires on the last weekday, and the last Friday, of each month", () => {
+        expect(getCronDates("0 9 LW * *", "2025-05-01T00:00:00Z", "2025-08-31T23:59:59Z", NEW_YORK)).toEqual([
+            "2025-05-30T13:00:00.000Z", // The 31st is a Saturday
+            "2025-06-30T13:00:00.000Z",
+            "2025-07-31T13:00:00.000Z",
+            "2025-08-29T13:00:00.000Z" // The 31st is a Sunday
+        ]);
+
+        expect(getCronDates("0 9 * * FRIL", "2025-05-01T00:00:00Z", "2025-07-31T23:59:59Z", NEW_YORK)).toEqual([
+            "2025-05-30T13:00:00.000Z",
+            "2025-06-27T13:00:00.000Z",
+            "2025-07-25T13:00:00.000Z"
+        ]);
+    });
+
+    it("skips months without the day of the month", () => {
+        expect(getCronDates("0 9 31 * *", "2025-01-01T00:00:00Z", "2025-05-31T23:59:59Z", NEW_YORK)).toEqual([
+            "2025-01-31T14:00:00.000Z",
+            "2025-03-31T13:00:00.000Z",
+            "2025-05-31T13:00:00.000Z"
+        ]);
+    });
+});
+
+describe("addZonedInterval", () => {
+    it("keeps the wall-clock time across a DST change", () => {
+        const date = new Date("2025-03-08T14:00:00Z"); // 9 AM EST
+        expect(iso(addZonedInterval(date, NEW_YORK, "daily", 1))).toBe("2025-03-09T13:00:00.000Z");
+    });
+
+    it("doesn't overflow into the next month", () => {
+        const date = new Date("2025-01-31T14:00:00Z");
+        expect(iso(addZonedInterval(date, NEW_YORK, "monthly", 1))).toBe("2025-02-28T14:00:00.000Z");
+    });
+});
@@ -0,0 +1,42 @@
+import { isPrivateAddress } from "@server/utils/NetworkUtils";
+
+describe("isPrivateAddress", () => {
+    it.each([
+        "127.0.0.1",
+        "10.1.2.3",
+        "172.16.0.1",
+        "172.31.255.255",
+        "192.168.1.1",
+        "169.254.169.254",
+        "100.64.0.1",
+        "0.0.0.0",
+        "224.0.0.1",
+        "255.255.255.255",
+        "::",
+        "::1",
+        "[::1]",
+        "fe80::1",
+        "fe80::1%en0",
+        "fd00::1",
+        "ff02::1",
+        "::ffff:127.0.0.1",
+        "::ffff:7f00:1",
+        "::ffff:a9fe:a9fe",
+        "64:ff9b::a00:1"
+    ])("blocks %s", address => {
+        expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(["8.8.8.8", "1.1.1.1", "172.32.0.1", "192.169.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"])(
+        "allows %s",
+        address => {
+            expect(isPrivateAddress(address)).toBe(false);
+        }
+    );
+
+    it("treats anything that isn't an IP address as private", () => {
+        expect(isPrivateAddress("localhost")).toBe(true);
+        expect(isPrivateAddress("")).toBe(true);
+        expect(isPrivateAddress(null)).toBe(true);
+    });
+});
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import {
+    FormControl,
+    FormLabel,
+    FormHelperText,
+    Input,
+    IconButton,
+    FormErrorMessage,
+    Flex,
+    Text
+} from '@chakra-ui/react';
+import { useAppDispatch, useAppSelector } from '../../hooks';
+import { showSuccessToast } from '../../utils/ToastUtils';
+import { setConfig } from '../../slices/ConfigSlice';
+import { AiOutlineSave } from 'react-icons/ai';
+
+
+/**
+ * Config values of 0 & 1 come back as booleans, so convert them back to numbers
+ *
+ * @param value - The config value
+ */
+const toNumber = (value: any): number => {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const num = Number(value);
+    return Number.isNaN(num) ? 0 : num;
+};
+
+export interface DeviceExpiryFieldProps {
+    helpText?: string;
+}
+
+export const DeviceExpiryField = ({ helpText }: DeviceExpiryFieldProps): JSX.Element => {
+    const dispatch = useAppDispatch();
+
+    const expiryDays = toNumber(useAppSelector(state => state.config.device_expiry_days));
+    const [newExpiryDays, setNewExpiryDays] = useState(expiryDays);
+    const [expiryError, setExpiryError] = useState('');
+    const hasExpiryError: boolean = (expiryError ?? '').length > 0;
+
+    useEffect(() => { setNewExpiryDays(expiryDays); }, [expiryDays]);
+
+    /**
+     * A handler & validator for saving the new device expiry
+     *
+     * @param theNewExpiryDays - The new number of days
+     */
+    const saveExpiry = (theNewExpiryDays: number): void => {
+        if (Number.isNaN(theNewExpiryDays) || theNewExpiryDays < 0) {
+            setExpiryError('The number of days must be 0 (never expire) or greater');
+            return;
+        } else if (theNewExpiryDays === expiryDays) {
+            setExpiryError('You have not changed the device expiry since your last save!');
+            return;
+        }
+
+        dispatch(setConfig({ name: 'device_expiry_days', value: theNewExpiryDays }));
+        if (hasExpiryError) setExpiryError('');
+        showSuccessToast({
+            id: 'settings',
+            duration: 4000,
+            description: 'Successfully saved new device expiry!'
+        });
+    };
+
+    return (
+        <FormControl isInvalid={hasExpiryError}>
+            <FormLabel htmlFor='device_expiry_days'>Inactive Device Expiry</FormLabel>
+            <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
+                <Input
+                    id='device_expiry_days'
+                    type='number'
+                    maxWidth="5em"
+                    value={newExpiryDays}
+                    onChange={(e) => {
+                        if (hasExpiryError) setExpiryError('');
+                        setNewExpiryDays(Number.parseInt(e.target.value));
+                    }}
+                />
+                <Text ml={2}>days</Text>
+                <IconButton
+                    ml={3}
+                    verticalAlign='top'
+                    aria-label='Save device expiry'
+                    icon={<AiOutlineSave />}
+                    onClick={() => saveExpiry(newExpiryDays)}
+                />
+            </Flex>
+            {!hasExpiryError ? (
+                <FormHelperText>
+                    {helpText ?? (
+                        'Enter how many days a registered device can be inactive for before it is removed. ' +
+                        'Enter 0 to never remove inactive devices.'
+                    )}
+                </FormHelperText>
+            ) : (
+                <FormErrorMessage>{expiryError}</FormErrorMessage>
+            )}
+        </FormControl>
+    );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import {
+    FormControl,
+    FormLabel,
+    FormHelperText,
+    Input,
+    IconButton,
+    FormErrorMessage,
+    Flex,
+    Text
+} from '@chakra-ui/react';
+import { useAppDispatch, useAppSelector } from '../../hooks';
+import { showSuccessToast } from '../../utils/ToastUtils';
+import { setConfig } from '../../slices/ConfigSlice';
+import { AiOutlineSave } from 'react-icons/ai';
+
+
+type RateLimitScope = 'global' | 'chat' | 'token';
+
+const scopeLabels: Record<RateLimitScope, string> = {
+    global: 'All Messages',
+    chat: 'Per Chat',
+    token: 'Per API Token'
+};
+
+/**
+ * Config values of 0 & 1 come back as booleans, so convert them back to numbers
+ *
+ * @param value - The config value
+ */
+const toNumber = (value: any): number => {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const num = Number(value);
+    return Number.isNaN(num) ? 0 : num;
+};
+
+export interface OutgoingRateLimitFieldProps {
+    scope: RateLimitScope;
+    helpText?: string;
+}
+
+export const OutgoingRateLimitField = ({ scope, helpText }: OutgoingRateLimitFieldProps): JSX.Element => {
+    const dispatch = useAppDispatch();
+
+    const rate = toNumber(useAppSelector(state => state.config[`outgoing_rate_limit_${scope}`]));
+    const burst = toNumber(useAppSelector(state => state.config[`outgoing_rate_burst_${scope}`]));
+    const [newRate, setNewRate] = useState(rate);
+    const [newBurst, setNewBurst] = useState(burst);
+    const [limitError, setLimitError] = useState('');
+    const hasLimitError: boolean = (limitError ?? '').length > 0;
+
+    useEffect(() => { setNewRate(rate); }, [rate]);
+    useEffect(() => { setNewBurst(burst); }, [burst]);
+
+    /**
+     * A handler & validator for saving the new limits
+     *
+     * @param theNewRate - The new number of messages per minute
+     * @param theNewBurst - The new burst size
+     */
+    const saveLimit = (theNewRate: number, theNewBurst: number): void => {
+        if (Number.isNaN(theNewRate) || theNewRate < 0) {
+            setLimitError('The rate must be 0 (disabled) or greater');
+            return;
+        } else if (Number.isNaN(theNewBurst) || theNewBurst < 1) {
+            setLimitError('The burst must be at least 1');
+            return;
+        }
+
+        dispatch(setConfig({ name: `outgoing_rate_limit_${scope}`, value: theNewRate }));
+        dispatch(setConfig({ name: `outgoing_rate_burst_${scope}`, value: theNewBurst }));
+        if (hasLimitError) setLimitError('');
+        showSuccessToast({
+            id: 'settings',
+            duration: 4000,
+            description: 'Successfully saved new outgoing message limit!'
+        });
+    };
+
+    return (
+        <FormControl isInvalid={hasLimitError}>
+            <FormLabel htmlFor={`outgoing_rate_limit_${scope}`}>
+                Outgoing Message Limit ({scopeLabels[scope]})
+            </FormLabel>
+            <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
+                <Input
+                    id={`outgoing_rate_limit_${scope}`}
+                    type='number'
+                    maxWidth="5em"
+                    value={newRate}
+                    onChange={(e) => {
+                        if (hasLimitError) setLimitError('');
+                        setNewRate(Number.parseInt(e.target.value));
+                    }}
+                />
+                <Text mx={2}>per minute, bursts of</Text>
+                <Input
+                    id={`outgoing_rate_burst_${scope}`}
+                    type='number'
+                    maxWidth="5em"
+                    value={newBurst}
+                    onChange={(e) => {
+                        if (hasLimitError) setLimitError('');
+                        setNewBurst(Number.parseInt(e.target.value));
+                    }}
+                />
+                <IconButton
+                    ml={3}
+                    verticalAlign='top'
+                    aria-label='Save outgoing message limit'
+                    icon={<AiOutlineSave />}
+                    onClick={() => saveLimit(newRate, newBurst)}
+                />
+            </Flex>
+            {!hasLimitError ? (
+                <FormHelperText>
+                    {helpText ?? (
+                        'Enter how many messages can be sent per minute, and how many can be sent at once. ' +
+                        'Sends over the limit are rejected with a 429 error. A rate of 0 disables the limit.'
+                    )}
+                </FormHelperText>
+            ) : (
+                <FormErrorMessage>{limitError}</FormErrorMessage>
+            )}
+        </FormControl>
+    );
+};
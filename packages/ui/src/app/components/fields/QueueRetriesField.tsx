@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import {
+    FormControl,
+    FormLabel,
+    FormHelperText,
+    Input,
+    IconButton,
+    FormErrorMessage,
+    Flex,
+    Text
+} from '@chakra-ui/react';
+import { useAppDispatch, useAppSelector } from '../../hooks';
+import { showSuccessToast } from '../../utils/ToastUtils';
+import { setConfig } from '../../slices/ConfigSlice';
+import { AiOutlineSave } from 'react-icons/ai';
+
+
+/**
+ * Config values of 0 & 1 come back as booleans, so convert them back to numbers
+ *
+ * @param value - The config value
+ */
+const toNumber = (value: any): number => {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const num = Number(value);
+    return Number.isNaN(num) ? 0 : num;
+};
+
+export interface QueueRetriesFieldProps {
+    helpText?: string;
+}
+
+export const QueueRetriesField = ({ helpText }: QueueRetriesFieldProps): JSX.Element => {
+    const dispatch = useAppDispatch();
+
+    const retries = toNumber(useAppSelector(state => state.config.queue_max_retries));
+    const delay = toNumber(useAppSelector(state => state.config.queue_retry_delay));
+    const [newRetries, setNewRetries] = useState(retries);
+    const [newDelay, setNewDelay] = useState(delay);
+    const [retriesError, setRetriesError] = useState('');
+    const hasRetriesError: boolean = (retriesError ?? '').length > 0;
+
+    useEffect(() => { setNewRetries(retries); }, [retries]);
+    useEffect(() => { setNewDelay(delay); }, [delay]);
+
+    /**
+     * A handler & validator for saving the new retry settings
+     *
+     * @param theNewRetries - The new max number of retries
+     * @param theNewDelay - The new base delay (in seconds)
+     */
+    const saveRetries = (theNewRetries: number, theNewDelay: number): void => {
+        if (Number.isNaN(theNewRetries) || theNewRetries < 0) {
+            setRetriesError('The number of retries must be 0 (disabled) or greater');
+            return;
+        } else if (Number.isNaN(theNewDelay) || theNewDelay < 1) {
+            setRetriesError('The retry delay must be at least 1 second');
+            return;
+        }
+
+        dispatch(setConfig({ name: 'queue_max_retries', value: theNewRetries }));
+        dispatch(setConfig({ name: 'queue_retry_delay', value: theNewDelay }));
+        if (hasRetriesError) setRetriesError('');
+        showSuccessToast({
+            id: 'settings',
+            duration: 4000,
+            description: 'Successfully saved new send retry settings!'
+        });
+    };
+
+    return (
+        <FormControl isInvalid={hasRetriesError}>
+            <FormLabel htmlFor='queue_max_retries'>Queued Send Retries</FormLabel>
+            <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
+                <Input
+                    id='queue_max_retries'
+                    type='number'
+                    maxWidth="5em"
+                    value={newRetries}
+                    onChange={(e) => {
+                        if (hasRetriesError) setRetriesError('');
+                        setNewRetries(Number.parseInt(e.target.value));
+                    }}
+                />
+                <Text mx={2}>retries, starting</Text>
+                <Input
+                    id='queue_retry_delay'
+                    type='number'
+                    maxWidth="5em"
+                    value={newDelay}
+                    onChange={(e) => {
+                        if (hasRetriesError) setRetriesError('');
+                        setNewDelay(Number.parseInt(e.target.value));
+                    }}
+                />
+                <Text ml={2}>seconds apart</Text>
+                <IconButton
+                    ml={3}
+                    verticalAlign='top'
+                    aria-label='Save send retry settings'
+                    icon={<AiOutlineSave />}
+                    onClick={() => saveRetries(newRetries, newDelay)}
+                />
+            </Flex>
+            {!hasRetriesError ? (
+                <FormHelperText>
+                    {helpText ?? (
+                        'Enter how many times a queued send (i.e. an attachment) should be retried after a temporary failure. ' +
+                        'The delay doubles after each retry.'
+                    )}
+                </FormHelperText>
+            ) : (
+                <FormErrorMessage>{retriesError}</FormErrorMessage>
+            )}
+        </FormControl>
+    );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import {
+    AlertDialog,
+    AlertDialogOverlay,
+    AlertDialogBody,
+    AlertDialogContent,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    Button,
+    Input,
+    FormControl,
+    FormErrorMessage,
+    FormLabel,
+    Text,
+    Code
+} from '@chakra-ui/react';
+import { Select as MultiSelect } from 'chakra-react-select';
+import { FocusableElement } from '@chakra-ui/utils';
+import { apiTokenScopeOptions } from '../../constants';
+import { MultiSelectValue } from '../../types';
+import { copyToClipboard } from '../../utils/GenericUtils';
+
+
+interface AddApiTokenDialogProps {
+    onCancel?: () => void;
+    onCreate: (name: string, scopes: Array<string>) => Promise<string | null>;
+    isOpen: boolean;
+    modalRef: React.RefObject<FocusableElement>;
+    onClose: () => void;
+}
+
+
+export const AddApiTokenDialog = ({
+    onCancel,
+    onCreate,
+    isOpen,
+    modalRef,
+    onClose
+}: AddApiTokenDialogProps): JSX.Element => {
+    const [name, setName] = useState('');
+    const [selectedScopes, setSelectedScopes] = useState(
+        apiTokenScopeOptions.filter(option => option.value === 'read-messages') as Array<MultiSelectValue>);
+    const [nameError, setNameError] = useState('');
+    const isNameInvalid = (nameError ?? '').length > 0;
+    const [scopesError, setScopesError] = useState('');
+    const isScopesError = (scopesError ?? '').length > 0;
+
+    // Once created, the raw token is shown (only once) so the user can copy it
+    const [token, setToken] = useState(null as string | null);
+
+    const reset = () => {
+        setName('');
+        setToken(null);
+        onClose();
+    };
+
+    return (
+        <AlertDialog
+            isOpen={isOpen}
+            leastDestructiveRef={modalRef}
+            onClose={() => reset()}
+        >
+            <AlertDialogOverlay>
+                <AlertDialogContent>
+                    <AlertDialogHeader fontSize='lg' fontWeight='bold'>
+                        {token ? 'API Token Created' : 'Create a new API Token'}
+                    </AlertDialogHeader>
+
+                    {token ? (
+                        <AlertDialogBody>
+                            <Text>
+                                Copy your new API token now. For security purposes, it will not be shown again!
+                            </Text>
+                            <Code mt={5} p={2} wordBreak='break-all'>{token}</Code>
+                        </AlertDialogBody>
+                    ) : (
+                        <AlertDialogBody>
+                            <Text>
+                                API tokens can be used in place of the server password. Each token is only
+                                allowed to access the parts of the API granted by its scopes.
+                            </Text>
+                            <FormControl isInvalid={isNameInvalid} mt={5}>
+                                <FormLabel htmlFor='name'>Name</FormLabel>
+                                <Input
+                                    id='name'
+                                    type='text'
+                                    value={name}
+                                    placeholder='Home Assistant'
+                                    onChange={(e) => {
+                                        setNameError('');
+                                        setName(e.target.value);
+                                    }}
+                                />
+                                {isNameInvalid ? (
+                                    <FormErrorMessage>{nameError}</FormErrorMessage>
+                                ) : null}
+                            </FormControl>
+                            <FormControl isInvalid={isScopesError} mt={5}>
+                                <FormLabel htmlFor='scopes'>Scopes</FormLabel>
+                                <MultiSelect
+                                    size='md'
+                                    isMulti={true}
+                                    options={apiTokenScopeOptions}
+                                    value={selectedScopes}
+                                    onChange={(newValues) => {
+                                        setScopesError('');
+                                        setSelectedScopes(newValues as Array<MultiSelectValue>);
+                                    }}
+                                />
+                                {isScopesError ? (
+                                    <FormErrorMessage>{scopesError}</FormErrorMessage>
+                                ) : null}
+                            </FormControl>
+                        </AlertDialogBody>
+                    )}
+
+                    <AlertDialogFooter>
+                        {token ? (
+                            <>
+                                <Button onClick={() => copyToClipboard(token)}>
+                                    Copy
+                                </Button>
+                                <Button
+                                    ml={3}
+                                    bg='brand.primary'
+                                    ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                                    onClick={() => reset()}
+                                >
+                                    Done
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                <Button
+                                    ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                                    onClick={() => {
+                                        if (onCancel) onCancel();
+                                        reset();
+                                    }}
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    ml={3}
+                                    bg='brand.primary'
+                                    onClick={async () => {
+                                        if (name.trim().length === 0) {
+                                            setNameError('Please enter a name for the token!');
+                                            return;
+                                        }
+
+                                        if (selectedScopes.length === 0) {
+                                            setScopesError('Please select at least 1 scope!');
+                                            return;
+                                        }
+
+                                        const newToken = await onCreate(name.trim(), selectedScopes.map(e => e.value));
+                                        if (newToken) {
+                                            setToken(newToken);
+                                        }
+                                    }}
+                                >
+                                    Create
+                                </Button>
+                            </>
+                        )}
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialogOverlay>
+        </AlertDialog>
+    );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import {
+    AlertDialog,
+    AlertDialogOverlay,
+    AlertDialogBody,
+    AlertDialogContent,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    Button,
+    Table,
+    Tbody,
+    Tr,
+    Td
+} from '@chakra-ui/react';
+import { FocusableElement } from '@chakra-ui/utils';
+import { DeviceItem } from '../../slices/DevicesSlice';
+
+
+interface DeviceDetailsDialogProps {
+    isOpen: boolean;
+    modalRef: React.RefObject<FocusableElement>;
+    onClose: () => void;
+    device?: DeviceItem;
+    providerLabel?: string;
+}
+
+export const DeviceDetailsDialog = ({
+    isOpen,
+    modalRef,
+    onClose,
+    device,
+    providerLabel
+}: DeviceDetailsDialogProps): JSX.Element => {
+    const details: Array<[string, string]> = [
+        ['Name', device?.name ?? ''],
+        ['Provider', providerLabel ?? device?.provider ?? 'Unknown'],
+        ['Platform', device?.platform ?? 'Unknown'],
+        ['Client Version', device?.clientVersion ?? 'Unknown'],
+        ['Last IP Address', device?.lastIp ?? 'Unknown'],
+        ['Last Active', device?.lastActive ? new Date(device.lastActive).toLocaleString() : 'Never'],
+        ['ID', device?.id ?? '']
+    ];
+
+    return (
+        <AlertDialog
+            isOpen={isOpen}
+            leastDestructiveRef={modalRef}
+            onClose={() => onClose()}
+            size='xl'
+        >
+            <AlertDialogOverlay>
+                <AlertDialogContent>
+                    <AlertDialogHeader fontSize='lg' fontWeight='bold'>
+                        Device Details
+                    </AlertDialogHeader>
+
+                    <AlertDialogBody>
+                        <Table size='sm'>
+                            <Tbody>
+                                {details.map(([label, value]) => (
+                                    <Tr key={label}>
+                                        <Td fontWeight='bold'>{label}</Td>
+                                        <Td wordBreak='break-all'>{value}</Td>
+                                    </Tr>
+                                ))}
+                            </Tbody>
+                        </Table>
+                    </AlertDialogBody>
+
+                    <AlertDialogFooter>
+                        <Button
+                            ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                            onClick={() => onClose()}
+                        >
+                            Close
+                        </Button>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialogOverlay>
+        </AlertDialog>
+    );
+};
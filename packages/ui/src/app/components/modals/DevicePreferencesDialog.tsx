@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import {
+    AlertDialog,
+    AlertDialogOverlay,
+    AlertDialogBody,
+    AlertDialogContent,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    Button,
+    Checkbox,
+    Flex,
+    Input,
+    FormControl,
+    FormErrorMessage,
+    FormHelperText,
+    FormLabel,
+    Textarea
+} from '@chakra-ui/react';
+import { Select as MultiSelect } from 'chakra-react-select';
+import { FocusableElement } from '@chakra-ui/utils';
+import { webhookEventOptions } from '../../constants';
+import { MultiSelectValue } from '../../types';
+import { useAppDispatch } from '../../hooks';
+import { DeviceItem, update } from '../../slices/DevicesSlice';
+import { convertMultiSelectValues } from '../../utils/GenericUtils';
+import { updateDevicePreferences } from '../../utils/IpcUtils';
+import { showErrorToast, showSuccessToast } from '../../utils/ToastUtils';
+
+
+interface DevicePreferencesDialogProps {
+    onCancel?: () => void;
+    isOpen: boolean;
+    modalRef: React.RefObject<FocusableElement>;
+    onClose: () => void;
+    device?: DeviceItem;
+}
+
+const parseChatList = (value: string): Array<string> => {
+    return value.split('\n').map(e => e.trim()).filter(e => e.length > 0);
+};
+
+
+export const DevicePreferencesDialog = ({
+    onCancel,
+    isOpen,
+    modalRef,
+    onClose,
+    device
+}: DevicePreferencesDialogProps): JSX.Element => {
+    const dispatch = useAppDispatch();
+    const [selectedEvents, setSelectedEvents] = useState([] as Array<MultiSelectValue>);
+    const [includeChats, setIncludeChats] = useState('');
+    const [excludeChats, setExcludeChats] = useState('');
+    const [quietStart, setQuietStart] = useState('');
+    const [quietEnd, setQuietEnd] = useState('');
+    const [mentionsOnly, setMentionsOnly] = useState(false);
+    const [quietHoursError, setQuietHoursError] = useState('');
+    const isQuietHoursInvalid = (quietHoursError ?? '').length > 0;
+
+    useEffect(() => {
+        if (!device) return;
+
+        const preferences = device.preferences;
+        setSelectedEvents(convertMultiSelectValues(preferences?.events ?? ['*']));
+        setIncludeChats((preferences?.includeChats ?? []).join('\n'));
+        setExcludeChats((preferences?.excludeChats ?? []).join('\n'));
+        setQuietStart(preferences?.quietHours?.start ?? '');
+        setQuietEnd(preferences?.quietHours?.end ?? '');
+        setMentionsOnly(preferences?.mentionsOnly ?? false);
+        setQuietHoursError('');
+    }, [device]);
+
+    return (
+        <AlertDialog
+            isOpen={isOpen}
+            leastDestructiveRef={modalRef}
+            onClose={() => onClose()}
+        >
+            <AlertDialogOverlay>
+                <AlertDialogContent>
+                    <AlertDialogHeader fontSize='lg' fontWeight='bold'>
+                        Notification Preferences
+                    </AlertDialogHeader>
+
+                    <AlertDialogBody>
+                        <FormControl>
+                            <FormLabel htmlFor='events'>Events</FormLabel>
+                            <MultiSelect
+                                size='md'
+                                isMulti={true}
+                                options={webhookEventOptions}
+                                value={selectedEvents}
+                                onChange={(newValues) => {
+                                    setSelectedEvents(newValues as Array<MultiSelectValue>);
+                                }}
+                            />
+                            <FormHelperText>Select "All Events" (or nothing) to receive every event</FormHelperText>
+                        </FormControl>
+                        <FormControl mt={5}>
+                            <FormLabel htmlFor='includeChats'>Only Include Chats</FormLabel>
+                            <Textarea
+                                id='includeChats'
+                                size='sm'
+                                value={includeChats}
+                                placeholder='One chat GUID per line'
+                                onChange={(e) => setIncludeChats(e.target.value)}
+                            />
+                        </FormControl>
+                        <FormControl mt={5}>
+                            <FormLabel htmlFor='excludeChats'>Exclude Chats</FormLabel>
+                            <Textarea
+                                id='excludeChats'
+                                size='sm'
+                                value={excludeChats}
+                                placeholder='One chat GUID per line'
+                                onChange={(e) => setExcludeChats(e.target.value)}
+                            />
+                        </FormControl>
+                        <FormControl isInvalid={isQuietHoursInvalid} mt={5}>
+                            <FormLabel htmlFor='quietStart'>Quiet Hours</FormLabel>
+                            <Flex flexDirection='row' alignItems='center'>
+                                <Input
+                                    id='quietStart'
+                                    type='time'
+                                    value={quietStart}
+                                    onChange={(e) => {
+                                        setQuietHoursError('');
+                                        setQuietStart(e.target.value);
+                                    }}
+                                />
+                                <Input
+                                    ml={3}
+                                    id='quietEnd'
+                                    type='time'
+                                    value={quietEnd}
+                                    onChange={(e) => {
+                                        setQuietHoursError('');
+                                        setQuietEnd(e.target.value);
+                                    }}
+                                />
+                            </Flex>
+                            {isQuietHoursInvalid ? (
+                                <FormErrorMessage>{quietHoursError}</FormErrorMessage>
+                            ) : (
+                                <FormHelperText>Nothing will be sent to the device during these hours</FormHelperText>
+                            )}
+                        </FormControl>
+                        <FormControl mt={5}>
+                            <Checkbox isChecked={mentionsOnly} onChange={(e) => setMentionsOnly(e.target.checked)}>
+                                Only notify for group chat messages that mention me
+                            </Checkbox>
+                        </FormControl>
+                    </AlertDialogBody>
+
+                    <AlertDialogFooter>
+                        <Button
+                            ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                            onClick={() => {
+                                if (onCancel) onCancel();
+                                onClose();
+                            }}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            ml={3}
+                            bg='brand.primary'
+                            ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                            onClick={() => {
+                                if (!device) return;
+                                if ((quietStart.length > 0) !== (quietEnd.length > 0)) {
+                                    setQuietHoursError('Please enter both a start & end time!');
+                                    return;
+                                }
+
+                                const preferences = {
+                                    events: selectedEvents.map(e => e.value),
+                                    includeChats: parseChatList(includeChats),
+                                    excludeChats: parseChatList(excludeChats),
+                                    quietHours: quietStart.length > 0 ? { start: quietStart, end: quietEnd } : null,
+                                    mentionsOnly
+                                };
+
+                                updateDevicePreferences(device.name, preferences).then(updated => {
+                                    dispatch(update({ ...device, preferences: updated.preferences }));
+                                    showSuccessToast({
+                                        id: 'devices',
+                                        description: 'Successfully updated device preferences!'
+                                    });
+                                }).catch(ex => {
+                                    showErrorToast({
+                                        id: 'devices',
+                                        description: `Failed to update device preferences! ${ex?.message ?? ex}`
+                                    });
+                                });
+
+                                onClose();
+                            }}
+                        >
+                            Save
+                        </Button>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialogOverlay>
+        </AlertDialog>
+    );
+};
@@ -11,6 +11,7 @@ import {
     Input,
     FormControl,
     FormErrorMessage,
+    FormHelperText,
     FormLabel,
     RadioGroup,
     Stack,
@@ -64,6 +65,11 @@ export const ScheduledMessageDialog = ({
     const [scheduleType, setScheduleType] = useState(scheduleTypeOptions[0] as any | null);
     const [intervalType, setIntervalType] = useState(intervalTypeOpts[0] as any | null);
     const [interval, setIntervalValue] = useState(1);
+    const [cronExpression, setCronExpression] = useState('');
+    const [timeZone, setTimeZone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    const [endDate, setEndDate] = useState(null as Date | null);
+    const [maxOccurrences, setMaxOccurrences] = useState(0);
+    const [skipHours, setSkipHours] = useState(0);
     const [messageError, setMessageError] = useState('');
     const hasMessageError = (messageError ?? '').length > 0;
     const [guidError, setGuidError] = useState('');
@@ -72,6 +78,12 @@ export const ScheduledMessageDialog = ({
     const hasDateError = (dateError ?? '').length > 0;
     const [intervalError, setIntervalError] = useState('');
     const hasIntervalError = (intervalError ?? '').length > 0;
+    const [cronError, setCronError] = useState('');
+    const hasCronError = (cronError ?? '').length > 0;
+    const isRepeating = scheduleType.value === 'recurring' || scheduleType.value === 'cron';
+    const isRename = type?.value === 'rename-group';
+    const isSend = type?.value === 'send-message';
+    const hasMessage = isSend || isRename;
 
     useEffect(() => {
         ipcRenderer.invoke('get-chats').then((chats: any[]) => {
@@ -98,9 +110,15 @@ export const ScheduledMessageDialog = ({
         setScheduleType(scheduleTypeOptions[0] as any | null);
         setIntervalType(intervalTypeOpts[0] as any | null);
         setIntervalValue(1);
+        setCronExpression('');
+        setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+        setEndDate(null);
+        setMaxOccurrences(0);
+        setSkipHours(0);
         setMessageError('');
         setGuidError('');
         setIntervalError('');
+        setCronError('');
 
         if (onClose) onClose();
     };
@@ -167,22 +185,24 @@ export const ScheduledMessageDialog = ({
                                 />
                             </FormControl>
                         ) : null}
-                        <FormControl isInvalid={hasMessageError} mt={5}>
-                            <FormLabel htmlFor='message'>Message</FormLabel>
-                            <Input
-                                id='message'
-                                type='text'
-                                value={message}
-                                placeholder='Good morning :)'
-                                onChange={(e) => {
-                                    setMessageError('');
-                                    setMessage(e.target.value);
-                                }}
-                            />
-                            {hasMessageError ? (
-                                <FormErrorMessage>{messageError}</FormErrorMessage>
-                            ) : null}
-                        </FormControl>
+                        {hasMessage ? (
+                            <FormControl isInvalid={hasMessageError} mt={5}>
+                                <FormLabel htmlFor='message'>{isRename ? 'New Group Name' : 'Message'}</FormLabel>
+                                <Input
+                                    id='message'
+                                    type='text'
+                                    value={message}
+                                    placeholder={isRename ? 'Weekend Plans' : 'Good morning :)'}
+                                    onChange={(e) => {
+                                        setMessageError('');
+                                        setMessage(e.target.value);
+                                    }}
+                                />
+                                {hasMessageError ? (
+                                    <FormErrorMessage>{messageError}</FormErrorMessage>
+                                ) : null}
+                            </FormControl>
+                        ) : null}
                         <FormControl mt={5}>
                             <FormLabel>Schedule Type</FormLabel>
                             <Select
@@ -193,7 +213,9 @@ export const ScheduledMessageDialog = ({
                             />
                         </FormControl>
                         <FormControl isInvalid={hasDateError} mt={5}>
-                            <FormLabel htmlFor='scheduledFor'>Scheduled For</FormLabel>
+                            <FormLabel htmlFor='scheduledFor'>
+                                {scheduleType.value === 'cron' ? 'Starting (Optional)' : 'Scheduled For'}
+                            </FormLabel>
                             <Input
                                 id='scheduledFor'
                                 type='datetime-local'
@@ -244,6 +266,86 @@ export const ScheduledMessageDialog = ({
                                 </FormControl>
                             </>
                         ) : null}
+                        {scheduleType.value === 'cron' ? (
+                            <FormControl isInvalid={hasCronError} mt={5}>
+                                <FormLabel htmlFor='cronExpression'>Cron Expression</FormLabel>
+                                <Input
+                                    id='cronExpression'
+                                    type='text'
+                                    value={cronExpression}
+                                    placeholder='0 9 * * MON-FRI'
+                                    onChange={(e) => {
+                                        setCronError('');
+                                        setCronExpression(e.target.value);
+                                    }}
+                                />
+                                {hasCronError ? (
+                                    <FormErrorMessage>{cronError}</FormErrorMessage>
+                                ) : (
+                                    <FormHelperText>
+                                        Minute, hour, day of month, month, and day of week.
+                                        Use L for the last day of the month, LW for the last weekday,
+                                        or 5L for the last Friday.
+                                    </FormHelperText>
+                                )}
+                            </FormControl>
+                        ) : null}
+                        {isRepeating ? (
+                            <>
+                                <FormControl mt={5}>
+                                    <FormLabel htmlFor='timeZone'>Time Zone</FormLabel>
+                                    <Input
+                                        id='timeZone'
+                                        type='text'
+                                        value={timeZone}
+                                        onChange={(e) => setTimeZone(e.target.value)}
+                                    />
+                                    <FormHelperText>
+                                        Sends stay at the same time of day in this time zone, even when DST changes
+                                    </FormHelperText>
+                                </FormControl>
+                                <FormControl mt={5}>
+                                    <FormLabel htmlFor='endDate'>End Date (Optional)</FormLabel>
+                                    <Input
+                                        id='endDate'
+                                        type='datetime-local'
+                                        defaultValue={toLocalIsoString(endDate)}
+                                        onChange={(e) => {
+                                            setEndDate(e.target.value.length !== 0 ? new Date(e.target.value) : null);
+                                        }}
+                                    />
+                                </FormControl>
+                                <FormControl mt={5}>
+                                    <FormLabel htmlFor='maxOccurrences'>Max Occurrences (Optional)</FormLabel>
+                                    <Input
+                                        id='maxOccurrences'
+                                        type='number'
+                                        value={maxOccurrences}
+                                        onChange={(e) => {
+                                            setMaxOccurrences(Number.parseInt(e.target.value));
+                                        }}
+                                    />
+                                    <FormHelperText>Enter 0 to repeat until the end date (or forever)</FormHelperText>
+                                </FormControl>
+                            </>
+                        ) : null}
+                        {isSend ? (
+                            <FormControl mt={5}>
+                                <FormLabel htmlFor='skipHours'>Skip If I&apos;ve Messaged the Chat Within (Hours)</FormLabel>
+                                <Input
+                                    id='skipHours'
+                                    type='number'
+                                    value={skipHours}
+                                    onChange={(e) => {
+                                        setSkipHours(Number.parseInt(e.target.value));
+                                    }}
+                                />
+                                <FormHelperText>
+                                    The message won&apos;t be sent if you&apos;ve sent a message to the chat
+                                    within this many hours. Enter 0 to always send.
+                                </FormHelperText>
+                            </FormControl>
+                        ) : null}
                     </AlertDialogBody>
 
                     <AlertDialogFooter>
@@ -271,13 +373,14 @@ export const ScheduledMessageDialog = ({
                                     guid = `iMessage;-;${guid}`;
                                 }
 
-                                if (message.length === 0) {
-                                    setMessageError('Please enter a message to send!');
+                                if (hasMessage && message.length === 0) {
+                                    setMessageError(isRename ? 'Please enter a group name!' : 'Please enter a message to send!');
                                     return;
                                 }
 
                                 const now = new Date();
-                                if (!scheduledFor || scheduledFor < now) {
+                                const isCron = scheduleType.value === 'cron';
+                                if ((!isCron && !scheduledFor) || (scheduledFor && scheduledFor < now)) {
                                     setDateError('Please enter a date in the future!');
                                     return;
                                 }
@@ -290,21 +393,45 @@ export const ScheduledMessageDialog = ({
                                     return;
                                 }
 
+                                if (isCron && cronExpression.trim().split(/\s+/).length !== 5) {
+                                    setCronError('Please enter a cron expression with 5 fields!');
+                                    return;
+                                }
+
+                                const schedule: ScheduledMessageItem['schedule'] = { type: scheduleType.value };
+                                if (scheduleType.value === 'recurring') {
+                                    schedule.interval = interval ?? 1;
+                                    schedule.intervalType = intervalType.value;
+                                } else if (isCron) {
+                                    schedule.expression = cronExpression.trim();
+                                }
+
+                                if (isRepeating) {
+                                    if (timeZone.length > 0) schedule.timeZone = timeZone;
+                                    if (endDate) schedule.endDate = endDate.getTime();
+                                    if (maxOccurrences > 0) schedule.maxOccurrences = maxOccurrences;
+                                }
+
+                                if (isSend && skipHours > 0) schedule.skipIf = { type: 'message-from-me-within', hours: skipHours };
+
+                                let payload: ScheduledMessageItem['payload'] = { chatGuid: guid };
+                                if (isRename) {
+                                    payload.displayName = message;
+                                } else if (hasMessage) {
+                                    payload = {
+                                        ...payload,
+                                        message,
+                                        method: usePrivateApi ? 'private-api' : 'apple-script'
+                                    };
+                                }
+
                                 if (onCreate) {
                                     onCreate({
                                         id: null,
                                         type: type?.value ?? 'send-message',
-                                        payload: {
-                                            chatGuid: guid,
-                                            message,
-                                            method: usePrivateApi ? 'private-api' : 'apple-script'
-                                        },
-                                        scheduledFor: scheduledFor.getTime(),
-                                        schedule: {
-                                            type: scheduleType.value,
-                                            interval: interval ?? 1,
-                                            intervalType: intervalType.value
-                                        }
+                                        payload,
+                                        scheduledFor: scheduledFor?.getTime() ?? null,
+                                        schedule
                                     });
                                 }
 
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import {
+    AlertDialog,
+    AlertDialogOverlay,
+    AlertDialogBody,
+    AlertDialogContent,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    Box,
+    Button,
+    Code,
+    Flex,
+    Icon,
+    Table,
+    Thead,
+    Tbody,
+    Tr,
+    Th,
+    Td,
+    Text,
+    Tooltip
+} from '@chakra-ui/react';
+import { FocusableElement } from '@chakra-ui/utils';
+import { BiRefresh } from 'react-icons/bi';
+import { WebhookItem } from '../../slices/WebhooksSlice';
+import { getWebhookDeliveries, redeliverWebhook } from '../../utils/IpcUtils';
+import { copyToClipboard } from '../../utils/GenericUtils';
+import { showErrorToast, showSuccessToast } from '../../utils/ToastUtils';
+
+export type WebhookDeliveryItem = {
+    id: number;
+    webhookId: number;
+    eventId: string;
+    eventType: string;
+    status: string;
+    attempts: number;
+    statusCode: number | null;
+    latencyMs: number | null;
+    error: string | null;
+    nextAttemptAt: number | null;
+    lastAttemptAt: number | null;
+    created: number | null;
+};
+
+interface WebhookDeliveriesDialogProps {
+    webhook?: WebhookItem;
+    isOpen: boolean;
+    modalRef: React.RefObject<FocusableElement>;
+    onClose: () => void;
+}
+
+
+export const WebhookDeliveriesDialog = ({
+    webhook,
+    isOpen,
+    modalRef,
+    onClose
+}: WebhookDeliveriesDialogProps): JSX.Element => {
+    const [deliveries, setDeliveries] = useState([] as Array<WebhookDeliveryItem>);
+
+    const loadDeliveries = () => {
+        if (!webhook) return;
+        getWebhookDeliveries(webhook.id).then((items: Array<WebhookDeliveryItem>) => {
+            setDeliveries(items);
+        }).catch(() => {
+            // Do nothing
+        });
+    };
+
+    useEffect(() => {
+        if (isOpen) loadDeliveries();
+    }, [isOpen, webhook?.id]);
+
+    const onRedeliver = async (id: number) => {
+        try {
+            await redeliverWebhook(id);
+            showSuccessToast({ id: 'webhooks', description: 'Successfully queued the event for redelivery!' });
+            loadDeliveries();
+        } catch (ex: any) {
+            showErrorToast({ id: 'webhooks', description: `Failed to redeliver event! ${ex?.message}` });
+        }
+    };
+
+    return (
+        <AlertDialog
+            isOpen={isOpen}
+            leastDestructiveRef={modalRef}
+            onClose={() => onClose()}
+            size='4xl'
+        >
+            <AlertDialogOverlay>
+                <AlertDialogContent>
+                    <AlertDialogHeader fontSize='lg' fontWeight='bold'>
+                        Webhook Deliveries
+                    </AlertDialogHeader>
+
+                    <AlertDialogBody>
+                        <Text wordBreak='break-all'>{webhook?.url}</Text>
+                        <Text mt={3}>
+                            Each request is signed using the secret below. The <Code>X-BlueBubbles-Signature</Code> header
+                            contains <Code>sha256=HMAC(secret, timestamp + &quot;.&quot; + body)</Code>, where the timestamp
+                            is the value of the <Code>X-BlueBubbles-Timestamp</Code> header.
+                        </Text>
+                        <Flex mt={3} alignItems='center'>
+                            <Code p={2} wordBreak='break-all'>{webhook?.secret ?? 'Generated on the next delivery'}</Code>
+                            {webhook?.secret ? (
+                                <Button ml={3} size='sm' onClick={() => copyToClipboard(webhook.secret as string)}>
+                                    Copy
+                                </Button>
+                            ) : null}
+                        </Flex>
+                        <Box mt={5} maxHeight='50vh' overflowY='auto'>
+                            {deliveries.length === 0 ? (
+                                <Text>This webhook has no deliveries yet</Text>
+                            ) : (
+                                <Table variant="striped" colorScheme="blue" size='sm'>
+                                    <Thead>
+                                        <Tr>
+                                            <Th>Event</Th>
+                                            <Th>Status</Th>
+                                            <Th isNumeric>Attempts</Th>
+                                            <Th isNumeric>Code</Th>
+                                            <Th isNumeric>Latency</Th>
+                                            <Th>Last Attempt</Th>
+                                            <Th isNumeric>Actions</Th>
+                                        </Tr>
+                                    </Thead>
+                                    <Tbody>
+                                        {deliveries.map(item => (
+                                            <Tr key={item.id}>
+                                                <Td>{item.eventType}</Td>
+                                                <Td>
+                                                    <Tooltip label={item.error ?? ''} isDisabled={!item.error}>
+                                                        {item.status}
+                                                    </Tooltip>
+                                                </Td>
+                                                <Td isNumeric>{item.attempts}</Td>
+                                                <Td isNumeric>{item.statusCode ?? '-'}</Td>
+                                                <Td isNumeric>{item.latencyMs != null ? `${item.latencyMs} ms` : '-'}</Td>
+                                                <Td>
+                                                    {item.lastAttemptAt ? new Date(item.lastAttemptAt).toLocaleString() : '-'}
+                                                </Td>
+                                                <Td isNumeric>
+                                                    <Tooltip label='Redeliver' placement='bottom'>
+                                                        <Box
+                                                            as='span'
+                                                            _hover={{ cursor: 'pointer' }}
+                                                            onClick={() => onRedeliver(item.id)}
+                                                        >
+                                                            <Icon as={BiRefresh} />
+                                                        </Box>
+                                                    </Tooltip>
+                                                </Td>
+                                            </Tr>
+                                        ))}
+                                    </Tbody>
+                                </Table>
+                            )}
+                        </Box>
+                    </AlertDialogBody>
+
+                    <AlertDialogFooter>
+                        <Button onClick={() => loadDeliveries()}>
+                            Refresh
+                        </Button>
+                        <Button
+                            ml={3}
+                            ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                            onClick={() => onClose()}
+                        >
+                            Close
+                        </Button>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialogOverlay>
+        </AlertDialog>
+    );
+};
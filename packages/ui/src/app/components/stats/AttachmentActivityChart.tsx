@@ -0,0 +1,41 @@
+import React from 'react';
+import { UpdatableChartBox } from './index';
+import { BarChart } from './BarChart';
+
+export const AttachmentActivityChart = (
+    {
+        autoUpdate = true,
+        delay = 0,
+        pastDays = 0
+    }:
+    {
+        autoUpdate?: boolean,
+        delay?: number,
+        pastDays?: number
+    }
+): JSX.Element => {
+    const interval = (!pastDays || pastDays > 90) ? 'week' : 'day';
+
+    return (
+        <UpdatableChartBox
+            title='Attachments'
+            statName='analytics_attachments'
+            type='attachments'
+            color='purple'
+            args={() => ({ interval })}
+            autoUpdate={autoUpdate}
+            delay={delay}
+            pastDays={pastDays}
+            render={(value: any[]) => (
+                <BarChart
+                    data={value.map(item => ({
+                        label: item.date,
+                        values: [item.image, item.video, item.audio, item.other]
+                    }))}
+                    series={['Images', 'Videos', 'Audio', 'Other']}
+                    colors={['purple.400', 'orange.400', 'teal.400', 'gray.400']}
+                />
+            )}
+        />
+    );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Box, Flex, Text, Tooltip } from '@chakra-ui/react';
+import { formatNumber } from 'app/utils/NumberUtils';
+
+export type BarChartItem = {
+    label: string,
+    values: number[]
+};
+
+/**
+ * A simple stacked bar chart. Each item is a column, and each value is a segment of the column.
+ */
+export const BarChart = (
+    {
+        data,
+        series,
+        colors,
+        height = 150
+    }:
+    {
+        data: BarChartItem[],
+        series: string[],
+        colors: string[],
+        height?: number
+    }
+): JSX.Element => {
+    if (data.length === 0) {
+        return <Text color='gray.500'>No data for this timeframe</Text>;
+    }
+
+    const max = Math.max(1, ...data.map(item => item.values.reduce((a, b) => a + b, 0)));
+    return (
+        <Box>
+            <Flex height={`${height}px`} alignItems='flex-end' gap='1px'>
+                {data.map(item => {
+                    const tooltip = series.map((name, idx) => `${name}: ${formatNumber(item.values[idx] ?? 0)}`);
+                    return (
+                        <Tooltip key={item.label} label={`${item.label} | ${tooltip.join(', ')}`} placement='top'>
+                            <Flex flex={1} height='100%' flexDirection='column-reverse' minW='2px'>
+                                {item.values.map((value, idx) => (
+                                    <Box
+                                        key={series[idx]}
+                                        height={`${(value / max) * 100}%`}
+                                        backgroundColor={colors[idx]}
+                                    />
+                                ))}
+                            </Flex>
+                        </Tooltip>
+                    );
+                })}
+            </Flex>
+            <Flex justifyContent='space-between' mt={1}>
+                <Text fontSize='xs' color='gray.500'>{data[0].label}</Text>
+                <Flex gap={3}>
+                    {series.map((name, idx) => (
+                        <Flex key={name} alignItems='center' gap={1}>
+                            <Box width='8px' height='8px' borderRadius='full' backgroundColor={colors[idx]} />
+                            <Text fontSize='xs' color='gray.500'>{name}</Text>
+                        </Flex>
+                    ))}
+                </Flex>
+                <Text fontSize='xs' color='gray.500'>{data[data.length - 1].label}</Text>
+            </Flex>
+        </Box>
+    );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { UpdatableChartBox } from './index';
+import { BarChart } from './BarChart';
+
+export const MessageActivityChart = (
+    {
+        autoUpdate = true,
+        delay = 0,
+        pastDays = 0
+    }:
+    {
+        autoUpdate?: boolean,
+        delay?: number,
+        pastDays?: number
+    }
+): JSX.Element => {
+    // Group by week for long timeframes, so the bars don't get too thin
+    const interval = (!pastDays || pastDays > 90) ? 'week' : 'day';
+
+    return (
+        <UpdatableChartBox
+            title='Messages Sent vs Received'
+            statName='analytics_messages'
+            type='messages'
+            color='blue'
+            args={() => ({ interval })}
+            autoUpdate={autoUpdate}
+            delay={delay}
+            pastDays={pastDays}
+            render={(value: any[]) => (
+                <BarChart
+                    data={value.map(item => ({ label: item.date, values: [item.sent, item.received] }))}
+                    series={['Sent', 'Received']}
+                    colors={['blue.400', 'green.400']}
+                />
+            )}
+        />
+    );
+};
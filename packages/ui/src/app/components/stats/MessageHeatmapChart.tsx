@@ -0,0 +1,59 @@
+import React from 'react';
+import { Box, Flex, Text, Tooltip } from '@chakra-ui/react';
+import { UpdatableChartBox } from './index';
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const Heatmap = ({ value }: { value: { max: number, data: number[][] } }): JSX.Element => {
+    return (
+        <Box>
+            {value.data.map((hours, weekday) => (
+                <Flex key={weekdays[weekday]} alignItems='center' gap='2px' mb='2px'>
+                    <Text fontSize='xs' color='gray.500' width='32px'>{weekdays[weekday]}</Text>
+                    {hours.map((count, hour) => (
+                        <Tooltip key={hour} label={`${weekdays[weekday]} ${hour}:00 | ${count} messages`} placement='top'>
+                            <Box
+                                flex={1}
+                                height='14px'
+                                borderRadius='sm'
+                                backgroundColor='brand.primary'
+                                opacity={value.max > 0 ? Math.max(0.05, count / value.max) : 0.05}
+                            />
+                        </Tooltip>
+                    ))}
+                </Flex>
+            ))}
+            <Flex justifyContent='space-between' pl='34px'>
+                <Text fontSize='xs' color='gray.500'>12 AM</Text>
+                <Text fontSize='xs' color='gray.500'>12 PM</Text>
+                <Text fontSize='xs' color='gray.500'>11 PM</Text>
+            </Flex>
+        </Box>
+    );
+};
+
+export const MessageHeatmapChart = (
+    {
+        autoUpdate = true,
+        delay = 0,
+        pastDays = 0
+    }:
+    {
+        autoUpdate?: boolean,
+        delay?: number,
+        pastDays?: number
+    }
+): JSX.Element => {
+    return (
+        <UpdatableChartBox
+            title='Busiest Times'
+            statName='analytics_heatmap'
+            type='heatmap'
+            color='green'
+            autoUpdate={autoUpdate}
+            delay={delay}
+            pastDays={pastDays}
+            render={(value: any) => <Heatmap value={value} />}
+        />
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Box, Flex, Stack, Text } from '@chakra-ui/react';
+import { formatNumber } from 'app/utils/NumberUtils';
+import { UpdatableChartBox } from './index';
+
+const reactionEmojis: NodeJS.Dict<string> = {
+    love: '❤️',
+    like: '👍',
+    dislike: '👎',
+    laugh: '😂',
+    emphasize: '‼️',
+    question: '❓'
+};
+
+const Reactions = ({ value }: { value: any[] }): JSX.Element => {
+    if (value.length === 0) return <Text color='gray.500'>No reactions for this timeframe</Text>;
+
+    const max = Math.max(1, ...value.map(item => item.sent + item.received));
+    return (
+        <Stack direction='column' spacing={1}>
+            {value.map(item => (
+                <Flex key={item.reaction} alignItems='center' gap={2}>
+                    <Text width='90px' fontSize='sm' isTruncated>
+                        {reactionEmojis[item.reaction] ?? ''} {item.reaction}
+                    </Text>
+                    <Flex flex={1} height='12px'>
+                        <Box width={`${(item.sent / max) * 100}%`} backgroundColor='blue.400' />
+                        <Box width={`${(item.received / max) * 100}%`} backgroundColor='green.400' />
+                    </Flex>
+                    <Text width='60px' fontSize='xs' color='gray.500' textAlign='right'>
+                        {formatNumber(item.sent + item.received)}
+                    </Text>
+                </Flex>
+            ))}
+        </Stack>
+    );
+};
+
+export const ReactionsChart = (
+    {
+        autoUpdate = true,
+        delay = 0,
+        pastDays = 0
+    }:
+    {
+        autoUpdate?: boolean,
+        delay?: number,
+        pastDays?: number
+    }
+): JSX.Element => {
+    return (
+        <UpdatableChartBox
+            title='Reactions (Sent / Received)'
+            statName='analytics_reactions'
+            type='reactions'
+            color='red'
+            autoUpdate={autoUpdate}
+            delay={delay}
+            pastDays={pastDays}
+            render={(value: any[]) => <Reactions value={value} />}
+        />
+    );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { UpdatableStatBox } from './index';
+
+const formatDuration = (ms: number | null): string => {
+    if (ms === null || ms === undefined) return 'N/A';
+
+    const minutes = ms / 60000;
+    if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+    if (minutes < 60) return `${Math.round(minutes)}m`;
+    return `${(minutes / 60).toFixed(1)}h`;
+};
+
+export const ResponseTimeStatBox = (
+    {
+        autoUpdate = true,
+        updateInterval = 5 * 60000,
+        delay = 0,
+        pastDays = 0
+    }:
+    {
+        autoUpdate?: boolean,
+        updateInterval?: number,
+        delay?: number,
+        pastDays?: number
+    }
+): JSX.Element => {
+    const transform = (value: any): string => {
+        return `You: ${formatDuration(value?.me?.median)} / Them: ${formatDuration(value?.others?.median)}`;
+    };
+
+    return (
+        <UpdatableStatBox
+            title='Median Response Time'
+            statName='response_time'
+            ipcEvent='get-analytics'
+            args={() => ({ type: 'response-times' })}
+            color='orange'
+            transform={transform}
+            autoUpdate={autoUpdate}
+            updateInterval={updateInterval}
+            delay={delay}
+            pastDays={pastDays}
+        />
+    );
+};
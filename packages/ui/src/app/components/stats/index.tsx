@@ -16,6 +16,11 @@ import { BestFriendStatBox } from './BestFriendStatBox';
 import { DailyMessagesStatBox } from './DailyMessagesStatBox';
 import { TotalPicturesStatBox } from './TotalPicturesStatBox';
 import { TotalVideosStatBox } from './TotalVideosStatBox';
+import { ResponseTimeStatBox } from './ResponseTimeStatBox';
+import { MessageActivityChart } from './MessageActivityChart';
+import { MessageHeatmapChart } from './MessageHeatmapChart';
+import { ReactionsChart } from './ReactionsChart';
+import { AttachmentActivityChart } from './AttachmentActivityChart';
 import { StatValue } from './types';
 import { useTimeout } from 'app/hooks/UseTimeout';
 import { useInterval } from 'app/hooks/UseInterval';
@@ -129,6 +134,79 @@ export const UpdatableStatBox = (
 };
 
 
+export const UpdatableChartBox = (
+    {
+        title,
+        color,
+        statName,
+        type,
+        args = null,
+        render,
+        autoUpdate = true,
+        updateInterval = 5 * 60000,
+        delay = 0,
+        pastDays = null
+    }:
+    {
+        title: string,
+        color: string,
+        statName: string,
+        type: string,
+        args?: null | (() => NodeJS.Dict<any> | null),
+        render: (value: any) => JSX.Element,
+        autoUpdate?: boolean,
+        updateInterval?: number,
+        delay?: number,
+        pastDays?: number | null
+    }
+): JSX.Element => {
+    const dispatch = useAppDispatch();
+    const value: any = useAppSelector(state => state.statistics[statName]) ?? null;
+
+    /**
+     * Fetches the analytics via an IPC call, then stores them in the redux slice.
+     * These are the same analytics that the REST API serves.
+     */
+    const updateChart = (force = false) => {
+        if (!force && !shouldUpdate(statName, updateInterval)) return;
+        updateCache[statName] = new Date().getTime();
+
+        const finalArgs: NodeJS.Dict<any> = { ...(args ? args() : {}), type };
+        if (pastDays && pastDays > 0) {
+            finalArgs.after = new Date(new Date().getTime() - (pastDays * 86_400_000));
+        }
+
+        ipcRenderer.invoke('get-analytics', finalArgs).then((result) => {
+            dispatch(setStat({ name: statName, value: result }));
+        }).catch(() => {
+            // Don't update the chart if we fail
+        });
+    };
+
+    useTimeout(updateChart, delay);
+
+    if (autoUpdate) {
+        useInterval(updateChart, updateInterval);
+    }
+
+    useEffect(() => {
+        updateChart(true);
+    }, [pastDays]);
+
+    return (
+        <Box borderWidth='1px' borderRadius='lg' overflow='hidden' p={5} m={1}>
+            <Badge borderRadius='full' px='2' colorScheme={color} mb={2}>
+                {title}
+            </Badge>
+            <Spacer />
+            {(value === null) ? (
+                <SkeletonText height={20} mt={2} noOfLines={4} />
+            ) : render(value)}
+        </Box>
+    );
+};
+
+
 export const StatBox = (
     { title, text, color }:
     { title: string, text: string | number | null, color: string }
@@ -165,5 +243,10 @@ export {
     BestFriendStatBox,
     DailyMessagesStatBox,
     TotalPicturesStatBox,
-    TotalVideosStatBox
+    TotalVideosStatBox,
+    ResponseTimeStatBox,
+    MessageActivityChart,
+    MessageHeatmapChart,
+    ReactionsChart,
+    AttachmentActivityChart
 };
\ No newline at end of file
@@ -0,0 +1,65 @@
+import React from 'react';
+import {
+    Table,
+    Thead,
+    Tbody,
+    Tr,
+    Th,
+    Td,
+    TableCaption,
+    Icon,
+    Tooltip,
+    Box
+} from '@chakra-ui/react';
+import { FiTrash } from 'react-icons/fi';
+import { apiTokenScopeToLabel } from '../../constants';
+
+export type ApiTokenItem = {
+    id: number;
+    name: string;
+    tokenPrefix: string;
+    scopes: Array<string>;
+    lastUsed: number | null;
+    created: number | null;
+};
+
+
+export const ApiTokensTable = ({
+    tokens,
+    onDelete
+}: {
+    tokens: Array<ApiTokenItem>,
+    onDelete: (id: number) => void
+}): JSX.Element => {
+    return (
+        <Table variant="striped" colorScheme="blue">
+            <TableCaption>API tokens can be used in place of the server password, limited to the granted scopes</TableCaption>
+            <Thead>
+                <Tr>
+                    <Th>Name</Th>
+                    <Th>Token</Th>
+                    <Th>Scopes</Th>
+                    <Th>Last Used</Th>
+                    <Th isNumeric>Actions</Th>
+                </Tr>
+            </Thead>
+            <Tbody>
+                {tokens.map(item => (
+                    <Tr key={item.id}>
+                        <Td wordBreak='break-all'>{item.name}</Td>
+                        <Td>{`${item.tokenPrefix}...`}</Td>
+                        <Td>{item.scopes.map(e => apiTokenScopeToLabel[e] ?? e).join(', ')}</Td>
+                        <Td>{item.lastUsed ? new Date(item.lastUsed).toLocaleString() : 'Never'}</Td>
+                        <Td isNumeric>
+                            <Tooltip label='Revoke' placement='bottom'>
+                                <Box as='span' _hover={{ cursor: 'pointer' }} onClick={() => onDelete(item.id)}>
+                                    <Icon as={FiTrash} />
+                                </Box>
+                            </Tooltip>
+                        </Td>
+                    </Tr>
+                ))}
+            </Tbody>
+        </Table>
+    );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import {
     Table,
     Thead,
@@ -6,31 +6,112 @@ import {
     Tr,
     Th,
     Td,
-    TableCaption
+    TableCaption,
+    Box,
+    Flex,
+    Icon,
+    Tooltip
 } from '@chakra-ui/react';
-import { DeviceItem } from '../../slices/DevicesSlice';
+import { AiOutlineEdit, AiOutlineInfoCircle } from 'react-icons/ai';
+import { FiTrash } from 'react-icons/fi';
+import { useAppDispatch } from '../../hooks';
+import { DeviceItem, remove } from '../../slices/DevicesSlice';
+import { DevicePreferencesDialog } from '../modals/DevicePreferencesDialog';
+import { DeviceDetailsDialog } from '../modals/DeviceDetailsDialog';
+import { ConfirmationDialog } from '../modals/ConfirmationDialog';
 
 
+const providerLabels: NodeJS.Dict<string> = {
+    fcm: 'Google FCM',
+    unifiedpush: 'UnifiedPush',
+    webpush: 'Web Push'
+};
+
 export const DevicesTable = ({ devices }: { devices: Array<DeviceItem> }): JSX.Element => {
+    const dispatch = useAppDispatch();
+    const dialogRef = useRef(null);
+    const detailsRef = useRef(null);
+    const confirmRef = useRef(null);
+    const [selectedName, setSelectedName] = useState(undefined as string | undefined);
+    const [detailsName, setDetailsName] = useState(undefined as string | undefined);
+    const [revokeName, setRevokeName] = useState(undefined as string | undefined);
+    const detailsDevice = devices.find(e => e.name === detailsName);
     return (
-        <Table variant="striped" colorScheme="blue" size='sm'>
-            <TableCaption>Devices registered for notifications over Google Play Services</TableCaption>
-            <Thead>
-                <Tr>
-                    <Th>Name</Th>
-                    <Th>ID</Th>
-                    <Th isNumeric>Last Active</Th>
-                </Tr>
-            </Thead>
-            <Tbody>
-                {devices.map(item => (
-                    <Tr key={item.name}>
-                        <Td wordBreak='break-all'>{item.name}</Td>
-                        <Td wordBreak='break-all'>{`${item.id.substring(0, 100)}...`}</Td>
-                        <Td isNumeric>{new Date(item.lastActive).toLocaleString()}</Td>
+        <Box>
+            <Table variant="striped" colorScheme="blue" size='sm'>
+                <TableCaption>Devices registered for notifications</TableCaption>
+                <Thead>
+                    <Tr>
+                        <Th>Name</Th>
+                        <Th>Provider</Th>
+                        <Th>ID</Th>
+                        <Th isNumeric>Last Active</Th>
+                        <Th isNumeric>Actions</Th>
                     </Tr>
-                ))}
-            </Tbody>
-        </Table>
+                </Thead>
+                <Tbody>
+                    {devices.map(item => (
+                        <Tr key={item.name}>
+                            <Td wordBreak='break-all'>{item.name}</Td>
+                            <Td>{providerLabels[item.provider ?? 'fcm'] ?? item.provider}</Td>
+                            <Td wordBreak='break-all'>{`${item.id.substring(0, 100)}...`}</Td>
+                            <Td isNumeric>{new Date(item.lastActive).toLocaleString()}</Td>
+                            <Td isNumeric>
+                                <Flex justifyContent='flex-end'>
+                                    <Tooltip label='Device Details' placement='bottom'>
+                                        <Box _hover={{ cursor: 'pointer' }} onClick={() => setDetailsName(item.name)}>
+                                            <Icon as={AiOutlineInfoCircle} />
+                                        </Box>
+                                    </Tooltip>
+                                    <Tooltip label='Notification Preferences' placement='bottom'>
+                                        <Box ml={2} _hover={{ cursor: 'pointer' }} onClick={() => setSelectedName(item.name)}>
+                                            <Icon as={AiOutlineEdit} />
+                                        </Box>
+                                    </Tooltip>
+                                    <Tooltip label='Revoke' placement='bottom'>
+                                        <Box ml={2} _hover={{ cursor: 'pointer' }} onClick={() => setRevokeName(item.name)}>
+                                            <Icon as={FiTrash} />
+                                        </Box>
+                                    </Tooltip>
+                                </Flex>
+                            </Td>
+                        </Tr>
+                    ))}
+                </Tbody>
+            </Table>
+
+            <DevicePreferencesDialog
+                device={devices.find(e => e.name === selectedName)}
+                modalRef={dialogRef}
+                isOpen={!!selectedName}
+                onClose={() => {
+                    setSelectedName(undefined);
+                }}
+            />
+
+            <DeviceDetailsDialog
+                device={detailsDevice}
+                providerLabel={providerLabels[detailsDevice?.provider ?? 'fcm']}
+                modalRef={detailsRef}
+                isOpen={!!detailsName}
+                onClose={() => {
+                    setDetailsName(undefined);
+                }}
+            />
+
+            <ConfirmationDialog
+                modalRef={confirmRef}
+                onClose={() => setRevokeName(undefined)}
+                body={
+                    `Are you sure you want to revoke "${revokeName}"?<br /><br />` +
+                    'The device will stop receiving notifications, and will be disconnected from the server ' +
+                    'until it registers again.'
+                }
+                onAccept={() => {
+                    if (revokeName) dispatch(remove(revokeName));
+                }}
+                isOpen={!!revokeName}
+            />
+        </Box>
     );
 };
@@ -14,7 +14,7 @@ import {
 import { AiOutlineCheck } from 'react-icons/ai';
 import { MdErrorOutline } from 'react-icons/md';
 import { IoIosTimer } from 'react-icons/io';
-import { VscDebugStart } from 'react-icons/vsc';
+import { VscDebugStart, VscDebugStepOver } from 'react-icons/vsc';
 import { IconType } from 'react-icons';
 import { BsTrash } from 'react-icons/bs';
 import { intervalTypeToLabel } from 'app/constants';
@@ -25,19 +25,33 @@ export interface ScheduledMessageItem {
     type: string,
     payload: {
         chatGuid: string,
-        message: string,
-        method: string,
+        message?: string,
+        method?: string,
         selectedMessageGuid?: string,
         effectId?: string,
         subject?: string,
         attributedBody?: NodeJS.Dict<any>,
-        partIndex?: number
+        partIndex?: number,
+        attachment?: string,
+        name?: string,
+        parts?: NodeJS.Dict<any>[],
+        reaction?: string,
+        displayName?: string
     },
-    scheduledFor: number;
+    scheduledFor: number | null;
     schedule: {
         type: string,
         interval?: number,
-        intervalType?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+        intervalType?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly',
+        expression?: string,
+        timeZone?: string,
+        endDate?: number,
+        maxOccurrences?: number,
+        occurrences?: number,
+        skipIf?: {
+            type: 'message-from-me-within',
+            hours: number
+        }
     },
     error?: string,
     status?: string,
@@ -61,10 +75,37 @@ const statusMap: {[key: string]: { icon: IconType, label: string }} = {
     complete: {
         icon: AiOutlineCheck,
         label: 'Complete'
+    },
+    skipped: {
+        icon: VscDebugStepOver,
+        label: 'Skipped'
     }
 };
 
 
+/**
+ * Gets a short description of what a scheduled message will do
+ *
+ * @param item - The scheduled message
+ */
+const getActionText = (item: ScheduledMessageItem): string => {
+    const { payload } = item;
+    switch (item.type) {
+        case 'send-attachment':
+            return `Attachment: ${payload.name}`;
+        case 'send-multipart':
+            return (payload.parts ?? []).map(part => part.text ?? `Attachment: ${part.name}`).join(' | ');
+        case 'send-reaction':
+            return `Reaction: ${payload.reaction}`;
+        case 'rename-group':
+            return `Rename to "${payload.displayName}"`;
+        case 'mark-chat-read':
+            return 'Mark as read';
+        default:
+            return payload.message ?? '';
+    }
+};
+
 export const ScheduledMessagesTable = ({
     messages,
     onDelete
@@ -96,13 +137,25 @@ export const ScheduledMessagesTable = ({
                             label = `Sent at ${sentDate.toLocaleString()}`;
                         }
 
-                        const date = new Date(item.scheduledFor);
-                        let freq = '';
+                        const date = new Date(item.scheduledFor ?? 0);
+                        const freqParts: string[] = [];
                         if (item.schedule.type === 'recurring') {
-                            freq = `Every ${item.schedule.interval} ${intervalTypeToLabel[item.schedule.intervalType as string]}`;
+                            freqParts.push(`Every ${item.schedule.interval} ${intervalTypeToLabel[item.schedule.intervalType as string]}`);
+                        } else if (item.schedule.type === 'cron') {
+                            freqParts.push(`Cron: ${item.schedule.expression}`);
+                        }
+
+                        if (item.schedule.timeZone) freqParts.push(`Time Zone: ${item.schedule.timeZone}`);
+                        if (item.schedule.maxOccurrences) {
+                            freqParts.push(`${item.schedule.occurrences ?? 0} of ${item.schedule.maxOccurrences} occurrences`);
+                        }
+                        if (item.schedule.endDate) freqParts.push(`Until ${new Date(item.schedule.endDate).toLocaleString()}`);
+                        if (item.schedule.skipIf) {
+                            freqParts.push(`Skipped if I've sent a message in the last ${item.schedule.skipIf.hours} hour(s)`);
                         }
 
-                        const chatText = `Sending to ${item.payload.chatGuid}`;
+                        const freq = freqParts.join('; ');
+                        const chatText = `Chat: ${item.payload.chatGuid}`;
                         return (
                             <Tr key={item.id}>
                                 <Td alignContent='left'>
@@ -117,7 +170,7 @@ export const ScheduledMessagesTable = ({
                                 </Td>
                                 <Td>
                                     <Tooltip label={chatText} hasArrow aria-label={chatText.toLowerCase()}>
-                                        <Text>{item.payload.message}</Text>
+                                        <Text>{getActionText(item)}</Text>
                                     </Tooltip>
                                 </Td>
                                 <Td><Text>{date.toLocaleString()}</Text></Td>
@@ -15,16 +15,20 @@ import {
 } from '@chakra-ui/react';
 import { FiTrash } from 'react-icons/fi';
 import { AiOutlineEdit } from 'react-icons/ai';
+import { BiHistory } from 'react-icons/bi';
 import { remove, WebhookItem } from '../../slices/WebhooksSlice';
 import { useAppDispatch } from '../../hooks';
 import { webhookEventValueToLabel } from '../../utils/GenericUtils';
 import { AddWebhookDialog } from '../modals/AddWebhookDialog';
+import { WebhookDeliveriesDialog } from '../modals/WebhookDeliveriesDialog';
 
 
 export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): JSX.Element => {
     const dispatch = useAppDispatch();
     const dialogRef = useRef(null);
     const [selectedId, setSelectedId] = useState(undefined as number | undefined);
+    const deliveriesRef = useRef(null);
+    const [deliveriesId, setDeliveriesId] = useState(undefined as number | undefined);
     return (
         <Box>
             <Table variant="striped" colorScheme="blue">
@@ -42,7 +46,14 @@ export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): J
                             <Td>{item.url}</Td>
                             <Td>{JSON.parse(item.events).map((e: string) => webhookEventValueToLabel(e)).join(', ')}</Td>
                             <Td isNumeric>
-                                <Grid templateColumns="repeat(2, 1fr)">
+                                <Grid templateColumns="repeat(3, 1fr)">
+                                    <Tooltip label='Deliveries' placement='bottom'>
+                                        <GridItem _hover={{ cursor: 'pointer' }} onClick={() => setDeliveriesId(item.id)}>
+                                            <Icon as={BiHistory} />
+                                        </GridItem>
+                                    </Tooltip>
+
+
                                     <Tooltip label='Edit' placement='bottom'>
                                         <GridItem _hover={{ cursor: 'pointer' }} onClick={() => setSelectedId(item.id)}>
                                             <Icon as={AiOutlineEdit} />
@@ -69,6 +80,15 @@ export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): J
                     setSelectedId(undefined);
                 }}
             />
+
+            <WebhookDeliveriesDialog
+                webhook={webhooks.find(e => e.id === deliveriesId)}
+                modalRef={deliveriesRef}
+                isOpen={!!deliveriesId}
+                onClose={() => {
+                    setDeliveriesId(undefined);
+                }}
+            />
         </Box>
     );
 };
@@ -15,6 +15,10 @@ export const webhookEventOptions = [
         label: 'Message Send Errors',
         value: 'message-send-error'
     },
+    {
+        label: 'Queued Message Send Errors',
+        value: 'queued-message-error'
+    },
     {
         label: 'Group Name Changes',
         value: 'group-name-change'
@@ -71,6 +75,10 @@ export const webhookEventOptions = [
         label: 'FaceTime Call Status Changed (Experimental)',
         value: 'ft-call-status-changed'
     },
+    {
+        label: 'FaceTime Call Missed',
+        value: 'facetime-call-missed'
+    },
     {
         label: 'iMessage Alias Removed',
         value: 'imessage-alias-removed'
@@ -98,6 +106,14 @@ export const webhookEventOptions = [
     {
         label: 'Settings Backup Deleted',
         value: 'settings-backup-deleted'
+    },
+    {
+        label: 'Find My Geofence Entered',
+        value: 'findmy-geofence-enter'
+    },
+    {
+        label: 'Find My Geofence Exited',
+        value: 'findmy-geofence-exit'
     }
 ];
 
@@ -105,6 +121,14 @@ export const scheduledMessageTypeOptions = [
     {
         label: 'Send Message',
         value: 'send-message'
+    },
+    {
+        label: 'Rename Group',
+        value: 'rename-group'
+    },
+    {
+        label: 'Mark Chat Read',
+        value: 'mark-chat-read'
     }
 ];
 
@@ -116,6 +140,10 @@ export const scheduleTypeOptions = [
     {
         label: 'Recurring',
         value: 'recurring'
+    },
+    {
+        label: 'Cron Expression',
+        value: 'cron'
     }
 ];
 
@@ -148,4 +176,39 @@ export const intervalTypeToLabel: Record<string, string> = {
     'weekly': 'Week(s)',
     'monthly': 'Month(s)',
     'yearly': 'Year(s)'
-};
\ No newline at end of file
+};
+export const apiTokenScopeOptions = [
+    {
+        label: 'Read Messages',
+        value: 'read-messages'
+    },
+    {
+        label: 'Send Messages',
+        value: 'send-messages'
+    },
+    {
+        label: 'Manage Chats',
+        value: 'manage-chats'
+    },
+    {
+        label: 'Private API',
+        value: 'private-api'
+    },
+    {
+        label: 'Server Admin',
+        value: 'server-admin'
+    },
+    {
+        label: 'Find My',
+        value: 'findmy'
+    }
+];
+
+export const apiTokenScopeToLabel: Record<string, string> = {
+    'read-messages': 'Read Messages',
+    'send-messages': 'Send Messages',
+    'manage-chats': 'Manage Chats',
+    'private-api': 'Private API',
+    'server-admin': 'Server Admin',
+    'findmy': 'Find My'
+};
@@ -1,4 +1,4 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Box, Divider, Flex, LinkBox, Spacer, Stack, Text, useBoolean } from '@chakra-ui/react';
 import {
     Menu,
@@ -20,13 +20,53 @@ import { BsChevronDown } from 'react-icons/bs';
 import { AiOutlineInfoCircle, AiOutlinePlus } from 'react-icons/ai';
 import { WebhooksTable } from '../../components/tables/WebhooksTable';
 import { AddWebhookDialog } from '../../components/modals/AddWebhookDialog';
+import { ApiTokenItem, ApiTokensTable } from '../../components/tables/ApiTokensTable';
+import { AddApiTokenDialog } from '../../components/modals/AddApiTokenDialog';
 import { useAppSelector } from '../../hooks';
+import { createApiToken, deleteApiToken, getApiTokens } from '../../utils/IpcUtils';
+import { showErrorToast, showSuccessToast } from '../../utils/ToastUtils';
 
 
 export const ApiLayout = (): JSX.Element => {
     const dialogRef = useRef(null);
     const [dialogOpen, setDialogOpen] = useBoolean();
     const webhooks = useAppSelector(state => state.webhookStore.webhooks);
+    const tokenDialogRef = useRef(null);
+    const [tokenDialogOpen, setTokenDialogOpen] = useBoolean();
+    const [tokens, setTokens] = useState([] as Array<ApiTokenItem>);
+
+    const loadTokens = () => {
+        getApiTokens().then((items: Array<ApiTokenItem>) => {
+            setTokens(items);
+        }).catch(() => {
+            // Do nothing
+        });
+    };
+
+    useEffect(() => {
+        loadTokens();
+    }, []);
+
+    const onCreateToken = async (name: string, scopes: Array<string>): Promise<string | null> => {
+        try {
+            const res = await createApiToken({ name, scopes });
+            loadTokens();
+            return res.token;
+        } catch (ex: any) {
+            showErrorToast({ description: `Failed to create API token! ${ex?.message}` });
+            return null;
+        }
+    };
+
+    const onDeleteToken = async (id: number) => {
+        try {
+            await deleteApiToken(id);
+            setTokens(tokens.filter(e => e.id !== id));
+            showSuccessToast({ id: 'apiTokens', description: 'Successfully revoked API token!' });
+        } catch (ex: any) {
+            showErrorToast({ description: `Failed to revoke API token! ${ex?.message}` });
+        }
+    };
 
     return (
         <Box p={3} borderRadius={10}>
@@ -74,6 +114,50 @@ export const ApiLayout = (): JSX.Element => {
                     </LinkBox>
                     
                 </Stack>
+                <Stack direction='column' p={5}>
+                    <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
+                        <Text fontSize='2xl'>API Tokens</Text>
+                        <Popover trigger='hover'>
+                            <PopoverTrigger>
+                                <Box ml={2} _hover={{ color: 'brand.primary', cursor: 'pointer' }}>
+                                    <AiOutlineInfoCircle />
+                                </Box>
+                            </PopoverTrigger>
+                            <PopoverContent>
+                                <PopoverArrow />
+                                <PopoverCloseButton />
+                                <PopoverHeader>Information</PopoverHeader>
+                                <PopoverBody>
+                                    <Text>
+                                        API tokens let you give integrations access to the API without sharing your
+                                        server password. Pass the token as a Bearer token in the Authorization header,
+                                        or as the password query param. Revoking a token disconnects any clients using it.
+                                    </Text>
+                                </PopoverBody>
+                            </PopoverContent>
+                        </Popover>
+                    </Flex>
+                    <Divider orientation='horizontal' />
+                    <Spacer />
+                    <Box>
+                        <Menu>
+                            <MenuButton
+                                as={Button}
+                                rightIcon={<BsChevronDown />}
+                                width="12em"
+                            >
+                                Manage
+                            </MenuButton>
+                            <MenuList>
+                                <MenuItem icon={<AiOutlinePlus />} onClick={setTokenDialogOpen.on}>
+                                    Create API Token
+                                </MenuItem>
+                            </MenuList>
+                        </Menu>
+                    </Box>
+                    <Spacer />
+                    <ApiTokensTable tokens={tokens} onDelete={onDeleteToken} />
+                </Stack>
                 <Stack direction='column' p={5}>
                     <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
                         <Text fontSize='2xl'>Webhooks</Text>
@@ -91,7 +175,8 @@ export const ApiLayout = (): JSX.Element => {
                                     <Text>
                                         Any webhooks registered here will receive a POST request whenever an iMessage event
                                         occurs. The body of the POST request will be a JSON payload containing the type of
-                                        event and the event data.
+                                        event and the event data. Requests are signed with a per-webhook secret, and failed
+                                        deliveries are retried with an exponential backoff.
                                     </Text>
                                 </PopoverBody>
                             </PopoverContent>
@@ -125,6 +210,13 @@ export const ApiLayout = (): JSX.Element => {
                 isOpen={dialogOpen}
                 onClose={() => setDialogOpen.off()}
             />
+
+            <AddApiTokenDialog
+                modalRef={tokenDialogRef}
+                isOpen={tokenDialogOpen}
+                onCreate={onCreateToken}
+                onClose={() => setTokenDialogOpen.off()}
+            />
         </Box>
     );
 };
\ No newline at end of file
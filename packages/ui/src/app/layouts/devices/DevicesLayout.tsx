@@ -51,7 +51,16 @@ const refreshDevices = (showToast = true) => {
     
         const items: Array<DeviceItem> = [];
         for (const item of devices) {
-            items.push({ id: item.identifier, name: item.name, lastActive: item.last_active });
+            items.push({
+                id: item.identifier,
+                name: item.name,
+                lastActive: item.last_active,
+                provider: item.provider,
+                clientVersion: item.clientVersion,
+                platform: item.platform,
+                lastIp: item.lastIp,
+                preferences: item.preferences
+            });
         }
     
         store.dispatch(addAllDevices(items));
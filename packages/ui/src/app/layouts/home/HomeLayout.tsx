@@ -27,7 +27,19 @@ import './styles.css';
 import { useAppSelector } from '../../hooks';
 import { buildQrData, copyToClipboard } from '../../utils/GenericUtils';
 import { BiCopy } from 'react-icons/bi';
-import { TotalMessagesStatBox, TopGroupStatBox, BestFriendStatBox, DailyMessagesStatBox, TotalPicturesStatBox, TotalVideosStatBox } from 'app/components/stats';
+import {
+    TotalMessagesStatBox,
+    TopGroupStatBox,
+    BestFriendStatBox,
+    DailyMessagesStatBox,
+    TotalPicturesStatBox,
+    TotalVideosStatBox,
+    ResponseTimeStatBox,
+    MessageActivityChart,
+    MessageHeatmapChart,
+    ReactionsChart,
+    AttachmentActivityChart
+} from 'app/components/stats';
 import { TimeframeDropdownField } from 'app/components/fields/TimeframeDropdownField';
 
 
@@ -195,6 +207,13 @@ export const HomeLayout = (): JSX.Element => {
                         <DailyMessagesStatBox delay={600} />
                         <TotalPicturesStatBox delay={800} pastDays={statDays} />
                         <TotalVideosStatBox delay={1000} pastDays={statDays} />
+                        <ResponseTimeStatBox delay={1200} pastDays={statDays} />
+                    </SimpleGrid>
+                    <SimpleGrid columns={2} spacing={5}>
+                        <MessageActivityChart delay={1400} pastDays={statDays} />
+                        <MessageHeatmapChart delay={1600} pastDays={statDays} />
+                        <AttachmentActivityChart delay={1800} pastDays={statDays} />
+                        <ReactionsChart delay={2000} pastDays={statDays} />
                     </SimpleGrid>
                 </Stack>
             </Flex>
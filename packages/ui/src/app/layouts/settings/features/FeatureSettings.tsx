@@ -19,6 +19,9 @@ import { StartViaTerminalField } from '../../../components/fields/StartViaTermin
 import { StartMinimizedField } from '../../../components/fields/StartMinimizedField';
 import { StartDelayField } from 'app/components/fields/StartDelayField';
 import { LandingPageField } from 'app/components/fields/LandingPageField';
+import { OutgoingRateLimitField } from 'app/components/fields/OutgoingRateLimitField';
+import { QueueRetriesField } from 'app/components/fields/QueueRetriesField';
+import { DeviceExpiryField } from 'app/components/fields/DeviceExpiryField';
 
 
 export const FeatureSettings = (): JSX.Element => {
@@ -53,6 +56,16 @@ export const FeatureSettings = (): JSX.Element => {
                                 <StartViaTerminalField />
                                 <Spacer />
                                 <LandingPageField />
+                                <Spacer />
+                                <OutgoingRateLimitField scope='global' />
+                                <Spacer />
+                                <OutgoingRateLimitField scope='chat' />
+                                <Spacer />
+                                <OutgoingRateLimitField scope='token' />
+                                <Spacer />
+                                <QueueRetriesField />
+                                <Spacer />
+                                <DeviceExpiryField />
                             </Stack>
                         </AccordionPanel>
                     </AccordionItem>
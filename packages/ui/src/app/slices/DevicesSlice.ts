@@ -1,11 +1,24 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { clearDevices } from '../utils/IpcUtils';
-import { showSuccessToast } from '../utils/ToastUtils';
+import { clearDevices, revokeDevice } from '../utils/IpcUtils';
+import { showErrorToast, showSuccessToast } from '../utils/ToastUtils';
+
+export interface DevicePreferences {
+    events: Array<string> | null;
+    includeChats: Array<string>;
+    excludeChats: Array<string>;
+    quietHours: { start: string, end: string } | null;
+    mentionsOnly: boolean;
+}
 
 export interface DeviceItem {
     id: string;
     name: string;
     lastActive: Date;
+    provider?: string;
+    clientVersion?: string | null;
+    platform?: string | null;
+    lastIp?: string | null;
+    preferences?: DevicePreferences | null;
 }
 
 interface DevicesState {
@@ -41,6 +54,28 @@ export const DevicesSlice = createSlice({
             if (deviceExists(state, action.payload)) return;
             state.devices.push(action.payload);
         },
+        update: (state, action: PayloadAction<DeviceItem>) => {
+            const index = state.devices.findIndex(e => e.name === action.payload.name);
+            if (index === -1) return;
+            state.devices[index] = action.payload;
+        },
+        remove: (state, action: PayloadAction<string>) => {
+            const index = state.devices.findIndex(e => e.name === action.payload);
+            if (index === -1) return;
+
+            state.devices.splice(index, 1);
+            revokeDevice(action.payload).then(() => {
+                showSuccessToast({
+                    id: 'devices',
+                    description: 'Successfully revoked device!'
+                });
+            }).catch(e => {
+                showErrorToast({
+                    id: 'devices',
+                    description: `Failed to revoke device! Error: ${e?.message ?? String(e)}`
+                });
+            });
+        },
         clear: (state) => {
             state.devices = [];
             clearDevices().then(() => {
@@ -54,6 +89,6 @@ export const DevicesSlice = createSlice({
 });
 
 // Action creators are generated for each case reducer function
-export const { add, addAll, clear } = DevicesSlice.actions;
+export const { add, addAll, update, remove, clear } = DevicesSlice.actions;
 
 export default DevicesSlice.reducer;
\ No newline at end of file
@@ -8,6 +8,7 @@ export interface WebhookItem {
     id: number;
     url: string;
     events: string;
+    secret: string | null;
     created: Date;
 }
 
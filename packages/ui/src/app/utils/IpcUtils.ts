@@ -29,6 +29,14 @@ export const getDevices = async () => {
     return await ipcRenderer.invoke('get-devices');
 };
 
+export const updateDevicePreferences = async (name: string, preferences: NodeJS.Dict<any>) => {
+    return await ipcRenderer.invoke('update-device-preferences', { name, preferences });
+};
+
+export const revokeDevice = async (name: string) => {
+    return await ipcRenderer.invoke('revoke-device', { name });
+};
+
 export const getAlerts = async () => {
     return await ipcRenderer.invoke('get-alerts');
 };
@@ -85,6 +93,26 @@ export const updateWebhook = async ({ id, url, events }: { id: number, url?: str
     return await ipcRenderer.invoke('update-webhook', { id, url, events });
 };
 
+export const getWebhookDeliveries = async (webhookId: number, limit = 50) => {
+    return await ipcRenderer.invoke('get-webhook-deliveries', { webhookId, limit });
+};
+
+export const redeliverWebhook = async (id: number) => {
+    return await ipcRenderer.invoke('redeliver-webhook', { id });
+};
+
+export const getApiTokens = async () => {
+    return await ipcRenderer.invoke('get-api-tokens');
+};
+
+export const createApiToken = async (payload: { name: string, scopes: Array<string> }) => {
+    return await ipcRenderer.invoke('create-api-token', payload);
+};
+
+export const deleteApiToken = async (id: number) => {
+    return await ipcRenderer.invoke('delete-api-token', { id });
+};
+
 export const reinstallHelperBundle = async () => {
     const res = await ipcRenderer.invoke('reinstall-helper-bundle');
     if (res.success) {